@@ -1,14 +1,59 @@
-import { useState, useEffect, useMemo } from 'react'
-import { Drug } from './types/pharmacy'
-import { sampleDrugs } from './data/sampleDrugs'
+import { useState, useEffect, useMemo, useCallback } from 'react'
+import { Drug, PharmacyUser, PurchaseOrder, StockBatch, StockTakeLine, StockTakeScope, SubstitutionSuggestion, Witness } from './types/pharmacy'
+import { useDrugs } from './hooks/use-drugs'
+import { useStaff } from './hooks/use-staff'
+import { useSubstitutionRules } from './hooks/use-substitution-rules'
+import { useInteractions } from './hooks/use-interactions'
+import { usePatients } from './hooks/use-patients'
+import { useSuppliers } from './hooks/use-suppliers'
+import { usePurchaseOrders } from './hooks/use-purchase-orders'
+import { useStockTakes } from './hooks/use-stock-takes'
+import { useRecalls } from './hooks/use-recalls'
+import { useBarcodeWedge } from './hooks/use-barcode-wedge'
 import { DrugCard } from './components/DrugCard'
 import { SubstitutionPanel } from './components/SubstitutionPanel'
 import { SearchBar } from './components/SearchBar'
 import { AddDrugModal } from './components/AddDrugModal'
+import { DrugImportWizard } from './components/DrugImportWizard'
 import { EditDrugModal } from './components/EditDrugModal'
+import { StockHistoryModal } from './components/StockHistoryModal'
+import { ExpiryDashboard } from './components/ExpiryDashboard'
+import { DispenseModal } from './components/DispenseModal'
+import { SubstitutionLogView } from './components/SubstitutionLogView'
+import { StaffSwitcher } from './components/StaffSwitcher'
+import { StaffManagement } from './components/StaffManagement'
+import { SubstitutionRulesManager } from './components/SubstitutionRulesManager'
+import { BarcodeScannerModal } from './components/BarcodeScannerModal'
+import { DispensingBasket } from './components/DispensingBasket'
+import { InteractionTableManager } from './components/InteractionTableManager'
+import { PatientManager } from './components/PatientManager'
+import { SupplierManager } from './components/SupplierManager'
+import { PurchaseOrdersView } from './components/PurchaseOrdersView'
+import { GoodsReceivingModal } from './components/GoodsReceivingModal'
+import { ControlledRegisterView } from './components/ControlledRegisterView'
+import { StockTakeView } from './components/StockTakeView'
+import { RecallsView } from './components/RecallsView'
+import { hasExpiringStock } from './services/expiryAnalysis'
+import { sellableQuantity } from './services/stockBatches'
+import { batchFromScan, findDrugByBarcode, readScannedCode, ScannedCode } from './services/barcodeScanning'
+import { Gs1ParseError } from './services/gs1'
+import { ReorderSuggestion } from './services/reorder'
+import { canDispense, canEditDrug, hasPermission } from './services/permissions'
+import { DispenseRequest, PartialDispenseError } from './services/dispensing'
+import { PartialDrugSaveError } from './services/drugCatalogue'
+import { GoodsDelivery, PartialReceiptError } from './services/goodsReceiving'
+import { StockMovement } from './services/inventoryLedger'
+import { canWitness } from './services/controlledRegister'
+import { findInteractionsWith, interactionAcknowledgements } from './services/interactions'
+import { accountOwner, NewStaffMember, switchError } from './services/staffDirectory'
+import { SubstitutionRuleDraft } from './services/substitutionRules'
+import { PatientDraft } from './services/patients'
+import { drugSupplierNames, SupplierDraft } from './services/suppliers'
+import { RecallDraft } from './services/recalls'
 import { Button } from './components/ui/button'
 import { Badge } from './components/ui/badge'
 import { Card, CardContent, CardHeader, CardTitle } from './components/ui/card'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from './components/ui/tabs'
 import { 
   Pill, 
   Search, 
@@ -17,8 +62,22 @@ import {
   TrendingUp, 
   Package,
   Zap,
-  Activity
+  Activity,
+  CalendarX,
+  Users,
+  GitCompare,
+  ClipboardList,
+  Contact,
+  ShoppingCart,
+  Truck,
+  BookLock,
+  ClipboardCheck,
+  ShieldAlert,
+  FileSpreadsheet,
+  KeyRound
 } from 'lucide-react'
+import toast from 'react-hot-toast'
+import { BlinkUser } from '@blinkdotnew/sdk'
 import { blink } from './blink/client'
 
 interface SearchFilters {
@@ -27,24 +86,123 @@ interface SearchFilters {
   requiresPrescription: boolean | null
   isControlled: boolean | null
   manufacturer: string
+  supplier: string
 }
 
 function App() {
-  const [user, setUser] = useState(null)
+  const [user, setUser] = useState<BlinkUser | null>(null)
   const [loading, setLoading] = useState(true)
-  const [drugs, setDrugs] = useState<Drug[]>(sampleDrugs)
+  const account = useMemo(() => user
+    ? { id: user.id, email: user.email, displayName: user.displayName }
+    : null, [user])
+  const {
+    staff,
+    currentStaff,
+    actor,
+    ownerNeedsPin,
+    loading: staffLoading,
+    error: staffError,
+    switchStaff,
+    signWitness,
+    addStaff,
+    updateStaff,
+    setStaffPin
+  } = useStaff(account)
+  const {
+    drugs,
+    loading: drugsLoading,
+    error: drugsError,
+    addDrug,
+    updateDrug,
+    recordMovement,
+    dispense,
+    receiveDelivery,
+    postStockTake,
+    importDrugs,
+    createRecall,
+    recheckRecall,
+    returnRecalledStock,
+    cancelRecall,
+    getStockHistory,
+    getSubstitutionLog,
+    getControlledRegister
+  } = useDrugs(actor)
+  const {
+    rules,
+    loading: rulesLoading,
+    addRule,
+    updateRule,
+    deleteRule
+  } = useSubstitutionRules(actor)
+  const {
+    interactions,
+    customCount: customInteractionCount,
+    loading: interactionsLoading,
+    loadTable: loadInteractionTable,
+    clearTable: clearInteractionTable
+  } = useInteractions(actor)
+  const {
+    patients,
+    loading: patientsLoading,
+    addPatient,
+    updatePatient,
+    deletePatient
+  } = usePatients(actor)
+  const {
+    suppliers,
+    loading: suppliersLoading,
+    addSupplier,
+    updateSupplier,
+    deleteSupplier
+  } = useSuppliers(actor)
+  const {
+    orders,
+    getSuggestions: getReorderSuggestions,
+    draftOrders,
+    updateDraft,
+    approveOrder,
+    cancelOrder,
+    orderChanged
+  } = usePurchaseOrders(actor)
+  const {
+    stockTakes,
+    startStockTake,
+    saveCounts,
+    recountMoved,
+    cancelStockTake,
+    stockTakeChanged
+  } = useStockTakes(actor)
+  const {
+    recalls,
+    closeRecall,
+    getRecallPatients,
+    recallAdded,
+    recallChanged
+  } = useRecalls(actor)
   const [searchTerm, setSearchTerm] = useState('')
   const [selectedDrug, setSelectedDrug] = useState<Drug | null>(null)
   const [showSubstitutionPanel, setShowSubstitutionPanel] = useState(false)
   const [showAddDrugModal, setShowAddDrugModal] = useState(false)
+  const [showImportWizard, setShowImportWizard] = useState(false)
+  const [newDrugBarcode, setNewDrugBarcode] = useState<string | undefined>()
+  const [scannedBatch, setScannedBatch] = useState<StockBatch | undefined>()
+  const [showBarcodeScanner, setShowBarcodeScanner] = useState(false)
   const [showEditDrugModal, setShowEditDrugModal] = useState(false)
   const [drugToEdit, setDrugToEdit] = useState<Drug | null>(null)
+  const [historyDrug, setHistoryDrug] = useState<Drug | null>(null)
+  const [receivingOrder, setReceivingOrder] = useState<PurchaseOrder | null>(null)
+  const [dispenseDrug, setDispenseDrug] = useState<Drug | null>(null)
+  const [dispenseSubstitution, setDispenseSubstitution] = useState<{ original: Drug, suggestion: SubstitutionSuggestion } | null>(null)
+  const [basketIds, setBasketIds] = useState<string[]>([])
+  const [basketPatientId, setBasketPatientId] = useState('')
+  const [activeView, setActiveView] = useState('inventory')
   const [filters, setFilters] = useState<SearchFilters>({
     category: '',
     stockStatus: '',
     requiresPrescription: null,
     isControlled: null,
-    manufacturer: ''
+    manufacturer: '',
+    supplier: ''
   })
 
   // Auth state management
@@ -72,14 +230,17 @@ function App() {
       // Category filter
       const matchesCategory = !filters.category || drug.category === filters.category
 
-      // Stock status filter
+      // Stock status filter: held, recalled and expired units cannot be sold, so they do not count
+      const sellable = sellableQuantity(drug.batches)
       let matchesStock = true
       if (filters.stockStatus === 'in-stock') {
-        matchesStock = drug.stockLevel > drug.minStockLevel
+        matchesStock = sellable > drug.minStockLevel
       } else if (filters.stockStatus === 'low-stock') {
-        matchesStock = drug.stockLevel > 0 && drug.stockLevel <= drug.minStockLevel
+        matchesStock = sellable > 0 && sellable <= drug.minStockLevel
       } else if (filters.stockStatus === 'out-of-stock') {
-        matchesStock = drug.stockLevel === 0
+        matchesStock = sellable === 0
+      } else if (filters.stockStatus === 'expiring-soon') {
+        matchesStock = hasExpiringStock(drug)
       }
 
       // Prescription filter
@@ -93,10 +254,33 @@ function App() {
       // Manufacturer filter
       const matchesManufacturer = !filters.manufacturer || drug.manufacturer === filters.manufacturer
 
+      // Supplier filter
+      const matchesSupplier = !filters.supplier || drugSupplierNames(drug, suppliers).includes(filters.supplier)
+
       return matchesSearch && matchesCategory && matchesStock && 
-             matchesPrescription && matchesControlled && matchesManufacturer
+             matchesPrescription && matchesControlled && matchesManufacturer && matchesSupplier
     })
-  }, [drugs, searchTerm, filters])
+  }, [drugs, suppliers, searchTerm, filters])
+
+  const basket = useMemo(() =>
+    basketIds
+      .map(id => drugs.find(drug => drug.id === id))
+      .filter((drug): drug is Drug => !!drug),
+    [basketIds, drugs]
+  )
+
+  const basketPatient = useMemo(
+    () => patients.find(patient => patient.id === basketPatientId) ?? null,
+    [patients, basketPatientId]
+  )
+
+  // Interactions with the rest of the basket; a substitute carries its own in its warnings
+  const dispenseInteractionWarnings = useMemo(() =>
+    dispenseDrug && !dispenseSubstitution
+      ? interactionAcknowledgements(findInteractionsWith(dispenseDrug, basket, interactions))
+      : [],
+    [dispenseDrug, dispenseSubstitution, basket, interactions]
+  )
 
   // Get unique values for filters
   const categories = useMemo(() => 
@@ -107,6 +291,18 @@ function App() {
     [...new Set(drugs.map(drug => drug.manufacturer))].sort(), [drugs]
   )
 
+  const witnesses = useMemo(() =>
+    staff.filter(member => canWitness(member) && member.id !== currentStaff?.id), [staff, currentStaff]
+  )
+
+  const loadRecallPatients = useCallback(
+    (id: string) => getRecallPatients(id, drugs), [getRecallPatients, drugs]
+  )
+
+  const supplierNames = useMemo(() =>
+    [...new Set(drugs.flatMap(drug => drugSupplierNames(drug, suppliers)))].sort(), [drugs, suppliers]
+  )
+
   // Count active filters
   const activeFiltersCount = useMemo(() => {
     let count = 0
@@ -115,18 +311,24 @@ function App() {
     if (filters.requiresPrescription !== null) count++
     if (filters.isControlled !== null) count++
     if (filters.manufacturer) count++
+    if (filters.supplier) count++
     return count
   }, [filters])
 
   // Calculate dashboard stats
+  const canViewOrders = hasPermission(actor, 'orders.manage') || hasPermission(actor, 'orders.approve')
+  const canViewRegister = hasPermission(actor, 'controlled.dispense') || hasPermission(actor, 'controlled.manage')
+
   const stats = useMemo(() => {
     const totalDrugs = drugs.length
-    const inStock = drugs.filter(d => d.stockLevel > 0).length
-    const lowStock = drugs.filter(d => d.stockLevel > 0 && d.stockLevel <= d.minStockLevel).length
-    const outOfStock = drugs.filter(d => d.stockLevel === 0).length
+    const sellable = drugs.map(d => ({ drug: d, quantity: sellableQuantity(d.batches) }))
+    const inStock = sellable.filter(({ quantity }) => quantity > 0).length
+    const lowStock = sellable.filter(({ drug, quantity }) => quantity > 0 && quantity <= drug.minStockLevel).length
+    const outOfStock = sellable.filter(({ quantity }) => quantity === 0).length
+    const expiringSoon = drugs.filter(d => hasExpiringStock(d)).length
     const totalValue = drugs.reduce((sum, drug) => sum + (drug.stockLevel * drug.unitPrice), 0)
 
-    return { totalDrugs, inStock, lowStock, outOfStock, totalValue }
+    return { totalDrugs, inStock, lowStock, outOfStock, expiringSoon, totalValue }
   }, [drugs])
 
   const handleDrugClick = (drug: Drug) => {
@@ -134,30 +336,457 @@ function App() {
     setShowSubstitutionPanel(true)
   }
 
-  const handleBarcodeSearch = () => {
-    // Simulate barcode scanning
-    alert('Barcode scanner would open here. For demo, searching for "Panadol"...')
-    setSearchTerm('Panadol')
-  }
+  const handleBarcodeScanned = useCallback((raw: string) => {
+    setShowBarcodeScanner(false)
+
+    let scanned: ScannedCode
+    try {
+      scanned = readScannedCode(raw)
+    } catch (error) {
+      toast.error(error instanceof Gs1ParseError ? `Could not read pack code: ${error.message}` : 'Could not read the scanned code')
+      return
+    }
+
+    const { code, gs1 } = scanned
+    const drug = findDrugByBarcode(drugs, code)
+    if (drug) {
+      const isNewLot = !!gs1?.lot && !drug.batches.some(batch => batch.batchNumber === gs1.lot)
+      if (isNewLot && canEditDrug(actor, drug) && hasPermission(actor, 'stock.adjust')) {
+        setDrugToEdit(drug)
+        setScannedBatch(batchFromScan(gs1, drug.manufacturer))
+        setShowEditDrugModal(true)
+        toast.success(`New batch ${gs1.lot} of ${drug.name}: enter the quantity received`)
+        return
+      }
+
+      setSearchTerm('')
+      setActiveView('inventory')
+      setSelectedDrug(drug)
+      setShowSubstitutionPanel(true)
+      toast.success(gs1?.lot
+        ? `Scanned ${drug.name}, batch ${gs1.lot}${gs1.expiryDate ? ` (expires ${gs1.expiryDate})` : ''}`
+        : `Scanned ${drug.name}`)
+      return
+    }
 
-  const handleSelectSubstitute = (drug: Drug) => {
+    if (!hasPermission(actor, 'drug.create')) {
+      toast.error(`No drug with barcode ${code}`)
+      return
+    }
+
+    toast((t) => (
+      <span className="flex items-center gap-3">
+        No drug with barcode {code}
+        <Button
+          size="sm"
+          onClick={() => {
+            toast.dismiss(t.id)
+            setNewDrugBarcode(code)
+            setScannedBatch(gs1 && (gs1.lot || gs1.expiryDate) ? batchFromScan(gs1) : undefined)
+            setShowAddDrugModal(true)
+          }}
+        >
+          Add new drug with this barcode
+        </Button>
+      </span>
+    ), { duration: 8000 })
+  }, [drugs, actor])
+
+  // The stock-take sheet listens for its own scans
+  useBarcodeWedge(handleBarcodeScanned, {
+    enabled: !!actor && !showAddDrugModal && !showImportWizard && !showEditDrugModal && !receivingOrder && activeView !== 'stocktake'
+  })
+
+  const handleSelectSubstitute = (suggestion: SubstitutionSuggestion) => {
+    if (!canDispense(actor, suggestion.drug)) {
+      toast.error(`You do not have permission to dispense ${suggestion.drug.name}`)
+      return
+    }
     setShowSubstitutionPanel(false)
+    setDispenseSubstitution(selectedDrug ? { original: selectedDrug, suggestion } : null)
     setSelectedDrug(null)
-    // Open edit modal for the selected substitute
-    setDrugToEdit(drug)
-    setShowEditDrugModal(true)
+    setDispenseDrug(suggestion.drug)
+  }
+
+  const handleDispense = async (drug: Drug, request: DispenseRequest) => {
+    const suppliedIds = [drug.id, request.substitution?.original.id]
+    try {
+      const record = await dispense(drug, { ...request, otherItems: basket })
+      setBasketIds(prev => prev.filter(id => !suppliedIds.includes(id)))
+      toast.success(`Dispensed ${record.quantity} x ${drug.name}`)
+      return record
+    } catch (error) {
+      if (!(error instanceof PartialDispenseError)) throw error
+      // The stock has been handed out: never offer to dispense it again
+      setBasketIds(prev => prev.filter(id => !suppliedIds.includes(id)))
+      toast.error(error.message, { duration: 8000 })
+      if (error.record) return error.record
+      setDispenseDrug(null)
+      setDispenseSubstitution(null)
+      throw error
+    }
+  }
+
+  const handleAddToBasket = (drug: Drug) => {
+    if (basketIds.includes(drug.id)) {
+      toast(`${drug.name} is already in the basket`)
+      return
+    }
+
+    const alerts = findInteractionsWith(drug, basket, interactions)
+    setBasketIds(prev => [...prev, drug.id])
+    if (alerts.length > 0) {
+      toast.error(`${drug.name} interacts with ${alerts.map(alert => alert.otherDrug.name).join(', ')}`)
+    } else {
+      toast.success(`Added ${drug.name} to the basket`)
+    }
+  }
+
+  const handleAddDrug = async (newDrug: Drug) => {
+    try {
+      await addDrug(newDrug)
+      toast.success(`Successfully added ${newDrug.name} to inventory!`)
+      return true
+    } catch (error) {
+      const partial = error instanceof PartialDrugSaveError
+      toast.error(error instanceof Error ? error.message : `Could not add ${newDrug.name}`, { duration: partial ? 8000 : undefined })
+      // The drug was created: close the form so it is not added twice
+      return partial
+    }
+  }
+
+  const handleImportDrugs = async (imported: Drug[]) => {
+    try {
+      const saved = await importDrugs(imported)
+      const added = saved.filter(drug => !drugs.some(existing => existing.id === drug.id)).length
+      toast.success(`Imported ${added} new drug${added === 1 ? '' : 's'} and updated ${saved.length - added}`)
+      return true
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Could not import the drugs')
+      return false
+    }
+  }
+
+  const handleUpdateDrug = async (updatedDrug: Drug, stockChangeReason?: string) => {
+    try {
+      await updateDrug(updatedDrug, stockChangeReason)
+      toast.success(`Successfully updated ${updatedDrug.name}!`)
+      return true
+    } catch (error) {
+      const partial = error instanceof PartialDrugSaveError
+      toast.error(error instanceof Error ? error.message : `Could not update ${updatedDrug.name}`, { duration: partial ? 8000 : undefined })
+      // The details were saved: close the form so the stock change is retried against the saved drug
+      return partial
+    }
+  }
+
+  const handleWriteOff = async (drug: Drug, batch: StockBatch) => {
+    try {
+      await recordMovement(drug, {
+        type: 'expire',
+        quantity: batch.quantity,
+        reason: `Expired stock written off (expiry ${batch.expiryDate})`,
+        batchNumber: batch.batchNumber
+      })
+      toast.success(`Wrote off ${batch.quantity} units of ${drug.name}`)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : `Could not write off ${drug.name}`)
+    }
+  }
+
+  const handleControlledEntry = async (drug: Drug, movement: StockMovement) => {
+    try {
+      await recordMovement(drug, movement)
+      toast.success(`${movement.type === 'destroy' ? 'Destruction' : 'Return'} of ${movement.quantity} ${drug.name} entered in the register`)
+      return true
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : `Could not enter ${drug.name} in the register`)
+      return false
+    }
+  }
+
+  const handleSwitchStaff = async (member: PharmacyUser) => {
+    if (member.id === currentStaff?.id) return
+
+    const problem = switchError(staff, member)
+    if (problem) {
+      toast.error(problem)
+      return
+    }
+
+    const pin = window.prompt(`Enter PIN for ${member.name}`)
+    if (pin === null) return
+
+    if (await switchStaff(member.id, pin)) {
+      toast.success(`Signed in as ${member.name}`)
+    } else {
+      toast.error('Incorrect PIN')
+    }
+  }
+
+  const handleAddStaff = async (member: NewStaffMember) => {
+    try {
+      await addStaff(member)
+      toast.success(`Added ${member.name} to staff`)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : `Could not add ${member.name}`)
+    }
+  }
+
+  const handleUpdateStaff = async (id: string, changes: Parameters<typeof updateStaff>[1]) => {
+    try {
+      await updateStaff(id, changes)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Could not update staff member')
+    }
+  }
+
+  const handleSetStaffPin = async (id: string, pin: string) => {
+    try {
+      const updated = await setStaffPin(id, pin)
+      toast.success(pin ? `PIN updated for ${updated.name}` : `PIN removed for ${updated.name}`)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Could not update PIN')
+    }
+  }
+
+  const handleSetOwnerPin = async () => {
+    const owner = accountOwner(staff)
+    if (!owner) return
+    const pin = window.prompt(`Choose a PIN for ${owner.name} (4-8 digits)`)
+    if (pin === null) return
+    if (!/^\d{4,8}$/.test(pin)) {
+      toast.error('PIN must be 4 to 8 digits')
+      return
+    }
+    await handleSetStaffPin(owner.id, pin)
+  }
+
+  const handleAddRule = async (draft: SubstitutionRuleDraft) => {
+    try {
+      await addRule(draft)
+      toast.success(`Added substitution rule for ${draft.activeMolecule}`)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Could not add substitution rule')
+    }
+  }
+
+  const handleUpdateRule = async (id: string, changes: { isActive: boolean }) => {
+    try {
+      await updateRule(id, changes)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Could not update substitution rule')
+    }
+  }
+
+  const handleDeleteRule = async (id: string) => {
+    try {
+      await deleteRule(id)
+      toast.success('Substitution rule deleted')
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Could not delete substitution rule')
+    }
+  }
+
+  const handleLoadInteractionTable = async (text: string) => {
+    try {
+      const entries = await loadInteractionTable(text)
+      toast.success(`Loaded ${entries.length} interactions`)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Could not load the interaction table')
+    }
+  }
+
+  const handleClearInteractionTable = async () => {
+    try {
+      await clearInteractionTable()
+      toast.success('Restored the bundled interaction table')
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Could not reset the interaction table')
+    }
+  }
+
+  const handleAddPatient = async (draft: PatientDraft) => {
+    try {
+      await addPatient(draft)
+      toast.success(`Added patient ${draft.name}`)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : `Could not add ${draft.name}`)
+    }
+  }
+
+  const handleUpdatePatient = async (id: string, draft: PatientDraft) => {
+    try {
+      await updatePatient(id, draft)
+      toast.success(`Updated patient ${draft.name}`)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : `Could not update ${draft.name}`)
+    }
+  }
+
+  const handleDeletePatient = async (id: string) => {
+    try {
+      await deletePatient(id)
+      if (basketPatientId === id) setBasketPatientId('')
+      toast.success('Patient profile deleted')
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Could not delete patient profile')
+    }
+  }
+
+  const handleAddSupplier = async (draft: SupplierDraft) => {
+    try {
+      await addSupplier(draft)
+      toast.success(`Added ${draft.name.trim()} to the supplier directory`)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : `Could not add ${draft.name}`)
+    }
+  }
+
+  const handleUpdateSupplier = async (id: string, draft: SupplierDraft) => {
+    try {
+      await updateSupplier(id, draft)
+      toast.success(`Updated ${draft.name.trim()}`)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : `Could not update ${draft.name}`)
+    }
+  }
+
+  const handleDeleteSupplier = async (id: string) => {
+    try {
+      await deleteSupplier(id)
+      if (filters.supplier && !suppliers.some(supplier => supplier.id !== id && supplier.name === filters.supplier)) {
+        setFilters(prev => ({ ...prev, supplier: '' }))
+      }
+      toast.success('Supplier removed')
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Could not remove supplier')
+    }
+  }
+
+  const handleDraftOrders = async (suggestions: ReorderSuggestion[]) => {
+    try {
+      const created = await draftOrders(suggestions)
+      toast.success(`Created ${created.length} draft order${created.length > 1 ? 's' : ''}`)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Could not create purchase orders')
+    }
+  }
+
+  const handleUpdateDraft = async (id: string, changes: Pick<PurchaseOrder, 'lines' | 'notes'>) => {
+    try {
+      const updated = await updateDraft(id, changes)
+      toast.success(`Saved ${updated.reference}`)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Could not save the purchase order')
+    }
+  }
+
+  const handleApproveOrder = async (id: string) => {
+    try {
+      const approved = await approveOrder(id)
+      toast.success(`Approved ${approved.reference}`)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Could not approve the purchase order')
+    }
+  }
+
+  const handleCancelOrder = async (id: string) => {
+    try {
+      const cancelled = await cancelOrder(id)
+      toast.success(`Cancelled ${cancelled.reference}`)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Could not cancel the purchase order')
+    }
+  }
+
+  const handleReceiveDelivery = async (orderId: string, delivery: GoodsDelivery) => {
+    try {
+      const { order, receipt } = await receiveDelivery(orderId, delivery)
+      orderChanged(order)
+      setReceivingOrder(null)
+
+      const received = receipt.lines.reduce((sum, line) => sum + line.quantity, 0)
+      const summary = `Received ${received} units on ${order.reference}${order.status === 'partially_received' ? '; the rest stays on order' : ''}`
+      if (receipt.discrepancies.length > 0) toast(`${summary}. Discrepancies: ${receipt.discrepancies.join('; ')}`, { icon: '⚠️', duration: 8000 })
+      else toast.success(summary)
+    } catch (error) {
+      if (!(error instanceof PartialReceiptError)) throw error
+      // Part of the delivery is booked: close the form so the rest is received against the updated order
+      orderChanged(error.order)
+      setReceivingOrder(null)
+      toast.error(error.message, { duration: 8000 })
+    }
+  }
+
+  const handleStartStockTake = async (scope: StockTakeScope) => {
+    try {
+      const created = await startStockTake(scope, drugs)
+      toast.success(`Started ${created.reference} with ${created.lines.length} lines to count`)
+      return created
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Could not start the stock-take')
+      return null
+    }
+  }
+
+  const handleSaveCounts = async (id: string, lines: StockTakeLine[], notes: string) => {
+    try {
+      const saved = await saveCounts(id, lines, notes)
+      toast.success(`Saved counts on ${saved.reference}`)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Could not save the counts')
+    }
+  }
+
+  const handleRecountMoved = async (id: string, lines: StockTakeLine[], notes: string) => {
+    await saveCounts(id, lines, notes)
+    const updated = await recountMoved(id, drugs)
+    toast(`Count the moved lines on ${updated.reference} again`, { icon: '🔁' })
+  }
+
+  const handleCancelStockTake = async (id: string) => {
+    const cancelled = await cancelStockTake(id)
+    toast.success(`Cancelled ${cancelled.reference}`)
+  }
+
+  const handlePostStockTake = async (id: string, lines: StockTakeLine[], notes: string, witness?: Witness) => {
+    await saveCounts(id, lines, notes)
+    const posted = await postStockTake(id, witness)
+    stockTakeChanged(posted)
+
+    const adjusted = posted.lines.filter(line => line.transactionIds).length
+    toast.success(adjusted > 0 ? `Posted ${adjusted} adjustment${adjusted > 1 ? 's' : ''} from ${posted.reference}` : `Closed ${posted.reference}`)
+  }
+
+  const handleCreateRecall = async (draft: RecallDraft) => {
+    const { recall, quarantined } = await createRecall(draft)
+    recallAdded(recall)
+    if (quarantined > 0) toast.success(`Quarantined stock of ${quarantined} drug${quarantined > 1 ? 's' : ''} under ${recall.reference}`)
+    else toast(`Saved ${recall.reference}; no matching stock is on hand`, { icon: 'ℹ️' })
+    return recall
+  }
+
+  const handleRecheckRecall = async (id: string) => {
+    const quarantined = await recheckRecall(id)
+    toast.success(`Quarantined stock of ${quarantined} more drug${quarantined === 1 ? '' : 's'}`)
+  }
+
+  const handleReturnRecalledStock = async (id: string, drugId: string, batchNumber: string, witness?: Witness) => {
+    const recall = await returnRecalledStock(id, drugId, batchNumber, witness)
+    recallChanged(recall)
+    toast.success(`Returned batch ${batchNumber} to the supplier under ${recall.reference}`)
   }
 
-  const handleAddDrug = (newDrug: Drug) => {
-    setDrugs(prev => [...prev, newDrug])
-    alert(`Successfully added ${newDrug.name} to inventory!`)
+  const handleCloseRecall = async (id: string) => {
+    const closed = await closeRecall(id, drugs)
+    toast.success(`Closed ${closed.reference}`)
   }
 
-  const handleUpdateDrug = (updatedDrug: Drug) => {
-    setDrugs(prev => prev.map(drug => 
-      drug.id === updatedDrug.id ? updatedDrug : drug
-    ))
-    alert(`Successfully updated ${updatedDrug.name}!`)
+  const handleCancelRecall = async (id: string) => {
+    const cancelled = await cancelRecall(id)
+    recallChanged(cancelled)
+    toast.success(`Cancelled ${cancelled.reference}; its stock is back on sale`)
   }
 
   const handleEditDrug = (drug: Drug) => {
@@ -165,7 +794,7 @@ function App() {
     setShowEditDrugModal(true)
   }
 
-  if (loading) {
+  if (loading || (user && (staffLoading || drugsLoading || rulesLoading || interactionsLoading || patientsLoading || suppliersLoading))) {
     return (
       <div className="min-h-screen bg-slate-50 flex items-center justify-center">
         <div className="text-center">
@@ -215,6 +844,11 @@ function App() {
                 <Activity className="h-3 w-3 mr-1" />
                 Online
               </Badge>
+              <StaffSwitcher
+                staff={staff}
+                currentStaff={currentStaff}
+                onSwitch={handleSwitchStaff}
+              />
               <Button
                 variant="ghost"
                 onClick={() => blink.auth.logout()}
@@ -228,8 +862,50 @@ function App() {
       </header>
 
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {staffError && (
+          <div className="mb-8 bg-red-50 border border-red-200 rounded-lg p-4">
+            <div className="flex items-center gap-3">
+              <AlertTriangle className="h-5 w-5 text-red-600" />
+              <div>
+                <h4 className="font-medium text-red-800">Staff profiles could not be loaded</h4>
+                <p className="text-red-700 text-sm">{staffError}</p>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {ownerNeedsPin && (
+          <div className="mb-8 bg-yellow-50 border border-yellow-200 rounded-lg p-4">
+            <div className="flex items-center gap-3">
+              <KeyRound className="h-5 w-5 text-yellow-600" />
+              <div className="flex-1">
+                <h4 className="font-medium text-yellow-800">Set a PIN for the account owner</h4>
+                <p className="text-yellow-700 text-sm">
+                  Other staff profiles cannot be added or used until the account owner has a PIN.
+                </p>
+              </div>
+              <Button variant="outline" size="sm" onClick={handleSetOwnerPin} className="flex items-center gap-2">
+                <KeyRound className="h-4 w-4" />
+                Set PIN
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {drugsError && (
+          <div className="mb-8 bg-red-50 border border-red-200 rounded-lg p-4">
+            <div className="flex items-center gap-3">
+              <AlertTriangle className="h-5 w-5 text-red-600" />
+              <div>
+                <h4 className="font-medium text-red-800">Inventory could not be loaded</h4>
+                <p className="text-red-700 text-sm">{drugsError}</p>
+              </div>
+            </div>
+          </div>
+        )}
+
         {/* Dashboard Stats */}
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-6 mb-8">
+        <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-6 gap-6 mb-8">
           <Card>
             <CardHeader className="pb-2">
               <CardTitle className="text-sm font-medium text-gray-600">Total Drugs</CardTitle>
@@ -266,6 +942,15 @@ function App() {
             </CardContent>
           </Card>
 
+          <Card className="cursor-pointer hover:shadow-md transition-all" onClick={() => setActiveView('expiry')}>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-sm font-medium text-gray-600">Expiring Soon</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold text-orange-600">{stats.expiringSoon}</div>
+            </CardContent>
+          </Card>
+
           <Card>
             <CardHeader className="pb-2">
               <CardTitle className="text-sm font-medium text-gray-600">Total Value</CardTitle>
@@ -278,114 +963,362 @@ function App() {
           </Card>
         </div>
 
-        {/* Search and Actions */}
-        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 mb-8">
-          <div className="flex items-center justify-between mb-6">
-            <div>
-              <h2 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
-                <Search className="h-5 w-5 text-sky-600" />
-                Drug Search & Substitution
-              </h2>
-              <p className="text-gray-600 text-sm mt-1">
-                Search for medications and find intelligent substitutes
-              </p>
+        <Tabs value={activeView} onValueChange={setActiveView}>
+          <TabsList className="mb-6">
+            <TabsTrigger value="inventory" className="flex items-center gap-2">
+              <Package className="h-4 w-4" />
+              Inventory
+            </TabsTrigger>
+            <TabsTrigger value="expiry" className="flex items-center gap-2">
+              <CalendarX className="h-4 w-4" />
+              Expiry
+            </TabsTrigger>
+            {hasPermission(actor, 'dispense.prescription') && (
+              <TabsTrigger value="substitutions" className="flex items-center gap-2">
+                <ClipboardList className="h-4 w-4" />
+                Substitutions
+              </TabsTrigger>
+            )}
+            {hasPermission(actor, 'dispense.prescription') && (
+              <TabsTrigger value="patients" className="flex items-center gap-2">
+                <Contact className="h-4 w-4" />
+                Patients
+              </TabsTrigger>
+            )}
+            {hasPermission(actor, 'rules.manage') && (
+              <TabsTrigger value="rules" className="flex items-center gap-2">
+                <GitCompare className="h-4 w-4" />
+                Rules
+              </TabsTrigger>
+            )}
+            {canViewOrders && (
+              <TabsTrigger value="orders" className="flex items-center gap-2">
+                <ShoppingCart className="h-4 w-4" />
+                Orders
+              </TabsTrigger>
+            )}
+            {canViewOrders && (
+              <TabsTrigger value="suppliers" className="flex items-center gap-2">
+                <Truck className="h-4 w-4" />
+                Suppliers
+              </TabsTrigger>
+            )}
+            {hasPermission(actor, 'stock.count') && (
+              <TabsTrigger value="stocktake" className="flex items-center gap-2">
+                <ClipboardCheck className="h-4 w-4" />
+                Stock-take
+              </TabsTrigger>
+            )}
+            {hasPermission(actor, 'stock.adjust') && (
+              <TabsTrigger value="recalls" className="flex items-center gap-2">
+                <ShieldAlert className="h-4 w-4" />
+                Recalls
+              </TabsTrigger>
+            )}
+            {canViewRegister && (
+              <TabsTrigger value="register" className="flex items-center gap-2">
+                <BookLock className="h-4 w-4" />
+                CD Register
+              </TabsTrigger>
+            )}
+            {hasPermission(actor, 'users.manage') && (
+              <TabsTrigger value="staff" className="flex items-center gap-2">
+                <Users className="h-4 w-4" />
+                Staff
+              </TabsTrigger>
+            )}
+          </TabsList>
+
+          <TabsContent value="inventory">
+            <DispensingBasket
+              items={basket}
+              interactions={interactions}
+              patients={patients}
+              patientId={basketPatientId}
+              onPatientChange={setBasketPatientId}
+              canDispense={(drug) => canDispense(actor, drug)}
+              onDispense={setDispenseDrug}
+              onFindSubstitutes={handleDrugClick}
+              onRemove={(drug) => setBasketIds(prev => prev.filter(id => id !== drug.id))}
+              onClear={() => {
+                setBasketIds([])
+                setBasketPatientId('')
+              }}
+            />
+
+            {/* Search and Actions */}
+            <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 mb-8">
+              <div className="flex items-center justify-between mb-6">
+                <div>
+                  <h2 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+                    <Search className="h-5 w-5 text-sky-600" />
+                    Drug Search & Substitution
+                  </h2>
+                  <p className="text-gray-600 text-sm mt-1">
+                    Search for medications and find intelligent substitutes
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  {(hasPermission(actor, 'drug.create') || hasPermission(actor, 'drug.edit')) && (
+                    <Button
+                      variant="outline"
+                      className="flex items-center gap-2"
+                      onClick={() => setShowImportWizard(true)}
+                    >
+                      <FileSpreadsheet className="h-4 w-4" />
+                      Import
+                    </Button>
+                  )}
+                  {hasPermission(actor, 'drug.create') && (
+                    <Button 
+                      className="flex items-center gap-2"
+                      onClick={() => setShowAddDrugModal(true)}
+                    >
+                      <Plus className="h-4 w-4" />
+                      Add New Drug
+                    </Button>
+                  )}
+                </div>
+              </div>
+
+              <SearchBar
+                searchTerm={searchTerm}
+                onSearchChange={setSearchTerm}
+                filters={filters}
+                onFiltersChange={setFilters}
+                onBarcodeSearch={() => setShowBarcodeScanner(true)}
+                onScannedCode={handleBarcodeScanned}
+                categories={categories}
+                manufacturers={manufacturers}
+                suppliers={supplierNames}
+                activeFiltersCount={activeFiltersCount}
+              />
             </div>
-            <Button 
-              className="flex items-center gap-2"
-              onClick={() => setShowAddDrugModal(true)}
-            >
-              <Plus className="h-4 w-4" />
-              Add New Drug
-            </Button>
-          </div>
 
-          <SearchBar
-            searchTerm={searchTerm}
-            onSearchChange={setSearchTerm}
-            filters={filters}
-            onFiltersChange={setFilters}
-            onBarcodeSearch={handleBarcodeSearch}
-            categories={categories}
-            manufacturers={manufacturers}
-            activeFiltersCount={activeFiltersCount}
-          />
-        </div>
+            {/* Results */}
+            <div className="space-y-6">
+              {/* Results Header */}
+              <div className="flex items-center justify-between">
+                <div>
+                  <h3 className="text-lg font-semibold text-gray-900">
+                    Search Results ({filteredDrugs.length})
+                  </h3>
+                  {searchTerm && (
+                    <p className="text-sm text-gray-600 mt-1">
+                      Showing results for "{searchTerm}"
+                    </p>
+                  )}
+                </div>
+                {filteredDrugs.length > 0 && (
+                  <div className="flex items-center gap-2 text-sm text-gray-600">
+                    <Zap className="h-4 w-4 text-sky-600" />
+                    Click any drug to find substitutes
+                  </div>
+                )}
+              </div>
 
-        {/* Results */}
-        <div className="space-y-6">
-          {/* Results Header */}
-          <div className="flex items-center justify-between">
-            <div>
-              <h3 className="text-lg font-semibold text-gray-900">
-                Search Results ({filteredDrugs.length})
-              </h3>
-              {searchTerm && (
-                <p className="text-sm text-gray-600 mt-1">
-                  Showing results for "{searchTerm}"
-                </p>
+              {/* Drug Grid */}
+              {filteredDrugs.length === 0 ? (
+                <div className="text-center py-12 bg-white rounded-lg border border-gray-200">
+                  <Search className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+                  <h4 className="text-lg font-medium text-gray-900 mb-2">No drugs found</h4>
+                  <p className="text-gray-600 mb-4">
+                    Try adjusting your search terms or filters
+                  </p>
+                  <Button 
+                    variant="outline" 
+                    onClick={() => {
+                      setSearchTerm('')
+                      setFilters({
+                        category: '',
+                        stockStatus: '',
+                        requiresPrescription: null,
+                        isControlled: null,
+                        manufacturer: '',
+                        supplier: ''
+                      })
+                    }}
+                  >
+                    Clear Search
+                  </Button>
+                </div>
+              ) : (
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                  {filteredDrugs.map((drug) => (
+                    <DrugCard
+                      key={drug.id}
+                      drug={drug}
+                      onClick={() => handleDrugClick(drug)}
+                      onEdit={canEditDrug(actor, drug) ? () => handleEditDrug(drug) : undefined}
+                      onViewHistory={() => setHistoryDrug(drug)}
+                      onDispense={canDispense(actor, drug) ? () => setDispenseDrug(drug) : undefined}
+                      onAddToBasket={canDispense(actor, drug) ? () => handleAddToBasket(drug) : undefined}
+                    />
+                  ))}
+                </div>
               )}
             </div>
-            {filteredDrugs.length > 0 && (
-              <div className="flex items-center gap-2 text-sm text-gray-600">
-                <Zap className="h-4 w-4 text-sky-600" />
-                Click any drug to find substitutes
+
+            {/* Low Stock Alert */}
+            {stats.lowStock > 0 && (
+              <div className="mt-8 bg-yellow-50 border border-yellow-200 rounded-lg p-4">
+                <div className="flex items-center gap-3">
+                  <AlertTriangle className="h-5 w-5 text-yellow-600" />
+                  <div className="flex-1">
+                    <h4 className="font-medium text-yellow-800">Low Stock Alert</h4>
+                    <p className="text-yellow-700 text-sm">
+                      {stats.lowStock} item{stats.lowStock > 1 ? 's' : ''} running low on stock.
+                    </p>
+                  </div>
+                  {canViewOrders && (
+                    <Button variant="outline" size="sm" onClick={() => setActiveView('orders')} className="flex items-center gap-2">
+                      <ShoppingCart className="h-4 w-4" />
+                      Review Reorder Suggestions
+                    </Button>
+                  )}
+                </div>
               </div>
             )}
-          </div>
+          </TabsContent>
 
-          {/* Drug Grid */}
-          {filteredDrugs.length === 0 ? (
-            <div className="text-center py-12 bg-white rounded-lg border border-gray-200">
-              <Search className="h-12 w-12 text-gray-400 mx-auto mb-4" />
-              <h4 className="text-lg font-medium text-gray-900 mb-2">No drugs found</h4>
-              <p className="text-gray-600 mb-4">
-                Try adjusting your search terms or filters
-              </p>
-              <Button 
-                variant="outline" 
-                onClick={() => {
-                  setSearchTerm('')
-                  setFilters({
-                    category: '',
-                    stockStatus: '',
-                    requiresPrescription: null,
-                    isControlled: null,
-                    manufacturer: ''
-                  })
-                }}
-              >
-                Clear Search
-              </Button>
-            </div>
-          ) : (
-            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-              {filteredDrugs.map((drug) => (
-                <DrugCard
-                  key={drug.id}
-                  drug={drug}
-                  onClick={() => handleDrugClick(drug)}
-                  onEdit={() => handleEditDrug(drug)}
-                />
-              ))}
-            </div>
+          <TabsContent value="expiry">
+            <ExpiryDashboard
+              drugs={drugs}
+              onWriteOff={handleWriteOff}
+              canWriteOff={hasPermission(actor, 'stock.adjust')}
+            />
+          </TabsContent>
+
+          {hasPermission(actor, 'dispense.prescription') && (
+            <TabsContent value="substitutions">
+              <SubstitutionLogView loadLog={getSubstitutionLog} />
+            </TabsContent>
           )}
-        </div>
 
-        {/* Low Stock Alert */}
-        {stats.lowStock > 0 && (
-          <div className="mt-8 bg-yellow-50 border border-yellow-200 rounded-lg p-4">
-            <div className="flex items-center gap-3">
-              <AlertTriangle className="h-5 w-5 text-yellow-600" />
-              <div>
-                <h4 className="font-medium text-yellow-800">Low Stock Alert</h4>
-                <p className="text-yellow-700 text-sm">
-                  {stats.lowStock} item{stats.lowStock > 1 ? 's' : ''} running low on stock. 
-                  Consider reordering soon.
-                </p>
-              </div>
-            </div>
-          </div>
-        )}
+          {hasPermission(actor, 'dispense.prescription') && (
+            <TabsContent value="patients">
+              <PatientManager
+                patients={patients}
+                onAddPatient={handleAddPatient}
+                onUpdatePatient={handleUpdatePatient}
+                onDeletePatient={handleDeletePatient}
+              />
+            </TabsContent>
+          )}
+
+          {hasPermission(actor, 'rules.manage') && (
+            <TabsContent value="rules" className="space-y-8">
+              <SubstitutionRulesManager
+                drugs={drugs}
+                rules={rules}
+                onAddRule={handleAddRule}
+                onUpdateRule={handleUpdateRule}
+                onDeleteRule={handleDeleteRule}
+              />
+              <InteractionTableManager
+                interactions={interactions}
+                customCount={customInteractionCount}
+                onLoadTable={handleLoadInteractionTable}
+                onClearTable={handleClearInteractionTable}
+              />
+            </TabsContent>
+          )}
+
+          {canViewOrders && (
+            <TabsContent value="orders">
+              <PurchaseOrdersView
+                drugs={drugs}
+                orders={orders}
+                suppliers={suppliers}
+                canEdit={hasPermission(actor, 'orders.manage')}
+                canApprove={hasPermission(actor, 'orders.approve')}
+                canReceive={hasPermission(actor, 'stock.adjust')}
+                onGetSuggestions={getReorderSuggestions}
+                onDraftOrders={handleDraftOrders}
+                onUpdateDraft={handleUpdateDraft}
+                onApprove={handleApproveOrder}
+                onCancel={handleCancelOrder}
+                onReceive={setReceivingOrder}
+              />
+            </TabsContent>
+          )}
+
+          {canViewOrders && (
+            <TabsContent value="suppliers">
+              <SupplierManager
+                suppliers={suppliers}
+                drugs={drugs}
+                canEdit={hasPermission(actor, 'orders.manage')}
+                onAddSupplier={handleAddSupplier}
+                onUpdateSupplier={handleUpdateSupplier}
+                onDeleteSupplier={handleDeleteSupplier}
+              />
+            </TabsContent>
+          )}
+
+          {hasPermission(actor, 'stock.count') && (
+            <TabsContent value="stocktake">
+              <StockTakeView
+                stockTakes={stockTakes}
+                drugs={drugs}
+                categories={categories}
+                witnesses={witnesses}
+                canCount={hasPermission(actor, 'stock.count')}
+                canPost={hasPermission(actor, 'stock.adjust')}
+                onStart={handleStartStockTake}
+                onSaveCounts={handleSaveCounts}
+                onRecount={handleRecountMoved}
+                onCancel={handleCancelStockTake}
+                onPost={handlePostStockTake}
+                onSignWitness={signWitness}
+              />
+            </TabsContent>
+          )}
+
+          {hasPermission(actor, 'stock.adjust') && (
+            <TabsContent value="recalls">
+              <RecallsView
+                recalls={recalls}
+                drugs={drugs}
+                patients={patients}
+                witnesses={witnesses}
+                canManage={hasPermission(actor, 'stock.adjust')}
+                onCreate={handleCreateRecall}
+                onRecheck={handleRecheckRecall}
+                onReturn={handleReturnRecalledStock}
+                onClose={handleCloseRecall}
+                onCancel={handleCancelRecall}
+                loadPatients={loadRecallPatients}
+                onSignWitness={signWitness}
+              />
+            </TabsContent>
+          )}
+
+          {canViewRegister && (
+            <TabsContent value="register">
+              <ControlledRegisterView
+                drugs={drugs}
+                witnesses={witnesses}
+                canRecord={hasPermission(actor, 'stock.adjust') && hasPermission(actor, 'controlled.manage')}
+                loadRegister={getControlledRegister}
+                onRecord={handleControlledEntry}
+                onSignWitness={signWitness}
+              />
+            </TabsContent>
+          )}
+
+          {hasPermission(actor, 'users.manage') && (
+            <TabsContent value="staff">
+              <StaffManagement
+                staff={staff}
+                currentStaffId={currentStaff?.id}
+                onAddStaff={handleAddStaff}
+                onUpdateStaff={handleUpdateStaff}
+                onSetPin={handleSetStaffPin}
+              />
+            </TabsContent>
+          )}
+        </Tabs>
       </div>
 
       {/* Substitution Panel */}
@@ -393,6 +1326,10 @@ function App() {
         <SubstitutionPanel
           targetDrug={selectedDrug}
           allDrugs={drugs}
+          rules={rules}
+          interactions={interactions}
+          prescriptionItems={basket}
+          patient={basketPatient}
           onClose={() => {
             setShowSubstitutionPanel(false)
             setSelectedDrug(null)
@@ -404,10 +1341,34 @@ function App() {
       {/* Add Drug Modal */}
       <AddDrugModal
         isOpen={showAddDrugModal}
-        onClose={() => setShowAddDrugModal(false)}
+        onClose={() => {
+          setShowAddDrugModal(false)
+          setNewDrugBarcode(undefined)
+          setScannedBatch(undefined)
+        }}
         onAddDrug={handleAddDrug}
+        drugs={drugs}
         categories={categories}
         manufacturers={manufacturers}
+        suppliers={suppliers}
+        canEditSupplierPrices={hasPermission(actor, 'orders.manage')}
+        initialBarcode={newDrugBarcode}
+        initialBatch={scannedBatch}
+      />
+
+      {/* Drug Import Wizard */}
+      <DrugImportWizard
+        isOpen={showImportWizard}
+        onClose={() => setShowImportWizard(false)}
+        drugs={drugs}
+        onImport={handleImportDrugs}
+      />
+
+      {/* Barcode Scanner */}
+      <BarcodeScannerModal
+        isOpen={showBarcodeScanner}
+        onClose={() => setShowBarcodeScanner(false)}
+        onDetected={handleBarcodeScanned}
       />
 
       {/* Edit Drug Modal */}
@@ -416,11 +1377,52 @@ function App() {
         onClose={() => {
           setShowEditDrugModal(false)
           setDrugToEdit(null)
+          setScannedBatch(undefined)
         }}
         onUpdateDrug={handleUpdateDrug}
         drug={drugToEdit}
+        drugs={drugs}
+        initialBatch={scannedBatch}
+        canEditPrice={hasPermission(actor, 'drug.edit.price')}
+        canAdjustStock={hasPermission(actor, 'stock.adjust')}
+        canEditSupplierPrices={hasPermission(actor, 'orders.manage')}
         categories={categories}
         manufacturers={manufacturers}
+        suppliers={suppliers}
+      />
+
+      {/* Goods Receiving */}
+      <GoodsReceivingModal
+        order={receivingOrder}
+        drugs={drugs}
+        witnesses={witnesses}
+        onClose={() => setReceivingOrder(null)}
+        onReceive={handleReceiveDelivery}
+        onSignWitness={signWitness}
+      />
+
+      {/* Dispense */}
+      <DispenseModal
+        drug={dispenseDrug}
+        substitution={dispenseSubstitution}
+        interactionWarnings={dispenseInteractionWarnings}
+        patients={patients}
+        initialPatientId={basketPatientId || undefined}
+        defaultPharmacist={currentStaff && currentStaff.role !== 'assistant' ? currentStaff.name : ''}
+        witnesses={witnesses}
+        onClose={() => {
+          setDispenseDrug(null)
+          setDispenseSubstitution(null)
+        }}
+        onDispense={handleDispense}
+        onSignWitness={signWitness}
+      />
+
+      {/* Stock History */}
+      <StockHistoryModal
+        drug={historyDrug}
+        onClose={() => setHistoryDrug(null)}
+        loadHistory={getStockHistory}
       />
     </div>
   )
@@ -0,0 +1,40 @@
+import { useMemo } from 'react'
+import { atcPath, isValidAtcCode, searchAtcSubstances } from '../services/atc'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+
+interface AtcCodeFieldProps {
+  value: string
+  onChange: (value: string) => void
+}
+
+export function AtcCodeField({ value, onChange }: AtcCodeFieldProps) {
+  const suggestions = useMemo(() => searchAtcSubstances(value), [value])
+  const path = value ? atcPath(value) : []
+
+  return (
+    <div>
+      <Label htmlFor="atcCode">ATC Code</Label>
+      <Input
+        id="atcCode"
+        list="atcCodeOptions"
+        value={value}
+        onChange={(e) => onChange(e.target.value.toUpperCase())}
+        placeholder="e.g., N02BE01 or search by substance"
+        className="font-mono"
+      />
+      <datalist id="atcCodeOptions">
+        {suggestions.map(entry => (
+          <option key={entry.code} value={entry.code}>{entry.name}</option>
+        ))}
+      </datalist>
+      {path.length > 0 ? (
+        <p className="text-xs text-gray-600 mt-1">
+          {path.map(entry => entry.name).join(' › ')}
+        </p>
+      ) : value && !isValidAtcCode(value) ? (
+        <p className="text-xs text-amber-700 mt-1">Enter a 7-character substance code, e.g. N02BE01</p>
+      ) : null}
+    </div>
+  )
+}
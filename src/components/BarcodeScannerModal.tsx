@@ -0,0 +1,124 @@
+import { useEffect, useRef, useState } from 'react'
+import { CAMERA_BARCODE_FORMATS, isCameraScanningSupported } from '../services/barcodeScanning'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from './ui/dialog'
+import { ScanLine, CameraOff } from 'lucide-react'
+
+interface BarcodeScannerModalProps {
+  isOpen: boolean
+  onClose: () => void
+  onDetected: (code: string) => void
+}
+
+const SCAN_INTERVAL_MS = 250
+
+export function BarcodeScannerModal({ isOpen, onClose, onDetected }: BarcodeScannerModalProps) {
+  const videoRef = useRef<HTMLVideoElement>(null)
+  const [cameraError, setCameraError] = useState<string | null>(null)
+  const [manualCode, setManualCode] = useState('')
+
+  useEffect(() => {
+    if (!isOpen) return
+
+    if (!isCameraScanningSupported()) {
+      setCameraError('Camera scanning is not supported in this browser. Use a USB scanner or enter the code below.')
+      return
+    }
+
+    let stream: MediaStream | null = null
+    let timer: number | undefined
+    let stopped = false
+
+    const start = async () => {
+      try {
+        const supported = await BarcodeDetector.getSupportedFormats()
+        const formats = CAMERA_BARCODE_FORMATS.filter(format => supported.includes(format))
+        if (formats.length === 0) {
+          setCameraError('This device cannot decode EAN-13, UPC-A or DataMatrix codes.')
+          return
+        }
+
+        const detector = new BarcodeDetector({ formats })
+        stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' } })
+        if (stopped || !videoRef.current) return
+
+        videoRef.current.srcObject = stream
+        await videoRef.current.play()
+        setCameraError(null)
+
+        const scan = async () => {
+          if (stopped || !videoRef.current) return
+          try {
+            const [barcode] = await detector.detect(videoRef.current)
+            if (barcode && !stopped) {
+              onDetected(barcode.rawValue)
+              return
+            }
+          } catch {
+            // Frames can fail to decode while the camera is warming up; keep trying
+          }
+          timer = window.setTimeout(scan, SCAN_INTERVAL_MS)
+        }
+        scan()
+      } catch (error) {
+        setCameraError(error instanceof Error ? `Could not start the camera: ${error.message}` : 'Could not start the camera')
+      }
+    }
+
+    start()
+
+    return () => {
+      stopped = true
+      window.clearTimeout(timer)
+      stream?.getTracks().forEach(track => track.stop())
+    }
+  }, [isOpen, onDetected])
+
+  const handleManualSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!manualCode.trim()) return
+    onDetected(manualCode.trim())
+    setManualCode('')
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ScanLine className="h-5 w-5 text-sky-600" />
+            Scan Barcode
+          </DialogTitle>
+        </DialogHeader>
+
+        {cameraError ? (
+          <div className="flex items-start gap-3 bg-gray-50 border border-gray-200 rounded-lg p-4 text-sm text-gray-700">
+            <CameraOff className="h-5 w-5 text-gray-500 flex-shrink-0" />
+            {cameraError}
+          </div>
+        ) : (
+          <div className="relative bg-black rounded-lg overflow-hidden aspect-video">
+            <video ref={videoRef} className="w-full h-full object-cover" muted playsInline />
+            <div className="absolute inset-x-8 top-1/2 h-0.5 bg-red-500/80" />
+          </div>
+        )}
+
+        <form onSubmit={handleManualSubmit} className="space-y-2">
+          <Label htmlFor="manualBarcode">Or enter the code</Label>
+          <div className="flex gap-2">
+            <Input
+              id="manualBarcode"
+              value={manualCode}
+              onChange={(e) => setManualCode(e.target.value)}
+              placeholder="e.g., 5012345678900"
+              className="flex-1"
+            />
+            <Button type="submit">Look Up</Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
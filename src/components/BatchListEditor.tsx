@@ -0,0 +1,186 @@
+import { BatchHold, StockBatch } from '../types/pharmacy'
+import { BATCH_HOLDS, batchState, createEmptyBatch, sellableQuantity, STOCK_STATE_LABELS, sumBatchQuantities } from '../services/stockBatches'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { Plus, Trash2 } from 'lucide-react'
+
+interface BatchListEditorProps {
+  batches: StockBatch[]
+  onChange: (batches: StockBatch[]) => void
+  defaultSupplier?: string
+  /** Quantities are fixed and batches cannot be added or removed */
+  lockQuantities?: boolean
+  /** Explains why quantities are locked */
+  lockedMessage?: string
+  /** Batches cannot be set aside from sale or released */
+  lockStatus?: boolean
+}
+
+const SELLABLE = 'sellable'
+
+export function BatchListEditor({
+  batches,
+  onChange,
+  defaultSupplier,
+  lockQuantities = false,
+  lockedMessage = 'You do not have permission to change stock quantities.',
+  lockStatus = false
+}: BatchListEditorProps) {
+  const updateBatch = (id: string, changes: Partial<StockBatch>) => {
+    onChange(batches.map(batch => batch.id === id ? { ...batch, ...changes } : batch))
+  }
+
+  const setHold = (id: string, value: string) => {
+    updateBatch(id, value === SELLABLE
+      ? { hold: undefined, holdReason: undefined }
+      : { hold: value as BatchHold })
+  }
+
+  const removeBatch = (id: string) => {
+    onChange(batches.filter(batch => batch.id !== id))
+  }
+
+  return (
+    <div className="space-y-3">
+      {batches.length === 0 && (
+        <p className="text-sm text-gray-600 bg-gray-50 p-3 rounded">
+          No batches on the shelf. Add a batch to record stock.
+        </p>
+      )}
+
+      {batches.map(batch => (
+        <div key={batch.id} className="p-3 border border-gray-200 rounded-lg space-y-3">
+          <div className="grid grid-cols-2 md:grid-cols-6 gap-3 items-end">
+            <div>
+              <Label htmlFor={`batchNumber-${batch.id}`}>Batch / Lot *</Label>
+              <Input
+                id={`batchNumber-${batch.id}`}
+                value={batch.batchNumber}
+                onChange={(e) => updateBatch(batch.id, { batchNumber: e.target.value })}
+                placeholder="e.g., LOT2401"
+              />
+            </div>
+            <div>
+              <Label htmlFor={`expiryDate-${batch.id}`}>Expiry *</Label>
+              <Input
+                id={`expiryDate-${batch.id}`}
+                type="date"
+                value={batch.expiryDate}
+                onChange={(e) => updateBatch(batch.id, { expiryDate: e.target.value, openingBalance: undefined })}
+              />
+            </div>
+            <div>
+              <Label htmlFor={`quantity-${batch.id}`}>Quantity</Label>
+              <Input
+                id={`quantity-${batch.id}`}
+                type="number"
+                min="0"
+                value={batch.quantity}
+                disabled={lockQuantities}
+                onChange={(e) => updateBatch(batch.id, { quantity: Math.max(0, parseInt(e.target.value) || 0) })}
+              />
+            </div>
+            <div>
+              <Label htmlFor={`receivedDate-${batch.id}`}>Received</Label>
+              <Input
+                id={`receivedDate-${batch.id}`}
+                type="date"
+                value={batch.receivedDate}
+                onChange={(e) => updateBatch(batch.id, { receivedDate: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label htmlFor={`supplier-${batch.id}`}>Supplier</Label>
+              <Input
+                id={`supplier-${batch.id}`}
+                value={batch.supplier || ''}
+                onChange={(e) => updateBatch(batch.id, { supplier: e.target.value || undefined })}
+                placeholder="Supplier"
+              />
+            </div>
+            <div className="flex justify-end">
+              {!lockQuantities && (
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => removeBatch(batch.id)}
+                  className="text-red-600 hover:text-red-700"
+                  title="Remove batch"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+          </div>
+          <div className="grid grid-cols-2 md:grid-cols-6 gap-3 items-end">
+            <div>
+              <Label>Status</Label>
+              {batch.recallId ? (
+                <p className="text-sm text-red-700 py-2">Recalled; release it from Recalls</p>
+              ) : (
+                <Select value={batch.hold ?? SELLABLE} onValueChange={(value) => setHold(batch.id, value)} disabled={lockStatus}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={SELLABLE}>{STOCK_STATE_LABELS.sellable}</SelectItem>
+                    {BATCH_HOLDS.map(hold => (
+                      <SelectItem key={hold} value={hold}>{STOCK_STATE_LABELS[hold]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+            </div>
+            {batch.hold && !batch.recallId && (
+              <div className="col-span-2 md:col-span-3">
+                <Label htmlFor={`holdReason-${batch.id}`}>Reason *</Label>
+                <Input
+                  id={`holdReason-${batch.id}`}
+                  value={batch.holdReason || ''}
+                  disabled={lockStatus}
+                  onChange={(e) => updateBatch(batch.id, { holdReason: e.target.value || undefined })}
+                  placeholder={batch.hold === 'reserved' ? 'e.g., Held for patient collection' : 'e.g., Crushed packaging'}
+                />
+              </div>
+            )}
+            {batch.openingBalance && (
+              <p className="col-span-2 md:col-span-3 text-sm text-amber-700 pb-2">
+                Opening balance from before batches were tracked: enter its lot and expiry when known
+              </p>
+            )}
+            {!batch.hold && !batch.recallId && batchState(batch) === 'expired' && (
+              <p className="col-span-2 md:col-span-3 text-sm text-red-700 pb-2">Expired: cannot be dispensed</p>
+            )}
+          </div>
+        </div>
+      ))}
+
+      <div className="flex items-center justify-between">
+        {lockQuantities ? (
+          <p className="text-sm text-gray-600">{lockedMessage}</p>
+        ) : (
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => onChange([...batches, createEmptyBatch(defaultSupplier)])}
+            className="flex items-center gap-2"
+          >
+            <Plus className="h-4 w-4" />
+            Add Batch
+          </Button>
+        )}
+        <p className="text-sm text-gray-600">
+          Total stock: <span className="font-semibold text-gray-900">{sumBatchQuantities(batches)}</span>
+          {sellableQuantity(batches) !== sumBatchQuantities(batches) && (
+            <span> ({sellableQuantity(batches)} sellable)</span>
+          )}
+        </p>
+      </div>
+    </div>
+  )
+}
+
@@ -0,0 +1,343 @@
+import { useEffect, useState } from 'react'
+import { ControlledRegisterEntry, Drug, PharmacyUser, Witness } from '../types/pharmacy'
+import { StockMovement } from '../services/inventoryLedger'
+import { broughtForward, CONTROLLED_ENTRY_LABELS, verifyRegister } from '../services/controlledRegister'
+import { WitnessSignature, WitnessSignOff } from './WitnessSignOff'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import { Textarea } from './ui/textarea'
+import { Badge } from './ui/badge'
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table'
+import { AlertTriangle, BookLock, CheckCircle } from 'lucide-react'
+
+interface ControlledRegisterViewProps {
+  drugs: Drug[]
+  witnesses: PharmacyUser[]
+  /** Whether the current staff member may return or destroy controlled stock */
+  canRecord: boolean
+  loadRegister: (drugId: string) => Promise<ControlledRegisterEntry[]>
+  /** Resolves true once the entry is posted; the draft is kept otherwise */
+  onRecord: (drug: Drug, movement: StockMovement) => Promise<boolean>
+  onSignWitness: (staffId: string, pin: string) => Promise<Witness>
+}
+
+type OutboundType = 'remove' | 'destroy'
+
+interface OutboundDraft {
+  type: OutboundType
+  batchNumber: string
+  quantity: number
+  reason: string
+}
+
+const emptyDraft: OutboundDraft = { type: 'destroy', batchNumber: '', quantity: 0, reason: '' }
+
+const formatDate = (timestamp: string) => new Date(timestamp).toLocaleString()
+
+export function ControlledRegisterView({
+  drugs,
+  witnesses,
+  canRecord,
+  loadRegister,
+  onRecord,
+  onSignWitness
+}: ControlledRegisterViewProps) {
+  const controlled = drugs.filter(drug => drug.isControlled).sort((a, b) => a.name.localeCompare(b.name))
+  const [drugId, setDrugId] = useState('')
+  const [entries, setEntries] = useState<ControlledRegisterEntry[]>([])
+  const [integrity, setIntegrity] = useState<string | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [draft, setDraft] = useState<OutboundDraft>(emptyDraft)
+  const [signature, setSignature] = useState<WitnessSignature>({ staffId: '', pin: '' })
+  const [error, setError] = useState<string | null>(null)
+  const [submitting, setSubmitting] = useState(false)
+
+  const drug = controlled.find(candidate => candidate.id === drugId)
+
+  // The drug is replaced after every posted entry, which reloads its register
+  useEffect(() => {
+    if (!drug) {
+      setEntries([])
+      setIntegrity(null)
+      return
+    }
+
+    let cancelled = false
+    setLoading(true)
+    loadRegister(drug.id)
+      .then(async register => {
+        const problem = await verifyRegister(register)
+        if (!cancelled) {
+          setEntries(register)
+          setIntegrity(problem)
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [drug, loadRegister])
+
+  const selectDrug = (id: string) => {
+    setDrugId(id)
+    setDraft(emptyDraft)
+    setSignature({ staffId: '', pin: '' })
+    setError(null)
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!drug) return
+
+    const batch = drug.batches.find(candidate => candidate.batchNumber === draft.batchNumber)
+    if (!batch) {
+      setError('Choose the batch the stock is taken from')
+      return
+    }
+    if (!Number.isInteger(draft.quantity) || draft.quantity <= 0) {
+      setError('Quantity must be a whole number greater than zero')
+      return
+    }
+    if (draft.quantity > batch.quantity) {
+      setError(`Batch ${batch.batchNumber} only holds ${batch.quantity} units`)
+      return
+    }
+    if (!draft.reason.trim()) {
+      setError(draft.type === 'destroy' ? 'Record how the stock was destroyed' : 'Record why the stock is being returned')
+      return
+    }
+
+    setSubmitting(true)
+    setError(null)
+    try {
+      const witness = await onSignWitness(signature.staffId, signature.pin)
+      const recorded = await onRecord(drug, {
+        type: draft.type,
+        quantity: draft.quantity,
+        reason: draft.reason.trim(),
+        batchNumber: batch.batchNumber,
+        supplier: draft.type === 'remove' ? batch.supplier : undefined,
+        witness
+      })
+      if (recorded) {
+        setDraft(emptyDraft)
+        setSignature({ staffId: '', pin: '' })
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : `Could not record ${drug.name}`)
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const stockedBatches = drug?.batches.filter(batch => batch.quantity > 0) ?? []
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg flex items-center gap-2">
+            <BookLock className="h-5 w-5 text-purple-600" />
+            Controlled Drugs Register
+          </CardTitle>
+          <p className="text-sm text-gray-600">
+            One register per drug. Receipts, supplies, returns and destructions are entered automatically,
+            countersigned by a witness, and cannot be edited once posted.
+          </p>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {controlled.length === 0 ? (
+            <p className="text-center text-sm text-gray-600 py-8">No controlled drugs in the catalogue.</p>
+          ) : (
+            <div className="max-w-md">
+              <Label>Drug</Label>
+              <Select value={drugId || undefined} onValueChange={selectDrug}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Choose a controlled drug" />
+                </SelectTrigger>
+                <SelectContent>
+                  {controlled.map(candidate => (
+                    <SelectItem key={candidate.id} value={candidate.id}>
+                      {candidate.name} {candidate.dosage} {candidate.dosageForm}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {drug && (
+            loading ? (
+              <div className="flex items-center gap-2 text-sm text-gray-600 py-8 justify-center">
+                <div className="animate-spin rounded-full h-4 w-4 border-2 border-sky-600 border-t-transparent"></div>
+                Loading register...
+              </div>
+            ) : (
+              <div className="space-y-4">
+                <div className="flex flex-wrap items-center gap-2 text-sm">
+                  {integrity ? (
+                    <Badge variant="destructive" className="flex items-center gap-1">
+                      <AlertTriangle className="h-3 w-3" />
+                      {integrity}
+                    </Badge>
+                  ) : (
+                    <Badge variant="outline" className="bg-green-50 text-green-700 border-green-200 flex items-center gap-1">
+                      <CheckCircle className="h-3 w-3" />
+                      {entries.length} entr{entries.length === 1 ? 'y' : 'ies'}, chain intact
+                    </Badge>
+                  )}
+                  <Badge variant="outline">Balance {drug.stockLevel}</Badge>
+                  {entries.length > 0 && broughtForward(entries) !== 0 && (
+                    <Badge variant="outline">Brought forward {broughtForward(entries)}</Badge>
+                  )}
+                  {entries.length > 0 && entries[entries.length - 1].balance !== drug.stockLevel && (
+                    <Badge variant="destructive">
+                      Register balance {entries[entries.length - 1].balance} does not match stock on hand
+                    </Badge>
+                  )}
+                </div>
+
+                {entries.length === 0 ? (
+                  <p className="text-center text-sm text-gray-600 py-8">
+                    Nothing has been entered in the register for {drug.name} yet.
+                  </p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="text-right">#</TableHead>
+                        <TableHead>Date</TableHead>
+                        <TableHead>Entry</TableHead>
+                        <TableHead className="text-right">In</TableHead>
+                        <TableHead className="text-right">Out</TableHead>
+                        <TableHead className="text-right">Balance</TableHead>
+                        <TableHead>Batch</TableHead>
+                        <TableHead>From / To</TableHead>
+                        <TableHead>Entered By</TableHead>
+                        <TableHead>Witness</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {entries.map(entry => (
+                        <TableRow key={entry.id}>
+                          <TableCell className="text-right text-gray-500">{entry.sequence}</TableCell>
+                          <TableCell className="text-sm whitespace-nowrap">{formatDate(entry.recordedAt)}</TableCell>
+                          <TableCell>
+                            <p className="font-medium">{CONTROLLED_ENTRY_LABELS[entry.type]}</p>
+                            <p className="text-xs text-gray-500">{entry.reason}</p>
+                          </TableCell>
+                          <TableCell className="text-right text-green-700">{entry.quantity > 0 ? entry.quantity : ''}</TableCell>
+                          <TableCell className="text-right text-red-700">{entry.quantity < 0 ? -entry.quantity : ''}</TableCell>
+                          <TableCell className="text-right font-semibold">{entry.balance}</TableCell>
+                          <TableCell className="text-sm">{entry.batchNumbers.join(', ')}</TableCell>
+                          <TableCell className="text-sm">
+                            {entry.supplier && <p>{entry.supplier}</p>}
+                            {entry.patientRef && <p>Patient {entry.patientRef}</p>}
+                            {entry.prescriber && <p className="text-xs text-gray-500">Prescriber {entry.prescriber}</p>}
+                            {entry.prescriptionRef && <p className="text-xs text-gray-500">Rx {entry.prescriptionRef}</p>}
+                          </TableCell>
+                          <TableCell className="text-sm">{entry.enteredBy}</TableCell>
+                          <TableCell className="text-sm">{entry.witnessedBy}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </div>
+            )
+          )}
+        </CardContent>
+      </Card>
+
+      {drug && canRecord && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Return or Destroy Stock</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {stockedBatches.length === 0 ? (
+              <p className="text-sm text-gray-600">{drug.name} has no stock on hand.</p>
+            ) : (
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <div>
+                    <Label>Entry *</Label>
+                    <Select value={draft.type} onValueChange={(type: OutboundType) => setDraft(prev => ({ ...prev, type }))}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="destroy">Destruction</SelectItem>
+                        <SelectItem value="remove">Return to supplier</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div>
+                    <Label>Batch *</Label>
+                    <Select
+                      value={draft.batchNumber || undefined}
+                      onValueChange={(batchNumber) => setDraft(prev => ({ ...prev, batchNumber }))}
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder="Choose a batch" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {stockedBatches.map(batch => (
+                          <SelectItem key={batch.id} value={batch.batchNumber}>
+                            {batch.batchNumber} ({batch.quantity} units, exp {batch.expiryDate})
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div>
+                    <Label htmlFor="controlledQuantity">Quantity *</Label>
+                    <Input
+                      id="controlledQuantity"
+                      type="number"
+                      min="1"
+                      value={draft.quantity || ''}
+                      onChange={(e) => setDraft(prev => ({ ...prev, quantity: parseInt(e.target.value) || 0 }))}
+                    />
+                  </div>
+                </div>
+
+                <div>
+                  <Label htmlFor="controlledReason">{draft.type === 'destroy' ? 'Method of Destruction *' : 'Reason for Return *'}</Label>
+                  <Textarea
+                    id="controlledReason"
+                    value={draft.reason}
+                    onChange={(e) => setDraft(prev => ({ ...prev, reason: e.target.value }))}
+                    placeholder={draft.type === 'destroy' ? 'e.g., Expired stock denatured in a CD destruction kit' : 'e.g., Damaged packaging, supplier credit note'}
+                    rows={2}
+                  />
+                </div>
+
+                <WitnessSignOff witnesses={witnesses} value={signature} onChange={setSignature} />
+
+                {error && (
+                  <div className="flex items-center gap-2 text-sm text-red-700 bg-red-50 border border-red-200 rounded p-3">
+                    <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+                    {error}
+                  </div>
+                )}
+
+                <div className="flex justify-end">
+                  <Button type="submit" disabled={submitting}>
+                    {submitting ? 'Posting...' : 'Post to Register'}
+                  </Button>
+                </div>
+              </form>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,361 @@
+import { useEffect, useState } from 'react'
+import { DispenseRecord, Drug, PatientProfile, PharmacyUser, SubstitutionSuggestion, Witness } from '../types/pharmacy'
+import { DispenseRequest, dispensableQuantity, validateDispense } from '../services/dispensing'
+import { printDispenseLabel } from '../services/dispenseLabel'
+import { requiredAcknowledgements } from '../services/substitutionLog'
+import { isBlocked, screenDrug, screeningAcknowledgements } from '../services/allergyScreening'
+import { findPatientByReference } from '../services/patients'
+import { PatientScreening } from './PatientScreening'
+import { WitnessSignature, WitnessSignOff } from './WitnessSignOff'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import { Textarea } from './ui/textarea'
+import { Badge } from './ui/badge'
+import { Checkbox } from './ui/checkbox'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from './ui/dialog'
+import { AlertTriangle, CheckCircle, HandHeart, Printer, ShieldCheck } from 'lucide-react'
+
+interface DispenseModalProps {
+  drug: Drug | null
+  /** Set when dispensing a substitute in place of the requested drug */
+  substitution?: { original: Drug, suggestion: SubstitutionSuggestion } | null
+  /** Interactions with other items on the prescription, each confirmed before dispensing */
+  interactionWarnings?: string[]
+  patients: PatientProfile[]
+  /** Patient chosen for the prescription basket, screened on open */
+  initialPatientId?: string
+  defaultPharmacist: string
+  /** Staff who can countersign controlled-drug supplies */
+  witnesses: PharmacyUser[]
+  onClose: () => void
+  onDispense: (drug: Drug, request: DispenseRequest) => Promise<DispenseRecord>
+  onSignWitness: (staffId: string, pin: string) => Promise<Witness>
+}
+
+const emptyRequest = (pharmacist: string): DispenseRequest => ({
+  quantity: 1,
+  prescriptionRef: '',
+  patientRef: '',
+  pharmacist,
+  directions: '',
+  prescriber: ''
+})
+
+export function DispenseModal({
+  drug,
+  substitution,
+  interactionWarnings = [],
+  patients,
+  initialPatientId,
+  defaultPharmacist,
+  witnesses,
+  onClose,
+  onDispense,
+  onSignWitness
+}: DispenseModalProps) {
+  const [request, setRequest] = useState<DispenseRequest>(emptyRequest(defaultPharmacist))
+  const [error, setError] = useState<string | null>(null)
+  const [submitting, setSubmitting] = useState(false)
+  const [record, setRecord] = useState<DispenseRecord | null>(null)
+  const [acknowledged, setAcknowledged] = useState<string[]>([])
+  const [patientId, setPatientId] = useState('')
+  const [signature, setSignature] = useState<WitnessSignature>({ staffId: '', pin: '' })
+
+  // Start afresh for each dispense or substitute; acknowledgements belong to the one they were given for
+  useEffect(() => {
+    if (drug) {
+      setRequest(emptyRequest(defaultPharmacist))
+      setPatientId(initialPatientId ?? '')
+      setError(null)
+      setRecord(null)
+      setAcknowledged([])
+      setSignature({ staffId: '', pin: '' })
+    }
+  }, [drug, substitution, defaultPharmacist, initialPatientId])
+
+  if (!drug) return null
+
+  const available = dispensableQuantity(drug)
+  const needsPrescription = drug.requiresPrescription || drug.isControlled
+  const warnings = substitution ? requiredAcknowledgements(substitution.suggestion) : []
+  const patient = patients.find(candidate => candidate.id === patientId)
+  // A chosen profile supplies the reference until one is typed, even if profiles load after opening
+  const patientRef = request.patientRef || patient?.reference || ''
+  const findings = patient ? screenDrug(drug, patient) : []
+  const blocked = isBlocked(findings)
+  const contraindicationWarnings = screeningAcknowledgements(findings)
+
+  const selectPatient = (id: string) => {
+    const selected = patients.find(candidate => candidate.id === id)
+    setPatientId(selected?.id ?? '')
+    if (selected) setRequest(prev => ({ ...prev, patientRef: selected.reference }))
+  }
+
+  const toggleAcknowledged = (warning: string, checked: boolean) => {
+    setAcknowledged(prev => checked ? [...prev, warning] : prev.filter(item => item !== warning))
+  }
+
+  const handleChange = (field: keyof DispenseRequest, value: string | number) => {
+    setRequest(prev => ({ ...prev, [field]: value }))
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (interactionWarnings.some(warning => !acknowledged.includes(warning))) {
+      setError('Acknowledge every interaction before dispensing')
+      return
+    }
+
+    const fullRequest: DispenseRequest = {
+      ...request,
+      patientRef,
+      substitution: substitution ? { ...substitution, acknowledgedWarnings: acknowledged.filter(warning => warnings.includes(warning)) } : undefined,
+      acknowledgedInteractions: interactionWarnings,
+      patient,
+      acknowledgedContraindications: acknowledged.filter(warning => contraindicationWarnings.includes(warning))
+    }
+    // Check everything but the PIN before asking the witness to sign
+    const chosenWitness = witnesses.find(member => member.id === signature.staffId)
+    const problem = validateDispense(drug, {
+      ...fullRequest,
+      witness: chosenWitness && { staffId: chosenWitness.id, name: chosenWitness.name, signature: '' }
+    })
+    if (problem) {
+      setError(problem)
+      return
+    }
+
+    setSubmitting(true)
+    setError(null)
+    try {
+      const witness = drug.isControlled ? await onSignWitness(signature.staffId, signature.pin) : undefined
+      setRecord(await onDispense(drug, { ...fullRequest, witness }))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : `Could not dispense ${drug.name}`)
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const handlePrint = () => {
+    if (record && !printDispenseLabel(record)) {
+      setError('The label window was blocked. Allow pop-ups for this site to print labels.')
+    }
+  }
+
+  return (
+    <Dialog open={!!drug} onOpenChange={onClose}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <HandHeart className="h-5 w-5 text-sky-600" />
+            Dispense {drug.name}
+          </DialogTitle>
+        </DialogHeader>
+
+        {record ? (
+          <div className="space-y-4">
+            <div className="flex items-start gap-3 bg-green-50 border border-green-200 rounded-lg p-4">
+              <CheckCircle className="h-5 w-5 text-green-600 flex-shrink-0" />
+              <div className="text-sm text-green-800">
+                <p className="font-medium">
+                  Dispensed {record.quantity} x {record.drugName} {record.dosage}
+                </p>
+                <p>
+                  From batch {record.batches.map(batch => `${batch.batchNumber} (${batch.quantity})`).join(', ')}
+                </p>
+              </div>
+            </div>
+            <DialogFooter>
+              <Button variant="outline" onClick={onClose}>Done</Button>
+              <Button onClick={handlePrint} className="flex items-center gap-2">
+                <Printer className="h-4 w-4" />
+                Print Label
+              </Button>
+            </DialogFooter>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="flex flex-wrap items-center gap-2 text-sm text-gray-600">
+              <span>{drug.activeMolecule} {drug.dosage} {drug.dosageForm}</span>
+              <Badge variant="outline">{available} available</Badge>
+              {drug.requiresPrescription && <Badge variant="secondary">Prescription only</Badge>}
+              {drug.isControlled && (
+                <Badge variant="destructive" className="flex items-center gap-1">
+                  <ShieldCheck className="h-3 w-3" />
+                  Controlled
+                </Badge>
+              )}
+            </div>
+
+            {substitution && (
+              <div className="text-sm bg-sky-50 border border-sky-200 rounded p-3 text-sky-800 space-y-2">
+                <p>
+                  Substituting for {substitution.original.name} ({substitution.original.dosage} {substitution.original.dosageForm}):{' '}
+                  <span className="capitalize">{substitution.suggestion.matchType}</span> match, {substitution.suggestion.confidence}% confidence
+                </p>
+                {warnings.length > 0 && (
+                  <div className="space-y-2 pt-1">
+                    <p className="font-medium">Confirm before dispensing:</p>
+                    {warnings.map((warning, index) => (
+                      <div key={warning} className="flex items-start space-x-2">
+                        <Checkbox
+                          id={`ack-${index}`}
+                          checked={acknowledged.includes(warning)}
+                          onCheckedChange={(checked) => toggleAcknowledged(warning, checked === true)}
+                        />
+                        <label htmlFor={`ack-${index}`} className="text-sm">{warning}</label>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+
+            <div>
+              <Label>Patient Profile</Label>
+              <Select value={patientId || 'none'} onValueChange={(value) => selectPatient(value === 'none' ? '' : value)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">No profile - not screened</SelectItem>
+                  {patients.map(candidate => (
+                    <SelectItem key={candidate.id} value={candidate.id}>
+                      {candidate.name} ({candidate.reference})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {patient && findings.length === 0 && (
+                <p className="text-xs text-green-700 mt-1">
+                  Screened: no allergies or contraindications found for {patient.name}
+                </p>
+              )}
+            </div>
+
+            <PatientScreening findings={findings.filter(finding => finding.severity === 'block')} />
+
+            {contraindicationWarnings.length > 0 && (
+              <div className="text-sm bg-amber-50 border border-amber-200 rounded p-3 text-amber-800 space-y-2">
+                <p className="font-medium">Contraindications for this patient:</p>
+                {contraindicationWarnings.map((warning, index) => (
+                  <div key={warning} className="flex items-start space-x-2">
+                    <Checkbox
+                      id={`contraindication-${index}`}
+                      checked={acknowledged.includes(warning)}
+                      onCheckedChange={(checked) => toggleAcknowledged(warning, checked === true)}
+                    />
+                    <label htmlFor={`contraindication-${index}`} className="text-sm">{warning}</label>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {interactionWarnings.length > 0 && (
+              <div className="text-sm bg-red-50 border border-red-200 rounded p-3 text-red-800 space-y-2">
+                <p className="font-medium">Interactions with other items on this prescription:</p>
+                {interactionWarnings.map((warning, index) => (
+                  <div key={warning} className="flex items-start space-x-2">
+                    <Checkbox
+                      id={`interaction-${index}`}
+                      checked={acknowledged.includes(warning)}
+                      onCheckedChange={(checked) => toggleAcknowledged(warning, checked === true)}
+                    />
+                    <label htmlFor={`interaction-${index}`} className="text-sm">{warning}</label>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="dispenseQuantity">Quantity *</Label>
+                <Input
+                  id="dispenseQuantity"
+                  type="number"
+                  min="1"
+                  max={available}
+                  value={request.quantity}
+                  onChange={(e) => handleChange('quantity', parseInt(e.target.value) || 0)}
+                />
+              </div>
+              <div>
+                <Label htmlFor="dispensePharmacist">Pharmacist *</Label>
+                <Input
+                  id="dispensePharmacist"
+                  value={request.pharmacist}
+                  onChange={(e) => handleChange('pharmacist', e.target.value)}
+                />
+              </div>
+              <div>
+                <Label htmlFor="prescriptionRef">Prescription Ref{needsPrescription ? ' *' : ''}</Label>
+                <Input
+                  id="prescriptionRef"
+                  value={request.prescriptionRef}
+                  onChange={(e) => handleChange('prescriptionRef', e.target.value)}
+                  placeholder="e.g., RX-2024-0012"
+                />
+              </div>
+              <div>
+                <Label htmlFor="patientRef">Patient Ref{drug.isControlled ? ' *' : ''}</Label>
+                <Input
+                  id="patientRef"
+                  value={patientRef}
+                  onChange={(e) => {
+                    handleChange('patientRef', e.target.value)
+                    setPatientId(findPatientByReference(patients, e.target.value)?.id ?? '')
+                  }}
+                  placeholder="e.g., NHS no. or initials + DOB"
+                />
+              </div>
+              {drug.isControlled && (
+                <div className="col-span-2">
+                  <Label htmlFor="prescriber">Prescriber *</Label>
+                  <Input
+                    id="prescriber"
+                    value={request.prescriber}
+                    onChange={(e) => handleChange('prescriber', e.target.value)}
+                    placeholder="Name and address or registration number"
+                  />
+                </div>
+              )}
+            </div>
+
+            <div>
+              <Label htmlFor="directions">Directions</Label>
+              <Textarea
+                id="directions"
+                value={request.directions}
+                onChange={(e) => handleChange('directions', e.target.value)}
+                placeholder="e.g., Take ONE tablet THREE times a day after food"
+                rows={2}
+              />
+            </div>
+
+            {drug.isControlled && (
+              <WitnessSignOff witnesses={witnesses} value={signature} onChange={setSignature} />
+            )}
+
+            {error && (
+              <div className="flex items-center gap-2 text-sm text-red-700 bg-red-50 border border-red-200 rounded p-3">
+                <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+                {error}
+              </div>
+            )}
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={onClose}>Cancel</Button>
+              <Button type="submit" disabled={submitting || available === 0 || blocked}>
+                {submitting ? 'Dispensing...' : 'Dispense'}
+              </Button>
+            </DialogFooter>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,121 @@
+import { useMemo } from 'react'
+import { Drug, DrugInteraction, PatientProfile } from '../types/pharmacy'
+import { findBasketInteractions } from '../services/interactions'
+import { screenDrug } from '../services/allergyScreening'
+import { sellableQuantity } from '../services/stockBatches'
+import { InteractionAlerts } from './InteractionAlerts'
+import { PatientScreening } from './PatientScreening'
+import { Button } from './ui/button'
+import { Badge } from './ui/badge'
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card'
+import { Label } from './ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { GitCompare, HandHeart, ShoppingBasket, X } from 'lucide-react'
+
+interface DispensingBasketProps {
+  items: Drug[]
+  interactions: DrugInteraction[]
+  patients: PatientProfile[]
+  patientId: string
+  onPatientChange: (patientId: string) => void
+  canDispense: (drug: Drug) => boolean
+  onDispense: (drug: Drug) => void
+  onFindSubstitutes: (drug: Drug) => void
+  onRemove: (drug: Drug) => void
+  onClear: () => void
+}
+
+/**
+ * Items on the prescription being dispensed, checked against each other for interactions
+ */
+export function DispensingBasket({
+  items,
+  interactions,
+  patients,
+  patientId,
+  onPatientChange,
+  canDispense,
+  onDispense,
+  onFindSubstitutes,
+  onRemove,
+  onClear
+}: DispensingBasketProps) {
+  const alerts = useMemo(() => findBasketInteractions(items, interactions), [items, interactions])
+  const patient = patients.find(candidate => candidate.id === patientId)
+  const findings = useMemo(
+    () => patient ? items.flatMap(drug => screenDrug(drug, patient)) : [],
+    [items, patient]
+  )
+
+  if (items.length === 0) return null
+
+  return (
+    <Card className="mb-8 border-sky-200">
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-lg flex items-center gap-2">
+            <ShoppingBasket className="h-5 w-5 text-sky-600" />
+            Prescription Basket
+            <Badge variant="outline">{items.length} item{items.length > 1 ? 's' : ''}</Badge>
+            {alerts.length > 0 && (
+              <Badge variant="destructive">{alerts.length} interaction{alerts.length > 1 ? 's' : ''}</Badge>
+            )}
+          </CardTitle>
+          <Button variant="ghost" size="sm" onClick={onClear} className="text-gray-600">
+            Clear
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center gap-3">
+          <Label className="whitespace-nowrap">Patient</Label>
+          <Select value={patientId || 'none'} onValueChange={(value) => onPatientChange(value === 'none' ? '' : value)}>
+            <SelectTrigger className="max-w-sm">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="none">No profile - not screened</SelectItem>
+              {patients.map(candidate => (
+                <SelectItem key={candidate.id} value={candidate.id}>
+                  {candidate.name} ({candidate.reference})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <PatientScreening findings={findings} />
+
+        <div className="divide-y divide-gray-100 border border-gray-200 rounded-lg">
+          {items.map(drug => (
+            <div key={drug.id} className="flex items-center justify-between p-3">
+              <div className="text-sm">
+                <p className="font-medium text-gray-900">{drug.name}</p>
+                <p className="text-gray-600">{drug.activeMolecule} {drug.dosage} · {drug.stockLevel} in stock</p>
+              </div>
+              <div className="flex items-center gap-1">
+                <Button variant="ghost" size="sm" onClick={() => onFindSubstitutes(drug)} title="Find substitutes">
+                  <GitCompare className="h-4 w-4" />
+                </Button>
+                {canDispense(drug) && sellableQuantity(drug.batches) > 0 && (
+                  <Button variant="ghost" size="sm" onClick={() => onDispense(drug)} title="Dispense" className="text-sky-700">
+                    <HandHeart className="h-4 w-4" />
+                  </Button>
+                )}
+                <Button variant="ghost" size="sm" onClick={() => onRemove(drug)} title="Remove from basket" className="text-gray-500">
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {alerts.length > 0 ? (
+          <InteractionAlerts alerts={alerts} />
+        ) : items.length > 1 && (
+          <p className="text-sm text-green-700">No known interactions between these items.</p>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
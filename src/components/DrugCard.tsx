@@ -1,21 +1,28 @@
-import { Drug } from '../types/pharmacy'
+import { Drug, StockState } from '../types/pharmacy'
+import { EXPIRING_SOON_DAYS, nextExpiry } from '../services/expiryAnalysis'
+import { sellableQuantity, STOCK_STATE_LABELS, unsellableQuantities } from '../services/stockBatches'
 import { Badge } from './ui/badge'
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card'
 import { Button } from './ui/button'
-import { AlertTriangle, Package, Pill, ShieldCheck, Edit } from 'lucide-react'
+import { AlertTriangle, Package, Pill, ShieldCheck, Edit, History, HandHeart, ShoppingBasket } from 'lucide-react'
 
 interface DrugCardProps {
   drug: Drug
   onClick?: () => void
   onEdit?: () => void
+  onViewHistory?: () => void
+  onDispense?: () => void
+  onAddToBasket?: () => void
   showSubstitutes?: boolean
 }
 
-export function DrugCard({ drug, onClick, onEdit, showSubstitutes = false }: DrugCardProps) {
+export function DrugCard({ drug, onClick, onEdit, onViewHistory, onDispense, onAddToBasket, showSubstitutes = false }: DrugCardProps) {
+  const sellable = sellableQuantity(drug.batches)
+
   const getStockStatus = () => {
-    if (drug.stockLevel === 0) return 'out'
-    if (drug.stockLevel <= drug.minStockLevel) return 'low'
-    if (drug.stockLevel >= drug.maxStockLevel * 0.8) return 'high'
+    if (sellable === 0) return 'out'
+    if (sellable <= drug.minStockLevel) return 'low'
+    if (sellable >= drug.maxStockLevel * 0.8) return 'high'
     return 'normal'
   }
 
@@ -29,6 +36,11 @@ export function DrugCard({ drug, onClick, onEdit, showSubstitutes = false }: Dru
     }
   }
 
+  const expiry = nextExpiry(drug)
+  // Expired stock has its own notice below
+  const heldBack = (Object.entries(unsellableQuantities(drug.batches)) as [StockState, number][])
+    .filter(([state]) => state !== 'expired')
+
   const getStockIcon = () => {
     const status = getStockStatus()
     switch (status) {
@@ -65,6 +77,34 @@ export function DrugCard({ drug, onClick, onEdit, showSubstitutes = false }: Dru
                 {getStockIcon()}
                 {drug.stockLevel}
               </Badge>
+              {onDispense && sellable > 0 && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={(e) => {
+                    e.stopPropagation()
+                    onDispense()
+                  }}
+                  className="h-8 w-8 p-0 hover:bg-sky-100"
+                  title="Dispense"
+                >
+                  <HandHeart className="h-4 w-4 text-sky-600" />
+                </Button>
+              )}
+              {onAddToBasket && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={(e) => {
+                    e.stopPropagation()
+                    onAddToBasket()
+                  }}
+                  className="h-8 w-8 p-0 hover:bg-sky-100"
+                  title="Add to prescription basket"
+                >
+                  <ShoppingBasket className="h-4 w-4 text-sky-600" />
+                </Button>
+              )}
               {onEdit && (
                 <Button
                   variant="ghost"
@@ -78,6 +118,20 @@ export function DrugCard({ drug, onClick, onEdit, showSubstitutes = false }: Dru
                   <Edit className="h-4 w-4 text-sky-600" />
                 </Button>
               )}
+              {onViewHistory && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={(e) => {
+                    e.stopPropagation()
+                    onViewHistory()
+                  }}
+                  className="h-8 w-8 p-0 hover:bg-sky-100"
+                  title="Stock history"
+                >
+                  <History className="h-4 w-4 text-sky-600" />
+                </Button>
+              )}
             </div>
             {drug.isControlled && (
               <Badge variant="destructive" className="text-xs">
@@ -85,6 +139,12 @@ export function DrugCard({ drug, onClick, onEdit, showSubstitutes = false }: Dru
                 Controlled
               </Badge>
             )}
+            {!!drug.ledgerVariance && (
+              <Badge variant="outline" className="text-xs text-amber-700 border-amber-200 bg-amber-50">
+                <AlertTriangle className="h-3 w-3 mr-1" />
+                Ledger mismatch
+              </Badge>
+            )}
           </div>
         </div>
       </CardHeader>
@@ -111,6 +171,7 @@ export function DrugCard({ drug, onClick, onEdit, showSubstitutes = false }: Dru
             <div>
               <span className="text-gray-500">Category:</span>
               <p className="font-medium text-gray-900">{drug.category}</p>
+              {drug.atcCode && <p className="text-xs font-mono text-gray-500">ATC {drug.atcCode}</p>}
             </div>
           </div>
 
@@ -150,6 +211,21 @@ export function DrugCard({ drug, onClick, onEdit, showSubstitutes = false }: Dru
               Low Stock - Reorder Soon
             </div>
           )}
+          {heldBack.length > 0 && (
+            <div className="text-xs text-red-700 bg-red-50 px-2 py-1 rounded">
+              Not for sale: {heldBack.map(([state, quantity]) => `${quantity} ${STOCK_STATE_LABELS[state].toLowerCase()}`).join(', ')}
+            </div>
+          )}
+          {expiry && expiry.days < 0 && (
+            <div className="text-xs text-red-700 bg-red-50 px-2 py-1 rounded">
+              Batch {expiry.batch.batchNumber} expired on {expiry.batch.expiryDate}
+            </div>
+          )}
+          {expiry && expiry.days >= 0 && expiry.days < EXPIRING_SOON_DAYS && (
+            <div className="text-xs text-orange-700 bg-orange-50 px-2 py-1 rounded">
+              Batch {expiry.batch.batchNumber} expires in {expiry.days} days
+            </div>
+          )}
         </div>
       </CardContent>
     </Card>
@@ -0,0 +1,621 @@
+import { useMemo } from 'react'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { Drug, StockBatch, Supplier } from '../types/pharmacy'
+import { createDrugFormSchema, drugFormDefaults, drugFromForm, DrugFormData, DrugFormValues } from '../services/drugSchema'
+import { batchFromScan, generateInternalBarcode, readScannedCode } from '../services/barcodeScanning'
+import { diffBatchQuantities, sumBatchQuantities } from '../services/stockBatches'
+import { BatchListEditor } from './BatchListEditor'
+import { SupplierPriceEditor } from './SupplierPriceEditor'
+import { IngredientListEditor } from './IngredientListEditor'
+import { AtcCodeField } from './AtcCodeField'
+import { TagListInput } from './TagListInput'
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from './ui/form'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import { Textarea } from './ui/textarea'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { Switch } from './ui/switch'
+import { Badge } from './ui/badge'
+import { RotateCcw, Save, Scan } from 'lucide-react'
+
+const DOSAGE_FORMS = [
+  'Tablet', 'Capsule', 'Syrup', 'Suspension', 'Injection', 'Cream', 'Ointment',
+  'Gel', 'Drops', 'Inhaler', 'Patch', 'Suppository', 'Powder'
+]
+
+const THERAPEUTIC_CLASSES = [
+  'Analgesic', 'Antibiotic', 'Antacid', 'Antihistamine', 'Anti-inflammatory',
+  'Antihypertensive', 'Antidiabetic', 'Cardiovascular', 'Respiratory',
+  'Gastrointestinal', 'Neurological', 'Dermatological', 'Hormonal'
+]
+
+/** Empty number inputs are held as NaN so the schema reports them as missing */
+const numberValue = (value: number) => Number.isNaN(value) ? '' : value
+const parseNumber = (e: React.ChangeEvent<HTMLInputElement>) => e.target.value === '' ? NaN : e.target.valueAsNumber
+const parseOptionalNumber = (e: React.ChangeEvent<HTMLInputElement>) => e.target.value === '' ? undefined : e.target.valueAsNumber
+
+interface DrugFormProps {
+  /** The drug being edited; omit to add a new one */
+  drug?: Drug
+  /** Current inventory, checked for duplicate barcodes */
+  drugs: Drug[]
+  categories: string[]
+  manufacturers: string[]
+  suppliers: Supplier[]
+  /** Prefill the barcode, e.g. after scanning a pack that is not in the catalogue */
+  initialBarcode?: string
+  /** Append a batch row, e.g. lot and expiry read from a GS1 DataMatrix */
+  initialBatch?: StockBatch
+  canEditPrice?: boolean
+  canAdjustStock?: boolean
+  canEditSupplierPrices?: boolean
+  submitLabel: string
+  onSubmit: (drug: Drug, stockChangeReason?: string) => Promise<void>
+  onCancel: () => void
+}
+
+/**
+ * Add and edit form for catalogue drugs, validated against the shared drug schema
+ */
+export function DrugForm({
+  drug,
+  drugs,
+  categories,
+  manufacturers,
+  suppliers,
+  initialBarcode,
+  initialBatch,
+  canEditPrice = true,
+  canAdjustStock = true,
+  canEditSupplierPrices = true,
+  submitLabel,
+  onSubmit,
+  onCancel
+}: DrugFormProps) {
+  const schema = useMemo(() => createDrugFormSchema(drugs, drug), [drugs, drug])
+
+  const defaultValues = useMemo(() => {
+    const defaults = drugFormDefaults(drug)
+    return {
+      ...defaults,
+      barcode: initialBarcode ?? defaults.barcode,
+      batches: initialBatch ? [...defaults.batches, initialBatch] : defaults.batches
+    }
+  }, [drug, initialBarcode, initialBatch])
+
+  const form = useForm<DrugFormValues, unknown, DrugFormData>({
+    resolver: zodResolver(schema),
+    defaultValues
+  })
+
+  const batches = form.watch('batches')
+  const dosageForm = form.watch('dosageForm')
+  const isControlled = form.watch('isControlled')
+  // Controlled stock only moves through witnessed entries in the CD register
+  const lockQuantities = !canAdjustStock || isControlled
+  const stockChanged = !!drug && diffBatchQuantities(drug.batches, batches).length > 0
+  const dosageForms = !dosageForm || DOSAGE_FORMS.includes(dosageForm) ? DOSAGE_FORMS : [...DOSAGE_FORMS, dosageForm]
+
+  const handleSubmit = async (data: DrugFormData) => {
+    await onSubmit(drugFromForm(data, drug), stockChanged ? data.stockChangeReason : undefined)
+  }
+
+  /**
+   * A scanner types a GS1 element string into the barcode field and presses Enter:
+   * keep the GTIN as the barcode and start a batch row with the pack's lot and expiry
+   */
+  const handleBarcodeKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key !== 'Enter') return
+    e.preventDefault()
+
+    try {
+      const { code, gs1 } = readScannedCode(form.getValues('barcode') ?? '')
+      form.setValue('barcode', code, { shouldValidate: true })
+      if ((gs1?.lot || gs1?.expiryDate) && !lockQuantities) {
+        form.setValue('batches', [...form.getValues('batches'), batchFromScan(gs1, form.getValues('manufacturer') || undefined)])
+      }
+    } catch (error) {
+      form.setError('barcode', { message: error instanceof Error ? error.message : 'Could not read the scanned code' })
+    }
+  }
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-6">
+        {/* Basic Information */}
+        <div className="space-y-4">
+          <h3 className="text-lg font-medium text-gray-900 border-b pb-2">
+            Basic Information
+          </h3>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Drug Name *</FormLabel>
+                  <FormControl>
+                    <Input {...field} placeholder="e.g., Paracetamol 500mg" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="genericName"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Generic Name</FormLabel>
+                  <FormControl>
+                    <Input {...field} placeholder="e.g., Acetaminophen" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="brandName"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Brand Name</FormLabel>
+                  <FormControl>
+                    <Input {...field} placeholder="e.g., Tylenol" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+
+          <FormField
+            control={form.control}
+            name="ingredients"
+            render={({ field }) => (
+              <FormItem>
+                <IngredientListEditor ingredients={field.value} onChange={field.onChange} />
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <FormField
+              control={form.control}
+              name="dosageForm"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Dosage Form *</FormLabel>
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select form" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {dosageForms.map(option => (
+                        <SelectItem key={option} value={option}>{option}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="therapeuticClass"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Therapeutic Class</FormLabel>
+                  <Select value={field.value ?? ''} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select class" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {THERAPEUTIC_CLASSES.map(cls => (
+                        <SelectItem key={cls} value={cls}>{cls}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+        </div>
+
+        {/* Classification */}
+        <div className="space-y-4">
+          <h3 className="text-lg font-medium text-gray-900 border-b pb-2">
+            Classification
+          </h3>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <FormField
+              control={form.control}
+              name="category"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Category *</FormLabel>
+                  <FormControl>
+                    <Input {...field} list="drugCategoryOptions" placeholder="Select or enter a category" />
+                  </FormControl>
+                  <datalist id="drugCategoryOptions">
+                    {categories.map(category => <option key={category} value={category} />)}
+                  </datalist>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="manufacturer"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Manufacturer *</FormLabel>
+                  <FormControl>
+                    <Input {...field} list="drugManufacturerOptions" placeholder="Select or enter a manufacturer" />
+                  </FormControl>
+                  <datalist id="drugManufacturerOptions">
+                    {manufacturers.map(manufacturer => <option key={manufacturer} value={manufacturer} />)}
+                  </datalist>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="atcCode"
+              render={({ field }) => (
+                <FormItem>
+                  <AtcCodeField value={field.value ?? ''} onChange={field.onChange} />
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+        </div>
+
+        {/* Inventory & Pricing */}
+        <div className="space-y-4">
+          <h3 className="text-lg font-medium text-gray-900 border-b pb-2">
+            Inventory & Pricing
+          </h3>
+
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="stockLevel">Current Stock</Label>
+              <Input id="stockLevel" type="number" value={sumBatchQuantities(batches)} readOnly disabled />
+            </div>
+            <FormField
+              control={form.control}
+              name="minStockLevel"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Min Stock Level</FormLabel>
+                  <FormControl>
+                    <Input {...field} type="number" min="0" value={numberValue(field.value)} onChange={(e) => field.onChange(parseNumber(e))} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="maxStockLevel"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Max Stock Level</FormLabel>
+                  <FormControl>
+                    <Input {...field} type="number" min="0" value={numberValue(field.value)} onChange={(e) => field.onChange(parseNumber(e))} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="unitPrice"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Unit Price ($) *</FormLabel>
+                  <FormControl>
+                    <Input
+                      {...field}
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      placeholder="0.00"
+                      disabled={!canEditPrice}
+                      value={numberValue(field.value)}
+                      onChange={(e) => field.onChange(parseNumber(e))}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <FormField
+              control={form.control}
+              name="packSize"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Pack Size</FormLabel>
+                  <FormControl>
+                    <Input {...field} type="number" min="1" placeholder="1" value={field.value ?? ''} onChange={(e) => field.onChange(parseOptionalNumber(e))} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="leadTimeDays"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Lead Time (days)</FormLabel>
+                  <FormControl>
+                    <Input {...field} type="number" min="0" placeholder="7" value={field.value ?? ''} onChange={(e) => field.onChange(parseOptionalNumber(e))} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="location"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Shelf Location</FormLabel>
+                  <FormControl>
+                    <Input {...field} value={field.value ?? ''} placeholder="e.g., B3" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+
+          {stockChanged && (
+            <FormField
+              control={form.control}
+              name="stockChangeReason"
+              render={({ field }) => (
+                <FormItem className="p-4 bg-amber-50 border border-amber-200 rounded-lg">
+                  <FormLabel>
+                    Reason for stock adjustment ({drug.stockLevel} → {sumBatchQuantities(batches)}) *
+                  </FormLabel>
+                  <FormControl>
+                    <Input {...field} placeholder="e.g., Damaged packs removed, count correction" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          )}
+        </div>
+
+        {/* Stock Batches */}
+        <div className="space-y-4">
+          <h3 className="text-lg font-medium text-gray-900 border-b pb-2">
+            Stock Batches
+          </h3>
+          <FormField
+            control={form.control}
+            name="batches"
+            render={({ field }) => (
+              <FormItem>
+                <BatchListEditor
+                  batches={field.value}
+                  onChange={field.onChange}
+                  defaultSupplier={form.getValues('manufacturer') || undefined}
+                  lockQuantities={lockQuantities}
+                  lockStatus={!canAdjustStock}
+                  lockedMessage={isControlled && canAdjustStock
+                    ? 'Controlled stock is received against purchase orders and returned or destroyed from the CD register, with a witness.'
+                    : undefined}
+                />
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        {/* Supplier Prices */}
+        <div className="space-y-4">
+          <h3 className="text-lg font-medium text-gray-900 border-b pb-2">
+            Supplier Prices
+          </h3>
+          <FormField
+            control={form.control}
+            name="supplierPrices"
+            render={({ field }) => (
+              <FormItem>
+                <SupplierPriceEditor
+                  prices={field.value ?? []}
+                  suppliers={suppliers}
+                  onChange={field.onChange}
+                  readOnly={!canEditSupplierPrices}
+                />
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        {/* Product Details */}
+        <div className="space-y-4">
+          <h3 className="text-lg font-medium text-gray-900 border-b pb-2">
+            Product Details
+          </h3>
+
+          <FormField
+            control={form.control}
+            name="barcode"
+            render={({ field }) => (
+              <FormItem className="md:w-1/2">
+                <FormLabel>Barcode</FormLabel>
+                <div className="flex gap-2">
+                  <FormControl>
+                    <Input
+                      {...field}
+                      value={field.value ?? ''}
+                      onKeyDown={handleBarcodeKeyDown}
+                      placeholder="Scan or enter barcode"
+                      className="flex-1"
+                    />
+                  </FormControl>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => form.setValue('barcode', generateInternalBarcode(), { shouldValidate: true })}
+                    title="Generate an in-store barcode"
+                  >
+                    <Scan className="h-4 w-4" />
+                  </Button>
+                </div>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="description"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Description</FormLabel>
+                <FormControl>
+                  <Textarea {...field} value={field.value ?? ''} placeholder="Brief description and usage instructions" rows={2} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="sideEffects"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Side Effects</FormLabel>
+                <FormControl>
+                  <Textarea {...field} value={field.value ?? ''} placeholder="Common side effects (optional)" rows={2} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <FormField
+              control={form.control}
+              name="allergens"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Allergens &amp; Excipients</FormLabel>
+                  <TagListInput
+                    id="allergens"
+                    value={field.value ?? []}
+                    onChange={field.onChange}
+                    placeholder="e.g., penicillin, lactose, gelatin"
+                  />
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="contraindications"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Contraindications</FormLabel>
+                  <TagListInput
+                    id="contraindications"
+                    value={field.value ?? []}
+                    onChange={field.onChange}
+                    placeholder="e.g., asthma, peptic ulcer, pregnancy"
+                  />
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+        </div>
+
+        {/* Regulatory */}
+        <div className="space-y-4">
+          <h3 className="text-lg font-medium text-gray-900 border-b pb-2">
+            Regulatory Information
+          </h3>
+
+          <div className="flex flex-col sm:flex-row gap-6">
+            <FormField
+              control={form.control}
+              name="requiresPrescription"
+              render={({ field }) => (
+                <FormItem className="flex items-center gap-2 space-y-0">
+                  <FormControl>
+                    <Switch checked={field.value} onCheckedChange={field.onChange} />
+                  </FormControl>
+                  <FormLabel className="flex items-center gap-2">
+                    Requires Prescription
+                    {field.value && <Badge variant="secondary" className="text-xs">Rx</Badge>}
+                  </FormLabel>
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="isControlled"
+              render={({ field }) => (
+                <FormItem className="flex items-center gap-2 space-y-0">
+                  <FormControl>
+                    <Switch checked={field.value} onCheckedChange={field.onChange} />
+                  </FormControl>
+                  <FormLabel className="flex items-center gap-2">
+                    Controlled Substance
+                    {field.value && <Badge variant="destructive" className="text-xs">Controlled</Badge>}
+                  </FormLabel>
+                </FormItem>
+              )}
+            />
+          </div>
+        </div>
+
+        {/* Action Buttons */}
+        <div className="flex items-center justify-between pt-6 border-t">
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => form.reset(defaultValues)}
+            className="flex items-center gap-2"
+          >
+            <RotateCcw className="h-4 w-4" />
+            Reset
+          </Button>
+
+          <div className="flex gap-3">
+            <Button type="button" variant="outline" onClick={onCancel}>
+              Cancel
+            </Button>
+            <Button type="submit" className="flex items-center gap-2" disabled={form.formState.isSubmitting}>
+              <Save className="h-4 w-4" />
+              {form.formState.isSubmitting ? 'Saving...' : submitLabel}
+            </Button>
+          </div>
+        </div>
+      </form>
+    </Form>
+  )
+}
@@ -0,0 +1,329 @@
+import { useEffect, useState } from 'react'
+import { Drug } from '../types/pharmacy'
+import {
+  ColumnMapping,
+  drugsToImport,
+  guessMapping,
+  IMPORT_ACTION_LABELS,
+  IMPORT_FIELDS,
+  ImportAction,
+  importErrorReportCsv,
+  ImportPlan,
+  planImport,
+  sheetHeaders,
+  unmappedRequiredFields
+} from '../services/drugImport'
+import { downloadCsv, isBlankRow, readSpreadsheet, SheetRows } from '../services/spreadsheet'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import { Badge } from './ui/badge'
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from './ui/dialog'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table'
+import { AlertTriangle, Download, FileSpreadsheet } from 'lucide-react'
+
+interface DrugImportWizardProps {
+  isOpen: boolean
+  onClose: () => void
+  drugs: Drug[]
+  /** Resolves true once the drugs are saved; the review stays open otherwise */
+  onImport: (drugs: Drug[]) => Promise<boolean>
+}
+
+type Step = 'upload' | 'map' | 'review'
+
+const NOT_MAPPED = 'none'
+const ALL = 'all'
+/** Rows shown in the dry run; the error report and the import cover every row */
+const PREVIEW_ROWS = 200
+
+const ACTION_STYLES: Record<ImportAction, string> = {
+  create: 'bg-green-100 text-green-800 border-green-200',
+  update: 'bg-sky-100 text-sky-800 border-sky-200',
+  unchanged: 'bg-gray-100 text-gray-700 border-gray-200',
+  error: 'bg-red-100 text-red-800 border-red-200'
+}
+
+export function DrugImportWizard({ isOpen, onClose, drugs, onImport }: DrugImportWizardProps) {
+  const [step, setStep] = useState<Step>('upload')
+  const [fileName, setFileName] = useState('')
+  const [sheet, setSheet] = useState<SheetRows>([])
+  const [mapping, setMapping] = useState<ColumnMapping>({})
+  const [plan, setPlan] = useState<ImportPlan | null>(null)
+  const [filter, setFilter] = useState<ImportAction | typeof ALL>(ALL)
+  const [error, setError] = useState<string | null>(null)
+  const [busy, setBusy] = useState(false)
+
+  useEffect(() => {
+    if (isOpen) {
+      setStep('upload')
+      setFileName('')
+      setSheet([])
+      setMapping({})
+      setPlan(null)
+      setFilter(ALL)
+      setError(null)
+    }
+  }, [isOpen])
+
+  const headers = sheetHeaders(sheet)
+  const headerIndex = sheet.indexOf(headers)
+  const sample = sheet.slice(headerIndex + 1).find(row => !isBlankRow(row)) ?? []
+  const missing = unmappedRequiredFields(mapping)
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return
+    setBusy(true)
+    setError(null)
+    try {
+      const rows = await readSpreadsheet(file)
+      if (rows.length < 2) throw new Error(`${file.name} has no rows below the header`)
+      setFileName(file.name)
+      setSheet(rows)
+      setMapping(guessMapping(sheetHeaders(rows)))
+      setStep('map')
+    } catch (err) {
+      setError(err instanceof Error ? err.message : `Could not read ${file.name}`)
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const mapField = (field: keyof ColumnMapping, value: string) => {
+    setMapping(prev => {
+      const next = { ...prev }
+      if (value === NOT_MAPPED) delete next[field]
+      else next[field] = Number(value)
+      return next
+    })
+  }
+
+  const handleCheck = () => {
+    if (mapping.name === undefined && mapping.barcode === undefined) {
+      setError('Map the barcode column to update drugs, or the name and other required columns to add them')
+      return
+    }
+    setError(null)
+    setPlan(planImport(sheet, mapping, drugs))
+    setFilter(ALL)
+    setStep('review')
+  }
+
+  const handleImport = async () => {
+    if (!plan) return
+    setBusy(true)
+    setError(null)
+    try {
+      if (await onImport(drugsToImport(plan))) onClose()
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const downloadErrors = () => {
+    if (!plan) return
+    downloadCsv(importErrorReportCsv(plan), `${fileName.replace(/\.[^.]+$/, '')}-errors.csv`)
+  }
+
+  const shownRows = plan?.rows.filter(row => filter === ALL || row.action === filter) ?? []
+  const toImport = plan ? plan.counts.create + plan.counts.update : 0
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FileSpreadsheet className="h-5 w-5 text-sky-600" />
+            Import Drugs{fileName && `: ${fileName}`}
+          </DialogTitle>
+        </DialogHeader>
+
+        {step === 'upload' && (
+          <div className="space-y-3">
+            <p className="text-sm text-gray-600">
+              Upload a wholesaler price list or catalogue export as .csv or .xlsx, with column headers on the first row.
+              Rows whose barcode is already in the catalogue update that drug; the rest are added as new drugs, except
+              rows without a barcode whose name, strength and form are already on file.
+              Stock levels are not imported: receive stock against a purchase order or count it in a stock-take.
+            </p>
+            <div className="max-w-md">
+              <Label htmlFor="importFile">Spreadsheet</Label>
+              <Input
+                id="importFile"
+                type="file"
+                accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+                disabled={busy}
+                onChange={(e) => handleFile(e.target.files?.[0])}
+              />
+            </div>
+            {busy && <p className="text-sm text-gray-600">Reading file...</p>}
+          </div>
+        )}
+
+        {step === 'map' && (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-600">
+              {sheet.length - headerIndex - 1} rows found. Match each drug field to a column; columns were matched
+              by header name where possible.
+            </p>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Field</TableHead>
+                  <TableHead>Column</TableHead>
+                  <TableHead>First Row</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {IMPORT_FIELDS.map(spec => {
+                  const column = mapping[spec.field]
+                  return (
+                    <TableRow key={spec.field}>
+                      <TableCell className="font-medium">{spec.label}{spec.required && ' *'}</TableCell>
+                      <TableCell className="w-64">
+                        <Select
+                          value={column === undefined ? NOT_MAPPED : String(column)}
+                          onValueChange={(value) => mapField(spec.field, value)}
+                        >
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value={NOT_MAPPED}>Not imported</SelectItem>
+                            {headers.map((header, index) => (
+                              <SelectItem key={index} value={String(index)}>
+                                {header.trim() || `Column ${index + 1}`}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </TableCell>
+                      <TableCell className="text-sm text-gray-600">
+                        {column === undefined ? '' : sample[column] ?? ''}
+                      </TableCell>
+                    </TableRow>
+                  )
+                })}
+              </TableBody>
+            </Table>
+            {missing.length > 0 && (
+              <p className="text-sm text-amber-700 bg-amber-50 border border-amber-200 rounded p-3">
+                New drugs also need {missing.join(', ')}. Rows that do not match a barcode in the catalogue will fail without them.
+              </p>
+            )}
+            {mapping.barcode === undefined && (
+              <p className="text-sm text-amber-700 bg-amber-50 border border-amber-200 rounded p-3">
+                Without a barcode column every row is added as a new drug.
+              </p>
+            )}
+          </div>
+        )}
+
+        {step === 'review' && plan && (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-600">
+              Dry run: nothing has been saved yet. The {toImport} new and updated drug{toImport === 1 ? '' : 's'} are
+              saved together; rows with errors are skipped.
+            </p>
+            <div className="flex flex-wrap items-center gap-2">
+              {(Object.keys(IMPORT_ACTION_LABELS) as ImportAction[]).map(action => (
+                <Badge key={action} variant="outline" className={ACTION_STYLES[action]}>
+                  {plan.counts[action]} {IMPORT_ACTION_LABELS[action].toLowerCase()}
+                </Badge>
+              ))}
+              <div className="ml-auto w-48">
+                <Select value={filter} onValueChange={(value: ImportAction | typeof ALL) => setFilter(value)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL}>All rows</SelectItem>
+                    {(Object.keys(IMPORT_ACTION_LABELS) as ImportAction[]).map(action => (
+                      <SelectItem key={action} value={action}>{IMPORT_ACTION_LABELS[action]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            {shownRows.length === 0 ? (
+              <p className="text-center text-sm text-gray-600 py-8">No rows to show.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="text-right">Row</TableHead>
+                    <TableHead>Action</TableHead>
+                    <TableHead>Drug</TableHead>
+                    <TableHead>Details</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {shownRows.slice(0, PREVIEW_ROWS).map(row => (
+                    <TableRow key={row.rowNumber}>
+                      <TableCell className="text-right text-gray-500">{row.rowNumber}</TableCell>
+                      <TableCell>
+                        <Badge variant="outline" className={ACTION_STYLES[row.action]}>{IMPORT_ACTION_LABELS[row.action]}</Badge>
+                      </TableCell>
+                      <TableCell>
+                        <p className="font-medium">{row.drug?.name ?? row.existing?.name ?? (mapping.name === undefined ? '' : row.cells[mapping.name])}</p>
+                        {row.drug && <p className="text-xs text-gray-500">{row.drug.dosage} {row.drug.dosageForm}</p>}
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {row.errors.map(message => (
+                          <p key={message} className="text-red-700">{message}</p>
+                        ))}
+                        {row.changes.map(change => (
+                          <p key={change.field}>
+                            <span className="text-gray-500">{change.label}:</span>{' '}
+                            <span className="line-through text-gray-400">{change.before || 'blank'}</span>{' '}
+                            &rarr; {change.after || 'blank'}
+                          </p>
+                        ))}
+                        {row.action === 'create' && <p className="text-gray-600">Added with no stock</p>}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+            {shownRows.length > PREVIEW_ROWS && (
+              <p className="text-sm text-gray-600">Showing the first {PREVIEW_ROWS} of {shownRows.length} rows.</p>
+            )}
+          </div>
+        )}
+
+        {error && (
+          <div className="flex items-center gap-2 text-sm text-red-700 bg-red-50 border border-red-200 rounded p-3">
+            <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+            {error}
+          </div>
+        )}
+
+        <DialogFooter>
+          {step === 'map' && (
+            <>
+              <Button variant="outline" onClick={() => setStep('upload')}>Back</Button>
+              <Button onClick={handleCheck}>Check Import</Button>
+            </>
+          )}
+          {step === 'review' && plan && (
+            <>
+              <Button variant="outline" onClick={() => setStep('map')} disabled={busy}>Back to Columns</Button>
+              {plan.counts.error > 0 && (
+                <Button variant="outline" onClick={downloadErrors} className="flex items-center gap-2">
+                  <Download className="h-4 w-4" />
+                  Download Error Report
+                </Button>
+              )}
+              <Button onClick={handleImport} disabled={busy || toImport === 0}>
+                {busy ? 'Importing...' : `Import ${toImport} Drug${toImport === 1 ? '' : 's'}`}
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,133 @@
+import { useState, useMemo } from 'react'
+import { Drug, StockBatch } from '../types/pharmacy'
+import { buildExpiryReport, ExpiryBucket } from '../services/expiryAnalysis'
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card'
+import { Button } from './ui/button'
+import { Badge } from './ui/badge'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table'
+import { CalendarX, Trash2 } from 'lucide-react'
+
+interface ExpiryDashboardProps {
+  drugs: Drug[]
+  onWriteOff: (drug: Drug, batch: StockBatch) => Promise<void>
+  canWriteOff?: boolean
+}
+
+export function ExpiryDashboard({ drugs, onWriteOff, canWriteOff = true }: ExpiryDashboardProps) {
+  const report = useMemo(() => buildExpiryReport(drugs), [drugs])
+  const [selectedBucket, setSelectedBucket] = useState<ExpiryBucket>('expired')
+  const [writingOff, setWritingOff] = useState<string | null>(null)
+
+  const selected = report.find(summary => summary.bucket === selectedBucket) ?? report[0]
+
+  const getBucketColor = (bucket: ExpiryBucket) => {
+    switch (bucket) {
+      case 'expired': return 'text-red-600'
+      case 'within30': return 'text-orange-600'
+      case 'within90': return 'text-yellow-600'
+      default: return 'text-blue-600'
+    }
+  }
+
+  const handleWriteOff = async (drug: Drug, batch: StockBatch) => {
+    const confirmed = window.confirm(
+      `Write off ${batch.quantity} units of ${drug.name} (batch ${batch.batchNumber})? This cannot be undone.`
+    )
+    if (!confirmed) return
+
+    setWritingOff(batch.id)
+    try {
+      await onWriteOff(drug, batch)
+    } finally {
+      setWritingOff(null)
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+        {report.map(summary => (
+          <Card
+            key={summary.bucket}
+            className={`cursor-pointer transition-all hover:shadow-md ${
+              summary.bucket === selected.bucket ? 'ring-2 ring-sky-300' : ''
+            }`}
+            onClick={() => setSelectedBucket(summary.bucket)}
+          >
+            <CardHeader className="pb-2">
+              <CardTitle className="text-sm font-medium text-gray-600">{summary.label}</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className={`text-2xl font-bold ${getBucketColor(summary.bucket)}`}>
+                ${summary.valueAtRisk.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+              </div>
+              <p className="text-sm text-gray-600 mt-1">
+                {summary.units} units in {summary.entries.length} batch{summary.entries.length === 1 ? '' : 'es'}
+              </p>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+        <h3 className="text-lg font-semibold text-gray-900 flex items-center gap-2 mb-4">
+          <CalendarX className="h-5 w-5 text-sky-600" />
+          {selected.label}
+        </h3>
+
+        {selected.entries.length === 0 ? (
+          <p className="text-center text-gray-600 py-8">No stock in this expiry window.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Drug</TableHead>
+                <TableHead>Batch</TableHead>
+                <TableHead>Expiry</TableHead>
+                <TableHead className="text-right">Quantity</TableHead>
+                <TableHead className="text-right">Value at Risk</TableHead>
+                <TableHead></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {selected.entries.map(({ drug, batch, daysUntilExpiry, valueAtRisk }) => (
+                <TableRow key={`${drug.id}-${batch.id}`}>
+                  <TableCell>
+                    <p className="font-medium text-gray-900">{drug.name}</p>
+                    <p className="text-xs text-gray-500">{drug.manufacturer}</p>
+                  </TableCell>
+                  <TableCell>{batch.batchNumber}</TableCell>
+                  <TableCell>
+                    <p>{batch.expiryDate}</p>
+                    <Badge variant="outline" className={`text-xs ${getBucketColor(selected.bucket)}`}>
+                      {daysUntilExpiry < 0
+                        ? `Expired ${Math.abs(daysUntilExpiry)} days ago`
+                        : `${daysUntilExpiry} days left`}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="text-right">{batch.quantity}</TableCell>
+                  <TableCell className="text-right font-medium">${valueAtRisk.toFixed(2)}</TableCell>
+                  <TableCell className="text-right">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={!canWriteOff || drug.isControlled || writingOff === batch.id}
+                      title={drug.isControlled
+                        ? 'Destroy controlled stock from the CD register, with a witness'
+                        : canWriteOff ? undefined : 'You do not have permission to write off stock'}
+                      onClick={() => handleWriteOff(drug, batch)}
+                      className="flex items-center gap-2 text-red-600 hover:text-red-700"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                      Write Off
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,329 @@
+import { useEffect, useState } from 'react'
+import { Drug, GoodsReceiptLine, PharmacyUser, PurchaseOrder, Witness } from '../types/pharmacy'
+import { createId } from '../lib/utils'
+import { createReceiptLine, deliveryIssues, DeliveryIssueKind, GoodsDelivery, validateReceipt } from '../services/goodsReceiving'
+import { remainingQuantity } from '../services/purchaseOrders'
+import { findDrugByBarcode, readScannedCode, ScannedCode } from '../services/barcodeScanning'
+import { Gs1ParseError } from '../services/gs1'
+import { useBarcodeWedge } from '../hooks/use-barcode-wedge'
+import { WitnessSignature, WitnessSignOff } from './WitnessSignOff'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import { Textarea } from './ui/textarea'
+import { Badge } from './ui/badge'
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from './ui/dialog'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table'
+import { AlertTriangle, PackageCheck, Plus, ScanLine, Trash2 } from 'lucide-react'
+
+interface GoodsReceivingModalProps {
+  order: PurchaseOrder | null
+  drugs: Drug[]
+  /** Staff who can countersign controlled drugs into stock */
+  witnesses: PharmacyUser[]
+  onClose: () => void
+  onReceive: (orderId: string, delivery: GoodsDelivery) => Promise<void>
+  onSignWitness: (staffId: string, pin: string) => Promise<Witness>
+}
+
+type ReceiptRow = GoodsReceiptLine & { key: string }
+
+const ISSUE_STYLES: Record<DeliveryIssueKind, string> = {
+  short: 'bg-amber-100 text-amber-800 border-amber-200',
+  over: 'bg-sky-100 text-sky-800 border-sky-200',
+  damaged: 'bg-red-100 text-red-800 border-red-200'
+}
+
+const openRows = (order: PurchaseOrder): ReceiptRow[] => order.lines
+  .filter(line => remainingQuantity(line) > 0)
+  .map(line => ({ ...createReceiptLine(line), key: createId('row') }))
+
+export function GoodsReceivingModal({ order, drugs, witnesses, onClose, onReceive, onSignWitness }: GoodsReceivingModalProps) {
+  const [rows, setRows] = useState<ReceiptRow[]>([])
+  const [notes, setNotes] = useState('')
+  const [scanInput, setScanInput] = useState('')
+  const [scanMessage, setScanMessage] = useState<{ text: string, ok: boolean } | null>(null)
+  const [signature, setSignature] = useState<WitnessSignature>({ staffId: '', pin: '' })
+  const [error, setError] = useState<string | null>(null)
+  const [submitting, setSubmitting] = useState(false)
+
+  useEffect(() => {
+    if (order) {
+      setRows(openRows(order))
+      setNotes('')
+      setScanInput('')
+      setScanMessage(null)
+      setSignature({ staffId: '', pin: '' })
+      setError(null)
+    }
+  }, [order])
+
+  /**
+   * Count one pack of the scanned item. GS1 pack codes fill in the lot and
+   * expiry, and a lot not seen yet on this delivery gets its own row.
+   */
+  const handleScan = (raw: string) => {
+    if (!order) return
+
+    let scanned: ScannedCode
+    try {
+      scanned = readScannedCode(raw)
+    } catch (err) {
+      setScanMessage({ text: err instanceof Gs1ParseError ? `Could not read pack code: ${err.message}` : 'Could not read the scanned code', ok: false })
+      return
+    }
+
+    const onOrder = drugs.filter(drug => order.lines.some(line => line.drugId === drug.id))
+    const drug = findDrugByBarcode(onOrder, scanned.code)
+    const orderLine = drug && order.lines.find(line => line.drugId === drug.id)
+    if (!drug || !orderLine) {
+      setScanMessage({ text: `${scanned.code} is not on ${order.reference}`, ok: false })
+      return
+    }
+
+    const lot = scanned.gs1?.lot
+    const expiryDate = scanned.gs1?.expiryDate ?? ''
+    setRows(prev => {
+      const forDrug = prev.filter(row => row.drugId === drug.id)
+      const target = lot
+        ? forDrug.find(row => row.batchNumber === lot) ?? forDrug.find(row => !row.batchNumber)
+        : forDrug[0]
+
+      if (!target) {
+        return [...prev, {
+          ...createReceiptLine(orderLine, orderLine.packSize),
+          batchNumber: lot ?? '',
+          expiryDate,
+          key: createId('row')
+        }]
+      }
+      return prev.map(row => row.key !== target.key ? row : {
+        ...row,
+        quantity: row.quantity + orderLine.packSize,
+        batchNumber: row.batchNumber || lot || '',
+        expiryDate: row.expiryDate || expiryDate
+      })
+    })
+    setScanMessage({ text: `Added a pack of ${orderLine.packSize} ${drug.name}${lot ? ` (lot ${lot})` : ''}`, ok: true })
+  }
+
+  // A scan into the focused input leaves its digits behind; the wedge has already counted it
+  useBarcodeWedge((raw) => {
+    setScanInput('')
+    handleScan(raw)
+  }, { enabled: !!order })
+
+  if (!order) return null
+
+  const updateRow = (key: string, changes: Partial<GoodsReceiptLine>) => {
+    setRows(prev => prev.map(row => row.key === key ? { ...row, ...changes } : row))
+  }
+
+  const addLot = (drugId: string) => {
+    const orderLine = order.lines.find(line => line.drugId === drugId)
+    if (orderLine) setRows(prev => [...prev, { ...createReceiptLine(orderLine), key: createId('row') }])
+  }
+
+  const fillOutstanding = () => {
+    setRows(prev => prev.map(row => {
+      const first = prev.find(candidate => candidate.drugId === row.drugId)
+      const counted = prev.some(candidate => candidate.drugId === row.drugId && candidate.quantity > 0)
+      const orderLine = order.lines.find(line => line.drugId === row.drugId)
+      if (counted || first !== row || !orderLine) return row
+      return { ...row, quantity: remainingQuantity(orderLine) }
+    }))
+  }
+
+  const handleManualScan = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!scanInput.trim()) return
+    handleScan(scanInput)
+    setScanInput('')
+  }
+
+  const receivesControlled = rows.some(row => row.quantity > 0 && drugs.find(drug => drug.id === row.drugId)?.isControlled)
+
+  const handleSubmit = async () => {
+    const lines = rows.map(({ key: _key, ...line }) => line)
+    const problem = validateReceipt(order, lines.filter(line => line.quantity > 0 || line.damagedQuantity > 0))
+    if (problem) {
+      setError(problem)
+      return
+    }
+
+    const issues = deliveryIssues(order, lines)
+    if (issues.length > 0 && !window.confirm(`Post this delivery with ${issues.length} discrepanc${issues.length > 1 ? 'ies' : 'y'}?`)) return
+
+    setSubmitting(true)
+    setError(null)
+    try {
+      const witness = receivesControlled ? await onSignWitness(signature.staffId, signature.pin) : undefined
+      await onReceive(order.id, { lines, notes, witness })
+    } catch (err) {
+      setError(err instanceof Error ? err.message : `Could not receive ${order.reference}`)
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const issues = deliveryIssues(order, rows)
+
+  return (
+    <Dialog open={!!order} onOpenChange={onClose}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <PackageCheck className="h-5 w-5 text-green-600" />
+            Receive {order.reference} from {order.supplier}
+          </DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleManualScan} className="flex gap-2">
+          <Input
+            value={scanInput}
+            onChange={(e) => setScanInput(e.target.value)}
+            placeholder="Scan a pack, or type its barcode and press Enter"
+          />
+          <Button type="submit" variant="outline" className="flex items-center gap-2">
+            <ScanLine className="h-4 w-4" />
+            Add Pack
+          </Button>
+          <Button type="button" variant="outline" onClick={fillOutstanding}>
+            Fill Outstanding
+          </Button>
+        </form>
+        {scanMessage && (
+          <p className={`text-sm ${scanMessage.ok ? 'text-green-700' : 'text-red-700'}`}>{scanMessage.text}</p>
+        )}
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Item</TableHead>
+              <TableHead className="text-right">Outstanding</TableHead>
+              <TableHead>Lot</TableHead>
+              <TableHead>Expiry</TableHead>
+              <TableHead className="text-right">Received</TableHead>
+              <TableHead className="text-right">Damaged</TableHead>
+              <TableHead />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.map(row => {
+              const orderLine = order.lines.find(line => line.drugId === row.drugId)
+              const isFirst = rows.find(candidate => candidate.drugId === row.drugId) === row
+              return (
+                <TableRow key={row.key}>
+                  <TableCell>
+                    {isFirst ? (
+                      <>
+                        <div className="font-medium">{row.drugName}</div>
+                        <div className="text-xs text-gray-500">{orderLine?.dosage} {orderLine?.dosageForm} · packs of {orderLine?.packSize}</div>
+                      </>
+                    ) : <span className="text-xs text-gray-500">another lot</span>}
+                  </TableCell>
+                  <TableCell className="text-right">{isFirst && orderLine ? remainingQuantity(orderLine) : ''}</TableCell>
+                  <TableCell>
+                    <Input
+                      value={row.batchNumber}
+                      onChange={(e) => updateRow(row.key, { batchNumber: e.target.value })}
+                      placeholder="Lot number"
+                      className="w-32"
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      type="date"
+                      value={row.expiryDate}
+                      onChange={(e) => updateRow(row.key, { expiryDate: e.target.value })}
+                      className="w-40"
+                    />
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Input
+                      type="number"
+                      min="0"
+                      value={row.quantity}
+                      onChange={(e) => updateRow(row.key, { quantity: parseInt(e.target.value) || 0 })}
+                      className="w-20 ml-auto text-right"
+                    />
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Input
+                      type="number"
+                      min="0"
+                      value={row.damagedQuantity}
+                      onChange={(e) => updateRow(row.key, { damagedQuantity: parseInt(e.target.value) || 0 })}
+                      className="w-20 ml-auto text-right"
+                    />
+                  </TableCell>
+                  <TableCell className="text-right whitespace-nowrap">
+                    {isFirst ? (
+                      <Button variant="ghost" size="sm" onClick={() => addLot(row.drugId)} title="Add another lot">
+                        <Plus className="h-4 w-4" />
+                      </Button>
+                    ) : (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setRows(prev => prev.filter(existing => existing.key !== row.key))}
+                        title="Remove lot"
+                      >
+                        <Trash2 className="h-4 w-4 text-red-600" />
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              )
+            })}
+          </TableBody>
+        </Table>
+
+        {issues.length > 0 && (
+          <div className="space-y-1">
+            <Label>Discrepancies</Label>
+            <div className="flex flex-wrap gap-2">
+              {issues.map(issue => (
+                <Badge key={`${issue.drugId}-${issue.kind}`} variant="outline" className={ISSUE_STYLES[issue.kind]}>
+                  {issue.message}
+                </Badge>
+              ))}
+            </div>
+            <p className="text-xs text-gray-500">
+              Short items stay open on the order. Damaged units are recorded on the receipt but not put into stock.
+            </p>
+          </div>
+        )}
+
+        <div>
+          <Label htmlFor="receiptNotes">Notes</Label>
+          <Textarea
+            id="receiptNotes"
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            placeholder="Delivery note number, condition of the goods (optional)"
+            rows={2}
+          />
+        </div>
+
+        {receivesControlled && (
+          <WitnessSignOff witnesses={witnesses} value={signature} onChange={setSignature} />
+        )}
+
+        {error && (
+          <div className="flex items-center gap-2 text-sm text-red-700 bg-red-50 border border-red-200 rounded p-3">
+            <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+            {error}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={onClose}>Cancel</Button>
+          <Button onClick={handleSubmit} disabled={submitting}>
+            {submitting ? 'Posting...' : 'Post Delivery'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
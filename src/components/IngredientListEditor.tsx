@@ -0,0 +1,69 @@
+import { ActiveIngredient } from '../types/pharmacy'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import { Plus, Trash2 } from 'lucide-react'
+
+interface IngredientListEditorProps {
+  ingredients: ActiveIngredient[]
+  onChange: (ingredients: ActiveIngredient[]) => void
+}
+
+export function IngredientListEditor({ ingredients, onChange }: IngredientListEditorProps) {
+  const updateIngredient = (index: number, changes: Partial<ActiveIngredient>) => {
+    onChange(ingredients.map((ingredient, i) => i === index ? { ...ingredient, ...changes } : ingredient))
+  }
+
+  const removeIngredient = (index: number) => {
+    onChange(ingredients.filter((_, i) => i !== index))
+  }
+
+  return (
+    <div className="space-y-3">
+      {ingredients.map((ingredient, index) => (
+        <div key={index} className="grid grid-cols-[1fr_10rem_auto] gap-3 items-end">
+          <div>
+            <Label htmlFor={`ingredientName-${index}`}>{index === 0 ? 'Active Ingredient *' : 'Additional Ingredient *'}</Label>
+            <Input
+              id={`ingredientName-${index}`}
+              value={ingredient.name}
+              onChange={(e) => updateIngredient(index, { name: e.target.value })}
+              placeholder={index === 0 ? 'e.g., Amoxicillin' : 'e.g., Clavulanic Acid'}
+            />
+          </div>
+          <div>
+            <Label htmlFor={`ingredientStrength-${index}`}>Strength *</Label>
+            <Input
+              id={`ingredientStrength-${index}`}
+              value={ingredient.strength}
+              onChange={(e) => updateIngredient(index, { strength: e.target.value })}
+              placeholder={index === 0 ? 'e.g., 500mg' : 'e.g., 125mg'}
+            />
+          </div>
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => removeIngredient(index)}
+            disabled={ingredients.length === 1}
+            className="text-red-600 hover:text-red-700"
+            title="Remove ingredient"
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={() => onChange([...ingredients, { name: '', strength: '' }])}
+        className="flex items-center gap-2"
+      >
+        <Plus className="h-4 w-4" />
+        Add Ingredient
+      </Button>
+    </div>
+  )
+}
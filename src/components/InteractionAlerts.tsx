@@ -0,0 +1,50 @@
+import { InteractionSeverity } from '../types/pharmacy'
+import { InteractionAlert } from '../services/interactions'
+import { Badge } from './ui/badge'
+import { AlertOctagon, AlertTriangle, Info } from 'lucide-react'
+
+interface InteractionAlertsProps {
+  alerts: InteractionAlert[]
+}
+
+const SEVERITY_STYLES: Record<InteractionSeverity, string> = {
+  contraindicated: 'bg-red-100 text-red-800 border-red-300',
+  major: 'bg-orange-100 text-orange-800 border-orange-300',
+  moderate: 'bg-amber-100 text-amber-800 border-amber-300',
+  minor: 'bg-gray-100 text-gray-700 border-gray-300'
+}
+
+const severityIcon = (severity: InteractionSeverity) => {
+  switch (severity) {
+    case 'contraindicated': return <AlertOctagon className="h-4 w-4 mt-0.5 flex-shrink-0" />
+    case 'minor': return <Info className="h-4 w-4 mt-0.5 flex-shrink-0" />
+    default: return <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+  }
+}
+
+export function InteractionAlerts({ alerts }: InteractionAlertsProps) {
+  if (alerts.length === 0) return null
+
+  return (
+    <div className="space-y-2">
+      {alerts.map(({ interaction, drug, otherDrug }) => (
+        <div
+          key={`${interaction.id}-${drug.id}-${otherDrug.id}`}
+          className={`text-sm p-3 rounded border flex items-start gap-2 ${SEVERITY_STYLES[interaction.severity]}`}
+        >
+          {severityIcon(interaction.severity)}
+          <div className="space-y-1">
+            <div className="flex flex-wrap items-center gap-2">
+              <Badge variant="outline" className={`capitalize ${SEVERITY_STYLES[interaction.severity]}`}>
+                {interaction.severity}
+              </Badge>
+              <span className="font-medium">{drug.name} + {otherDrug.name}</span>
+            </div>
+            {interaction.mechanism && <p>{interaction.mechanism}</p>}
+            {interaction.advice && <p className="font-medium">{interaction.advice}</p>}
+          </div>
+        </div>
+      ))}
+    </div>
+  )
+}
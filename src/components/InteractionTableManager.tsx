@@ -0,0 +1,120 @@
+import { useMemo, useRef, useState } from 'react'
+import { DrugInteraction } from '../types/pharmacy'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Badge } from './ui/badge'
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table'
+import { Search, ShieldAlert, Trash2, Upload } from 'lucide-react'
+
+interface InteractionTableManagerProps {
+  interactions: DrugInteraction[]
+  customCount: number
+  onLoadTable: (text: string) => Promise<void>
+  onClearTable: () => Promise<void>
+}
+
+export function InteractionTableManager({ interactions, customCount, onLoadTable, onClearTable }: InteractionTableManagerProps) {
+  const [search, setSearch] = useState('')
+  const [loading, setLoading] = useState(false)
+  const fileInput = useRef<HTMLInputElement>(null)
+
+  const filtered = useMemo(() => {
+    const searchLower = search.trim().toLowerCase()
+    return interactions
+      .filter(entry =>
+        !searchLower ||
+        entry.moleculeA.toLowerCase().includes(searchLower) ||
+        entry.moleculeB.toLowerCase().includes(searchLower)
+      )
+      .sort((a, b) => a.moleculeA.localeCompare(b.moleculeA) || a.moleculeB.localeCompare(b.moleculeB))
+  }, [interactions, search])
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+
+    setLoading(true)
+    try {
+      await onLoadTable(await file.text())
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleClear = async () => {
+    if (!window.confirm('Remove the loaded interaction table and go back to the bundled table?')) return
+    await onClearTable()
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle className="text-lg flex items-center gap-2">
+              <ShieldAlert className="h-5 w-5 text-sky-600" />
+              Interaction Table
+            </CardTitle>
+            <p className="text-sm text-gray-600 mt-1">
+              {interactions.length} interactions checked when dispensing several items together
+              {customCount > 0 ? `, ${customCount} loaded by this pharmacy` : ' from the bundled table'}.
+              Load a JSON array of entries with moleculeA, moleculeB, severity (minor, moderate, major or
+              contraindicated), mechanism and advice.
+            </p>
+          </div>
+          <div className="flex gap-2">
+            {customCount > 0 && (
+              <Button variant="outline" onClick={handleClear} className="flex items-center gap-2">
+                <Trash2 className="h-4 w-4" />
+                Reset
+              </Button>
+            )}
+            <Button onClick={() => fileInput.current?.click()} disabled={loading} className="flex items-center gap-2">
+              <Upload className="h-4 w-4" />
+              {loading ? 'Loading...' : 'Load Table'}
+            </Button>
+            <input ref={fileInput} type="file" accept=".json,application/json" className="hidden" onChange={handleFile} />
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+          <Input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search by molecule"
+            className="pl-9"
+          />
+        </div>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Molecules</TableHead>
+              <TableHead>Severity</TableHead>
+              <TableHead>Advice</TableHead>
+              <TableHead>Source</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {filtered.map(entry => (
+              <TableRow key={entry.id}>
+                <TableCell className="font-medium whitespace-nowrap">{entry.moleculeA} + {entry.moleculeB}</TableCell>
+                <TableCell>
+                  <Badge variant={entry.severity === 'contraindicated' || entry.severity === 'major' ? 'destructive' : 'outline'} className="capitalize">
+                    {entry.severity}
+                  </Badge>
+                </TableCell>
+                <TableCell className="text-sm text-gray-700 max-w-md">{entry.advice}</TableCell>
+                <TableCell className="text-xs text-gray-500">{entry.userId === 'system' ? 'Bundled' : 'Pharmacy'}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  )
+}
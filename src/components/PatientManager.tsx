@@ -0,0 +1,245 @@
+import { useMemo, useState } from 'react'
+import { PatientProfile } from '../types/pharmacy'
+import { PatientDraft, validatePatient } from '../services/patients'
+import { TagListInput } from './TagListInput'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import { Textarea } from './ui/textarea'
+import { Badge } from './ui/badge'
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table'
+import { Edit, Search, Trash2, UserPlus } from 'lucide-react'
+
+interface PatientManagerProps {
+  patients: PatientProfile[]
+  onAddPatient: (draft: PatientDraft) => Promise<void>
+  onUpdatePatient: (id: string, draft: PatientDraft) => Promise<void>
+  onDeletePatient: (id: string) => Promise<void>
+}
+
+const emptyDraft: PatientDraft = {
+  reference: '',
+  name: '',
+  dateOfBirth: '',
+  allergies: [],
+  conditions: [],
+  notes: ''
+}
+
+export function PatientManager({ patients, onAddPatient, onUpdatePatient, onDeletePatient }: PatientManagerProps) {
+  const [draft, setDraft] = useState<PatientDraft>(emptyDraft)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [search, setSearch] = useState('')
+  const [saving, setSaving] = useState(false)
+
+  const filtered = useMemo(() => {
+    const searchLower = search.trim().toLowerCase()
+    return patients.filter(patient =>
+      !searchLower ||
+      patient.name.toLowerCase().includes(searchLower) ||
+      patient.reference.toLowerCase().includes(searchLower)
+    )
+  }, [patients, search])
+
+  const startEdit = (patient: PatientProfile) => {
+    setEditingId(patient.id)
+    setDraft({
+      reference: patient.reference,
+      name: patient.name,
+      dateOfBirth: patient.dateOfBirth ?? '',
+      allergies: patient.allergies,
+      conditions: patient.conditions,
+      notes: patient.notes ?? ''
+    })
+  }
+
+  const resetForm = () => {
+    setEditingId(null)
+    setDraft(emptyDraft)
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    const problem = validatePatient(draft, patients, editingId ?? undefined)
+    if (problem) {
+      alert(problem)
+      return
+    }
+
+    setSaving(true)
+    try {
+      if (editingId) {
+        await onUpdatePatient(editingId, draft)
+      } else {
+        await onAddPatient(draft)
+      }
+      resetForm()
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDelete = async (patient: PatientProfile) => {
+    if (!window.confirm(`Delete the profile for ${patient.name}?`)) return
+    await onDeletePatient(patient.id)
+    if (editingId === patient.id) resetForm()
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg flex items-center gap-2">
+            <UserPlus className="h-5 w-5 text-sky-600" />
+            {editingId ? 'Edit Patient' : 'New Patient'}
+          </CardTitle>
+          <p className="text-sm text-gray-600">
+            Allergies block supply of any product containing the molecule, drug class or excipient.
+            Conditions warn when a product lists them as a contraindication.
+          </p>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <Label htmlFor="patientName">Name *</Label>
+                <Input
+                  id="patientName"
+                  value={draft.name}
+                  onChange={(e) => setDraft(prev => ({ ...prev, name: e.target.value }))}
+                  placeholder="e.g., Jane Smith"
+                />
+              </div>
+              <div>
+                <Label htmlFor="patientReference">Patient Ref *</Label>
+                <Input
+                  id="patientReference"
+                  value={draft.reference}
+                  onChange={(e) => setDraft(prev => ({ ...prev, reference: e.target.value }))}
+                  placeholder="e.g., NHS no. or initials + DOB"
+                />
+              </div>
+              <div>
+                <Label htmlFor="patientDob">Date of Birth</Label>
+                <Input
+                  id="patientDob"
+                  type="date"
+                  value={draft.dateOfBirth ?? ''}
+                  onChange={(e) => setDraft(prev => ({ ...prev, dateOfBirth: e.target.value }))}
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="patientAllergies">Allergies</Label>
+                <TagListInput
+                  id="patientAllergies"
+                  value={draft.allergies}
+                  onChange={(allergies) => setDraft(prev => ({ ...prev, allergies }))}
+                  placeholder="e.g., penicillin, lactose - press Enter to add"
+                />
+              </div>
+              <div>
+                <Label htmlFor="patientConditions">Conditions</Label>
+                <TagListInput
+                  id="patientConditions"
+                  value={draft.conditions}
+                  onChange={(conditions) => setDraft(prev => ({ ...prev, conditions }))}
+                  placeholder="e.g., asthma, pregnancy - press Enter to add"
+                />
+              </div>
+            </div>
+
+            <div>
+              <Label htmlFor="patientNotes">Notes</Label>
+              <Textarea
+                id="patientNotes"
+                value={draft.notes ?? ''}
+                onChange={(e) => setDraft(prev => ({ ...prev, notes: e.target.value }))}
+                rows={2}
+              />
+            </div>
+
+            <div className="flex justify-end gap-2">
+              {editingId && (
+                <Button type="button" variant="outline" onClick={resetForm}>Cancel</Button>
+              )}
+              <Button type="submit" disabled={saving}>
+                {saving ? 'Saving...' : editingId ? 'Save Patient' : 'Add Patient'}
+              </Button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Patients ({patients.length})</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+            <Input
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search by name or patient ref"
+              className="pl-9"
+            />
+          </div>
+
+          {filtered.length === 0 ? (
+            <p className="text-center text-sm text-gray-600 py-8">
+              {patients.length === 0 ? 'No patient profiles yet.' : 'No patients match your search.'}
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Patient</TableHead>
+                  <TableHead>Allergies</TableHead>
+                  <TableHead>Conditions</TableHead>
+                  <TableHead className="w-24"></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {filtered.map(patient => (
+                  <TableRow key={patient.id}>
+                    <TableCell>
+                      <p className="font-medium">{patient.name}</p>
+                      <p className="text-xs text-gray-500">{patient.reference}{patient.dateOfBirth ? ` · ${patient.dateOfBirth}` : ''}</p>
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        {patient.allergies.length === 0
+                          ? <span className="text-xs text-gray-400">None recorded</span>
+                          : patient.allergies.map(allergy => <Badge key={allergy} variant="destructive">{allergy}</Badge>)}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        {patient.conditions.map(condition => <Badge key={condition} variant="outline">{condition}</Badge>)}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex justify-end gap-1">
+                        <Button variant="ghost" size="sm" onClick={() => startEdit(patient)} title="Edit patient">
+                          <Edit className="h-4 w-4 text-sky-600" />
+                        </Button>
+                        <Button variant="ghost" size="sm" onClick={() => handleDelete(patient)} title="Delete patient" className="text-red-600">
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,30 @@
+import { ScreeningFinding } from '../services/allergyScreening'
+import { AlertTriangle, Ban } from 'lucide-react'
+
+interface PatientScreeningProps {
+  findings: ScreeningFinding[]
+}
+
+export function PatientScreening({ findings }: PatientScreeningProps) {
+  if (findings.length === 0) return null
+
+  return (
+    <div className="space-y-2">
+      {findings.map(finding => (
+        <p
+          key={`${finding.kind}-${finding.term}-${finding.matched}`}
+          className={`text-sm p-2 rounded border flex items-start gap-2 ${
+            finding.severity === 'block'
+              ? 'bg-red-50 text-red-800 border-red-200'
+              : 'bg-amber-50 text-amber-800 border-amber-200'
+          }`}
+        >
+          {finding.severity === 'block'
+            ? <Ban className="h-4 w-4 mt-0.5 flex-shrink-0" />
+            : <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0" />}
+          {finding.message}
+        </p>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,225 @@
+import { useState } from 'react'
+import { format } from 'date-fns'
+import { PurchaseOrder, PurchaseOrderLine, Supplier } from '../types/pharmacy'
+import {
+  isAwaitingDelivery,
+  lineTotal,
+  minimumOrderWarning,
+  purchaseOrderTotal,
+  PURCHASE_ORDER_STATUS_LABELS,
+  validateOrderLines
+} from '../services/purchaseOrders'
+import { downloadPurchaseOrderCsv, printPurchaseOrder } from '../services/purchaseOrderExport'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Textarea } from './ui/textarea'
+import { Badge } from './ui/badge'
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table'
+import { CheckCircle, FileDown, PackageCheck, Printer, Save, Trash2, XCircle } from 'lucide-react'
+
+interface PurchaseOrderCardProps {
+  order: PurchaseOrder
+  /** The directory entry for the order's supplier, when it has one */
+  supplier?: Supplier
+  canEdit: boolean
+  canApprove: boolean
+  canReceive: boolean
+  onSave: (changes: Pick<PurchaseOrder, 'lines' | 'notes'>) => Promise<void>
+  onApprove: () => Promise<void>
+  onCancel: () => Promise<void>
+  onReceive: () => void
+}
+
+const STATUS_STYLES: Record<PurchaseOrder['status'], string> = {
+  draft: 'bg-gray-100 text-gray-800 border-gray-200',
+  approved: 'bg-green-100 text-green-800 border-green-200',
+  partially_received: 'bg-amber-100 text-amber-800 border-amber-200',
+  received: 'bg-sky-100 text-sky-800 border-sky-200',
+  cancelled: 'bg-red-100 text-red-800 border-red-200'
+}
+
+export function PurchaseOrderCard({ order, supplier, canEdit, canApprove, canReceive, onSave, onApprove, onCancel, onReceive }: PurchaseOrderCardProps) {
+  const [lines, setLines] = useState<PurchaseOrderLine[]>(order.lines)
+  const [notes, setNotes] = useState(order.notes ?? '')
+  const [error, setError] = useState<string | null>(null)
+
+  const editable = order.status === 'draft' && canEdit
+  const showReceived = order.status !== 'draft' && order.status !== 'cancelled'
+  const belowMinimum = order.status === 'draft' ? minimumOrderWarning({ lines }, supplier) : null
+  const changed = JSON.stringify(lines) !== JSON.stringify(order.lines) || notes !== (order.notes ?? '')
+
+  const updateLine = (drugId: string, changes: Partial<PurchaseOrderLine>) => {
+    setLines(prev => prev.map(line => line.drugId === drugId ? { ...line, ...changes } : line))
+  }
+
+  const handleSave = async () => {
+    const problem = validateOrderLines(lines)
+    setError(problem)
+    if (!problem) await onSave({ lines, notes })
+  }
+
+  const handleApprove = async () => {
+    if (changed) {
+      setError('Save your changes before approving')
+      return
+    }
+    if (!window.confirm(`Approve ${order.reference} for ${order.supplier}?`)) return
+    await onApprove()
+  }
+
+  const handleCancel = async () => {
+    if (!window.confirm(`Cancel ${order.reference}?`)) return
+    await onCancel()
+  }
+
+  const handlePrint = () => {
+    if (!printPurchaseOrder(order)) {
+      setError('The print window was blocked. Allow pop-ups for this site to print orders.')
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle className="text-lg flex items-center gap-2">
+              {order.reference}
+              <Badge variant="outline" className={STATUS_STYLES[order.status]}>
+                {PURCHASE_ORDER_STATUS_LABELS[order.status]}
+              </Badge>
+            </CardTitle>
+            <p className="text-sm text-gray-600 mt-1">
+              {order.supplier}{supplier?.accountNumber && ` (account ${supplier.accountNumber})`} · raised by {order.createdBy} on {format(new Date(order.createdAt), 'dd MMM yyyy')}
+              {order.approvedAt && ` · approved by ${order.approvedBy} on ${format(new Date(order.approvedAt), 'dd MMM yyyy')}`}
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={() => downloadPurchaseOrderCsv(order)} className="flex items-center gap-2">
+              <FileDown className="h-4 w-4" />
+              CSV
+            </Button>
+            <Button variant="outline" size="sm" onClick={handlePrint} className="flex items-center gap-2">
+              <Printer className="h-4 w-4" />
+              Print / PDF
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Item</TableHead>
+              <TableHead className="text-right">Pack Size</TableHead>
+              <TableHead className="text-right">Packs</TableHead>
+              <TableHead className="text-right">Units</TableHead>
+              {showReceived && <TableHead className="text-right">Received</TableHead>}
+              <TableHead className="text-right">Unit Price</TableHead>
+              <TableHead className="text-right">Total</TableHead>
+              {editable && <TableHead />}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {lines.map(line => (
+              <TableRow key={line.drugId}>
+                <TableCell>
+                  <div className="font-medium">{line.drugName}</div>
+                  <div className="text-xs text-gray-500">{line.dosage} {line.dosageForm}</div>
+                </TableCell>
+                <TableCell className="text-right">{line.packSize}</TableCell>
+                <TableCell className="text-right">
+                  {editable ? (
+                    <Input
+                      type="number"
+                      min="1"
+                      value={line.quantity / line.packSize}
+                      onChange={(e) => updateLine(line.drugId, { quantity: (parseInt(e.target.value) || 0) * line.packSize })}
+                      className="w-20 ml-auto text-right"
+                    />
+                  ) : line.quantity / line.packSize}
+                </TableCell>
+                <TableCell className="text-right">{line.quantity}</TableCell>
+                {showReceived && <TableCell className="text-right">{line.receivedQuantity ?? 0}</TableCell>}
+                <TableCell className="text-right">
+                  {editable ? (
+                    <Input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={line.unitPrice}
+                      onChange={(e) => updateLine(line.drugId, { unitPrice: parseFloat(e.target.value) })}
+                      className="w-24 ml-auto text-right"
+                    />
+                  ) : `$${line.unitPrice.toFixed(2)}`}
+                </TableCell>
+                <TableCell className="text-right">${(lineTotal(line) || 0).toFixed(2)}</TableCell>
+                {editable && (
+                  <TableCell className="text-right">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setLines(prev => prev.filter(existing => existing.drugId !== line.drugId))}
+                      title="Remove line"
+                    >
+                      <Trash2 className="h-4 w-4 text-red-600" />
+                    </Button>
+                  </TableCell>
+                )}
+              </TableRow>
+            ))}
+            <TableRow>
+              <TableCell colSpan={showReceived ? 6 : 5} className="text-right font-medium">Order total</TableCell>
+              <TableCell className="text-right font-bold">${(purchaseOrderTotal({ lines }) || 0).toFixed(2)}</TableCell>
+              {editable && <TableCell />}
+            </TableRow>
+          </TableBody>
+        </Table>
+
+        {editable ? (
+          <Textarea
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            placeholder="Notes for the supplier (optional)"
+            rows={2}
+          />
+        ) : order.notes && (
+          <p className="text-sm text-gray-700 bg-gray-50 p-3 rounded">{order.notes}</p>
+        )}
+
+        {belowMinimum && <p className="text-sm text-amber-800 bg-amber-50 p-2 rounded">{belowMinimum}</p>}
+        {error && <p className="text-sm text-red-700 bg-red-50 p-2 rounded">{error}</p>}
+
+        {order.status !== 'cancelled' && order.status !== 'received' && (canEdit || canApprove || canReceive) && (
+          <div className="flex justify-end gap-2">
+            {canEdit && (
+              <Button variant="outline" onClick={handleCancel} className="flex items-center gap-2">
+                <XCircle className="h-4 w-4" />
+                Cancel Order
+              </Button>
+            )}
+            {editable && (
+              <Button variant="outline" onClick={handleSave} disabled={!changed} className="flex items-center gap-2">
+                <Save className="h-4 w-4" />
+                Save Draft
+              </Button>
+            )}
+            {order.status === 'draft' && canApprove && (
+              <Button onClick={handleApprove} className="flex items-center gap-2">
+                <CheckCircle className="h-4 w-4" />
+                Approve
+              </Button>
+            )}
+            {isAwaitingDelivery(order) && canReceive && (
+              <Button onClick={onReceive} className="flex items-center gap-2">
+                <PackageCheck className="h-4 w-4" />
+                Receive Delivery
+              </Button>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
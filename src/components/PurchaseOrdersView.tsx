@@ -0,0 +1,208 @@
+import { useEffect, useState } from 'react'
+import { Drug, PurchaseOrder, Supplier } from '../types/pharmacy'
+import { ReorderSuggestion, USAGE_WINDOW_DAYS } from '../services/reorder'
+import { PurchaseOrderCard } from './PurchaseOrderCard'
+import { Button } from './ui/button'
+import { Checkbox } from './ui/checkbox'
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table'
+import { ClipboardPlus, ShoppingCart } from 'lucide-react'
+
+interface PurchaseOrdersViewProps {
+  drugs: Drug[]
+  orders: PurchaseOrder[]
+  suppliers: Supplier[]
+  canEdit: boolean
+  canApprove: boolean
+  canReceive: boolean
+  onGetSuggestions: (drugs: Drug[]) => Promise<ReorderSuggestion[]>
+  onDraftOrders: (suggestions: ReorderSuggestion[]) => Promise<void>
+  onUpdateDraft: (id: string, changes: Pick<PurchaseOrder, 'lines' | 'notes'>) => Promise<void>
+  onApprove: (id: string) => Promise<void>
+  onCancel: (id: string) => Promise<void>
+  onReceive: (order: PurchaseOrder) => void
+}
+
+export function PurchaseOrdersView({
+  drugs,
+  orders,
+  suppliers,
+  canEdit,
+  canApprove,
+  canReceive,
+  onGetSuggestions,
+  onDraftOrders,
+  onUpdateDraft,
+  onApprove,
+  onCancel,
+  onReceive
+}: PurchaseOrdersViewProps) {
+  const [suggestions, setSuggestions] = useState<ReorderSuggestion[]>([])
+  const [selected, setSelected] = useState<Set<string>>(new Set())
+  const [loading, setLoading] = useState(true)
+  const [drafting, setDrafting] = useState(false)
+
+  // Open orders count as stock on the way, so suggestions change when orders do
+  useEffect(() => {
+    let cancelled = false
+    setLoading(true)
+
+    onGetSuggestions(drugs)
+      .then(loaded => {
+        if (cancelled) return
+        setSuggestions(loaded)
+        setSelected(new Set(loaded.map(suggestion => suggestion.drug.id)))
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [drugs, orders, onGetSuggestions])
+
+  const toggle = (drugId: string, checked: boolean) => {
+    setSelected(prev => {
+      const next = new Set(prev)
+      if (checked) next.add(drugId)
+      else next.delete(drugId)
+      return next
+    })
+  }
+
+  const handleDraft = async () => {
+    setDrafting(true)
+    try {
+      await onDraftOrders(suggestions.filter(suggestion => selected.has(suggestion.drug.id)))
+    } finally {
+      setDrafting(false)
+    }
+  }
+
+  const openOrders = orders.filter(order => order.status !== 'cancelled')
+  const cancelledOrders = orders.filter(order => order.status === 'cancelled')
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <CardTitle className="text-lg flex items-center gap-2">
+                <ShoppingCart className="h-5 w-5 text-sky-600" />
+                Reorder Suggestions
+              </CardTitle>
+              <p className="text-sm text-gray-600 mt-1">
+                Items whose unexpired stock plus open orders has reached the reorder point: the minimum
+                stock level plus expected use over the supplier lead time, based on the last {USAGE_WINDOW_DAYS} days.
+                Each item is ordered from the cheapest supplier on its price list, in whole packs that top
+                stock back up to the maximum.
+              </p>
+            </div>
+            {canEdit && (
+              <Button onClick={handleDraft} disabled={drafting || selected.size === 0} className="flex items-center gap-2">
+                <ClipboardPlus className="h-4 w-4" />
+                {drafting ? 'Creating...' : `Create Draft Orders (${selected.size})`}
+              </Button>
+            )}
+          </div>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <p className="text-sm text-gray-600">Checking stock levels...</p>
+          ) : suggestions.length === 0 ? (
+            <p className="text-sm text-gray-600 bg-gray-50 p-3 rounded">
+              Nothing needs reordering right now.
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  {canEdit && <TableHead />}
+                  <TableHead>Item</TableHead>
+                  <TableHead>Supplier</TableHead>
+                  <TableHead className="text-right">On Hand</TableHead>
+                  <TableHead className="text-right">On Order</TableHead>
+                  <TableHead className="text-right">Use / Day</TableHead>
+                  <TableHead className="text-right">Reorder Point</TableHead>
+                  <TableHead className="text-right">Order</TableHead>
+                  <TableHead className="text-right">Unit Cost</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {suggestions.map(suggestion => (
+                  <TableRow key={suggestion.drug.id}>
+                    {canEdit && (
+                      <TableCell>
+                        <Checkbox
+                          checked={selected.has(suggestion.drug.id)}
+                          onCheckedChange={(checked) => toggle(suggestion.drug.id, checked === true)}
+                        />
+                      </TableCell>
+                    )}
+                    <TableCell>
+                      <div className="font-medium">{suggestion.drug.name}</div>
+                      <div className="text-xs text-gray-500">
+                        Min {suggestion.drug.minStockLevel} · Max {suggestion.drug.maxStockLevel} · Lead time {suggestion.leadTimeDays} days
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      {suggestion.supplier}
+                      {!suggestion.supplierId && <div className="text-xs text-gray-500">Not in the supplier directory</div>}
+                    </TableCell>
+                    <TableCell className="text-right">{suggestion.stockOnHand}</TableCell>
+                    <TableCell className="text-right">{suggestion.onOrder}</TableCell>
+                    <TableCell className="text-right">{suggestion.dailyUsage.toFixed(1)}</TableCell>
+                    <TableCell className="text-right">{suggestion.reorderPoint}</TableCell>
+                    <TableCell className="text-right font-medium">
+                      {suggestion.quantity / suggestion.packSize} x {suggestion.packSize}
+                    </TableCell>
+                    <TableCell className="text-right">${suggestion.unitPrice.toFixed(2)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {openOrders.map(order => (
+        <PurchaseOrderCard
+          key={`${order.id}-${order.updatedAt}`}
+          order={order}
+          supplier={suppliers.find(supplier => supplier.id === order.supplierId)}
+          canEdit={canEdit}
+          canApprove={canApprove}
+          canReceive={canReceive}
+          onSave={(changes) => onUpdateDraft(order.id, changes)}
+          onApprove={() => onApprove(order.id)}
+          onCancel={() => onCancel(order.id)}
+          onReceive={() => onReceive(order)}
+        />
+      ))}
+
+      {cancelledOrders.length > 0 && (
+        <details className="text-sm text-gray-600">
+          <summary className="cursor-pointer">{cancelledOrders.length} cancelled order{cancelledOrders.length > 1 ? 's' : ''}</summary>
+          <div className="space-y-4 mt-4">
+            {cancelledOrders.map(order => (
+              <PurchaseOrderCard
+                key={`${order.id}-${order.updatedAt}`}
+                order={order}
+                supplier={suppliers.find(supplier => supplier.id === order.supplierId)}
+                canEdit={false}
+                canApprove={false}
+                canReceive={false}
+                onSave={(changes) => onUpdateDraft(order.id, changes)}
+                onApprove={() => onApprove(order.id)}
+                onCancel={() => onCancel(order.id)}
+                onReceive={() => onReceive(order)}
+              />
+            ))}
+          </div>
+        </details>
+      )}
+    </div>
+  )
+}
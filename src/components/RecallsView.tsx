@@ -0,0 +1,463 @@
+import { useEffect, useState } from 'react'
+import { Drug, PatientProfile, PharmacyUser, RecallNotice, RecallSeverity, Witness } from '../types/pharmacy'
+import { findRecalledStock, RECALL_SEVERITY_LABELS, RECALL_STATUS_LABELS, RecallDraft, RecallPatient, validateRecall } from '../services/recalls'
+import { TagListInput } from './TagListInput'
+import { WitnessSignature, WitnessSignOff } from './WitnessSignOff'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import { Textarea } from './ui/textarea'
+import { Badge } from './ui/badge'
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table'
+import { AlertTriangle, ShieldAlert } from 'lucide-react'
+
+interface RecallsViewProps {
+  recalls: RecallNotice[]
+  drugs: Drug[]
+  patients: PatientProfile[]
+  witnesses: PharmacyUser[]
+  canManage: boolean
+  onCreate: (draft: RecallDraft) => Promise<RecallNotice>
+  onRecheck: (id: string) => Promise<void>
+  onReturn: (id: string, drugId: string, batchNumber: string, witness?: Witness) => Promise<void>
+  onClose: (id: string) => Promise<void>
+  onCancel: (id: string) => Promise<void>
+  loadPatients: (id: string) => Promise<RecallPatient[]>
+  onSignWitness: (staffId: string, pin: string) => Promise<Witness>
+}
+
+const emptyDraft: RecallDraft = { reference: '', product: '', manufacturer: '', batchNumbers: [], severity: 'class_2', description: '' }
+
+const SEVERITY_STYLES: Record<RecallSeverity, string> = {
+  class_1: 'bg-red-100 text-red-800 border-red-200',
+  class_2: 'bg-orange-100 text-orange-800 border-orange-200',
+  class_3: 'bg-yellow-100 text-yellow-800 border-yellow-200',
+  class_4: 'bg-gray-100 text-gray-700 border-gray-200'
+}
+
+export function RecallsView({
+  recalls,
+  drugs,
+  patients,
+  witnesses,
+  canManage,
+  onCreate,
+  onRecheck,
+  onReturn,
+  onClose,
+  onCancel,
+  loadPatients,
+  onSignWitness
+}: RecallsViewProps) {
+  const [draft, setDraft] = useState<RecallDraft>(emptyDraft)
+  const [formError, setFormError] = useState<string | null>(null)
+  const [creating, setCreating] = useState(false)
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [supplied, setSupplied] = useState<RecallPatient[]>([])
+  const [signature, setSignature] = useState<WitnessSignature>({ staffId: '', pin: '' })
+  const [error, setError] = useState<string | null>(null)
+  const [busy, setBusy] = useState(false)
+
+  const selected = recalls.find(recall => recall.id === selectedId)
+  const matches = draft.product.trim() && draft.batchNumbers.length > 0 ? findRecalledStock(draft, drugs) : []
+
+  // Returns replace the drugs, which reloads the supplies in case a dispense was made meanwhile
+  useEffect(() => {
+    if (!selected) {
+      setSupplied([])
+      return
+    }
+
+    let cancelled = false
+    loadPatients(selected.id)
+      .then(loaded => {
+        if (!cancelled) setSupplied(loaded)
+      })
+      .catch(() => {
+        if (!cancelled) setSupplied([])
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [selected, loadPatients])
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const problem = validateRecall(draft)
+    if (problem) {
+      setFormError(problem)
+      return
+    }
+
+    setCreating(true)
+    setFormError(null)
+    try {
+      const created = await onCreate(draft)
+      setDraft(emptyDraft)
+      setSelectedId(created.id)
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : 'Could not save the recall')
+    } finally {
+      setCreating(false)
+    }
+  }
+
+  const run = async (action: () => Promise<void>, failure: string) => {
+    setBusy(true)
+    setError(null)
+    try {
+      await action()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : failure)
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const selectRecall = (id: string) => {
+    setSelectedId(id)
+    setSignature({ staffId: '', pin: '' })
+    setError(null)
+  }
+
+  const quarantined = selected
+    ? drugs.flatMap(drug => drug.batches
+      .filter(batch => batch.recallId === selected.id && batch.quantity > 0)
+      .map(batch => ({ drug, batch })))
+    : []
+  const unquarantined = selected?.status === 'open'
+    ? findRecalledStock(selected, drugs).filter(({ batch }) => batch.recallId !== selected.id)
+    : []
+  const needsWitness = quarantined.some(({ drug }) => drug.isControlled)
+
+  const handleReturn = (drug: Drug, batchNumber: string) => run(async () => {
+    if (!selected) return
+    const witness = drug.isControlled ? await onSignWitness(signature.staffId, signature.pin) : undefined
+    await onReturn(selected.id, drug.id, batchNumber, witness)
+    if (witness) setSignature({ staffId: '', pin: '' })
+  }, `Could not return ${drug.name}`)
+
+  const handleCancel = () => {
+    if (!selected) return
+    if (!window.confirm(`Cancel ${selected.reference}? Its quarantined stock goes back on sale.`)) return
+    run(() => onCancel(selected.id), 'Could not cancel the recall')
+  }
+
+  const patientName = (supply: RecallPatient) =>
+    patients.find(patient => patient.id === supply.patientId)?.name
+
+  return (
+    <div className="space-y-6">
+      {canManage && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg flex items-center gap-2">
+              <ShieldAlert className="h-5 w-5 text-red-600" />
+              New Recall Notice
+            </CardTitle>
+            <p className="text-sm text-gray-600">
+              Stock of the affected batches is quarantined as soon as the notice is saved. It stays on the books,
+              but cannot be dispensed or offered as a substitute until it is returned to the supplier.
+            </p>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleCreate} className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="recallReference">Notice Reference *</Label>
+                  <Input
+                    id="recallReference"
+                    value={draft.reference}
+                    onChange={(e) => setDraft(prev => ({ ...prev, reference: e.target.value }))}
+                    placeholder="e.g., EL (26)A/12"
+                  />
+                </div>
+                <div>
+                  <Label>Severity *</Label>
+                  <Select value={draft.severity} onValueChange={(severity: RecallSeverity) => setDraft(prev => ({ ...prev, severity }))}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(RECALL_SEVERITY_LABELS) as RecallSeverity[]).map(severity => (
+                        <SelectItem key={severity} value={severity}>{RECALL_SEVERITY_LABELS[severity]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label htmlFor="recallProduct">Product or Molecule *</Label>
+                  <Input
+                    id="recallProduct"
+                    value={draft.product}
+                    onChange={(e) => setDraft(prev => ({ ...prev, product: e.target.value }))}
+                    placeholder="e.g., Amoxicillin"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="recallManufacturer">Manufacturer</Label>
+                  <Input
+                    id="recallManufacturer"
+                    value={draft.manufacturer ?? ''}
+                    onChange={(e) => setDraft(prev => ({ ...prev, manufacturer: e.target.value }))}
+                    placeholder="Leave blank to match any manufacturer"
+                  />
+                </div>
+              </div>
+
+              <div>
+                <Label htmlFor="recallBatches">Affected Batch Numbers *</Label>
+                <TagListInput
+                  id="recallBatches"
+                  value={draft.batchNumbers}
+                  onChange={(batchNumbers) => setDraft(prev => ({ ...prev, batchNumbers }))}
+                  placeholder="Type a batch number and press Enter"
+                />
+              </div>
+
+              <div>
+                <Label htmlFor="recallDescription">Details</Label>
+                <Textarea
+                  id="recallDescription"
+                  value={draft.description ?? ''}
+                  onChange={(e) => setDraft(prev => ({ ...prev, description: e.target.value }))}
+                  placeholder="e.g., Out-of-specification dissolution results"
+                  rows={2}
+                />
+              </div>
+
+              {draft.product.trim() && draft.batchNumbers.length > 0 && (
+                <p className="text-sm text-gray-600">
+                  {matches.length === 0
+                    ? 'No stock on hand matches this notice.'
+                    : `${matches.length} batch${matches.length > 1 ? 'es' : ''} on hand will be quarantined: ${matches.map(({ drug, batch }) => `${drug.name} ${batch.batchNumber}`).join(', ')}`}
+                </p>
+              )}
+
+              {formError && (
+                <div className="flex items-center gap-2 text-sm text-red-700 bg-red-50 border border-red-200 rounded p-3">
+                  <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+                  {formError}
+                </div>
+              )}
+
+              <div className="flex justify-end">
+                <Button type="submit" disabled={creating}>
+                  {creating ? 'Saving...' : 'Save and Quarantine'}
+                </Button>
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Recalls ({recalls.length})</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {recalls.length === 0 ? (
+            <p className="text-center text-sm text-gray-600 py-8">No recall notices yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Reference</TableHead>
+                  <TableHead>Product</TableHead>
+                  <TableHead>Batches</TableHead>
+                  <TableHead>Severity</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Entered</TableHead>
+                  <TableHead className="w-24"></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {recalls.map(recall => (
+                  <TableRow key={recall.id} className={recall.id === selectedId ? 'bg-sky-50' : undefined}>
+                    <TableCell className="font-medium">{recall.reference}</TableCell>
+                    <TableCell>
+                      <p>{recall.product}</p>
+                      {recall.manufacturer && <p className="text-xs text-gray-500">{recall.manufacturer}</p>}
+                    </TableCell>
+                    <TableCell className="text-sm">{recall.batchNumbers.join(', ')}</TableCell>
+                    <TableCell>
+                      <Badge variant="outline" className={SEVERITY_STYLES[recall.severity]}>
+                        {RECALL_SEVERITY_LABELS[recall.severity].split(' - ')[0]}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>{RECALL_STATUS_LABELS[recall.status]}</TableCell>
+                    <TableCell className="text-sm">
+                      {new Date(recall.createdAt).toLocaleDateString()} by {recall.createdBy}
+                    </TableCell>
+                    <TableCell>
+                      <Button variant="outline" size="sm" onClick={() => selectRecall(recall.id)}>View</Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {selected && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg flex flex-wrap items-center gap-2">
+              {selected.reference}: {selected.product}
+              <Badge variant="outline" className={SEVERITY_STYLES[selected.severity]}>
+                {RECALL_SEVERITY_LABELS[selected.severity]}
+              </Badge>
+              <Badge variant="outline">{RECALL_STATUS_LABELS[selected.status]}</Badge>
+            </CardTitle>
+            {selected.description && <p className="text-sm text-gray-600">{selected.description}</p>}
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="space-y-3">
+              <h4 className="font-medium text-gray-900">Quarantined Stock</h4>
+              {unquarantined.length > 0 && (
+                <div className="flex items-center justify-between gap-4 text-sm text-orange-800 bg-orange-50 border border-orange-200 rounded p-3">
+                  <span>
+                    {unquarantined.length} more batch{unquarantined.length > 1 ? 'es' : ''} on hand match this notice
+                    {' '}({unquarantined.map(({ drug, batch }) => `${drug.name} ${batch.batchNumber}`).join(', ')})
+                  </span>
+                  {canManage && (
+                    <Button size="sm" variant="outline" disabled={busy} onClick={() => run(() => onRecheck(selected.id), 'Could not quarantine the stock')}>
+                      Quarantine
+                    </Button>
+                  )}
+                </div>
+              )}
+              {quarantined.length === 0 ? (
+                <p className="text-sm text-gray-600">No recalled stock is on hand.</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Drug</TableHead>
+                      <TableHead>Batch</TableHead>
+                      <TableHead>Expiry</TableHead>
+                      <TableHead>Supplier</TableHead>
+                      <TableHead className="text-right">Quantity</TableHead>
+                      <TableHead className="w-40"></TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {quarantined.map(({ drug, batch }) => (
+                      <TableRow key={batch.id}>
+                        <TableCell>
+                          <p className="font-medium">{drug.name}</p>
+                          <p className="text-xs text-gray-500">{drug.dosage} {drug.dosageForm}</p>
+                        </TableCell>
+                        <TableCell>{batch.batchNumber}</TableCell>
+                        <TableCell>{batch.expiryDate || 'Unknown'}</TableCell>
+                        <TableCell>{batch.supplier ?? 'Unknown'}</TableCell>
+                        <TableCell className="text-right">{batch.quantity}</TableCell>
+                        <TableCell>
+                          {canManage && selected.status === 'open' && (
+                            <Button size="sm" variant="outline" disabled={busy} onClick={() => handleReturn(drug, batch.batchNumber)}>
+                              Return to Supplier
+                            </Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+              {canManage && selected.status === 'open' && needsWitness && (
+                <WitnessSignOff witnesses={witnesses} value={signature} onChange={setSignature} />
+              )}
+            </div>
+
+            {selected.returns.length > 0 && (
+              <div className="space-y-3">
+                <h4 className="font-medium text-gray-900">Returned to Supplier</h4>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Drug</TableHead>
+                      <TableHead>Batch</TableHead>
+                      <TableHead className="text-right">Quantity</TableHead>
+                      <TableHead>Returned</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {selected.returns.map(entry => (
+                      <TableRow key={entry.transactionIds.join() || `${entry.drugId}-${entry.batchNumber}`}>
+                        <TableCell>{entry.drugName}</TableCell>
+                        <TableCell>{entry.batchNumber}</TableCell>
+                        <TableCell className="text-right">{entry.quantity}</TableCell>
+                        <TableCell className="text-sm">
+                          {new Date(entry.returnedAt).toLocaleString()} by {entry.returnedBy}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+
+            <div className="space-y-3">
+              <h4 className="font-medium text-gray-900">Patients Supplied ({supplied.length})</h4>
+              {supplied.length === 0 ? (
+                <p className="text-sm text-gray-600">No recalled batches have been dispensed.</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Patient</TableHead>
+                      <TableHead>Drug</TableHead>
+                      <TableHead>Batch</TableHead>
+                      <TableHead className="text-right">Quantity</TableHead>
+                      <TableHead>Prescription</TableHead>
+                      <TableHead>Dispensed</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {supplied.map(supply => (
+                      <TableRow key={`${supply.dispenseId}-${supply.batchNumber}`}>
+                        <TableCell>
+                          <p className="font-medium">{patientName(supply) ?? supply.patientRef ?? 'Not recorded'}</p>
+                          {patientName(supply) && supply.patientRef && <p className="text-xs text-gray-500">{supply.patientRef}</p>}
+                        </TableCell>
+                        <TableCell>{supply.drugName}</TableCell>
+                        <TableCell>{supply.batchNumber}</TableCell>
+                        <TableCell className="text-right">{supply.quantity}</TableCell>
+                        <TableCell>{supply.prescriptionRef ?? ''}</TableCell>
+                        <TableCell className="text-sm">
+                          {new Date(supply.dispensedAt).toLocaleDateString()} by {supply.pharmacist}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </div>
+
+            {error && (
+              <div className="flex items-center gap-2 text-sm text-red-700 bg-red-50 border border-red-200 rounded p-3">
+                <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+                {error}
+              </div>
+            )}
+
+            {canManage && selected.status === 'open' && (
+              <div className="flex justify-end gap-2">
+                {selected.returns.length === 0 && (
+                  <Button variant="outline" disabled={busy} onClick={handleCancel}>Cancel Recall</Button>
+                )}
+                <Button disabled={busy || quarantined.length > 0} onClick={() => run(() => onClose(selected.id), 'Could not close the recall')}>
+                  Close Recall
+                </Button>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  )
+}
@@ -10,7 +10,8 @@ import {
   Pill,
   Building,
   Tag,
-  AlertTriangle
+  AlertTriangle,
+  Truck
 } from 'lucide-react'
 import {
   Popover,
@@ -18,6 +19,7 @@ import {
   PopoverTrigger,
 } from './ui/popover'
 import { Checkbox } from './ui/checkbox'
+import { isGs1ElementString } from '../services/gs1'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
 
 interface SearchFilters {
@@ -26,6 +28,7 @@ interface SearchFilters {
   requiresPrescription: boolean | null
   isControlled: boolean | null
   manufacturer: string
+  supplier: string
 }
 
 interface SearchBarProps {
@@ -34,8 +37,12 @@ interface SearchBarProps {
   filters: SearchFilters
   onFiltersChange: (filters: SearchFilters) => void
   onBarcodeSearch: () => void
+  /** Called when a GS1 element string is typed or pasted into the search box and submitted */
+  onScannedCode?: (code: string) => void
   categories: string[]
   manufacturers: string[]
+  /** Directory suppliers with prices on file, plus suppliers named on stock batches */
+  suppliers: string[]
   activeFiltersCount: number
 }
 
@@ -45,8 +52,10 @@ export function SearchBar({
   filters,
   onFiltersChange,
   onBarcodeSearch,
+  onScannedCode,
   categories,
   manufacturers,
+  suppliers,
   activeFiltersCount
 }: SearchBarProps) {
   const [isFilterOpen, setIsFilterOpen] = useState(false)
@@ -57,7 +66,8 @@ export function SearchBar({
       stockStatus: '',
       requiresPrescription: null,
       isControlled: null,
-      manufacturer: ''
+      manufacturer: '',
+      supplier: ''
     })
   }
 
@@ -78,6 +88,11 @@ export function SearchBar({
             placeholder="Search by drug name, active molecule, barcode, or manufacturer..."
             value={searchTerm}
             onChange={(e) => onSearchChange(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' && onScannedCode && isGs1ElementString(searchTerm.trim())) {
+                onScannedCode(searchTerm.trim())
+              }
+            }}
             className="pl-10 pr-4 h-12 text-base"
           />
         </div>
@@ -167,6 +182,7 @@ export function SearchBar({
                     <SelectItem value="in-stock">In Stock</SelectItem>
                     <SelectItem value="low-stock">Low Stock</SelectItem>
                     <SelectItem value="out-of-stock">Out of Stock</SelectItem>
+                    <SelectItem value="expiring-soon">Expiring Soon</SelectItem>
                   </SelectContent>
                 </Select>
               </div>
@@ -195,6 +211,30 @@ export function SearchBar({
                 </Select>
               </div>
 
+              {/* Supplier Filter */}
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-gray-700 flex items-center gap-2">
+                  <Truck className="h-4 w-4" />
+                  Supplier
+                </label>
+                <Select
+                  value={filters.supplier}
+                  onValueChange={(value) => handleFilterChange('supplier', value)}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="All suppliers" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="">All suppliers</SelectItem>
+                    {suppliers.map((supplier) => (
+                      <SelectItem key={supplier} value={supplier}>
+                        {supplier}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
               {/* Prescription & Controlled Checkboxes */}
               <div className="space-y-3 pt-2 border-t border-gray-200">
                 <div className="flex items-center space-x-2">
@@ -259,6 +299,15 @@ export function SearchBar({
               />
             </Badge>
           )}
+          {filters.supplier && (
+            <Badge variant="secondary" className="flex items-center gap-1">
+              Supplier: {filters.supplier}
+              <X 
+                className="h-3 w-3 cursor-pointer" 
+                onClick={() => handleFilterChange('supplier', '')}
+              />
+            </Badge>
+          )}
           {filters.requiresPrescription && (
             <Badge variant="secondary" className="flex items-center gap-1">
               Prescription Required
@@ -0,0 +1,235 @@
+import { useState } from 'react'
+import { PharmacyUser, UserRole } from '../types/pharmacy'
+import { ALL_PERMISSIONS, Permission, PERMISSION_LABELS, permissionOverrides, staffPermissions } from '../services/permissions'
+import { NewStaffMember, requiresPin } from '../services/staffDirectory'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import { Switch } from './ui/switch'
+import { Checkbox } from './ui/checkbox'
+import { Badge } from './ui/badge'
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card'
+import { Popover, PopoverContent, PopoverTrigger } from './ui/popover'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table'
+import { KeyRound, ShieldCheck, UserPlus, Users } from 'lucide-react'
+
+interface StaffManagementProps {
+  staff: PharmacyUser[]
+  currentStaffId?: string
+  onAddStaff: (member: NewStaffMember) => Promise<void>
+  onUpdateStaff: (id: string, changes: Partial<Pick<PharmacyUser, 'role' | 'grantedPermissions' | 'revokedPermissions' | 'isActive'>>) => Promise<void>
+  onSetPin: (id: string, pin: string) => Promise<void>
+}
+
+const ROLES: UserRole[] = ['admin', 'pharmacist', 'assistant']
+
+const emptyMember: NewStaffMember = { name: '', email: '', role: 'assistant', pin: '' }
+
+export function StaffManagement({ staff, currentStaffId, onAddStaff, onUpdateStaff, onSetPin }: StaffManagementProps) {
+  const [newMember, setNewMember] = useState<NewStaffMember>(emptyMember)
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (!newMember.name.trim()) {
+      alert('Please enter a name for the staff member')
+      return
+    }
+    if (!newMember.pin && requiresPin(newMember.role)) {
+      alert(`Staff with the ${newMember.role} role must have a PIN`)
+      return
+    }
+    if (newMember.pin && !/^\d{4,8}$/.test(newMember.pin)) {
+      alert('PIN must be 4 to 8 digits')
+      return
+    }
+
+    await onAddStaff(newMember)
+    setNewMember(emptyMember)
+  }
+
+  const handleSetPin = async (member: PharmacyUser) => {
+    const canRemove = !requiresPin(member.role) && member.id !== member.userId
+    const pin = window.prompt(`New PIN for ${member.name} (4-8 digits${canRemove ? ', leave empty to remove' : ''})`)
+    if (pin === null) return
+    if (pin && !/^\d{4,8}$/.test(pin)) {
+      alert('PIN must be 4 to 8 digits')
+      return
+    }
+    await onSetPin(member.id, pin)
+  }
+
+  const togglePermission = (member: PharmacyUser, permission: Permission, enabled: boolean) => {
+    const current = staffPermissions(member)
+    const permissions = enabled
+      ? [...current, permission]
+      : current.filter(existing => existing !== permission)
+    onUpdateStaff(member.id, permissionOverrides(member.role, permissions))
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg flex items-center gap-2">
+            <UserPlus className="h-5 w-5 text-sky-600" />
+            Add Staff Member
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleAdd} className="grid grid-cols-1 md:grid-cols-5 gap-4 items-end">
+            <div>
+              <Label htmlFor="staffName">Name *</Label>
+              <Input
+                id="staffName"
+                value={newMember.name}
+                onChange={(e) => setNewMember(prev => ({ ...prev, name: e.target.value }))}
+                placeholder="e.g., Sam Carter"
+              />
+            </div>
+            <div>
+              <Label htmlFor="staffEmail">Email</Label>
+              <Input
+                id="staffEmail"
+                type="email"
+                value={newMember.email}
+                onChange={(e) => setNewMember(prev => ({ ...prev, email: e.target.value }))}
+                placeholder="name@pharmacy.com"
+              />
+            </div>
+            <div>
+              <Label>Role</Label>
+              <Select
+                value={newMember.role}
+                onValueChange={(value) => setNewMember(prev => ({ ...prev, role: value as UserRole }))}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {ROLES.map(role => (
+                    <SelectItem key={role} value={role} className="capitalize">{role}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="staffPin">PIN</Label>
+              <Input
+                id="staffPin"
+                type="password"
+                inputMode="numeric"
+                value={newMember.pin}
+                onChange={(e) => setNewMember(prev => ({ ...prev, pin: e.target.value }))}
+                placeholder="4-8 digits"
+              />
+            </div>
+            <Button type="submit" className="flex items-center gap-2">
+              <UserPlus className="h-4 w-4" />
+              Add
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg flex items-center gap-2">
+            <Users className="h-5 w-5 text-sky-600" />
+            Staff ({staff.length})
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Role</TableHead>
+                <TableHead>Permissions</TableHead>
+                <TableHead>Active</TableHead>
+                <TableHead></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {staff.map(member => (
+                <TableRow key={member.id}>
+                  <TableCell>
+                    <p className="font-medium text-gray-900 flex items-center gap-2">
+                      {member.name}
+                      {member.id === currentStaffId && <Badge variant="secondary" className="text-xs">You</Badge>}
+                    </p>
+                    <p className="text-xs text-gray-500">{member.email}</p>
+                  </TableCell>
+                  <TableCell>
+                    <Select
+                      value={member.role}
+                      onValueChange={(value) => onUpdateStaff(member.id, {
+                        role: value as UserRole,
+                        grantedPermissions: [],
+                        revokedPermissions: []
+                      })}
+                    >
+                      <SelectTrigger className="w-36 capitalize">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {ROLES.map(role => (
+                          <SelectItem key={role} value={role} className="capitalize">{role}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </TableCell>
+                  <TableCell>
+                    <Popover>
+                      <PopoverTrigger asChild>
+                        <Button variant="outline" size="sm" className="flex items-center gap-2">
+                          <ShieldCheck className="h-4 w-4" />
+                          {staffPermissions(member).length} of {ALL_PERMISSIONS.length}
+                        </Button>
+                      </PopoverTrigger>
+                      <PopoverContent className="w-80" align="start">
+                        <div className="space-y-3">
+                          <h4 className="font-medium text-gray-900">Permissions for {member.name}</h4>
+                          {ALL_PERMISSIONS.map(permission => (
+                            <div key={permission} className="flex items-center space-x-2">
+                              <Checkbox
+                                id={`${member.id}-${permission}`}
+                                checked={staffPermissions(member).includes(permission)}
+                                onCheckedChange={(checked) => togglePermission(member, permission, checked === true)}
+                              />
+                              <label htmlFor={`${member.id}-${permission}`} className="text-sm text-gray-700">
+                                {PERMISSION_LABELS[permission]}
+                              </label>
+                            </div>
+                          ))}
+                        </div>
+                      </PopoverContent>
+                    </Popover>
+                  </TableCell>
+                  <TableCell>
+                    <Switch
+                      checked={member.isActive}
+                      onCheckedChange={(checked) => onUpdateStaff(member.id, { isActive: checked })}
+                    />
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleSetPin(member)}
+                      className="flex items-center gap-2"
+                    >
+                      <KeyRound className="h-4 w-4" />
+                      {member.pinHash ? 'Change PIN' : 'Set PIN'}
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
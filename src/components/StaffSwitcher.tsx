@@ -0,0 +1,62 @@
+import { PharmacyUser } from '../types/pharmacy'
+import { switchError } from '../services/staffDirectory'
+import { Button } from './ui/button'
+import { Badge } from './ui/badge'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from './ui/dropdown-menu'
+import { UserCircle, Lock, Check } from 'lucide-react'
+
+interface StaffSwitcherProps {
+  staff: PharmacyUser[]
+  currentStaff: PharmacyUser | null
+  onSwitch: (member: PharmacyUser) => void
+}
+
+export function StaffSwitcher({ staff, currentStaff, onSwitch }: StaffSwitcherProps) {
+  const activeStaff = staff.filter(member => member.isActive)
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" className="flex items-center gap-2">
+          <UserCircle className="h-4 w-4" />
+          {currentStaff ? currentStaff.name : 'Select staff'}
+          {currentStaff && (
+            <Badge variant="secondary" className="text-xs capitalize">
+              {currentStaff.role}
+            </Badge>
+          )}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-64">
+        <DropdownMenuLabel>Switch staff member</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {activeStaff.map(member => (
+          <DropdownMenuItem
+            key={member.id}
+            onSelect={() => onSwitch(member)}
+            disabled={member.id !== currentStaff?.id && !!switchError(staff, member)}
+            className="flex items-center justify-between"
+          >
+            <span className="flex items-center gap-2">
+              {member.id === currentStaff?.id
+                ? <Check className="h-4 w-4 text-sky-600" />
+                : <span className="w-4" />}
+              {member.name}
+            </span>
+            <span className="flex items-center gap-1 text-xs text-gray-500 capitalize">
+              {member.pinHash && <Lock className="h-3 w-3" />}
+              {member.role}
+            </span>
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
@@ -0,0 +1,115 @@
+import { useState, useEffect } from 'react'
+import { Drug, InventoryTransaction } from '../types/pharmacy'
+import { TRANSACTION_LABELS } from '../services/inventoryLedger'
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from './ui/dialog'
+import { Badge } from './ui/badge'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table'
+import { History } from 'lucide-react'
+
+interface StockHistoryModalProps {
+  drug: Drug | null
+  onClose: () => void
+  loadHistory: (drugId: string) => Promise<InventoryTransaction[]>
+}
+
+export function StockHistoryModal({ drug, onClose, loadHistory }: StockHistoryModalProps) {
+  const [transactions, setTransactions] = useState<InventoryTransaction[]>([])
+  const [loading, setLoading] = useState(false)
+
+  useEffect(() => {
+    if (!drug) {
+      setTransactions([])
+      return
+    }
+
+    let cancelled = false
+    setLoading(true)
+    loadHistory(drug.id)
+      .then(history => {
+        if (!cancelled) setTransactions(history)
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [drug, loadHistory])
+
+  const getQuantityColor = (quantity: number) => {
+    if (quantity > 0) return 'text-green-700'
+    if (quantity < 0) return 'text-red-700'
+    return 'text-gray-700'
+  }
+
+  return (
+    <Dialog open={!!drug} onOpenChange={onClose}>
+      <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <History className="h-5 w-5 text-sky-600" />
+            Stock History: {drug?.name}
+          </DialogTitle>
+        </DialogHeader>
+
+        {!!drug?.ledgerVariance && (
+          <div className="bg-amber-50 border border-amber-200 rounded-lg p-3 text-sm text-amber-800">
+            The ledger records {Math.abs(drug.ledgerVariance)} unit{Math.abs(drug.ledgerVariance) === 1 ? '' : 's'}{' '}
+            {drug.ledgerVariance > 0 ? 'more' : 'fewer'} than the {drug.stockLevel} held in this drug's batches.
+            Check the movements below against the shelf.
+          </div>
+        )}
+
+        {loading ? (
+          <div className="flex items-center gap-2 text-sm text-gray-600 py-8 justify-center">
+            <div className="animate-spin rounded-full h-4 w-4 border-2 border-sky-600 border-t-transparent"></div>
+            Loading transactions...
+          </div>
+        ) : transactions.length === 0 ? (
+          <p className="text-center text-gray-600 py-8">
+            No stock movements have been recorded for this drug yet.
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Date</TableHead>
+                <TableHead>Type</TableHead>
+                <TableHead className="text-right">Change</TableHead>
+                <TableHead className="text-right">Stock</TableHead>
+                <TableHead>Reason</TableHead>
+                <TableHead>Batch</TableHead>
+                <TableHead>By</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {transactions.map(transaction => (
+                <TableRow key={transaction.id}>
+                  <TableCell className="whitespace-nowrap">
+                    {new Date(transaction.timestamp).toLocaleString()}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant="outline">{TRANSACTION_LABELS[transaction.type]}</Badge>
+                  </TableCell>
+                  <TableCell className={`text-right font-medium ${getQuantityColor(transaction.quantity)}`}>
+                    {transaction.quantity > 0 ? `+${transaction.quantity}` : transaction.quantity}
+                  </TableCell>
+                  <TableCell className="text-right whitespace-nowrap">
+                    {transaction.previousStock} → {transaction.newStock}
+                  </TableCell>
+                  <TableCell>{transaction.reason}</TableCell>
+                  <TableCell>{transaction.batchNumber || '—'}</TableCell>
+                  <TableCell>
+                    <p className="font-medium">{transaction.performedBy}</p>
+                    <p className="text-xs text-gray-500 capitalize">{transaction.userRole}</p>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,378 @@
+import { useEffect, useState } from 'react'
+import { Drug, PharmacyUser, StockTake, StockTakeLine, VarianceReason, Witness } from '../types/pharmacy'
+import {
+  countScannedPack,
+  isOpenLine,
+  lineVariance,
+  linesToPost,
+  movedLines,
+  scopeLabel,
+  STOCK_TAKE_STATUS_LABELS,
+  summariseStockTake,
+  VARIANCE_REASON_LABELS,
+  varianceValue
+} from '../services/stockTake'
+import { findDrugByBarcode, readScannedCode, ScannedCode } from '../services/barcodeScanning'
+import { Gs1ParseError } from '../services/gs1'
+import { useBarcodeWedge } from '../hooks/use-barcode-wedge'
+import { WitnessSignature, WitnessSignOff } from './WitnessSignOff'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import { Textarea } from './ui/textarea'
+import { Badge } from './ui/badge'
+import { Checkbox } from './ui/checkbox'
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table'
+import { AlertTriangle, RefreshCw, ScanLine } from 'lucide-react'
+
+interface StockTakeSheetProps {
+  stockTake: StockTake
+  drugs: Drug[]
+  witnesses: PharmacyUser[]
+  canCount: boolean
+  canPost: boolean
+  onSaveCounts: (id: string, lines: StockTakeLine[], notes: string) => Promise<void>
+  onRecount: (id: string, lines: StockTakeLine[], notes: string) => Promise<void>
+  onCancel: (id: string) => Promise<void>
+  onPost: (id: string, lines: StockTakeLine[], notes: string, witness?: Witness) => Promise<void>
+  onSignWitness: (staffId: string, pin: string) => Promise<Witness>
+}
+
+const STATUS_STYLES: Record<StockTake['status'], string> = {
+  counting: 'bg-sky-100 text-sky-800 border-sky-200',
+  posted: 'bg-green-100 text-green-800 border-green-200',
+  cancelled: 'bg-gray-100 text-gray-600 border-gray-200'
+}
+
+const REASONS = Object.keys(VARIANCE_REASON_LABELS) as VarianceReason[]
+
+const formatMoney = (value: number) => `${value < 0 ? '-' : ''}$${Math.abs(value).toFixed(2)}`
+
+const varianceColor = (variance: number | null) => {
+  if (!variance) return 'text-gray-700'
+  return variance > 0 ? 'text-green-700' : 'text-red-700'
+}
+
+export function StockTakeSheet({
+  stockTake,
+  drugs,
+  witnesses,
+  canCount,
+  canPost,
+  onSaveCounts,
+  onRecount,
+  onCancel,
+  onPost,
+  onSignWitness
+}: StockTakeSheetProps) {
+  const [lines, setLines] = useState<StockTakeLine[]>(stockTake.lines)
+  const [notes, setNotes] = useState(stockTake.notes ?? '')
+  const [scanInput, setScanInput] = useState('')
+  const [scanMessage, setScanMessage] = useState<{ text: string, ok: boolean } | null>(null)
+  const [signature, setSignature] = useState<WitnessSignature>({ staffId: '', pin: '' })
+  const [varianceOnly, setVarianceOnly] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [busy, setBusy] = useState(false)
+
+  // Start again from the saved sheet whenever it is saved, recounted or posted
+  useEffect(() => {
+    setLines(stockTake.lines)
+    setNotes(stockTake.notes ?? '')
+    setError(null)
+  }, [stockTake])
+
+  const editable = stockTake.status === 'counting' && canCount
+
+  const handleScan = (raw: string) => {
+    let scanned: ScannedCode
+    try {
+      scanned = readScannedCode(raw)
+    } catch (err) {
+      setScanMessage({ text: err instanceof Gs1ParseError ? `Could not read pack code: ${err.message}` : 'Could not read the scanned code', ok: false })
+      return
+    }
+
+    const drug = findDrugByBarcode(drugs, scanned.code)
+    if (!drug) {
+      setScanMessage({ text: `No item in the inventory has barcode ${scanned.code}`, ok: false })
+      return
+    }
+
+    const units = drug.packSize ?? 1
+    try {
+      setLines(prev => countScannedPack(prev, drug, scanned.gs1?.lot, scanned.gs1?.expiryDate, units).lines)
+      setScanMessage({ text: `Counted ${units} ${drug.name}${scanned.gs1?.lot ? ` (lot ${scanned.gs1.lot})` : ''}`, ok: true })
+    } catch (err) {
+      setScanMessage({ text: err instanceof Error ? err.message : `Could not count ${drug.name}`, ok: false })
+    }
+  }
+
+  // A scan into the focused input leaves its digits behind; the wedge has already counted it
+  useBarcodeWedge((raw) => {
+    setScanInput('')
+    handleScan(raw)
+  }, { enabled: editable })
+
+  const updateLine = (key: string, changes: Partial<StockTakeLine>) => {
+    setLines(prev => prev.map(line => line.key === key ? { ...line, ...changes } : line))
+  }
+
+  const handleManualScan = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!scanInput.trim()) return
+    handleScan(scanInput)
+    setScanInput('')
+  }
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true)
+    setError(null)
+    try {
+      await action()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : `Could not update ${stockTake.reference}`)
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const toPost = linesToPost(lines)
+  const needsWitness = toPost.some(line => line.isControlled)
+  const uncounted = lines.filter(line => line.countedQuantity === undefined).length
+
+  const handlePost = () => run(async () => {
+    const unapproved = lines.filter(line => !line.approved && (lineVariance(line) ?? 0) !== 0).length
+    const warnings = [
+      uncounted > 0 ? `${uncounted} line${uncounted > 1 ? 's are' : ' is'} not counted` : '',
+      unapproved > 0 ? `${unapproved} variance${unapproved > 1 ? 's are' : ' is'} not approved and will not change stock` : ''
+    ].filter(Boolean)
+    const message = toPost.length > 0
+      ? `Post ${toPost.length} adjustment${toPost.length > 1 ? 's' : ''} and close ${stockTake.reference}?`
+      : `Close ${stockTake.reference} without changing stock?`
+    if (!window.confirm([message, ...warnings].join('\n'))) return
+
+    const witness = needsWitness ? await onSignWitness(signature.staffId, signature.pin) : undefined
+    await onPost(stockTake.id, lines, notes, witness)
+    setSignature({ staffId: '', pin: '' })
+  })
+
+  const moved = new Set(stockTake.status === 'counting' ? movedLines(lines, drugs).map(line => line.key) : [])
+  const summary = summariseStockTake(lines)
+  const shown = varianceOnly ? lines.filter(line => (lineVariance(line) ?? 0) !== 0) : lines
+
+  return (
+    <Card>
+      <CardHeader className="space-y-2">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <CardTitle className="text-lg flex items-center gap-2">
+            {stockTake.reference}
+            <Badge variant="outline" className={STATUS_STYLES[stockTake.status]}>
+              {STOCK_TAKE_STATUS_LABELS[stockTake.status]}
+            </Badge>
+          </CardTitle>
+          <span className="text-sm text-gray-600">{scopeLabel(stockTake.scope)}</span>
+        </div>
+        <p className="text-sm text-gray-600">
+          Started by {stockTake.startedBy} on {new Date(stockTake.startedAt).toLocaleString()}
+          {stockTake.postedAt && ` · posted by ${stockTake.postedBy} on ${new Date(stockTake.postedAt).toLocaleString()}`}
+          {stockTake.witnessedBy && ` · witnessed by ${stockTake.witnessedBy}`}
+        </p>
+        <div className="flex flex-wrap gap-2 text-sm">
+          <Badge variant="outline">{summary.counted} of {summary.lines} lines counted</Badge>
+          <Badge variant="outline">{summary.withVariance} with variance</Badge>
+          <Badge variant="outline" className="text-green-700">Gains {formatMoney(summary.gainValue)}</Badge>
+          <Badge variant="outline" className="text-red-700">Losses {formatMoney(summary.lossValue)}</Badge>
+          <Badge variant="outline" className="font-semibold">Net {formatMoney(summary.gainValue + summary.lossValue)}</Badge>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {editable && (
+          <>
+            <form onSubmit={handleManualScan} className="flex gap-2">
+              <Input
+                value={scanInput}
+                onChange={(e) => setScanInput(e.target.value)}
+                placeholder="Scan a pack, or type its barcode and press Enter"
+              />
+              <Button type="submit" variant="outline" className="flex items-center gap-2">
+                <ScanLine className="h-4 w-4" />
+                Count Pack
+              </Button>
+            </form>
+            {scanMessage && (
+              <p className={`text-sm ${scanMessage.ok ? 'text-green-700' : 'text-red-700'}`}>{scanMessage.text}</p>
+            )}
+          </>
+        )}
+
+        <div className="flex items-center space-x-2">
+          <Checkbox id="varianceOnly" checked={varianceOnly} onCheckedChange={(checked) => setVarianceOnly(checked === true)} />
+          <label htmlFor="varianceOnly" className="text-sm">Show variances only</label>
+        </div>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Item</TableHead>
+              <TableHead>Shelf</TableHead>
+              <TableHead>Lot</TableHead>
+              <TableHead>Expiry</TableHead>
+              <TableHead className="text-right">Expected</TableHead>
+              <TableHead className="text-right">Counted</TableHead>
+              <TableHead className="text-right">Variance</TableHead>
+              <TableHead className="text-right">Value</TableHead>
+              <TableHead>Reason</TableHead>
+              <TableHead>Approve</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {shown.map(line => {
+              const variance = lineVariance(line)
+              const lineEditable = editable && !line.transactionIds
+              const open = lineEditable && isOpenLine(line)
+              return (
+                <TableRow key={line.key}>
+                  <TableCell>
+                    <div className="font-medium flex items-center gap-2">
+                      {line.drugName}
+                      {line.isControlled && <Badge variant="destructive" className="text-xs">CD</Badge>}
+                    </div>
+                    <div className="text-xs text-gray-500">{line.dosage} {line.dosageForm}</div>
+                    {line.foundOnShelf && <div className="text-xs text-sky-700">Found on shelf</div>}
+                    {moved.has(line.key) && <div className="text-xs text-amber-700">Stock moved during the count</div>}
+                  </TableCell>
+                  <TableCell className="text-sm">{line.location}</TableCell>
+                  <TableCell>
+                    {open ? (
+                      <Input
+                        value={line.batchNumber}
+                        onChange={(e) => updateLine(line.key, { batchNumber: e.target.value })}
+                        placeholder="Lot number"
+                        className="w-28"
+                      />
+                    ) : line.batchNumber || <span className="text-gray-400">None</span>}
+                  </TableCell>
+                  <TableCell>
+                    {open ? (
+                      <Input
+                        type="date"
+                        value={line.expiryDate}
+                        onChange={(e) => updateLine(line.key, { expiryDate: e.target.value })}
+                        className="w-36"
+                      />
+                    ) : <span className="text-sm">{line.expiryDate}</span>}
+                  </TableCell>
+                  <TableCell className="text-right">{line.expectedQuantity}</TableCell>
+                  <TableCell className="text-right">
+                    {lineEditable ? (
+                      <Input
+                        type="number"
+                        min="0"
+                        value={line.countedQuantity ?? ''}
+                        onChange={(e) => updateLine(line.key, {
+                          countedQuantity: e.target.value === '' ? undefined : Math.max(0, parseInt(e.target.value) || 0)
+                        })}
+                        className="w-20 ml-auto text-right"
+                      />
+                    ) : line.countedQuantity ?? <span className="text-gray-400">-</span>}
+                  </TableCell>
+                  <TableCell className={`text-right font-medium ${varianceColor(variance)}`}>
+                    {variance === null ? '' : variance > 0 ? `+${variance}` : variance}
+                  </TableCell>
+                  <TableCell className={`text-right ${varianceColor(variance)}`}>
+                    {variance ? formatMoney(varianceValue(line)) : ''}
+                  </TableCell>
+                  <TableCell>
+                    {variance ? (
+                      lineEditable ? (
+                        <Select
+                          value={line.reasonCode}
+                          onValueChange={(reasonCode: VarianceReason) => updateLine(line.key, { reasonCode })}
+                        >
+                          <SelectTrigger className="w-44">
+                            <SelectValue placeholder="Choose a reason" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {REASONS.map(reason => (
+                              <SelectItem key={reason} value={reason}>{VARIANCE_REASON_LABELS[reason]}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      ) : <span className="text-sm">{line.reasonCode ? VARIANCE_REASON_LABELS[line.reasonCode] : ''}</span>
+                    ) : null}
+                  </TableCell>
+                  <TableCell>
+                    {line.transactionIds ? (
+                      <Badge variant="outline" className="bg-green-50 text-green-700 border-green-200">Posted</Badge>
+                    ) : variance ? (
+                      <Checkbox
+                        checked={!!line.approved}
+                        disabled={!lineEditable || !canPost}
+                        onCheckedChange={(checked) => updateLine(line.key, { approved: checked === true })}
+                        title={canPost ? 'Post this variance as a stock adjustment' : 'You do not have permission to adjust stock'}
+                      />
+                    ) : null}
+                  </TableCell>
+                </TableRow>
+              )
+            })}
+          </TableBody>
+        </Table>
+
+        <div>
+          <Label htmlFor="stockTakeNotes">Notes</Label>
+          <Textarea
+            id="stockTakeNotes"
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            placeholder="Who counted, anything to follow up"
+            rows={2}
+            disabled={!editable}
+          />
+        </div>
+
+        {editable && canPost && needsWitness && (
+          <WitnessSignOff witnesses={witnesses} value={signature} onChange={setSignature} />
+        )}
+
+        {error && (
+          <div className="flex items-center gap-2 text-sm text-red-700 bg-red-50 border border-red-200 rounded p-3">
+            <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+            {error}
+          </div>
+        )}
+
+        {editable && (
+          <div className="flex flex-wrap justify-end gap-2">
+            <Button
+              variant="outline"
+              className="text-red-600"
+              disabled={busy}
+              onClick={() => {
+                if (window.confirm(`Cancel ${stockTake.reference}? Its counts will not change stock.`)) run(() => onCancel(stockTake.id))
+              }}
+            >
+              Cancel Stock-take
+            </Button>
+            {moved.size > 0 && (
+              <Button variant="outline" disabled={busy} onClick={() => run(() => onRecount(stockTake.id, lines, notes))} className="flex items-center gap-2">
+                <RefreshCw className="h-4 w-4" />
+                Recount Moved ({moved.size})
+              </Button>
+            )}
+            <Button variant="outline" disabled={busy} onClick={() => run(() => onSaveCounts(stockTake.id, lines, notes))}>
+              Save Counts
+            </Button>
+            {canPost && (
+              <Button disabled={busy} onClick={handlePost}>
+                {busy ? 'Saving...' : toPost.length > 0 ? `Post ${toPost.length} Adjustment${toPost.length === 1 ? '' : 's'}` : 'Close Stock-take'}
+              </Button>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,184 @@
+import { useState } from 'react'
+import { Drug, PharmacyUser, StockTake, StockTakeLine, StockTakeScope, Witness } from '../types/pharmacy'
+import { generateCountSheet, scopeLabel, STOCK_TAKE_STATUS_LABELS, summariseStockTake } from '../services/stockTake'
+import { StockTakeSheet } from './StockTakeSheet'
+import { Button } from './ui/button'
+import { Label } from './ui/label'
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table'
+import { ClipboardCheck } from 'lucide-react'
+
+interface StockTakeViewProps {
+  stockTakes: StockTake[]
+  drugs: Drug[]
+  categories: string[]
+  witnesses: PharmacyUser[]
+  canCount: boolean
+  canPost: boolean
+  onStart: (scope: StockTakeScope) => Promise<StockTake | null>
+  onSaveCounts: (id: string, lines: StockTakeLine[], notes: string) => Promise<void>
+  onRecount: (id: string, lines: StockTakeLine[], notes: string) => Promise<void>
+  onCancel: (id: string) => Promise<void>
+  onPost: (id: string, lines: StockTakeLine[], notes: string, witness?: Witness) => Promise<void>
+  onSignWitness: (staffId: string, pin: string) => Promise<Witness>
+}
+
+const ALL = 'all'
+
+export function StockTakeView({
+  stockTakes,
+  drugs,
+  categories,
+  witnesses,
+  canCount,
+  canPost,
+  onStart,
+  onSaveCounts,
+  onRecount,
+  onCancel,
+  onPost,
+  onSignWitness
+}: StockTakeViewProps) {
+  const [category, setCategory] = useState(ALL)
+  const [location, setLocation] = useState(ALL)
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [starting, setStarting] = useState(false)
+
+  const locations = [...new Set(drugs.map(drug => drug.location?.trim()).filter((shelf): shelf is string => !!shelf))].sort()
+  const scope: StockTakeScope = {
+    category: category === ALL ? undefined : category,
+    location: location === ALL ? undefined : location
+  }
+  const sheetSize = generateCountSheet(drugs, scope).length
+  const selected = stockTakes.find(stockTake => stockTake.id === selectedId)
+
+  const handleStart = async () => {
+    setStarting(true)
+    try {
+      const created = await onStart(scope)
+      if (created) setSelectedId(created.id)
+    } finally {
+      setStarting(false)
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      {canCount && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg flex items-center gap-2">
+              <ClipboardCheck className="h-5 w-5 text-sky-600" />
+              New Stock-take
+            </CardTitle>
+            <p className="text-sm text-gray-600">
+              The count sheet lists every batch in scope with the quantity on the system now. Variances are only
+              posted to stock once approved.
+            </p>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+              <div>
+                <Label>Category</Label>
+                <Select value={category} onValueChange={setCategory}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL}>All categories</SelectItem>
+                    {categories.map(name => (
+                      <SelectItem key={name} value={name}>{name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>Shelf</Label>
+                <Select value={location} onValueChange={setLocation}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL}>All shelves</SelectItem>
+                    {locations.map(shelf => (
+                      <SelectItem key={shelf} value={shelf}>{shelf}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <Button onClick={handleStart} disabled={starting || sheetSize === 0}>
+                {starting ? 'Generating...' : `Generate Count Sheet (${sheetSize} line${sheetSize === 1 ? '' : 's'})`}
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Stock-takes ({stockTakes.length})</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {stockTakes.length === 0 ? (
+            <p className="text-center text-sm text-gray-600 py-8">No stock-takes yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Reference</TableHead>
+                  <TableHead>Scope</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Started</TableHead>
+                  <TableHead className="text-right">Counted</TableHead>
+                  <TableHead className="text-right">Net Variance</TableHead>
+                  <TableHead className="w-24"></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {stockTakes.map(stockTake => {
+                  const summary = summariseStockTake(stockTake.lines)
+                  const net = summary.gainValue + summary.lossValue
+                  return (
+                    <TableRow key={stockTake.id} className={stockTake.id === selectedId ? 'bg-sky-50' : undefined}>
+                      <TableCell className="font-medium">{stockTake.reference}</TableCell>
+                      <TableCell>{scopeLabel(stockTake.scope)}</TableCell>
+                      <TableCell>{STOCK_TAKE_STATUS_LABELS[stockTake.status]}</TableCell>
+                      <TableCell className="text-sm">
+                        {new Date(stockTake.startedAt).toLocaleDateString()} by {stockTake.startedBy}
+                      </TableCell>
+                      <TableCell className="text-right">{summary.counted} / {summary.lines}</TableCell>
+                      <TableCell className={`text-right ${net < 0 ? 'text-red-700' : net > 0 ? 'text-green-700' : ''}`}>
+                        {net < 0 ? '-' : ''}${Math.abs(net).toFixed(2)}
+                      </TableCell>
+                      <TableCell>
+                        <Button variant="outline" size="sm" onClick={() => setSelectedId(stockTake.id)}>
+                          {stockTake.status === 'counting' && canCount ? 'Count' : 'View'}
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  )
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {selected && (
+        <StockTakeSheet
+          stockTake={selected}
+          drugs={drugs}
+          witnesses={witnesses}
+          canCount={canCount}
+          canPost={canPost}
+          onSaveCounts={onSaveCounts}
+          onRecount={onRecount}
+          onCancel={onCancel}
+          onPost={onPost}
+          onSignWitness={onSignWitness}
+        />
+      )}
+    </div>
+  )
+}
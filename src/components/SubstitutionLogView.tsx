@@ -0,0 +1,177 @@
+import { useEffect, useMemo, useState } from 'react'
+import { format } from 'date-fns'
+import { SubstitutionMatchType, SubstitutionRecord } from '../types/pharmacy'
+import { searchSubstitutions, SubstitutionLogFilters } from '../services/substitutionLog'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import { Badge } from './ui/badge'
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table'
+import { ArrowRight, ClipboardList, Search } from 'lucide-react'
+
+interface SubstitutionLogViewProps {
+  loadLog: () => Promise<SubstitutionRecord[]>
+}
+
+const MATCH_TYPES: SubstitutionMatchType[] = ['exact', 'equivalent', 'partial', 'similar']
+
+export function SubstitutionLogView({ loadLog }: SubstitutionLogViewProps) {
+  const [records, setRecords] = useState<SubstitutionRecord[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [filters, setFilters] = useState<SubstitutionLogFilters>({ text: '', matchType: '', from: '', to: '' })
+
+  useEffect(() => {
+    let cancelled = false
+    setLoading(true)
+
+    loadLog()
+      .then(loaded => {
+        if (!cancelled) setRecords(loaded)
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load substitution log')
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [loadLog])
+
+  const results = useMemo(() => searchSubstitutions(records, filters), [records, filters])
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <ClipboardList className="h-5 w-5 text-sky-600" />
+          Substitution Log
+        </CardTitle>
+        <p className="text-sm text-gray-600">
+          Every substitute dispensed in place of the requested drug, with the warnings the pharmacist confirmed.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <div className="md:col-span-2">
+            <Label htmlFor="substitutionSearch">Search</Label>
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+              <Input
+                id="substitutionSearch"
+                value={filters.text}
+                onChange={(e) => setFilters(prev => ({ ...prev, text: e.target.value }))}
+                placeholder="Drug, patient ref, prescription ref or pharmacist"
+                className="pl-9"
+              />
+            </div>
+          </div>
+          <div>
+            <Label htmlFor="substitutionFrom">From</Label>
+            <Input
+              id="substitutionFrom"
+              type="date"
+              value={filters.from}
+              onChange={(e) => setFilters(prev => ({ ...prev, from: e.target.value }))}
+            />
+          </div>
+          <div>
+            <Label htmlFor="substitutionTo">To</Label>
+            <Input
+              id="substitutionTo"
+              type="date"
+              value={filters.to}
+              onChange={(e) => setFilters(prev => ({ ...prev, to: e.target.value }))}
+            />
+          </div>
+        </div>
+
+        <div className="w-48">
+          <Select
+            value={filters.matchType || 'all'}
+            onValueChange={(value) => setFilters(prev => ({ ...prev, matchType: value === 'all' ? '' : value as SubstitutionMatchType }))}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All match types</SelectItem>
+              {MATCH_TYPES.map(type => (
+                <SelectItem key={type} value={type} className="capitalize">{type}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        {loading ? (
+          <div className="flex items-center justify-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-4 border-sky-600 border-t-transparent"></div>
+          </div>
+        ) : results.length === 0 ? (
+          <p className="text-center text-sm text-gray-600 py-8">
+            {records.length === 0 ? 'No substitutions have been dispensed yet.' : 'No substitutions match your search.'}
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Date</TableHead>
+                <TableHead>Substitution</TableHead>
+                <TableHead>Match</TableHead>
+                <TableHead>Confirmed Warnings</TableHead>
+                <TableHead>Patient / Rx</TableHead>
+                <TableHead>Pharmacist</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {results.map(record => (
+                <TableRow key={record.id}>
+                  <TableCell className="text-sm whitespace-nowrap">
+                    {format(new Date(record.recordedAt), 'dd MMM yyyy HH:mm')}
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex items-center gap-2 text-sm">
+                      <span>{record.originalDrugName} <span className="text-gray-500">{record.originalStrength}</span></span>
+                      <ArrowRight className="h-4 w-4 text-gray-400 flex-shrink-0" />
+                      <span className="font-medium">{record.substituteDrugName} <span className="text-gray-500">{record.substituteStrength}</span></span>
+                    </div>
+                    <p className="text-xs text-gray-500 mt-1">{record.quantity} units · {record.reason}</p>
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant="outline" className="capitalize">{record.matchType}</Badge>
+                    <p className="text-xs text-gray-500 mt-1">{record.confidence}% confidence</p>
+                  </TableCell>
+                  <TableCell className="text-xs text-gray-700 max-w-xs">
+                    {record.acknowledgedWarnings.length === 0
+                      ? <span className="text-gray-400">None</span>
+                      : (
+                        <ul className="list-disc pl-4 space-y-1">
+                          {record.acknowledgedWarnings.map(warning => <li key={warning}>{warning}</li>)}
+                        </ul>
+                      )}
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    <p>{record.patientRef ?? '-'}</p>
+                    <p className="text-xs text-gray-500">{record.prescriptionRef ?? 'No prescription'}</p>
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    <p>{record.pharmacist}</p>
+                    {record.recordedBy !== record.pharmacist && (
+                      <p className="text-xs text-gray-500">Handed out by {record.recordedBy}</p>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -1,7 +1,11 @@
-import { useState, useEffect } from 'react'
-import { Drug, SubstitutionSuggestion } from '../types/pharmacy'
+import { useState, useEffect, useMemo } from 'react'
+import { Drug, DrugInteraction, PatientProfile, SubstitutionRule, SubstitutionSuggestion } from '../types/pharmacy'
 import { SubstitutionEngine } from '../services/substitutionEngine'
+import { findInteractionsWith, withInteractionWarnings } from '../services/interactions'
+import { isBlocked, screenDrug } from '../services/allergyScreening'
 import { DrugCard } from './DrugCard'
+import { InteractionAlerts } from './InteractionAlerts'
+import { PatientScreening } from './PatientScreening'
 import { Badge } from './ui/badge'
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card'
 import { Button } from './ui/button'
@@ -11,13 +15,23 @@ import { AlertTriangle, CheckCircle, Info, Zap, ArrowRight, X } from 'lucide-rea
 interface SubstitutionPanelProps {
   targetDrug: Drug | null
   allDrugs: Drug[]
+  rules: SubstitutionRule[]
+  interactions: DrugInteraction[]
+  /** Other items on the same prescription, checked against each substitute */
+  prescriptionItems: Drug[]
+  /** Patient the prescription is for; substitutes they are allergic to cannot be chosen */
+  patient?: PatientProfile | null
   onClose: () => void
-  onSelectSubstitute: (drug: Drug) => void
+  onSelectSubstitute: (suggestion: SubstitutionSuggestion) => void
 }
 
 export function SubstitutionPanel({ 
   targetDrug, 
   allDrugs, 
+  rules,
+  interactions,
+  prescriptionItems,
+  patient,
   onClose, 
   onSelectSubstitute 
 }: SubstitutionPanelProps) {
@@ -35,12 +49,25 @@ export function SubstitutionPanel({
     
     // Simulate slight delay for better UX
     setTimeout(() => {
-      const engine = new SubstitutionEngine(allDrugs)
+      const engine = new SubstitutionEngine(allDrugs, rules)
       const availableSuggestions = engine.findSubstitutes(targetDrug, !showUnavailable)
       setSuggestions(availableSuggestions)
       setLoading(false)
     }, 300)
-  }, [targetDrug, allDrugs, showUnavailable])
+  }, [targetDrug, allDrugs, rules, showUnavailable])
+
+  const interactionAlerts = useMemo(() => {
+    const otherItems = prescriptionItems.filter(item => item.id !== targetDrug?.id)
+    return new Map(suggestions.map(suggestion => [
+      suggestion.drug.id,
+      findInteractionsWith(suggestion.drug, otherItems, interactions)
+    ]))
+  }, [suggestions, prescriptionItems, interactions, targetDrug])
+
+  const screening = useMemo(() => new Map(suggestions.map(suggestion => [
+    suggestion.drug.id,
+    patient ? screenDrug(suggestion.drug, patient) : []
+  ])), [suggestions, patient])
 
   if (!targetDrug) return null
 
@@ -48,6 +75,7 @@ export function SubstitutionPanel({
     switch (matchType) {
       case 'exact': return 'bg-green-100 text-green-800 border-green-200'
       case 'equivalent': return 'bg-blue-100 text-blue-800 border-blue-200'
+      case 'partial': return 'bg-orange-100 text-orange-800 border-orange-200'
       case 'similar': return 'bg-yellow-100 text-yellow-800 border-yellow-200'
       default: return 'bg-gray-100 text-gray-800 border-gray-200'
     }
@@ -57,6 +85,7 @@ export function SubstitutionPanel({
     switch (matchType) {
       case 'exact': return <CheckCircle className="h-4 w-4" />
       case 'equivalent': return <Zap className="h-4 w-4" />
+      case 'partial': return <AlertTriangle className="h-4 w-4" />
       case 'similar': return <Info className="h-4 w-4" />
       default: return <Info className="h-4 w-4" />
     }
@@ -188,13 +217,17 @@ export function SubstitutionPanel({
                             </span>
                           </div>
                         </div>
-                        <Button 
-                          size="sm"
-                          onClick={() => onSelectSubstitute(suggestion.drug)}
-                          className="flex items-center gap-2"
-                        >
-                          Select <ArrowRight className="h-4 w-4" />
-                        </Button>
+                        {isBlocked(screening.get(suggestion.drug.id) ?? []) ? (
+                          <Badge variant="destructive">Patient allergy</Badge>
+                        ) : (
+                          <Button 
+                            size="sm"
+                            onClick={() => onSelectSubstitute(withInteractionWarnings(suggestion, interactionAlerts.get(suggestion.drug.id) ?? []))}
+                            className="flex items-center gap-2"
+                          >
+                            Dispense <ArrowRight className="h-4 w-4" />
+                          </Button>
+                        )}
                       </div>
                     </CardHeader>
 
@@ -238,6 +271,20 @@ export function SubstitutionPanel({
                             </div>
                           )}
 
+                          {(screening.get(suggestion.drug.id) ?? []).length > 0 && patient && (
+                            <div>
+                              <h5 className="font-medium text-gray-900 mb-2">Screening for {patient.name}</h5>
+                              <PatientScreening findings={screening.get(suggestion.drug.id) ?? []} />
+                            </div>
+                          )}
+
+                          {(interactionAlerts.get(suggestion.drug.id) ?? []).length > 0 && (
+                            <div>
+                              <h5 className="font-medium text-gray-900 mb-2">Interactions With This Prescription</h5>
+                              <InteractionAlerts alerts={interactionAlerts.get(suggestion.drug.id) ?? []} />
+                            </div>
+                          )}
+
                           {/* Comparison */}
                           <div className="bg-gray-50 p-3 rounded">
                             <h5 className="font-medium text-gray-900 mb-2">Quick Comparison</h5>
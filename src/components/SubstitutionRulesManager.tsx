@@ -0,0 +1,284 @@
+import { useMemo, useState } from 'react'
+import { Drug, SubstitutionRule } from '../types/pharmacy'
+import { SubstitutionRuleDraft, validateSubstitutionRule } from '../services/substitutionRules'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import { Textarea } from './ui/textarea'
+import { Switch } from './ui/switch'
+import { Checkbox } from './ui/checkbox'
+import { Badge } from './ui/badge'
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card'
+import { ScrollArea } from './ui/scroll-area'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table'
+import { GitCompare, Plus, Search, Trash2 } from 'lucide-react'
+
+interface SubstitutionRulesManagerProps {
+  drugs: Drug[]
+  rules: SubstitutionRule[]
+  onAddRule: (draft: SubstitutionRuleDraft) => Promise<void>
+  onUpdateRule: (id: string, changes: { isActive: boolean }) => Promise<void>
+  onDeleteRule: (id: string) => Promise<void>
+}
+
+const emptyDraft: SubstitutionRuleDraft = {
+  activeMolecule: '',
+  dosage: '',
+  dosageForm: '',
+  equivalentDrugs: [],
+  substitutionRatio: 1,
+  notes: ''
+}
+
+export function SubstitutionRulesManager({ drugs, rules, onAddRule, onUpdateRule, onDeleteRule }: SubstitutionRulesManagerProps) {
+  const [draft, setDraft] = useState<SubstitutionRuleDraft>(emptyDraft)
+  const [drugSearch, setDrugSearch] = useState('')
+  const [saving, setSaving] = useState(false)
+
+  const drugsById = useMemo(() => new Map(drugs.map(drug => [drug.id, drug])), [drugs])
+
+  const pickableDrugs = useMemo(() => {
+    const searchLower = drugSearch.toLowerCase()
+    return drugs.filter(drug =>
+      !drugSearch ||
+      drug.name.toLowerCase().includes(searchLower) ||
+      drug.genericName.toLowerCase().includes(searchLower) ||
+      drug.activeMolecule.toLowerCase().includes(searchLower)
+    )
+  }, [drugs, drugSearch])
+
+  const prefillFromDrug = (drugId: string) => {
+    const drug = drugsById.get(drugId)
+    if (!drug) return
+    setDraft(prev => ({
+      ...prev,
+      activeMolecule: drug.activeMolecule,
+      dosage: drug.dosage,
+      dosageForm: drug.dosageForm
+    }))
+  }
+
+  const toggleEquivalent = (drugId: string, selected: boolean) => {
+    setDraft(prev => ({
+      ...prev,
+      equivalentDrugs: selected
+        ? [...prev.equivalentDrugs, drugId]
+        : prev.equivalentDrugs.filter(id => id !== drugId)
+    }))
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    const problem = validateSubstitutionRule(draft)
+    if (problem) {
+      alert(problem)
+      return
+    }
+
+    setSaving(true)
+    try {
+      await onAddRule(draft)
+      setDraft(emptyDraft)
+      setDrugSearch('')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDelete = async (rule: SubstitutionRule) => {
+    if (!window.confirm(`Delete the substitution rule for ${rule.activeMolecule} ${rule.dosage}?`)) return
+    await onDeleteRule(rule.id)
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg flex items-center gap-2">
+            <Plus className="h-5 w-5 text-sky-600" />
+            New Substitution Rule
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <Label>Copy molecule, dosage and form from</Label>
+              <Select value="" onValueChange={prefillFromDrug}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Choose a drug (optional)" />
+                </SelectTrigger>
+                <SelectContent>
+                  {drugs.map(drug => (
+                    <SelectItem key={drug.id} value={drug.id}>
+                      {drug.name} ({drug.dosage} {drug.dosageForm})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+              <div>
+                <Label htmlFor="ruleMolecule">Active Molecule *</Label>
+                <Input
+                  id="ruleMolecule"
+                  value={draft.activeMolecule}
+                  onChange={(e) => setDraft(prev => ({ ...prev, activeMolecule: e.target.value }))}
+                  placeholder="e.g., Paracetamol"
+                />
+              </div>
+              <div>
+                <Label htmlFor="ruleDosage">Dosage *</Label>
+                <Input
+                  id="ruleDosage"
+                  value={draft.dosage}
+                  onChange={(e) => setDraft(prev => ({ ...prev, dosage: e.target.value }))}
+                  placeholder="e.g., 500mg"
+                />
+              </div>
+              <div>
+                <Label htmlFor="ruleForm">Dosage Form *</Label>
+                <Input
+                  id="ruleForm"
+                  value={draft.dosageForm}
+                  onChange={(e) => setDraft(prev => ({ ...prev, dosageForm: e.target.value }))}
+                  placeholder="e.g., Tablet"
+                />
+              </div>
+              <div>
+                <Label htmlFor="ruleRatio">Substitution Ratio *</Label>
+                <Input
+                  id="ruleRatio"
+                  type="number"
+                  min="0"
+                  step="0.05"
+                  value={draft.substitutionRatio}
+                  onChange={(e) => setDraft(prev => ({ ...prev, substitutionRatio: parseFloat(e.target.value) || 0 }))}
+                />
+              </div>
+            </div>
+
+            <div>
+              <Label className="flex items-center justify-between">
+                <span>Equivalent Drugs *</span>
+                <span className="text-xs text-gray-500">{draft.equivalentDrugs.length} selected</span>
+              </Label>
+              <div className="relative mt-1 mb-2">
+                <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+                <Input
+                  value={drugSearch}
+                  onChange={(e) => setDrugSearch(e.target.value)}
+                  placeholder="Search drugs..."
+                  className="pl-9"
+                />
+              </div>
+              <ScrollArea className="h-48 border border-gray-200 rounded-lg p-3">
+                <div className="space-y-2">
+                  {pickableDrugs.map(drug => (
+                    <div key={drug.id} className="flex items-center space-x-2">
+                      <Checkbox
+                        id={`equivalent-${drug.id}`}
+                        checked={draft.equivalentDrugs.includes(drug.id)}
+                        onCheckedChange={(checked) => toggleEquivalent(drug.id, checked === true)}
+                      />
+                      <label htmlFor={`equivalent-${drug.id}`} className="text-sm text-gray-700">
+                        {drug.name} <span className="text-gray-500">({drug.activeMolecule} {drug.dosage} {drug.dosageForm})</span>
+                      </label>
+                    </div>
+                  ))}
+                </div>
+              </ScrollArea>
+            </div>
+
+            <div>
+              <Label htmlFor="ruleNotes">Notes</Label>
+              <Textarea
+                id="ruleNotes"
+                value={draft.notes || ''}
+                onChange={(e) => setDraft(prev => ({ ...prev, notes: e.target.value }))}
+                placeholder="e.g., Approved by P&T committee, March review"
+                rows={2}
+              />
+            </div>
+
+            <div className="flex justify-end">
+              <Button type="submit" disabled={saving} className="flex items-center gap-2">
+                <Plus className="h-4 w-4" />
+                {saving ? 'Saving...' : 'Add Rule'}
+              </Button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg flex items-center gap-2">
+            <GitCompare className="h-5 w-5 text-sky-600" />
+            Substitution Rules ({rules.length})
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {rules.length === 0 ? (
+            <p className="text-sm text-gray-600 text-center py-6">
+              No substitution rules yet. Rules you add here appear in every substitute search.
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Applies To</TableHead>
+                  <TableHead>Equivalent Drugs</TableHead>
+                  <TableHead className="text-right">Ratio</TableHead>
+                  <TableHead>Notes</TableHead>
+                  <TableHead>Active</TableHead>
+                  <TableHead></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rules.map(rule => (
+                  <TableRow key={rule.id} className={rule.isActive ? '' : 'opacity-60'}>
+                    <TableCell>
+                      <p className="font-medium text-gray-900">{rule.activeMolecule}</p>
+                      <p className="text-xs text-gray-500">{rule.dosage} {rule.dosageForm}</p>
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        {rule.equivalentDrugs.map(drugId => (
+                          <Badge key={drugId} variant="outline" className="text-xs">
+                            {drugsById.get(drugId)?.name ?? 'Removed drug'}
+                          </Badge>
+                        ))}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-right">{rule.substitutionRatio}</TableCell>
+                    <TableCell className="text-sm text-gray-600 max-w-xs">{rule.notes}</TableCell>
+                    <TableCell>
+                      <Switch
+                        checked={rule.isActive}
+                        onCheckedChange={(checked) => onUpdateRule(rule.id, { isActive: checked })}
+                      />
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleDelete(rule)}
+                        className="text-red-600 hover:text-red-700"
+                        title="Delete rule"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,291 @@
+import { useMemo, useState } from 'react'
+import { Drug, Supplier } from '../types/pharmacy'
+import { SupplierDraft, validateSupplier } from '../services/suppliers'
+import { DEFAULT_LEAD_TIME_DAYS } from '../services/reorder'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import { Textarea } from './ui/textarea'
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table'
+import { Edit, Search, Trash2, Truck } from 'lucide-react'
+
+interface SupplierManagerProps {
+  suppliers: Supplier[]
+  drugs: Drug[]
+  canEdit: boolean
+  onAddSupplier: (draft: SupplierDraft) => Promise<void>
+  onUpdateSupplier: (id: string, draft: SupplierDraft) => Promise<void>
+  onDeleteSupplier: (id: string) => Promise<void>
+}
+
+const emptyDraft: SupplierDraft = {
+  name: '',
+  contactName: '',
+  email: '',
+  phone: '',
+  accountNumber: '',
+  leadTimeDays: undefined,
+  minimumOrderValue: undefined,
+  notes: ''
+}
+
+const parseOptionalNumber = (value: string) => value === '' ? undefined : Number(value)
+
+export function SupplierManager({
+  suppliers,
+  drugs,
+  canEdit,
+  onAddSupplier,
+  onUpdateSupplier,
+  onDeleteSupplier
+}: SupplierManagerProps) {
+  const [draft, setDraft] = useState<SupplierDraft>(emptyDraft)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [search, setSearch] = useState('')
+  const [saving, setSaving] = useState(false)
+
+  const filtered = useMemo(() => {
+    const searchLower = search.trim().toLowerCase()
+    return suppliers.filter(supplier =>
+      !searchLower ||
+      supplier.name.toLowerCase().includes(searchLower) ||
+      supplier.accountNumber?.toLowerCase().includes(searchLower) ||
+      supplier.contactName?.toLowerCase().includes(searchLower)
+    )
+  }, [suppliers, search])
+
+  const pricedItems = (supplierId: string) =>
+    drugs.filter(drug => drug.supplierPrices?.some(price => price.supplierId === supplierId)).length
+
+  const startEdit = (supplier: Supplier) => {
+    setEditingId(supplier.id)
+    setDraft({
+      name: supplier.name,
+      contactName: supplier.contactName ?? '',
+      email: supplier.email ?? '',
+      phone: supplier.phone ?? '',
+      accountNumber: supplier.accountNumber ?? '',
+      leadTimeDays: supplier.leadTimeDays,
+      minimumOrderValue: supplier.minimumOrderValue,
+      notes: supplier.notes ?? ''
+    })
+  }
+
+  const resetForm = () => {
+    setEditingId(null)
+    setDraft(emptyDraft)
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    const problem = validateSupplier(draft, suppliers, editingId ?? undefined)
+    if (problem) {
+      alert(problem)
+      return
+    }
+
+    setSaving(true)
+    try {
+      if (editingId) {
+        await onUpdateSupplier(editingId, draft)
+      } else {
+        await onAddSupplier(draft)
+      }
+      resetForm()
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDelete = async (supplier: Supplier) => {
+    const items = pricedItems(supplier.id)
+    const warning = items > 0 ? ` Its prices for ${items} item${items > 1 ? 's' : ''} will no longer be used for reordering.` : ''
+    if (!window.confirm(`Remove ${supplier.name} from the directory?${warning}`)) return
+    await onDeleteSupplier(supplier.id)
+    if (editingId === supplier.id) resetForm()
+  }
+
+  return (
+    <div className="space-y-6">
+      {canEdit && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg flex items-center gap-2">
+              <Truck className="h-5 w-5 text-sky-600" />
+              {editingId ? 'Edit Supplier' : 'New Supplier'}
+            </CardTitle>
+            <p className="text-sm text-gray-600">
+              Reorder suggestions use the cheapest supplier on each item's price list, with that supplier's
+              pack size and lead time. Items can override the lead time.
+            </p>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div>
+                  <Label htmlFor="supplierName">Name *</Label>
+                  <Input
+                    id="supplierName"
+                    value={draft.name}
+                    onChange={(e) => setDraft(prev => ({ ...prev, name: e.target.value }))}
+                    placeholder="e.g., Alliance Healthcare"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="supplierAccount">Account Number</Label>
+                  <Input
+                    id="supplierAccount"
+                    value={draft.accountNumber ?? ''}
+                    onChange={(e) => setDraft(prev => ({ ...prev, accountNumber: e.target.value }))}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="supplierContact">Contact Name</Label>
+                  <Input
+                    id="supplierContact"
+                    value={draft.contactName ?? ''}
+                    onChange={(e) => setDraft(prev => ({ ...prev, contactName: e.target.value }))}
+                  />
+                </div>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                <div>
+                  <Label htmlFor="supplierEmail">Email</Label>
+                  <Input
+                    id="supplierEmail"
+                    type="email"
+                    value={draft.email ?? ''}
+                    onChange={(e) => setDraft(prev => ({ ...prev, email: e.target.value }))}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="supplierPhone">Phone</Label>
+                  <Input
+                    id="supplierPhone"
+                    type="tel"
+                    value={draft.phone ?? ''}
+                    onChange={(e) => setDraft(prev => ({ ...prev, phone: e.target.value }))}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="supplierLeadTime">Lead Time (days)</Label>
+                  <Input
+                    id="supplierLeadTime"
+                    type="number"
+                    min="0"
+                    placeholder={String(DEFAULT_LEAD_TIME_DAYS)}
+                    value={draft.leadTimeDays ?? ''}
+                    onChange={(e) => setDraft(prev => ({ ...prev, leadTimeDays: parseOptionalNumber(e.target.value) }))}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="supplierMinimum">Minimum Order ($)</Label>
+                  <Input
+                    id="supplierMinimum"
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={draft.minimumOrderValue ?? ''}
+                    onChange={(e) => setDraft(prev => ({ ...prev, minimumOrderValue: parseOptionalNumber(e.target.value) }))}
+                  />
+                </div>
+              </div>
+
+              <div>
+                <Label htmlFor="supplierNotes">Notes</Label>
+                <Textarea
+                  id="supplierNotes"
+                  value={draft.notes ?? ''}
+                  onChange={(e) => setDraft(prev => ({ ...prev, notes: e.target.value }))}
+                  placeholder="Ordering cut-off times, delivery days"
+                  rows={2}
+                />
+              </div>
+
+              <div className="flex justify-end gap-2">
+                {editingId && (
+                  <Button type="button" variant="outline" onClick={resetForm}>Cancel</Button>
+                )}
+                <Button type="submit" disabled={saving}>
+                  {saving ? 'Saving...' : editingId ? 'Save Supplier' : 'Add Supplier'}
+                </Button>
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Suppliers ({suppliers.length})</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+            <Input
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search by name, account number or contact"
+              className="pl-9"
+            />
+          </div>
+
+          {filtered.length === 0 ? (
+            <p className="text-center text-sm text-gray-600 py-8">
+              {suppliers.length === 0 ? 'No suppliers yet.' : 'No suppliers match your search.'}
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Supplier</TableHead>
+                  <TableHead>Contact</TableHead>
+                  <TableHead className="text-right">Lead Time</TableHead>
+                  <TableHead className="text-right">Minimum Order</TableHead>
+                  <TableHead className="text-right">Priced Items</TableHead>
+                  {canEdit && <TableHead className="w-24"></TableHead>}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {filtered.map(supplier => (
+                  <TableRow key={supplier.id}>
+                    <TableCell>
+                      <p className="font-medium">{supplier.name}</p>
+                      {supplier.accountNumber && <p className="text-xs text-gray-500">Account {supplier.accountNumber}</p>}
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      <p>{supplier.contactName}</p>
+                      <p className="text-xs text-gray-500">{[supplier.email, supplier.phone].filter(Boolean).join(' · ')}</p>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {supplier.leadTimeDays !== undefined ? `${supplier.leadTimeDays} days` : <span className="text-gray-400">Default</span>}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {supplier.minimumOrderValue ? `$${supplier.minimumOrderValue.toFixed(2)}` : <span className="text-gray-400">None</span>}
+                    </TableCell>
+                    <TableCell className="text-right">{pricedItems(supplier.id)}</TableCell>
+                    {canEdit && (
+                      <TableCell>
+                        <div className="flex justify-end gap-1">
+                          <Button variant="ghost" size="sm" onClick={() => startEdit(supplier)} title="Edit supplier">
+                            <Edit className="h-4 w-4 text-sky-600" />
+                          </Button>
+                          <Button variant="ghost" size="sm" onClick={() => handleDelete(supplier)} title="Remove supplier" className="text-red-600">
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    )}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,120 @@
+import { Supplier, SupplierPrice } from '../types/pharmacy'
+import { unitCost } from '../services/suppliers'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import { Badge } from './ui/badge'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { Plus, Trash2 } from 'lucide-react'
+
+interface SupplierPriceEditorProps {
+  prices: SupplierPrice[]
+  suppliers: Supplier[]
+  onChange: (prices: SupplierPrice[]) => void
+  /** Prices are shown but cannot be changed */
+  readOnly?: boolean
+}
+
+export function SupplierPriceEditor({ prices, suppliers, onChange, readOnly = false }: SupplierPriceEditorProps) {
+  const updatePrice = (index: number, changes: Partial<SupplierPrice>) => {
+    onChange(prices.map((price, i) => i === index ? { ...price, ...changes } : price))
+  }
+
+  const valid = prices.filter(price => price.packSize > 0 && price.packPrice >= 0)
+  const cheapest = valid.length > 1
+    ? valid.reduce((best, price) => unitCost(price) < unitCost(best) ? price : best)
+    : undefined
+
+  return (
+    <div className="space-y-3">
+      {prices.length === 0 && (
+        <p className="text-sm text-gray-600 bg-gray-50 p-3 rounded">
+          No supplier prices. Reorders use the pack size and unit price above.
+        </p>
+      )}
+
+      {prices.map((price, index) => {
+        const known = suppliers.some(supplier => supplier.id === price.supplierId)
+        return (
+          <div key={index} className="grid grid-cols-2 md:grid-cols-5 gap-3 items-end p-3 border border-gray-200 rounded-lg">
+            <div className="col-span-2">
+              <Label>Supplier *</Label>
+              <Select
+                value={price.supplierId || undefined}
+                onValueChange={(supplierId) => updatePrice(index, { supplierId })}
+                disabled={readOnly}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder={price.supplierId && !known ? 'Removed supplier' : 'Choose a supplier'} />
+                </SelectTrigger>
+                <SelectContent>
+                  {suppliers.map(supplier => (
+                    <SelectItem key={supplier.id} value={supplier.id}>{supplier.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor={`priceSize-${index}`}>Pack Size *</Label>
+              <Input
+                id={`priceSize-${index}`}
+                type="number"
+                min="1"
+                value={Number.isNaN(price.packSize) ? '' : price.packSize}
+                disabled={readOnly}
+                onChange={(e) => updatePrice(index, { packSize: parseInt(e.target.value) })}
+              />
+            </div>
+            <div>
+              <Label htmlFor={`pricePack-${index}`}>Pack Price ($) *</Label>
+              <Input
+                id={`pricePack-${index}`}
+                type="number"
+                min="0"
+                step="0.01"
+                value={Number.isNaN(price.packPrice) ? '' : price.packPrice}
+                disabled={readOnly}
+                onChange={(e) => updatePrice(index, { packPrice: parseFloat(e.target.value) })}
+              />
+            </div>
+            <div className="flex items-center justify-end gap-2 h-9">
+              {price.packSize > 0 && price.packPrice >= 0 && (
+                <span className="text-xs text-gray-600">${unitCost(price).toFixed(2)}/unit</span>
+              )}
+              {price === cheapest && <Badge variant="outline" className="bg-green-50 text-green-700 border-green-200">Cheapest</Badge>}
+              {!readOnly && (
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => onChange(prices.filter((_, i) => i !== index))}
+                  className="text-red-600 hover:text-red-700"
+                  title="Remove price"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+          </div>
+        )
+      })}
+
+      {readOnly ? (
+        <p className="text-sm text-gray-600">You do not have permission to change supplier prices.</p>
+      ) : suppliers.length === 0 ? (
+        <p className="text-sm text-gray-600">Add suppliers in the Suppliers tab to record their prices.</p>
+      ) : (
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => onChange([...prices, { supplierId: '', packSize: 1, packPrice: NaN }])}
+          className="flex items-center gap-2"
+        >
+          <Plus className="h-4 w-4" />
+          Add Supplier Price
+        </Button>
+      )}
+    </div>
+  )
+}
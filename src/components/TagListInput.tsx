@@ -0,0 +1,64 @@
+import { useState } from 'react'
+import { Input } from './ui/input'
+import { Badge } from './ui/badge'
+import { X } from 'lucide-react'
+
+interface TagListInputProps {
+  id: string
+  value: string[]
+  onChange: (value: string[]) => void
+  placeholder?: string
+}
+
+/**
+ * Free-text tags: type and press Enter or comma to add, click a tag to remove it
+ */
+export function TagListInput({ id, value, onChange, placeholder }: TagListInputProps) {
+  const [text, setText] = useState('')
+
+  const addTags = (raw: string) => {
+    const tags = raw.split(',').map(tag => tag.trim()).filter(Boolean)
+    const added = tags.filter(tag => !value.some(existing => existing.toLowerCase() === tag.toLowerCase()))
+    if (added.length > 0) onChange([...value, ...added])
+    setText('')
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === ',') {
+      e.preventDefault()
+      addTags(text)
+    } else if (e.key === 'Backspace' && !text && value.length > 0) {
+      onChange(value.slice(0, -1))
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      <Input
+        id={id}
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        onKeyDown={handleKeyDown}
+        onBlur={() => text && addTags(text)}
+        placeholder={placeholder}
+      />
+      {value.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {value.map(tag => (
+            <Badge key={tag} variant="secondary" className="flex items-center gap-1">
+              {tag}
+              <button
+                type="button"
+                onClick={() => onChange(value.filter(existing => existing !== tag))}
+                className="hover:text-red-600"
+                title={`Remove ${tag}`}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </Badge>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,62 @@
+import { PharmacyUser } from '../types/pharmacy'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { ShieldCheck } from 'lucide-react'
+
+export interface WitnessSignature {
+  staffId: string
+  pin: string
+}
+
+interface WitnessSignOffProps {
+  witnesses: PharmacyUser[]
+  value: WitnessSignature
+  onChange: (value: WitnessSignature) => void
+}
+
+/**
+ * Second signature for a controlled-drug entry: the witness picks their name and enters their PIN
+ */
+export function WitnessSignOff({ witnesses, value, onChange }: WitnessSignOffProps) {
+  return (
+    <div className="p-3 bg-purple-50 border border-purple-200 rounded-lg space-y-3">
+      <p className="text-sm text-purple-900 flex items-center gap-2">
+        <ShieldCheck className="h-4 w-4" />
+        Controlled drug: a second member of staff must witness this entry
+      </p>
+      {witnesses.length === 0 ? (
+        <p className="text-sm text-purple-900">
+          No one else on staff can witness controlled drug entries.
+        </p>
+      ) : (
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <Label>Witness *</Label>
+            <Select value={value.staffId || undefined} onValueChange={(staffId) => onChange({ staffId, pin: '' })}>
+              <SelectTrigger>
+                <SelectValue placeholder="Choose a witness" />
+              </SelectTrigger>
+              <SelectContent>
+                {witnesses.map(member => (
+                  <SelectItem key={member.id} value={member.id}>{member.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="witnessPin">Witness PIN *</Label>
+            <Input
+              id="witnessPin"
+              type="password"
+              inputMode="numeric"
+              autoComplete="off"
+              value={value.pin}
+              onChange={(e) => onChange({ ...value, pin: e.target.value })}
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
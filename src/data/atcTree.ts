@@ -0,0 +1,125 @@
+import { AtcEntry } from '../types/pharmacy'
+
+// Offline subset of the WHO ATC classification covering the medicines a
+// community pharmacy commonly stocks. Levels are implied by code length:
+// 1 anatomical main group, 3 therapeutic, 4 pharmacological, 5 chemical
+// subgroup, 7 chemical substance.
+export const atcTree: AtcEntry[] = [
+  // A - Alimentary tract and metabolism
+  { code: 'A', name: 'Alimentary tract and metabolism' },
+  { code: 'A02', name: 'Drugs for acid related disorders' },
+  { code: 'A02B', name: 'Drugs for peptic ulcer and gastro-oesophageal reflux disease' },
+  { code: 'A02BA', name: 'H2-receptor antagonists' },
+  { code: 'A02BA02', name: 'Ranitidine' },
+  { code: 'A02BA03', name: 'Famotidine' },
+  { code: 'A02BC', name: 'Proton pump inhibitors' },
+  { code: 'A02BC01', name: 'Omeprazole' },
+  { code: 'A02BC02', name: 'Pantoprazole' },
+  { code: 'A02BC03', name: 'Lansoprazole' },
+  { code: 'A02BC05', name: 'Esomeprazole' },
+  { code: 'A10', name: 'Drugs used in diabetes' },
+  { code: 'A10B', name: 'Blood glucose lowering drugs, excl. insulins' },
+  { code: 'A10BA', name: 'Biguanides' },
+  { code: 'A10BA02', name: 'Metformin' },
+  { code: 'A10BB', name: 'Sulfonylureas' },
+  { code: 'A10BB09', name: 'Gliclazide' },
+  { code: 'A10BB12', name: 'Glimepiride' },
+
+  // B - Blood and blood forming organs
+  { code: 'B', name: 'Blood and blood forming organs' },
+  { code: 'B01', name: 'Antithrombotic agents' },
+  { code: 'B01A', name: 'Antithrombotic agents' },
+  { code: 'B01AC', name: 'Platelet aggregation inhibitors excl. heparin' },
+  { code: 'B01AC04', name: 'Clopidogrel' },
+  { code: 'B01AC06', name: 'Acetylsalicylic acid' },
+
+  // C - Cardiovascular system
+  { code: 'C', name: 'Cardiovascular system' },
+  { code: 'C07', name: 'Beta blocking agents' },
+  { code: 'C07A', name: 'Beta blocking agents' },
+  { code: 'C07AB', name: 'Beta blocking agents, selective' },
+  { code: 'C07AB02', name: 'Metoprolol' },
+  { code: 'C07AB03', name: 'Atenolol' },
+  { code: 'C07AB07', name: 'Bisoprolol' },
+  { code: 'C08', name: 'Calcium channel blockers' },
+  { code: 'C08C', name: 'Selective calcium channel blockers with mainly vascular effects' },
+  { code: 'C08CA', name: 'Dihydropyridine derivatives' },
+  { code: 'C08CA01', name: 'Amlodipine' },
+  { code: 'C09', name: 'Agents acting on the renin-angiotensin system' },
+  { code: 'C09A', name: 'ACE inhibitors, plain' },
+  { code: 'C09AA', name: 'ACE inhibitors, plain' },
+  { code: 'C09AA02', name: 'Enalapril' },
+  { code: 'C09AA03', name: 'Lisinopril' },
+  { code: 'C09AA05', name: 'Ramipril' },
+  { code: 'C09AA06', name: 'Quinapril' },
+  { code: 'C09C', name: 'Angiotensin II receptor blockers (ARBs), plain' },
+  { code: 'C09CA', name: 'Angiotensin II receptor blockers (ARBs), plain' },
+  { code: 'C09CA01', name: 'Losartan' },
+  { code: 'C09CA06', name: 'Candesartan' },
+  { code: 'C10', name: 'Lipid modifying agents' },
+  { code: 'C10A', name: 'Lipid modifying agents, plain' },
+  { code: 'C10AA', name: 'HMG CoA reductase inhibitors' },
+  { code: 'C10AA01', name: 'Simvastatin' },
+  { code: 'C10AA03', name: 'Pravastatin' },
+  { code: 'C10AA05', name: 'Atorvastatin' },
+  { code: 'C10AA07', name: 'Rosuvastatin' },
+
+  // J - Antiinfectives for systemic use
+  { code: 'J', name: 'Antiinfectives for systemic use' },
+  { code: 'J01', name: 'Antibacterials for systemic use' },
+  { code: 'J01C', name: 'Beta-lactam antibacterials, penicillins' },
+  { code: 'J01CA', name: 'Penicillins with extended spectrum' },
+  { code: 'J01CA01', name: 'Ampicillin' },
+  { code: 'J01CA04', name: 'Amoxicillin' },
+  { code: 'J01CE', name: 'Beta-lactamase sensitive penicillins' },
+  { code: 'J01CE02', name: 'Phenoxymethylpenicillin' },
+  { code: 'J01CF', name: 'Beta-lactamase resistant penicillins' },
+  { code: 'J01CF05', name: 'Flucloxacillin' },
+  { code: 'J01CR', name: 'Combinations of penicillins, incl. beta-lactamase inhibitors' },
+  { code: 'J01CR02', name: 'Amoxicillin and beta-lactamase inhibitor' },
+  { code: 'J01F', name: 'Macrolides, lincosamides and streptogramins' },
+  { code: 'J01FA', name: 'Macrolides' },
+  { code: 'J01FA09', name: 'Clarithromycin' },
+  { code: 'J01FA10', name: 'Azithromycin' },
+
+  // M - Musculo-skeletal system
+  { code: 'M', name: 'Musculo-skeletal system' },
+  { code: 'M01', name: 'Antiinflammatory and antirheumatic products' },
+  { code: 'M01A', name: 'Antiinflammatory and antirheumatic products, non-steroids' },
+  { code: 'M01AB', name: 'Acetic acid derivatives and related substances' },
+  { code: 'M01AB05', name: 'Diclofenac' },
+  { code: 'M01AE', name: 'Propionic acid derivatives' },
+  { code: 'M01AE01', name: 'Ibuprofen' },
+  { code: 'M01AE02', name: 'Naproxen' },
+  { code: 'M01AH', name: 'Coxibs' },
+  { code: 'M01AH01', name: 'Celecoxib' },
+
+  // N - Nervous system
+  { code: 'N', name: 'Nervous system' },
+  { code: 'N02', name: 'Analgesics' },
+  { code: 'N02A', name: 'Opioids' },
+  { code: 'N02AA', name: 'Natural opium alkaloids' },
+  { code: 'N02AA01', name: 'Morphine' },
+  { code: 'N02AJ', name: 'Opioids in combination with non-opioid analgesics' },
+  { code: 'N02AJ06', name: 'Codeine and paracetamol' },
+  { code: 'N02AX', name: 'Other opioids' },
+  { code: 'N02AX02', name: 'Tramadol' },
+  { code: 'N02B', name: 'Other analgesics and antipyretics' },
+  { code: 'N02BA', name: 'Salicylic acid and derivatives' },
+  { code: 'N02BA01', name: 'Acetylsalicylic acid' },
+  { code: 'N02BE', name: 'Anilides' },
+  { code: 'N02BE01', name: 'Paracetamol' },
+
+  // R - Respiratory system
+  { code: 'R', name: 'Respiratory system' },
+  { code: 'R03', name: 'Drugs for obstructive airway diseases' },
+  { code: 'R03A', name: 'Adrenergics, inhalants' },
+  { code: 'R03AC', name: 'Selective beta-2-adrenoreceptor agonists' },
+  { code: 'R03AC02', name: 'Salbutamol' },
+  { code: 'R06', name: 'Antihistamines for systemic use' },
+  { code: 'R06A', name: 'Antihistamines for systemic use' },
+  { code: 'R06AE', name: 'Piperazine derivatives' },
+  { code: 'R06AE07', name: 'Cetirizine' },
+  { code: 'R06AX', name: 'Other antihistamines for systemic use' },
+  { code: 'R06AX13', name: 'Loratadine' }
+]
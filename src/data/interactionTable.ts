@@ -0,0 +1,60 @@
+import { DrugInteraction } from '../types/pharmacy'
+
+const interaction = (
+  id: string,
+  moleculeA: string,
+  moleculeB: string,
+  severity: DrugInteraction['severity'],
+  mechanism: string,
+  advice: string
+): DrugInteraction => ({ id: `interaction_${id}`, moleculeA, moleculeB, severity, mechanism, advice, userId: 'system' })
+
+// Bundled interaction table for common community-pharmacy medicines. A pharmacy
+// can load its own table on top; entries for the same pair replace these.
+export const bundledInteractions: DrugInteraction[] = [
+  interaction('001', 'Ibuprofen', 'Acetylsalicylic Acid', 'moderate',
+    'Ibuprofen competes with low-dose aspirin for platelet COX-1 and may reduce its cardioprotective effect; additive GI bleeding risk.',
+    'Give aspirin at least 30 minutes before ibuprofen, or choose paracetamol for pain relief.'),
+  interaction('002', 'Ibuprofen', 'Lisinopril', 'moderate',
+    'NSAIDs reduce the antihypertensive effect of ACE inhibitors and together increase the risk of acute kidney injury.',
+    'Avoid regular use; if needed, use the lowest dose for the shortest time and monitor blood pressure and renal function.'),
+  interaction('003', 'Naproxen', 'Lisinopril', 'moderate',
+    'NSAIDs reduce the antihypertensive effect of ACE inhibitors and together increase the risk of acute kidney injury.',
+    'Avoid regular use; if needed, use the lowest dose for the shortest time and monitor blood pressure and renal function.'),
+  interaction('004', 'Ibuprofen', 'Naproxen', 'major',
+    'Two NSAIDs together add gastrointestinal bleeding and renal toxicity without extra benefit.',
+    'Do not supply together. Use a single NSAID.'),
+  interaction('005', 'Simvastatin', 'Clarithromycin', 'contraindicated',
+    'Clarithromycin strongly inhibits CYP3A4, raising simvastatin levels and the risk of myopathy and rhabdomyolysis.',
+    'Suspend simvastatin for the duration of the course or choose azithromycin.'),
+  interaction('006', 'Simvastatin', 'Amlodipine', 'moderate',
+    'Amlodipine raises simvastatin exposure through CYP3A4 inhibition.',
+    'Do not exceed simvastatin 20mg daily with amlodipine.'),
+  interaction('007', 'Lisinopril', 'Spironolactone', 'major',
+    'Both raise serum potassium; risk of severe hyperkalaemia.',
+    'Check potassium and renal function before and during treatment.'),
+  interaction('008', 'Metformin', 'Iodinated Contrast', 'major',
+    'Contrast-induced renal impairment can cause metformin accumulation and lactic acidosis.',
+    'Withhold metformin on the day of the procedure and for 48 hours after.'),
+  interaction('009', 'Clopidogrel', 'Omeprazole', 'moderate',
+    'Omeprazole inhibits CYP2C19 and reduces activation of clopidogrel.',
+    'Prefer lansoprazole or pantoprazole with clopidogrel.'),
+  interaction('010', 'Codeine', 'Tramadol', 'major',
+    'Additive opioid effects increase the risk of respiratory depression and sedation; tramadol also lowers the seizure threshold.',
+    'Avoid combining opioids; confirm with the prescriber.'),
+  interaction('011', 'Paracetamol', 'Warfarin', 'minor',
+    'Regular paracetamol over several days can raise the INR.',
+    'Occasional doses are fine; advise INR monitoring for regular use.'),
+  interaction('012', 'Acetylsalicylic Acid', 'Warfarin', 'major',
+    'Aspirin adds antiplatelet effect and gastric injury to anticoagulation, increasing bleeding risk.',
+    'Only supply together on explicit prescriber instruction; counsel on bleeding signs.'),
+  interaction('013', 'Ibuprofen', 'Warfarin', 'major',
+    'NSAIDs increase bleeding risk with anticoagulants through antiplatelet effect and gastric injury.',
+    'Avoid; recommend paracetamol instead.'),
+  interaction('014', 'Amoxicillin', 'Methotrexate', 'major',
+    'Penicillins reduce renal clearance of methotrexate, increasing toxicity.',
+    'Avoid or monitor full blood count and methotrexate levels closely.'),
+  interaction('015', 'Acetylsalicylic Acid', 'Clopidogrel', 'moderate',
+    'Dual antiplatelet therapy increases bleeding risk.',
+    'Appropriate when prescribed together; confirm intended duration and consider gastroprotection.')
+]
@@ -1,4 +1,18 @@
-import { Drug } from '../types/pharmacy'
+import { Drug, StockBatch } from '../types/pharmacy'
+
+const daysFromNow = (days: number) =>
+  new Date(Date.now() + days * 24 * 60 * 60 * 1000).toISOString().split('T')[0]
+
+function batch(batchNumber: string, expiresInDays: number, quantity: number, supplier: string): StockBatch {
+  return {
+    id: `batch_${batchNumber}`,
+    batchNumber,
+    expiryDate: daysFromNow(expiresInDays),
+    quantity,
+    receivedDate: daysFromNow(-30),
+    supplier
+  }
+}
 
 // Sample pharmaceutical database with common medications
 export const sampleDrugs: Drug[] = [
@@ -13,11 +27,16 @@ export const sampleDrugs: Drug[] = [
     dosageForm: 'Tablet',
     strength: '500mg',
     manufacturer: 'GSK',
-    barcode: '1234567890123',
+    barcode: '5012345678900',
     category: 'Analgesic',
+    atcCode: 'N02BE01',
     isControlled: false,
     requiresPrescription: false,
     stockLevel: 150,
+    batches: [
+      batch('B001-A', 60, 50, 'GSK'),
+      batch('B001-B', 420, 100, 'GSK')
+    ],
     minStockLevel: 50,
     maxStockLevel: 500,
     unitPrice: 0.25,
@@ -36,11 +55,15 @@ export const sampleDrugs: Drug[] = [
     dosageForm: 'Tablet',
     strength: '500mg',
     manufacturer: 'Johnson & Johnson',
-    barcode: '1234567890124',
+    barcode: '5012345678917',
     category: 'Analgesic',
+    atcCode: 'N02BE01',
     isControlled: false,
     requiresPrescription: false,
     stockLevel: 75,
+    batches: [
+      batch('B002-A', 600, 75, 'Johnson & Johnson')
+    ],
     minStockLevel: 50,
     maxStockLevel: 300,
     unitPrice: 0.30,
@@ -60,9 +83,14 @@ export const sampleDrugs: Drug[] = [
     strength: '250mg',
     manufacturer: 'Generic Pharma',
     category: 'Analgesic',
+    atcCode: 'N02BE01',
     isControlled: false,
     requiresPrescription: false,
     stockLevel: 200,
+    batches: [
+      batch('B003-A', 150, 80, 'Generic Pharma'),
+      batch('B003-B', 540, 120, 'Generic Pharma')
+    ],
     minStockLevel: 100,
     maxStockLevel: 600,
     unitPrice: 0.15,
@@ -82,9 +110,15 @@ export const sampleDrugs: Drug[] = [
     strength: '120mg/5ml',
     manufacturer: 'Generic Pharma',
     category: 'Analgesic',
+    atcCode: 'N02BE01',
+    allergens: ['sorbitol'],
     isControlled: false,
     requiresPrescription: false,
     stockLevel: 45,
+    batches: [
+      batch('B004-A', 25, 15, 'Generic Pharma'),
+      batch('B004-B', 300, 30, 'Generic Pharma')
+    ],
     minStockLevel: 20,
     maxStockLevel: 100,
     unitPrice: 3.50,
@@ -105,11 +139,17 @@ export const sampleDrugs: Drug[] = [
     dosageForm: 'Tablet',
     strength: '200mg',
     manufacturer: 'Pfizer',
-    barcode: '1234567890125',
+    barcode: '5012345678924',
     category: 'NSAID',
+    atcCode: 'M01AE01',
+    allergens: ['nsaid'],
+    contraindications: ['peptic ulcer', 'asthma', 'severe heart failure', 'pregnancy'],
     isControlled: false,
     requiresPrescription: false,
     stockLevel: 120,
+    batches: [
+      batch('B005-A', 720, 120, 'Pfizer')
+    ],
     minStockLevel: 50,
     maxStockLevel: 400,
     unitPrice: 0.35,
@@ -129,9 +169,16 @@ export const sampleDrugs: Drug[] = [
     strength: '400mg',
     manufacturer: 'Generic Pharma',
     category: 'NSAID',
+    atcCode: 'M01AE01',
+    allergens: ['nsaid'],
+    contraindications: ['peptic ulcer', 'asthma', 'severe heart failure', 'pregnancy'],
     isControlled: false,
     requiresPrescription: true,
     stockLevel: 80,
+    batches: [
+      batch('B006-A', -10, 10, 'Generic Pharma'),
+      batch('B006-B', 360, 70, 'Generic Pharma')
+    ],
     minStockLevel: 30,
     maxStockLevel: 200,
     unitPrice: 0.45,
@@ -153,9 +200,16 @@ export const sampleDrugs: Drug[] = [
     strength: '75mg',
     manufacturer: 'Bayer',
     category: 'Antiplatelet',
+    atcCode: 'B01AC06',
+    allergens: ['aspirin', 'salicylate', 'nsaid'],
+    contraindications: ['peptic ulcer', 'children under 16', 'haemophilia'],
     isControlled: false,
     requiresPrescription: false,
     stockLevel: 300,
+    batches: [
+      batch('B007-A', 240, 100, 'Bayer'),
+      batch('B007-B', 900, 200, 'Bayer')
+    ],
     minStockLevel: 100,
     maxStockLevel: 800,
     unitPrice: 0.10,
@@ -175,9 +229,15 @@ export const sampleDrugs: Drug[] = [
     strength: '300mg',
     manufacturer: 'Bayer',
     category: 'Analgesic',
+    atcCode: 'N02BA01',
+    allergens: ['aspirin', 'salicylate', 'nsaid'],
+    contraindications: ['peptic ulcer', 'children under 16', 'asthma'],
     isControlled: false,
     requiresPrescription: false,
     stockLevel: 180,
+    batches: [
+      batch('B008-A', 480, 180, 'Bayer')
+    ],
     minStockLevel: 75,
     maxStockLevel: 500,
     unitPrice: 0.20,
@@ -199,9 +259,14 @@ export const sampleDrugs: Drug[] = [
     strength: '500mg',
     manufacturer: 'Sandoz',
     category: 'Antibiotic',
+    atcCode: 'J01CA04',
+    allergens: ['penicillin', 'gelatin'],
     isControlled: false,
     requiresPrescription: true,
     stockLevel: 60,
+    batches: [
+      batch('B009-A', 80, 60, 'Sandoz')
+    ],
     minStockLevel: 30,
     maxStockLevel: 200,
     unitPrice: 0.80,
@@ -221,9 +286,14 @@ export const sampleDrugs: Drug[] = [
     strength: '250mg',
     manufacturer: 'Sandoz',
     category: 'Antibiotic',
+    atcCode: 'J01CA04',
+    allergens: ['penicillin', 'gelatin'],
     isControlled: false,
     requiresPrescription: true,
     stockLevel: 90,
+    batches: [
+      batch('B010-A', 330, 90, 'Sandoz')
+    ],
     minStockLevel: 40,
     maxStockLevel: 300,
     unitPrice: 0.60,
@@ -245,9 +315,14 @@ export const sampleDrugs: Drug[] = [
     strength: '10mg',
     manufacturer: 'Teva',
     category: 'ACE Inhibitor',
+    atcCode: 'C09AA03',
+    contraindications: ['pregnancy', 'angioedema'],
     isControlled: false,
     requiresPrescription: true,
     stockLevel: 40,
+    batches: [
+      batch('B011-A', 200, 40, 'Teva')
+    ],
     minStockLevel: 20,
     maxStockLevel: 150,
     unitPrice: 1.20,
@@ -267,9 +342,14 @@ export const sampleDrugs: Drug[] = [
     strength: '5mg',
     manufacturer: 'Teva',
     category: 'ACE Inhibitor',
+    atcCode: 'C09AA03',
+    contraindications: ['pregnancy', 'angioedema'],
     isControlled: false,
     requiresPrescription: true,
     stockLevel: 65,
+    batches: [
+      batch('B012-A', 660, 65, 'Teva')
+    ],
     minStockLevel: 25,
     maxStockLevel: 200,
     unitPrice: 1.00,
@@ -291,9 +371,14 @@ export const sampleDrugs: Drug[] = [
     strength: '500mg',
     manufacturer: 'Mylan',
     category: 'Antidiabetic',
+    atcCode: 'A10BA02',
+    contraindications: ['renal impairment', 'ketoacidosis'],
     isControlled: false,
     requiresPrescription: true,
     stockLevel: 15, // Low stock
+    batches: [
+      batch('B013-A', 120, 15, 'Mylan')
+    ],
     minStockLevel: 50,
     maxStockLevel: 300,
     unitPrice: 0.75,
@@ -313,9 +398,15 @@ export const sampleDrugs: Drug[] = [
     strength: '20mg',
     manufacturer: 'Accord',
     category: 'Statin',
+    atcCode: 'C10AA01',
+    allergens: ['lactose'],
+    contraindications: ['pregnancy', 'active liver disease'],
     isControlled: false,
     requiresPrescription: true,
     stockLevel: 8, // Very low stock
+    batches: [
+      batch('B014-A', 20, 8, 'Accord')
+    ],
     minStockLevel: 30,
     maxStockLevel: 150,
     unitPrice: 1.50,
@@ -337,9 +428,12 @@ export const sampleDrugs: Drug[] = [
     strength: '20mg',
     manufacturer: 'Dr. Reddy\'s',
     category: 'Proton Pump Inhibitor',
+    atcCode: 'A02BC01',
+    allergens: ['gelatin'],
     isControlled: false,
     requiresPrescription: true,
     stockLevel: 0, // Out of stock
+    batches: [],
     minStockLevel: 40,
     maxStockLevel: 200,
     unitPrice: 2.25,
@@ -347,5 +441,103 @@ export const sampleDrugs: Drug[] = [
     createdAt: new Date().toISOString(),
     updatedAt: new Date().toISOString(),
     userId: 'system'
+  },
+
+  // Combination products
+  {
+    id: 'drug_016',
+    name: 'Augmentin 500mg/125mg Tablets',
+    genericName: 'Co-amoxiclav',
+    brandName: 'Augmentin',
+    activeMolecule: 'Amoxicillin + Clavulanic Acid',
+    dosage: '500mg/125mg',
+    ingredients: [
+      { name: 'Amoxicillin', strength: '500mg' },
+      { name: 'Clavulanic Acid', strength: '125mg' }
+    ],
+    dosageForm: 'Tablet',
+    strength: '500mg/125mg',
+    manufacturer: 'GSK',
+    category: 'Antibiotic',
+    atcCode: 'J01CR02',
+    allergens: ['penicillin'],
+    contraindications: ['cholestatic jaundice'],
+    isControlled: false,
+    requiresPrescription: true,
+    stockLevel: 42,
+    batches: [
+      batch('B016-A', 240, 42, 'GSK')
+    ],
+    minStockLevel: 21,
+    maxStockLevel: 126,
+    unitPrice: 0.65,
+    isCustom: false,
+    createdAt: new Date().toISOString(),
+    updatedAt: new Date().toISOString(),
+    userId: 'system'
+  },
+  {
+    id: 'drug_017',
+    name: 'Co-amoxiclav 875mg/125mg Tablets',
+    genericName: 'Co-amoxiclav',
+    brandName: '',
+    activeMolecule: 'Amoxicillin + Clavulanic Acid',
+    dosage: '875mg/125mg',
+    ingredients: [
+      { name: 'Amoxicillin', strength: '875mg' },
+      { name: 'Clavulanic Acid', strength: '125mg' }
+    ],
+    dosageForm: 'Tablet',
+    strength: '875mg/125mg',
+    manufacturer: 'Sandoz',
+    category: 'Antibiotic',
+    atcCode: 'J01CR02',
+    allergens: ['penicillin'],
+    contraindications: ['cholestatic jaundice'],
+    isControlled: false,
+    requiresPrescription: true,
+    stockLevel: 28,
+    batches: [
+      batch('B017-A', 300, 28, 'Sandoz')
+    ],
+    minStockLevel: 14,
+    maxStockLevel: 84,
+    unitPrice: 0.80,
+    isCustom: false,
+    createdAt: new Date().toISOString(),
+    updatedAt: new Date().toISOString(),
+    userId: 'system'
+  },
+  {
+    id: 'drug_018',
+    name: 'Co-codamol 8mg/500mg Tablets',
+    genericName: 'Co-codamol',
+    brandName: '',
+    activeMolecule: 'Codeine Phosphate + Paracetamol',
+    dosage: '8mg/500mg',
+    ingredients: [
+      { name: 'Codeine Phosphate', strength: '8mg' },
+      { name: 'Paracetamol', strength: '500mg' }
+    ],
+    dosageForm: 'Tablet',
+    strength: '8mg/500mg',
+    manufacturer: 'Zentiva',
+    category: 'Analgesic',
+    atcCode: 'N02AJ06',
+    allergens: ['opioid'],
+    contraindications: ['respiratory depression', 'children under 12'],
+    isControlled: false,
+    requiresPrescription: false,
+    stockLevel: 64,
+    batches: [
+      batch('B018-A', 365, 64, 'Zentiva')
+    ],
+    minStockLevel: 32,
+    maxStockLevel: 160,
+    unitPrice: 0.12,
+    isCustom: false,
+    createdAt: new Date().toISOString(),
+    updatedAt: new Date().toISOString(),
+    userId: 'system'
   }
 ]
\ No newline at end of file
@@ -0,0 +1,56 @@
+import { useEffect, useRef, useState } from 'react'
+import { Actor } from '../services/permissions'
+
+/**
+ * Load the pharmacy account's records of one kind and keep them in state.
+ * Switching staff changes the actor but not the account's data, so the loader
+ * reads the latest actor from a ref and reruns only for a new account.
+ */
+export function useAccountData<T>(
+  actor: Actor | null,
+  load: (actor: Actor) => Promise<T>,
+  errorLabel: string,
+  signedOut: T
+) {
+  const [data, setData] = useState<T>(signedOut)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const accountId = actor?.userId
+  const latest = useRef({ actor, load, errorLabel, signedOut })
+
+  useEffect(() => {
+    latest.current = { actor, load, errorLabel, signedOut }
+  }, [actor, load, errorLabel, signedOut])
+
+  useEffect(() => {
+    const { actor: current, load: loadData, errorLabel: label, signedOut: empty } = latest.current
+    if (!current) {
+      setData(empty)
+      setLoading(false)
+      return
+    }
+
+    let cancelled = false
+    setLoading(true)
+
+    loadData(current)
+      .then(loaded => {
+        if (cancelled) return
+        setData(loaded)
+        setError(null)
+      })
+      .catch(err => {
+        if (cancelled) return
+        setError(err instanceof Error ? err.message : `Failed to load ${label}`)
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [accountId])
+
+  return { data, setData, loading, error }
+}
@@ -0,0 +1,63 @@
+import { useEffect, useRef } from 'react'
+import { GROUP_SEPARATOR } from '../services/gs1'
+
+/** Scanners type far faster than people; anything slower than this between keys is human typing */
+const MAX_KEY_INTERVAL_MS = 50
+const MIN_BARCODE_LENGTH = 6
+
+/**
+ * Scanners type the GS1 group separator as Ctrl+] or as a key of its own.
+ * Without it a variable-length field such as the lot swallows the fields after it.
+ */
+const isGroupSeparator = (event: KeyboardEvent) =>
+  event.key === GROUP_SEPARATOR ||
+  event.key === 'GroupSeparator' ||
+  (event.ctrlKey && !event.altKey && !event.metaKey && (event.key === ']' || event.code === 'BracketRight'))
+
+interface BarcodeWedgeOptions {
+  enabled?: boolean
+}
+
+/**
+ * Listen for USB/Bluetooth scanners in keyboard-wedge mode anywhere in the app.
+ * A burst of fast keystrokes ending in Enter is reported as one scan.
+ */
+export function useBarcodeWedge(onScan: (code: string) => void, { enabled = true }: BarcodeWedgeOptions = {}) {
+  const onScanRef = useRef(onScan)
+
+  useEffect(() => {
+    onScanRef.current = onScan
+  }, [onScan])
+
+  useEffect(() => {
+    if (!enabled) return
+
+    let buffer = ''
+    let lastKeyAt = 0
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const separator = isGroupSeparator(event)
+      if (!separator && (event.ctrlKey || event.altKey || event.metaKey)) return
+
+      const now = performance.now()
+      const isRapid = now - lastKeyAt <= MAX_KEY_INTERVAL_MS
+      lastKeyAt = now
+
+      if (event.key === 'Enter' || event.key === 'Tab') {
+        if (isRapid && buffer.length >= MIN_BARCODE_LENGTH) {
+          event.preventDefault()
+          onScanRef.current(buffer)
+        }
+        buffer = ''
+        return
+      }
+
+      const key = separator ? GROUP_SEPARATOR : event.key
+      if (key.length !== 1) return
+      buffer = isRapid ? buffer + key : key
+    }
+
+    window.addEventListener('keydown', handleKeyDown, true)
+    return () => window.removeEventListener('keydown', handleKeyDown, true)
+  }, [enabled])
+}
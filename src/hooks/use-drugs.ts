@@ -0,0 +1,183 @@
+import { useCallback } from 'react'
+import { Drug, Witness } from '../types/pharmacy'
+import { createDrugRepository } from '../services/drugRepository'
+import { DrugCatalogue, PartialDrugSaveError } from '../services/drugCatalogue'
+import { DispenseRequest, DispensingService, PartialDispenseError } from '../services/dispensing'
+import { GoodsDelivery, GoodsReceiving, PartialReceiptError } from '../services/goodsReceiving'
+import { InventoryLedger, StockMovement } from '../services/inventoryLedger'
+import { Actor } from '../services/permissions'
+import { ControlledDrugRegister } from '../services/controlledRegister'
+import { createRepository } from '../services/repository'
+import { StockReconciliation } from '../services/stockTake'
+import { RecallDraft, RecallQuarantine } from '../services/recalls'
+import { useAccountData } from './use-account-data'
+
+const repository = createDrugRepository()
+const register = new ControlledDrugRegister()
+const catalogue = new DrugCatalogue(repository, new InventoryLedger(repository, createRepository('transactions'), register))
+const dispensing = new DispensingService(catalogue)
+const receiving = new GoodsReceiving(catalogue)
+const reconciliation = new StockReconciliation(catalogue)
+const quarantine = new RecallQuarantine(catalogue)
+const loadDrugs = (actor: Actor) => catalogue.load(actor)
+const noDrugs: Drug[] = []
+
+export function useDrugs(actor: Actor | null) {
+  const { data: drugs, setData: setDrugs, loading, error } = useAccountData(actor, loadDrugs, 'inventory', noDrugs)
+
+  const replaceDrug = useCallback((updated: Drug) => {
+    setDrugs(prev => prev.map(existing => existing.id === updated.id ? updated : existing))
+  }, [setDrugs])
+
+  const addDrug = useCallback(async (drug: Drug) => {
+    if (!actor) throw new Error('You must be signed in to add drugs')
+
+    try {
+      const created = await catalogue.add(drug, actor)
+      setDrugs(prev => [...prev, created])
+      return created
+    } catch (error) {
+      // The drug exists with the stock posted before the failure
+      if (error instanceof PartialDrugSaveError) setDrugs(prev => [...prev, error.drug])
+      throw error
+    }
+  }, [actor, setDrugs])
+
+  const updateDrug = useCallback(async (drug: Drug, stockChangeReason?: string) => {
+    if (!actor) throw new Error('You must be signed in to update drugs')
+
+    try {
+      const updated = await catalogue.update(drug, stockChangeReason, actor)
+      replaceDrug(updated)
+      return updated
+    } catch (error) {
+      if (error instanceof PartialDrugSaveError) replaceDrug(error.drug)
+      throw error
+    }
+  }, [actor, replaceDrug])
+
+  const recordMovement = useCallback(async (drug: Drug, movement: StockMovement) => {
+    if (!actor) throw new Error('You must be signed in to change stock')
+
+    const { drug: updated, transactions } = await catalogue.recordMovement(drug, movement, actor)
+    replaceDrug(updated)
+    return transactions
+  }, [actor, replaceDrug])
+
+  const dispense = useCallback(async (drug: Drug, request: DispenseRequest) => {
+    if (!actor) throw new Error('You must be signed in to dispense')
+
+    try {
+      const { drug: updated, record } = await dispensing.dispense(drug, request, actor)
+      replaceDrug(updated)
+      return record
+    } catch (error) {
+      // The stock left the shelf even though its records are incomplete
+      if (error instanceof PartialDispenseError) replaceDrug(error.drug)
+      throw error
+    }
+  }, [actor, replaceDrug])
+
+  const receiveDelivery = useCallback(async (orderId: string, delivery: GoodsDelivery) => {
+    if (!actor) throw new Error('You must be signed in to receive deliveries')
+
+    try {
+      const { order, receipt, drugs: updated } = await receiving.receive(orderId, delivery, drugs, actor)
+      updated.forEach(replaceDrug)
+      return { order, receipt }
+    } catch (error) {
+      // Lines posted before the failure are in stock
+      if (error instanceof PartialReceiptError) error.drugs.forEach(replaceDrug)
+      throw error
+    }
+  }, [actor, drugs, replaceDrug])
+
+  const postStockTake = useCallback(async (id: string, witness?: Witness) => {
+    if (!actor) throw new Error('You must be signed in to post stock-takes')
+
+    const { stockTake, drugs: updated } = await reconciliation.post(id, drugs, witness, actor)
+    updated.forEach(replaceDrug)
+    return stockTake
+  }, [actor, drugs, replaceDrug])
+
+  const importDrugs = useCallback(async (imported: Drug[]) => {
+    if (!actor) throw new Error('You must be signed in to import drugs')
+
+    const saved = await catalogue.importDrugs(imported, actor)
+    setDrugs(prev => [
+      ...prev.map(existing => saved.find(drug => drug.id === existing.id) ?? existing),
+      ...saved.filter(drug => !prev.some(existing => existing.id === drug.id))
+    ])
+    return saved
+  }, [actor, setDrugs])
+
+  const createRecall = useCallback(async (draft: RecallDraft) => {
+    if (!actor) throw new Error('You must be signed in to enter recalls')
+
+    const { recall, drugs: updated } = await quarantine.create(draft, drugs, actor)
+    updated.forEach(replaceDrug)
+    return { recall, quarantined: updated.length }
+  }, [actor, drugs, replaceDrug])
+
+  const recheckRecall = useCallback(async (id: string) => {
+    if (!actor) throw new Error('You must be signed in to quarantine stock')
+
+    const updated = await quarantine.requarantine(id, drugs, actor)
+    updated.forEach(replaceDrug)
+    return updated.length
+  }, [actor, drugs, replaceDrug])
+
+  const returnRecalledStock = useCallback(async (id: string, drugId: string, batchNumber: string, witness?: Witness) => {
+    if (!actor) throw new Error('You must be signed in to return recalled stock')
+
+    const drug = drugs.find(candidate => candidate.id === drugId)
+    if (!drug) throw new Error('Drug not found')
+
+    const { recall, drug: updated } = await quarantine.returnToSupplier(id, drug, batchNumber, witness, actor)
+    replaceDrug(updated)
+    return recall
+  }, [actor, drugs, replaceDrug])
+
+  const cancelRecall = useCallback(async (id: string) => {
+    if (!actor) throw new Error('You must be signed in to cancel recalls')
+
+    const { recall, drugs: updated } = await quarantine.cancel(id, drugs, actor)
+    updated.forEach(replaceDrug)
+    return recall
+  }, [actor, drugs, replaceDrug])
+
+  const getControlledRegister = useCallback(async (drugId: string) => {
+    if (!actor) return []
+    return register.list(drugId, actor)
+  }, [actor])
+
+  const getSubstitutionLog = useCallback(async () => {
+    if (!actor) return []
+    return dispensing.substitutionLog(actor)
+  }, [actor])
+
+  const getStockHistory = useCallback(async (drugId: string) => {
+    if (!actor) return []
+    return catalogue.history(drugId, actor)
+  }, [actor])
+
+  return {
+    drugs,
+    loading,
+    error,
+    addDrug,
+    updateDrug,
+    recordMovement,
+    dispense,
+    receiveDelivery,
+    postStockTake,
+    importDrugs,
+    createRecall,
+    recheckRecall,
+    returnRecalledStock,
+    cancelRecall,
+    getStockHistory,
+    getSubstitutionLog,
+    getControlledRegister
+  }
+}
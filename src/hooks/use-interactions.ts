@@ -0,0 +1,37 @@
+import { useCallback } from 'react'
+import { bundledInteractions } from '../data/interactionTable'
+import { Actor } from '../services/permissions'
+import { InteractionTable } from '../services/interactions'
+import { useAccountData } from './use-account-data'
+
+const interactionTable = new InteractionTable()
+const listTable = (actor: Actor) => interactionTable.list(actor)
+const bundledTable = { interactions: bundledInteractions, customCount: 0 }
+
+export function useInteractions(actor: Actor | null) {
+  const { data: table, setData: setTable, loading, error } = useAccountData(actor, listTable, 'the interaction table', bundledTable)
+
+  const loadTable = useCallback(async (text: string) => {
+    if (!actor) throw new Error('You must be signed in to load an interaction table')
+
+    const entries = await interactionTable.load(text, actor)
+    setTable(await interactionTable.list(actor))
+    return entries
+  }, [actor, setTable])
+
+  const clearTable = useCallback(async () => {
+    if (!actor) throw new Error('You must be signed in to manage the interaction table')
+
+    await interactionTable.clear(actor)
+    setTable(bundledTable)
+  }, [actor, setTable])
+
+  return {
+    interactions: table.interactions,
+    customCount: table.customCount,
+    loading,
+    error,
+    loadTable,
+    clearTable
+  }
+}
@@ -0,0 +1,38 @@
+import { useCallback } from 'react'
+import { PatientProfile } from '../types/pharmacy'
+import { Actor } from '../services/permissions'
+import { PatientDraft, PatientRegistry } from '../services/patients'
+import { useAccountData } from './use-account-data'
+
+const registry = new PatientRegistry()
+const loadPatients = (actor: Actor) => registry.list(actor)
+const noPatients: PatientProfile[] = []
+
+export function usePatients(actor: Actor | null) {
+  const { data: patients, setData: setPatients, loading, error } = useAccountData(actor, loadPatients, 'patient profiles', noPatients)
+
+  const addPatient = useCallback(async (draft: PatientDraft) => {
+    if (!actor) throw new Error('You must be signed in to manage patients')
+
+    const created = await registry.create(draft, actor)
+    setPatients(prev => [...prev, created].sort((a, b) => a.name.localeCompare(b.name)))
+    return created
+  }, [actor, setPatients])
+
+  const updatePatient = useCallback(async (id: string, draft: PatientDraft) => {
+    if (!actor) throw new Error('You must be signed in to manage patients')
+
+    const updated = await registry.update(id, draft, actor)
+    setPatients(prev => prev.map(patient => patient.id === id ? updated : patient))
+    return updated
+  }, [actor, setPatients])
+
+  const deletePatient = useCallback(async (id: string) => {
+    if (!actor) throw new Error('You must be signed in to manage patients')
+
+    await registry.delete(id, actor)
+    setPatients(prev => prev.filter(patient => patient.id !== id))
+  }, [actor, setPatients])
+
+  return { patients, loading, error, addPatient, updatePatient, deletePatient }
+}
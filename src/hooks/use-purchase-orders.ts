@@ -0,0 +1,62 @@
+import { useCallback } from 'react'
+import { Drug, PurchaseOrder } from '../types/pharmacy'
+import { Actor } from '../services/permissions'
+import { PurchaseOrderBook } from '../services/purchaseOrders'
+import { ReorderSuggestion } from '../services/reorder'
+import { useAccountData } from './use-account-data'
+
+const book = new PurchaseOrderBook()
+const loadOrders = (actor: Actor) => book.list(actor)
+const noOrders: PurchaseOrder[] = []
+
+export function usePurchaseOrders(actor: Actor | null) {
+  const { data: orders, setData: setOrders, loading, error } = useAccountData(actor, loadOrders, 'purchase orders', noOrders)
+
+  const replaceOrder = useCallback((updated: PurchaseOrder) => {
+    setOrders(prev => prev.map(order => order.id === updated.id ? updated : order))
+  }, [setOrders])
+
+  const getSuggestions = useCallback(async (drugs: Drug[]) => {
+    if (!actor) return []
+    return book.suggest(drugs, actor)
+  }, [actor])
+
+  const draftOrders = useCallback(async (suggestions: ReorderSuggestion[]) => {
+    if (!actor) throw new Error('You must be signed in to raise purchase orders')
+
+    const created = await book.draftFromSuggestions(suggestions, actor)
+    setOrders(prev => [...created, ...prev])
+    return created
+  }, [actor, setOrders])
+
+  const updateDraft = useCallback(async (id: string, changes: Pick<PurchaseOrder, 'lines' | 'notes'>) => {
+    if (!actor) throw new Error('You must be signed in to edit purchase orders')
+
+    const updated = await book.updateDraft(id, changes, actor)
+    replaceOrder(updated)
+    return updated
+  }, [actor, replaceOrder])
+
+  const approveOrder = useCallback(async (id: string) => {
+    if (!actor) throw new Error('You must be signed in to approve purchase orders')
+
+    const updated = await book.approve(id, actor)
+    replaceOrder(updated)
+    return updated
+  }, [actor, replaceOrder])
+
+  const cancelOrder = useCallback(async (id: string) => {
+    if (!actor) throw new Error('You must be signed in to cancel purchase orders')
+
+    const updated = await book.cancel(id, actor)
+    replaceOrder(updated)
+    return updated
+  }, [actor, replaceOrder])
+
+  /** Show an order updated elsewhere, e.g. after a delivery is received against it */
+  const orderChanged = useCallback((updated: PurchaseOrder) => {
+    replaceOrder(updated)
+  }, [replaceOrder])
+
+  return { orders, loading, error, getSuggestions, draftOrders, updateDraft, approveOrder, cancelOrder, orderChanged }
+}
@@ -0,0 +1,42 @@
+import { useCallback } from 'react'
+import { Drug, RecallNotice } from '../types/pharmacy'
+import { Actor } from '../services/permissions'
+import { RecallBook } from '../services/recalls'
+import { useAccountData } from './use-account-data'
+
+const book = new RecallBook()
+const loadRecalls = (actor: Actor) => book.list(actor)
+const noRecalls: RecallNotice[] = []
+
+export function useRecalls(actor: Actor | null) {
+  const { data: recalls, setData: setRecalls, loading, error } = useAccountData(actor, loadRecalls, 'recalls', noRecalls)
+
+  const replaceRecall = useCallback((updated: RecallNotice) => {
+    setRecalls(prev => prev.map(recall => recall.id === updated.id ? updated : recall))
+  }, [setRecalls])
+
+  const closeRecall = useCallback(async (id: string, drugs: Drug[]) => {
+    if (!actor) throw new Error('You must be signed in to close recalls')
+
+    const updated = await book.close(id, drugs, actor)
+    replaceRecall(updated)
+    return updated
+  }, [actor, replaceRecall])
+
+  const getRecallPatients = useCallback(async (id: string, drugs: Drug[]) => {
+    if (!actor) return []
+    return book.patients(id, drugs, actor)
+  }, [actor])
+
+  /** Show a recall entered elsewhere, e.g. when its stock was quarantined */
+  const recallAdded = useCallback((created: RecallNotice) => {
+    setRecalls(prev => [created, ...prev])
+  }, [setRecalls])
+
+  /** Show a recall updated elsewhere, e.g. after stock is returned under it */
+  const recallChanged = useCallback((updated: RecallNotice) => {
+    replaceRecall(updated)
+  }, [replaceRecall])
+
+  return { recalls, loading, error, closeRecall, getRecallPatients, recallAdded, recallChanged }
+}
@@ -0,0 +1,120 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import { PharmacyUser } from '../types/pharmacy'
+import { actorFromStaff } from '../services/permissions'
+import { signAsWitness } from '../services/controlledRegister'
+import { accountOwner, AccountHolder, NewStaffMember, StaffDirectory, switchError, verifyPin } from '../services/staffDirectory'
+
+const directory = new StaffDirectory()
+
+const activeStaffKey = (accountId: string) => `pharmacy.activeStaff.${accountId}`
+
+export function useStaff(account: AccountHolder | null) {
+  const [staff, setStaff] = useState<PharmacyUser[]>([])
+  const [activeStaffId, setActiveStaffId] = useState<string | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const accountId = account?.id
+  // The account object is recreated on every auth event; only a new id reloads staff
+  const accountRef = useRef(account)
+
+  useEffect(() => {
+    accountRef.current = account
+  }, [account])
+
+  useEffect(() => {
+    const current = accountRef.current
+    if (!current) {
+      setStaff([])
+      setActiveStaffId(null)
+      setLoading(false)
+      return
+    }
+
+    let cancelled = false
+    setLoading(true)
+
+    directory.load(current)
+      .then(members => {
+        if (cancelled) return
+        // Until the owner has a PIN, only the owner's profile can be open
+        const stored = localStorage.getItem(activeStaffKey(current.id))
+        const active = members.find(member => member.id === stored && !switchError(members, member))
+          ?? members.find(member => member.id === current.id && member.isActive)
+          ?? members.find(member => member.role === 'admin' && member.isActive)
+        setStaff(members)
+        setActiveStaffId(active?.id ?? null)
+        setError(null)
+      })
+      .catch(err => {
+        if (cancelled) return
+        setError(err instanceof Error ? err.message : 'Failed to load staff')
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [accountId])
+
+  const currentStaff = useMemo(
+    () => staff.find(member => member.id === activeStaffId) ?? null,
+    [staff, activeStaffId]
+  )
+
+  const actor = useMemo(() => currentStaff ? actorFromStaff(currentStaff) : null, [currentStaff])
+
+  const ownerNeedsPin = useMemo(() => {
+    const owner = accountOwner(staff)
+    return !!owner && !owner.pinHash
+  }, [staff])
+
+  /**
+   * Hand the session over to another staff member once they have entered their PIN
+   */
+  const switchStaff = useCallback(async (id: string, pin: string) => {
+    const member = staff.find(candidate => candidate.id === id)
+    if (!member || !accountId || switchError(staff, member)) return false
+    if (!(await verifyPin(member, pin))) return false
+
+    localStorage.setItem(activeStaffKey(accountId), member.id)
+    setActiveStaffId(member.id)
+    return true
+  }, [staff, accountId])
+
+  /**
+   * Countersign a controlled-drug entry: another staff member confirms with their PIN
+   */
+  const signWitness = useCallback(async (id: string, pin: string) => {
+    if (!actor) throw new Error('You must be signed in to record controlled drugs')
+    return signAsWitness(staff, id, pin, actor)
+  }, [staff, actor])
+
+  const replaceMember = (updated: PharmacyUser) => {
+    setStaff(prev => prev.map(member => member.id === updated.id ? updated : member))
+  }
+
+  const addStaff = useCallback(async (member: NewStaffMember) => {
+    if (!actor) throw new Error('You must be signed in to manage staff')
+    const created = await directory.add(member, actor)
+    setStaff(prev => [...prev, created])
+    return created
+  }, [actor])
+
+  const updateStaff = useCallback(async (id: string, changes: Parameters<StaffDirectory['update']>[1]) => {
+    if (!actor) throw new Error('You must be signed in to manage staff')
+    const updated = await directory.update(id, changes, actor)
+    replaceMember(updated)
+    return updated
+  }, [actor])
+
+  const setStaffPin = useCallback(async (id: string, pin: string) => {
+    if (!actor) throw new Error('You must be signed in to manage staff')
+    const updated = await directory.setPin(id, pin, actor)
+    replaceMember(updated)
+    return updated
+  }, [actor])
+
+  return { staff, currentStaff, actor, ownerNeedsPin, loading, error, switchStaff, signWitness, addStaff, updateStaff, setStaffPin }
+}
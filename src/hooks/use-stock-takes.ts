@@ -0,0 +1,56 @@
+import { useCallback } from 'react'
+import { Drug, StockTake, StockTakeLine, StockTakeScope } from '../types/pharmacy'
+import { Actor } from '../services/permissions'
+import { StockTakeBook } from '../services/stockTake'
+import { useAccountData } from './use-account-data'
+
+const book = new StockTakeBook()
+const loadStockTakes = (actor: Actor) => book.list(actor)
+const noStockTakes: StockTake[] = []
+
+export function useStockTakes(actor: Actor | null) {
+  const { data: stockTakes, setData: setStockTakes, loading, error } = useAccountData(actor, loadStockTakes, 'stock-takes', noStockTakes)
+
+  const replaceStockTake = useCallback((updated: StockTake) => {
+    setStockTakes(prev => prev.map(stockTake => stockTake.id === updated.id ? updated : stockTake))
+  }, [setStockTakes])
+
+  const startStockTake = useCallback(async (scope: StockTakeScope, drugs: Drug[]) => {
+    if (!actor) throw new Error('You must be signed in to start a stock-take')
+
+    const created = await book.start(scope, drugs, actor)
+    setStockTakes(prev => [created, ...prev])
+    return created
+  }, [actor, setStockTakes])
+
+  const saveCounts = useCallback(async (id: string, lines: StockTakeLine[], notes?: string) => {
+    if (!actor) throw new Error('You must be signed in to count stock')
+
+    const updated = await book.saveCounts(id, lines, notes, actor)
+    replaceStockTake(updated)
+    return updated
+  }, [actor, replaceStockTake])
+
+  const recountMoved = useCallback(async (id: string, drugs: Drug[]) => {
+    if (!actor) throw new Error('You must be signed in to count stock')
+
+    const updated = await book.recount(id, drugs, actor)
+    replaceStockTake(updated)
+    return updated
+  }, [actor, replaceStockTake])
+
+  const cancelStockTake = useCallback(async (id: string) => {
+    if (!actor) throw new Error('You must be signed in to cancel stock-takes')
+
+    const updated = await book.cancel(id, actor)
+    replaceStockTake(updated)
+    return updated
+  }, [actor, replaceStockTake])
+
+  /** Show a stock-take updated elsewhere, e.g. after its variances are posted */
+  const stockTakeChanged = useCallback((updated: StockTake) => {
+    replaceStockTake(updated)
+  }, [replaceStockTake])
+
+  return { stockTakes, loading, error, startStockTake, saveCounts, recountMoved, cancelStockTake, stockTakeChanged }
+}
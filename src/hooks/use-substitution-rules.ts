@@ -0,0 +1,38 @@
+import { useCallback } from 'react'
+import { SubstitutionRule } from '../types/pharmacy'
+import { Actor } from '../services/permissions'
+import { SubstitutionRuleBook, SubstitutionRuleDraft } from '../services/substitutionRules'
+import { useAccountData } from './use-account-data'
+
+const ruleBook = new SubstitutionRuleBook()
+const loadRules = (actor: Actor) => ruleBook.list(actor)
+const noRules: SubstitutionRule[] = []
+
+export function useSubstitutionRules(actor: Actor | null) {
+  const { data: rules, setData: setRules, loading, error } = useAccountData(actor, loadRules, 'substitution rules', noRules)
+
+  const addRule = useCallback(async (draft: SubstitutionRuleDraft) => {
+    if (!actor) throw new Error('You must be signed in to manage rules')
+
+    const created = await ruleBook.create(draft, actor)
+    setRules(prev => [...prev, created])
+    return created
+  }, [actor, setRules])
+
+  const updateRule = useCallback(async (id: string, changes: Parameters<SubstitutionRuleBook['update']>[1]) => {
+    if (!actor) throw new Error('You must be signed in to manage rules')
+
+    const updated = await ruleBook.update(id, changes, actor)
+    setRules(prev => prev.map(rule => rule.id === id ? updated : rule))
+    return updated
+  }, [actor, setRules])
+
+  const deleteRule = useCallback(async (id: string) => {
+    if (!actor) throw new Error('You must be signed in to manage rules')
+
+    await ruleBook.delete(id, actor)
+    setRules(prev => prev.filter(rule => rule.id !== id))
+  }, [actor, setRules])
+
+  return { rules, loading, error, addRule, updateRule, deleteRule }
+}
@@ -0,0 +1,38 @@
+import { useCallback } from 'react'
+import { Supplier } from '../types/pharmacy'
+import { Actor } from '../services/permissions'
+import { SupplierDirectory, SupplierDraft } from '../services/suppliers'
+import { useAccountData } from './use-account-data'
+
+const directory = new SupplierDirectory()
+const loadSuppliers = (actor: Actor) => directory.list(actor)
+const noSuppliers: Supplier[] = []
+
+export function useSuppliers(actor: Actor | null) {
+  const { data: suppliers, setData: setSuppliers, loading, error } = useAccountData(actor, loadSuppliers, 'suppliers', noSuppliers)
+
+  const addSupplier = useCallback(async (draft: SupplierDraft) => {
+    if (!actor) throw new Error('You must be signed in to manage suppliers')
+
+    const created = await directory.create(draft, actor)
+    setSuppliers(prev => [...prev, created].sort((a, b) => a.name.localeCompare(b.name)))
+    return created
+  }, [actor, setSuppliers])
+
+  const updateSupplier = useCallback(async (id: string, draft: SupplierDraft) => {
+    if (!actor) throw new Error('You must be signed in to manage suppliers')
+
+    const updated = await directory.update(id, draft, actor)
+    setSuppliers(prev => prev.map(supplier => supplier.id === id ? updated : supplier))
+    return updated
+  }, [actor, setSuppliers])
+
+  const deleteSupplier = useCallback(async (id: string) => {
+    if (!actor) throw new Error('You must be signed in to manage suppliers')
+
+    await directory.delete(id, actor)
+    setSuppliers(prev => prev.filter(supplier => supplier.id !== id))
+  }, [actor, setSuppliers])
+
+  return { suppliers, loading, error, addSupplier, updateSupplier, deleteSupplier }
+}
@@ -0,0 +1,86 @@
+import { Drug, PatientProfile } from '../types/pharmacy'
+import { drugIngredients } from './ingredients'
+import { atcPath } from './atc'
+
+/**
+ * One reason a drug may be unsafe for a patient. Allergies block supply;
+ * contraindicated conditions warn and must be confirmed by the pharmacist.
+ */
+export interface ScreeningFinding {
+  kind: 'allergy' | 'contraindication'
+  severity: 'block' | 'warn'
+  /** The patient's allergy or condition */
+  term: string
+  /** What in the drug matched: an ingredient, allergen tag, ATC group or contraindication */
+  matched: string
+  message: string
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+
+const normaliseTerm = (term: string) => term.trim().toLowerCase().replace(/\s+/g, ' ')
+
+/**
+ * Whether two tags name the same thing, allowing plurals and a more specific
+ * phrase: "penicillin" matches "Penicillins" and "asthma" matches "severe asthma"
+ */
+export function termsMatch(a: string, b: string): boolean {
+  const first = normaliseTerm(a)
+  const second = normaliseTerm(b)
+  if (!first || !second) return false
+
+  const [shorter, longer] = first.length <= second.length ? [first, second] : [second, first]
+  const stem = shorter.endsWith('s') && shorter.length > 3 ? shorter.slice(0, -1) : shorter
+  return new RegExp(`\\b${escapeRegExp(stem)}s?\\b`).test(longer)
+}
+
+/**
+ * Screen a drug against a patient's allergies and conditions
+ */
+export function screenDrug(drug: Drug, patient: PatientProfile): ScreeningFinding[] {
+  const findings: ScreeningFinding[] = []
+  const ingredients = drugIngredients(drug).map(ingredient => ingredient.name)
+  const atcGroups = drug.atcCode ? atcPath(drug.atcCode).map(entry => entry.name) : []
+
+  patient.allergies.forEach(allergy => {
+    const matched =
+      ingredients.find(name => termsMatch(allergy, name)) ??
+      drug.allergens?.find(tag => termsMatch(allergy, tag)) ??
+      atcGroups.find(group => termsMatch(allergy, group))
+    if (matched) {
+      findings.push({
+        kind: 'allergy',
+        severity: 'block',
+        term: allergy,
+        matched,
+        message: `${patient.name} is allergic to ${allergy}: ${drug.name} contains ${matched}`
+      })
+    }
+  })
+
+  patient.conditions.forEach(condition => {
+    const matched = drug.contraindications?.find(tag => termsMatch(condition, tag))
+    if (matched) {
+      findings.push({
+        kind: 'contraindication',
+        severity: 'warn',
+        term: condition,
+        matched,
+        message: `${drug.name} is contraindicated in ${matched} (${patient.name}: ${condition})`
+      })
+    }
+  })
+
+  return findings
+}
+
+export function isBlocked(findings: ScreeningFinding[]): boolean {
+  return findings.some(finding => finding.severity === 'block')
+}
+
+/**
+ * The screening warnings the pharmacist must confirm before supplying
+ */
+export function screeningAcknowledgements(findings: ScreeningFinding[]): string[] {
+  return findings.filter(finding => finding.severity === 'warn').map(finding => finding.message)
+}
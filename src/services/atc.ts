@@ -0,0 +1,89 @@
+import { AtcEntry } from '../types/pharmacy'
+import { atcTree } from '../data/atcTree'
+
+/** Code length at each ATC level, from anatomical main group (1) to chemical substance (5) */
+const LEVEL_LENGTHS = [1, 3, 4, 5, 7]
+
+const ATC_PATTERN = /^[A-Z](\d{2}([A-Z]([A-Z](\d{2})?)?)?)?$/
+
+export const ATC_LEVEL_NAMES: Record<number, string> = {
+  1: 'anatomical main group',
+  2: 'therapeutic subgroup',
+  3: 'pharmacological subgroup',
+  4: 'chemical subgroup',
+  5: 'chemical substance'
+}
+
+const entriesByCode = new Map(atcTree.map(entry => [entry.code, entry]))
+
+export function normaliseAtcCode(code: string): string {
+  return code.replace(/\s+/g, '').toUpperCase()
+}
+
+/**
+ * The level of an ATC code (1-5), or 0 when it is not a well-formed code
+ */
+export function atcLevel(code: string): number {
+  const normalised = normaliseAtcCode(code)
+  if (!ATC_PATTERN.test(normalised)) return 0
+  return LEVEL_LENGTHS.indexOf(normalised.length) + 1
+}
+
+/** A complete, substance-level code such as "N02BE01" */
+export function isValidAtcCode(code: string): boolean {
+  return atcLevel(code) === 5
+}
+
+export function findAtcEntry(code: string): AtcEntry | undefined {
+  return entriesByCode.get(normaliseAtcCode(code))
+}
+
+/**
+ * The code and each of its ancestors that appear in the bundled tree,
+ * from the anatomical main group down
+ */
+export function atcPath(code: string): AtcEntry[] {
+  const normalised = normaliseAtcCode(code)
+  const level = atcLevel(normalised)
+  return LEVEL_LENGTHS.slice(0, level)
+    .map(length => entriesByCode.get(normalised.slice(0, length)))
+    .filter((entry): entry is AtcEntry => !!entry)
+}
+
+/**
+ * The deepest level two codes have in common, e.g. 4 for ibuprofen (M01AE01)
+ * and naproxen (M01AE02). 0 when either code is malformed or they share nothing.
+ */
+export function sharedAtcLevel(a: string, b: string): number {
+  const first = normaliseAtcCode(a)
+  const second = normaliseAtcCode(b)
+  const depth = Math.min(atcLevel(first), atcLevel(second))
+
+  let shared = 0
+  for (let level = 1; level <= depth; level++) {
+    const length = LEVEL_LENGTHS[level - 1]
+    if (first.slice(0, length) !== second.slice(0, length)) break
+    shared = level
+  }
+  return shared
+}
+
+/**
+ * The group two codes share at a level, e.g. "M01AE Propionic acid derivatives"
+ */
+export function describeAtcGroup(code: string, level: number): string {
+  const groupCode = normaliseAtcCode(code).slice(0, LEVEL_LENGTHS[level - 1])
+  const entry = entriesByCode.get(groupCode)
+  return entry ? `${entry.code} ${entry.name}` : groupCode
+}
+
+/**
+ * Substances in the bundled tree whose code or name matches the query
+ */
+export function searchAtcSubstances(query: string, limit = 20): AtcEntry[] {
+  const text = query.trim().toLowerCase()
+  return atcTree
+    .filter(entry => entry.code.length === 7)
+    .filter(entry => !text || entry.code.toLowerCase().startsWith(text) || entry.name.toLowerCase().includes(text))
+    .slice(0, limit)
+}
@@ -0,0 +1,112 @@
+import { Drug, StockBatch } from '../types/pharmacy'
+import { Gs1Data, Gs1ParseError, gs1CheckDigit, isGs1ElementString, parseGs1, validateGtin } from './gs1'
+import { createEmptyBatch } from './stockBatches'
+
+/** Symbologies the camera scanner looks for: retail packs and GS1 DataMatrix */
+export const CAMERA_BARCODE_FORMATS = ['ean_13', 'upc_a', 'data_matrix']
+
+const GROUP_SEPARATOR = '\u001d'
+
+export function isCameraScanningSupported(): boolean {
+  return typeof window !== 'undefined' &&
+    'BarcodeDetector' in window &&
+    !!navigator.mediaDevices?.getUserMedia
+}
+
+/**
+ * Strip scanner noise from a raw read: whitespace, an AIM symbology prefix
+ * (e.g. "]C1", "]d2", "]E0") and a leading FNC1 group separator
+ */
+export function normalizeBarcode(raw: string): string {
+  return raw
+    .trim()
+    .replace(/^\][A-Za-z]\d/, '')
+    .replace(new RegExp(`^${GROUP_SEPARATOR}`), '')
+    .trim()
+}
+
+/**
+ * Product identifier carried by a plain barcode as a 14-digit GTIN, so EAN-13,
+ * UPC-A and GTIN-14 reads of the same product compare equal
+ */
+export function toGtin14(code: string): string | null {
+  const normalized = normalizeBarcode(code)
+  if (/^\d{8}$|^\d{12,14}$/.test(normalized)) return normalized.padStart(14, '0')
+  return null
+}
+
+export interface ScannedCode {
+  /** The product code to look up: the GTIN for GS1 element strings */
+  code: string
+  /** Present when the scan was a GS1 element string (e.g. a DataMatrix on a medicine pack) */
+  gs1?: Gs1Data
+}
+
+/**
+ * Interpret a raw scan. GS1 element strings are parsed for GTIN, lot, expiry
+ * and serial; malformed ones throw Gs1ParseError.
+ */
+export function readScannedCode(raw: string): ScannedCode {
+  const trimmed = raw.trim()
+  if (isGs1ElementString(trimmed)) {
+    const gs1 = parseGs1(trimmed)
+    if (gs1.gtin) return { code: gs1.gtin, gs1 }
+  }
+  return { code: normalizeBarcode(trimmed) }
+}
+
+/**
+ * Find the drug whose barcode is exactly the scanned product code. Numeric
+ * codes are compared as GTINs so a UPC-A read matches a stored EAN-13.
+ */
+export function findDrugByBarcode(drugs: Drug[], scanned: string): Drug | undefined {
+  const code = normalizeBarcode(scanned)
+  const gtin = toGtin14(code)
+
+  return drugs.find(drug => {
+    if (!drug.barcode) return false
+    if (drug.barcode.trim() === code) return true
+    return gtin !== null && toGtin14(drug.barcode) === gtin
+  })
+}
+
+/**
+ * Another drug in the catalogue already using this barcode, ignoring the drug being edited
+ */
+export function findDuplicateBarcode(drugs: Drug[], barcode: string, drugId?: string): Drug | undefined {
+  return findDrugByBarcode(drugs.filter(drug => drug.id !== drugId), barcode)
+}
+
+/**
+ * Check a barcode entered for a product. Returns a message describing the problem,
+ * or null when it is a GTIN with a correct check digit.
+ */
+export function barcodeError(barcode: string): string | null {
+  try {
+    validateGtin(normalizeBarcode(barcode))
+    return null
+  } catch (error) {
+    if (error instanceof Gs1ParseError) return error.message
+    throw error
+  }
+}
+
+/**
+ * A random EAN-13 in the GS1 restricted-circulation range (prefix 20), for
+ * products the pharmacy packs itself or that arrive without a barcode
+ */
+export function generateInternalBarcode(): string {
+  const digits = '20' + Array.from({ length: 10 }, () => Math.floor(Math.random() * 10)).join('')
+  return digits + gs1CheckDigit(digits)
+}
+
+/**
+ * A new, empty-quantity batch row carrying the lot and expiry read from a pack
+ */
+export function batchFromScan(gs1: Gs1Data, supplier?: string): StockBatch {
+  return {
+    ...createEmptyBatch(supplier),
+    batchNumber: gs1.lot ?? '',
+    expiryDate: gs1.expiryDate ?? ''
+  }
+}
@@ -0,0 +1,252 @@
+import { ControlledEntryType, ControlledRegisterEntry, Drug, InventoryTransaction, PharmacyUser, TransactionType, Witness } from '../types/pharmacy'
+import { createId } from '../lib/utils'
+import { createRepository, Repository } from './repository'
+import { Actor, staffPermissions } from './permissions'
+import { verifyPin } from './staffDirectory'
+
+export const CONTROLLED_ENTRY_LABELS: Record<ControlledEntryType, string> = {
+  receipt: 'Received',
+  dispense: 'Supplied',
+  return: 'Returned to supplier',
+  destruction: 'Destroyed',
+  adjustment: 'Adjustment'
+}
+
+const ENTRY_TYPES: Record<TransactionType, ControlledEntryType> = {
+  add: 'receipt',
+  dispense: 'dispense',
+  remove: 'return',
+  recall: 'return',
+  expire: 'destruction',
+  destroy: 'destruction',
+  adjust: 'adjustment'
+}
+
+export class ControlledRegisterError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ControlledRegisterError'
+  }
+}
+
+/** Details written to the register alongside a controlled-drug stock movement */
+export interface ControlledEntryDetails {
+  reason: string
+  witness?: Witness
+  supplier?: string
+  prescriber?: string
+  prescriptionRef?: string
+  patientRef?: string
+}
+
+/** How long a witness's PIN confirmation can be used to post entries */
+const SIGNATURE_LIFETIME_MS = 5 * 60 * 1000
+
+/** Signatures given by signAsWitness in this session, by token */
+const signatures = new Map<string, { staffId: string, userId: string, expiresAt: number }>()
+
+/** Appends still being written, by account and drug */
+const pendingAppends = new Map<string, Promise<void>>()
+
+/**
+ * Run a register write after every earlier write for the same drug has
+ * settled, so each entry reads the sequence and hash of the one before it.
+ */
+function serialised<R>(key: string, write: () => Promise<R>): Promise<R> {
+  const result = (pendingAppends.get(key) ?? Promise.resolve()).then(write)
+  const settled = result.then(() => undefined, () => undefined)
+  pendingAppends.set(key, settled)
+  settled.then(() => {
+    if (pendingAppends.get(key) === settled) pendingAppends.delete(key)
+  })
+  return result
+}
+
+/** Staff who may witness controlled-drug entries */
+export function canWitness(member: PharmacyUser): boolean {
+  const permissions = staffPermissions(member)
+  return member.isActive && (permissions.includes('controlled.dispense') || permissions.includes('controlled.manage'))
+}
+
+/**
+ * Check the second signature on a controlled-drug entry. Returns a message
+ * describing the problem, or null when a different person has witnessed it
+ * and confirmed with their PIN in the last few minutes.
+ */
+export function witnessError(witness: Witness | undefined, actor: Actor): string | null {
+  if (!witness) return 'Controlled drug entries must be witnessed by a second member of staff'
+  if (witness.staffId === actor.staffId) return 'The witness must be someone other than the person making the entry'
+  const signed = signatures.get(witness.signature)
+  if (!signed || signed.staffId !== witness.staffId || signed.userId !== actor.userId || signed.expiresAt < Date.now()) {
+    return `${witness.name} must confirm the entry with their PIN`
+  }
+  return null
+}
+
+/**
+ * Confirm the witness with their PIN. Witnesses must have a PIN so the second
+ * signature cannot be given on their behalf.
+ */
+export async function signAsWitness(staff: PharmacyUser[], staffId: string, pin: string, actor: Actor): Promise<Witness> {
+  const member = staff.find(candidate => candidate.id === staffId)
+  if (!member || !canWitness(member)) throw new ControlledRegisterError('Choose a witness who handles controlled drugs')
+  if (member.id === actor.staffId) throw new ControlledRegisterError('The witness must be someone other than the person making the entry')
+  if (!member.pinHash) throw new ControlledRegisterError(`${member.name} must set a PIN before witnessing controlled drug entries`)
+  if (!(await verifyPin(member, pin))) throw new ControlledRegisterError(`Incorrect PIN for ${member.name}`)
+
+  const signature = crypto.randomUUID()
+  signatures.set(signature, { staffId: member.id, userId: actor.userId, expiresAt: Date.now() + SIGNATURE_LIFETIME_MS })
+  return { staffId: member.id, name: member.name, signature }
+}
+
+/**
+ * SHA-256 over every field of the entry except its own hash, in a fixed order
+ */
+export async function hashEntry(entry: Omit<ControlledRegisterEntry, 'hash'>): Promise<string> {
+  const content = JSON.stringify([
+    entry.id, entry.drugId, entry.drugName, entry.strength, entry.sequence, entry.type,
+    entry.quantity, entry.balance, entry.batchNumbers, entry.supplier ?? null, entry.prescriber ?? null,
+    entry.prescriptionRef ?? null, entry.patientRef ?? null, entry.reason, entry.enteredBy,
+    entry.enteredByStaffId, entry.witnessedBy, entry.witnessStaffId, entry.transactionIds,
+    entry.recordedAt, entry.previousHash, entry.userId
+  ])
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(content))
+  return Array.from(new Uint8Array(digest)).map(byte => byte.toString(16).padStart(2, '0')).join('')
+}
+
+/**
+ * Walk a drug's register in order and report the first entry that was changed,
+ * removed or reordered after posting. Returns null when the chain is intact.
+ */
+export async function verifyRegister(entries: ControlledRegisterEntry[]): Promise<string | null> {
+  let previousHash = ''
+  for (const [index, entry] of entries.entries()) {
+    if (entry.sequence !== index + 1) return `Entry ${index + 1} is missing from the register`
+    if (entry.previousHash !== previousHash) return `Entry ${entry.sequence} does not follow entry ${index}`
+    const { hash, ...content } = entry
+    if ((await hashEntry(content)) !== hash) return `Entry ${entry.sequence} was altered after it was posted`
+    previousHash = hash
+  }
+  return null
+}
+
+/**
+ * Balance before the first entry, for stock already on hand when the register was started
+ */
+export function broughtForward(entries: ControlledRegisterEntry[]): number {
+  const first = entries[0]
+  return first ? first.balance - first.quantity : 0
+}
+
+/**
+ * The controlled-drugs register: one running record per drug of every receipt,
+ * supply, return and destruction. Entries are only ever appended, by the
+ * inventory ledger as it posts controlled-drug movements.
+ */
+export class ControlledDrugRegister {
+  private entries: Repository<ControlledRegisterEntry>
+  private staff: Repository<PharmacyUser>
+
+  constructor(
+    entries: Repository<ControlledRegisterEntry> = createRepository('controlledRegister'),
+    staff: Repository<PharmacyUser> = createRepository('staff')
+  ) {
+    this.entries = entries
+    this.staff = staff
+  }
+
+  /**
+   * Entries for one drug, oldest first
+   */
+  async list(drugId: string, actor: Actor): Promise<ControlledRegisterEntry[]> {
+    const all = await this.entries.list(actor.userId)
+    return all
+      .filter(entry => entry.drugId === drugId)
+      .sort((a, b) => a.sequence - b.sequence)
+  }
+
+  async append(
+    drug: Drug,
+    type: TransactionType,
+    transactions: InventoryTransaction[],
+    details: ControlledEntryDetails,
+    actor: Actor
+  ): Promise<ControlledRegisterEntry> {
+    const witness = details.witness
+    const problem = witnessError(witness, actor)
+    if (problem || !witness) throw new ControlledRegisterError(problem ?? 'A witness is required')
+
+    // The signature only proves who signed; they must still be on staff and allowed to witness
+    const member = (await this.staff.list(actor.userId)).find(candidate => candidate.id === witness.staffId)
+    if (!member || !canWitness(member)) {
+      throw new ControlledRegisterError(`${witness.name} can no longer witness controlled drug entries`)
+    }
+
+    return this.post(drug.id, actor, {
+      drugName: drug.name,
+      strength: `${drug.dosage} ${drug.dosageForm}`,
+      type: ENTRY_TYPES[type],
+      quantity: transactions.reduce((sum, transaction) => sum + transaction.quantity, 0),
+      balance: transactions[transactions.length - 1]?.newStock ?? drug.stockLevel,
+      batchNumbers: [...new Set(transactions.map(transaction => transaction.batchNumber).filter((batch): batch is string => !!batch))],
+      supplier: details.supplier,
+      prescriber: details.prescriber,
+      prescriptionRef: details.prescriptionRef,
+      patientRef: details.patientRef,
+      reason: details.reason,
+      enteredBy: actor.name,
+      enteredByStaffId: actor.staffId,
+      witnessedBy: member.name,
+      witnessStaffId: member.id,
+      transactionIds: transactions.map(transaction => transaction.id),
+      recordedAt: transactions[0]?.timestamp ?? new Date().toISOString()
+    })
+  }
+
+  /**
+   * Cancel an entry whose stock movement failed to post. The register is never
+   * edited, so a balancing adjustment is appended that restores the balance.
+   */
+  async reverse(entry: ControlledRegisterEntry, actor: Actor): Promise<ControlledRegisterEntry> {
+    return this.post(entry.drugId, actor, {
+      drugName: entry.drugName,
+      strength: entry.strength,
+      type: 'adjustment',
+      quantity: -entry.quantity,
+      batchNumbers: entry.batchNumbers,
+      reason: `Reverses entry ${entry.sequence}: the stock movement was not saved`,
+      enteredBy: actor.name,
+      enteredByStaffId: actor.staffId,
+      witnessedBy: entry.witnessedBy,
+      witnessStaffId: entry.witnessStaffId,
+      transactionIds: [],
+      recordedAt: new Date().toISOString()
+    })
+  }
+
+  /**
+   * Append the next entry to a drug's register, chained to the one before it.
+   * Without a balance, the entry carries on from the previous entry's balance.
+   */
+  private post(
+    drugId: string,
+    actor: Actor,
+    details: Omit<ControlledRegisterEntry, 'id' | 'drugId' | 'sequence' | 'balance' | 'previousHash' | 'hash' | 'userId'> & { balance?: number }
+  ): Promise<ControlledRegisterEntry> {
+    return serialised(`${actor.userId}:${drugId}`, async () => {
+      const existing = await this.list(drugId, actor)
+      const previous = existing[existing.length - 1]
+      const content: Omit<ControlledRegisterEntry, 'hash'> = {
+        id: createId('cd'),
+        drugId,
+        sequence: existing.length + 1,
+        ...details,
+        balance: details.balance ?? (previous?.balance ?? 0) + details.quantity,
+        previousHash: previous?.hash ?? '',
+        userId: actor.userId
+      }
+
+      return this.entries.create({ ...content, hash: await hashEntry(content) })
+    })
+  }
+}
@@ -0,0 +1,59 @@
+import { format } from 'date-fns'
+import { DispenseRecord } from '../types/pharmacy'
+
+const escapeHtml = (value: string) => value
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+
+/**
+ * Dispensing label as a standalone HTML document sized for a 70 x 35 mm label printer
+ */
+export function renderDispenseLabel(record: DispenseRecord): string {
+  const batchText = record.batches
+    .map(batch => `${batch.batchNumber}${batch.expiryDate ? ` exp ${batch.expiryDate}` : ''}`)
+    .join(', ')
+
+  const lines = [
+    `<div class="drug">${escapeHtml(record.quantity.toString())} x ${escapeHtml(record.drugName)} ${escapeHtml(record.dosage)} ${escapeHtml(record.dosageForm)}</div>`,
+    record.directions ? `<div class="directions">${escapeHtml(record.directions)}</div>` : '',
+    record.patientRef ? `<div>Patient: ${escapeHtml(record.patientRef)}</div>` : '',
+    record.prescriptionRef ? `<div>Rx: ${escapeHtml(record.prescriptionRef)}</div>` : '',
+    batchText ? `<div class="small">Batch: ${escapeHtml(batchText)}</div>` : '',
+    `<div class="small">${format(new Date(record.dispensedAt), 'dd MMM yyyy')} · Pharmacist: ${escapeHtml(record.pharmacist)}</div>`,
+    '<div class="warning">Keep out of the sight and reach of children</div>'
+  ]
+
+  return `<!doctype html>
+<html>
+<head>
+<title>Label - ${escapeHtml(record.drugName)}</title>
+<style>
+  @page { size: 70mm 35mm; margin: 2mm; }
+  body { font-family: Arial, sans-serif; font-size: 9pt; margin: 0; }
+  .drug { font-weight: bold; font-size: 10pt; }
+  .directions { margin: 1mm 0; font-size: 10pt; }
+  .small { font-size: 7pt; }
+  .warning { font-size: 7pt; font-weight: bold; margin-top: 1mm; }
+</style>
+</head>
+<body>
+${lines.filter(Boolean).join('\n')}
+</body>
+</html>`
+}
+
+/**
+ * Open the label in a new window and hand it to the browser's print dialog
+ */
+export function printDispenseLabel(record: DispenseRecord): boolean {
+  const labelWindow = window.open('', '_blank', 'width=400,height=300')
+  if (!labelWindow) return false
+
+  labelWindow.document.write(renderDispenseLabel(record))
+  labelWindow.document.close()
+  labelWindow.focus()
+  labelWindow.print()
+  return true
+}
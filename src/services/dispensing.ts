@@ -0,0 +1,272 @@
+import { DispenseRecord, Drug, DrugInteraction, PatientProfile, SubstitutionRecord, SubstitutionSuggestion, Witness } from '../types/pharmacy'
+import { createId } from '../lib/utils'
+import { createRepository, Repository } from './repository'
+import { DrugCatalogue } from './drugCatalogue'
+import { Actor } from './permissions'
+import { sellableQuantity } from './stockBatches'
+import { requiredAcknowledgements, SubstitutionLog } from './substitutionLog'
+import { screenDrug, screeningAcknowledgements } from './allergyScreening'
+import { findInteractionsWith, interactionAcknowledgements, InteractionTable } from './interactions'
+import { PatientRegistry } from './patients'
+
+/**
+ * A substitute chosen in place of the requested drug, with the warnings the
+ * pharmacist confirmed
+ */
+export interface SubstitutionChoice {
+  original: Drug
+  suggestion: SubstitutionSuggestion
+  acknowledgedWarnings: string[]
+}
+
+export interface DispenseRequest {
+  quantity: number
+  prescriptionRef?: string
+  patientRef?: string
+  pharmacist: string
+  directions?: string
+  /** Required for controlled substances */
+  prescriber?: string
+  /** Second signature for controlled substances */
+  witness?: Witness
+  substitution?: SubstitutionChoice
+  /** Other items on the same prescription, screened for interactions with this one */
+  otherItems?: Drug[]
+  /** Interactions with other items on the prescription that the pharmacist confirmed */
+  acknowledgedInteractions?: string[]
+  /** Profile screened for allergies and contraindications */
+  patient?: PatientProfile
+  acknowledgedContraindications?: string[]
+}
+
+export class DispenseError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'DispenseError'
+  }
+}
+
+/**
+ * Thrown when the stock has been dispensed but its records could not all be
+ * saved. The drug as it now stands is attached, and the dispense record when
+ * only the substitution log failed.
+ */
+export class PartialDispenseError extends DispenseError {
+  drug: Drug
+  record?: DispenseRecord
+
+  constructor(message: string, drug: Drug, record?: DispenseRecord) {
+    super(message)
+    this.name = 'PartialDispenseError'
+    this.drug = drug
+    this.record = record
+  }
+}
+
+const failureDetail = (error: unknown) => error instanceof Error ? error.message : String(error)
+
+/**
+ * Stock that can be handed out today: only sellable batches are dispensed
+ */
+export function dispensableQuantity(drug: Drug, asOf: Date = new Date()): number {
+  return sellableQuantity(drug.batches, asOf)
+}
+
+/**
+ * Check a dispense against the drug's legal category, the stock on the shelf and
+ * its interactions with the rest of the prescription in the given table.
+ * Returns a message describing the first problem found.
+ */
+export function validateDispense(drug: Drug, request: DispenseRequest, interactions: DrugInteraction[] = []): string | null {
+  if (!Number.isInteger(request.quantity) || request.quantity <= 0) {
+    return 'Quantity must be a whole number greater than zero'
+  }
+
+  const available = dispensableQuantity(drug)
+  if (request.quantity > available) {
+    return `Only ${available} unexpired units of ${drug.name} are in stock`
+  }
+
+  if (!request.pharmacist.trim()) {
+    return 'Record the pharmacist responsible for this supply'
+  }
+
+  if ((drug.requiresPrescription || drug.isControlled) && !request.prescriptionRef?.trim()) {
+    return `${drug.name} is prescription-only: enter the prescription reference`
+  }
+
+  if (drug.isControlled && !request.patientRef?.trim()) {
+    return `${drug.name} is a controlled substance: enter the patient reference`
+  }
+
+  if (drug.isControlled && !request.prescriber?.trim()) {
+    return `${drug.name} is a controlled substance: enter the prescriber`
+  }
+
+  if (drug.isControlled && !request.witness) {
+    return `${drug.name} is a controlled substance: a second member of staff must witness the supply`
+  }
+
+  // A substitute's interactions are confirmed along with its other warnings
+  const others = (request.otherItems ?? []).filter(item => item.id !== request.substitution?.original.id)
+  const confirmed = [...(request.acknowledgedInteractions ?? []), ...(request.substitution?.acknowledgedWarnings ?? [])]
+  const interactionWarnings = interactionAcknowledgements(findInteractionsWith(drug, others, interactions))
+  if (interactionWarnings.some(warning => !confirmed.includes(warning))) {
+    return 'Acknowledge every interaction before dispensing'
+  }
+
+  if (request.patient) {
+    const findings = screenDrug(drug, request.patient)
+    const allergy = findings.find(finding => finding.severity === 'block')
+    if (allergy) return `${allergy.message}. Choose another product.`
+
+    const acknowledged = request.acknowledgedContraindications ?? []
+    if (screeningAcknowledgements(findings).some(warning => !acknowledged.includes(warning))) {
+      return 'Acknowledge every contraindication before dispensing'
+    }
+  }
+
+  if (request.substitution) {
+    const acknowledged = request.substitution.acknowledgedWarnings
+    if (requiredAcknowledgements(request.substitution.suggestion).some(warning => !acknowledged.includes(warning))) {
+      return 'Acknowledge every substitution warning before dispensing'
+    }
+  }
+
+  return null
+}
+
+/**
+ * Hands medicine out: posts a dispense to the inventory ledger and keeps a
+ * record of who supplied what, to whom and against which prescription.
+ * Substitutes are also written to the substitution log.
+ */
+export class DispensingService {
+  private catalogue: DrugCatalogue
+  private substitutions: SubstitutionLog
+  private records: Repository<DispenseRecord>
+  private interactions: InteractionTable
+  private patients: PatientRegistry
+
+  constructor(
+    catalogue: DrugCatalogue,
+    substitutions: SubstitutionLog = new SubstitutionLog(),
+    records: Repository<DispenseRecord> = createRepository('dispenses'),
+    interactions: InteractionTable = new InteractionTable(),
+    patients: PatientRegistry = new PatientRegistry()
+  ) {
+    this.catalogue = catalogue
+    this.substitutions = substitutions
+    this.records = records
+    this.interactions = interactions
+    this.patients = patients
+  }
+
+  async dispense(drug: Drug, request: DispenseRequest, actor: Actor): Promise<{ drug: Drug, record: DispenseRecord }> {
+    // Screen against the stored interaction table and patient profile rather than what the form was shown
+    const [table, patients] = await Promise.all([this.interactions.list(actor), this.patients.list(actor)])
+    const patient = request.patient && patients.find(candidate => candidate.id === request.patient?.id)
+    if (request.patient && !patient) throw new DispenseError(`The profile for ${request.patient.name} no longer exists`)
+
+    const problem = validateDispense(drug, { ...request, patient }, table.interactions)
+    if (problem) throw new DispenseError(problem)
+
+    const prescriptionRef = request.prescriptionRef?.trim() || undefined
+    const patientRef = request.patientRef?.trim() || undefined
+    const prescriber = request.prescriber?.trim() || undefined
+    const { substitution } = request
+    const { drug: updated, transactions } = await this.catalogue.recordMovement(drug, {
+      type: 'dispense',
+      quantity: request.quantity,
+      reason: [
+        prescriptionRef ? `Dispensed against prescription ${prescriptionRef}` : 'Dispensed over the counter',
+        substitution ? `substituted for ${substitution.original.name}` : ''
+      ].filter(Boolean).join(', '),
+      witness: request.witness,
+      prescriber,
+      prescriptionRef,
+      patientRef
+    }, actor)
+
+    const contraindications = patient ? screeningAcknowledgements(screenDrug(drug, patient)) : []
+    let record: DispenseRecord
+    try {
+      record = await this.records.create({
+        id: createId('dispense'),
+        drugId: drug.id,
+        drugName: drug.name,
+        dosage: drug.dosage,
+        dosageForm: drug.dosageForm,
+        quantity: request.quantity,
+        prescriptionRef,
+        patientRef,
+        prescriber,
+        pharmacist: request.pharmacist.trim(),
+        directions: request.directions?.trim() || undefined,
+        substitutedForDrugId: substitution?.original.id,
+        acknowledgedInteractions: request.acknowledgedInteractions?.length ? request.acknowledgedInteractions : undefined,
+        patientId: patient?.id,
+        acknowledgedContraindications: contraindications.length ? contraindications : undefined,
+        batches: transactions.map(transaction => ({
+          batchNumber: transaction.batchNumber ?? '',
+          expiryDate: transaction.expiryDate ?? '',
+          quantity: Math.abs(transaction.quantity)
+        })),
+        transactionIds: transactions.map(transaction => transaction.id),
+        dispensedBy: actor.name,
+        dispensedAt: new Date().toISOString(),
+        userId: actor.userId
+      })
+    } catch (error) {
+      throw new PartialDispenseError(
+        `${request.quantity} x ${drug.name} left stock, but the dispense record could not be saved (${failureDetail(error)}). Record the supply by hand.`,
+        updated
+      )
+    }
+
+    if (substitution) {
+      const { original, suggestion } = substitution
+      try {
+        await this.substitutions.record({
+          id: createId('substitution'),
+          originalDrugId: original.id,
+          originalDrugName: original.name,
+          originalStrength: `${original.dosage} ${original.dosageForm}`,
+          substituteDrugId: drug.id,
+          substituteDrugName: drug.name,
+          substituteStrength: `${drug.dosage} ${drug.dosageForm}`,
+          matchType: suggestion.matchType,
+          confidence: suggestion.confidence,
+          reason: suggestion.reason,
+          dosageAdjustment: suggestion.dosageAdjustment,
+          acknowledgedWarnings: requiredAcknowledgements(suggestion),
+          dispenseId: record.id,
+          quantity: record.quantity,
+          prescriptionRef: record.prescriptionRef,
+          patientRef: record.patientRef,
+          pharmacist: record.pharmacist,
+          recordedBy: actor.name,
+          recordedAt: record.dispensedAt,
+          userId: actor.userId
+        })
+      } catch (error) {
+        throw new PartialDispenseError(
+          `${drug.name} was dispensed, but the substitution for ${original.name} could not be logged (${failureDetail(error)})`,
+          updated,
+          record
+        )
+      }
+    }
+
+    return { drug: updated, record }
+  }
+
+  async substitutionLog(actor: Actor): Promise<SubstitutionRecord[]> {
+    return this.substitutions.list(actor)
+  }
+
+  async history(actor: Actor): Promise<DispenseRecord[]> {
+    const records = await this.records.list(actor.userId)
+    return records.sort((a, b) => b.dispensedAt.localeCompare(a.dispensedAt))
+  }
+}
@@ -0,0 +1,228 @@
+import { Drug, InventoryTransaction } from '../types/pharmacy'
+import { DrugRepository, loadDrugCatalogue } from './drugRepository'
+import { InventoryLedger, StockMovement } from './inventoryLedger'
+import { Actor, requirePermission } from './permissions'
+import { diffBatchQuantities } from './stockBatches'
+import { parseDrug } from './drugSchema'
+import { findDuplicateBarcode } from './barcodeScanning'
+
+/**
+ * Thrown when a drug is saved but posting its stock stops partway. The drug as
+ * saved, with the stock posted before the failure, is attached.
+ */
+export class PartialDrugSaveError extends Error {
+  drug: Drug
+
+  constructor(message: string, drug: Drug) {
+    super(message)
+    this.name = 'PartialDrugSaveError'
+    this.drug = drug
+  }
+}
+
+const failureDetail = (error: unknown) => error instanceof Error ? error.message : String(error)
+
+/**
+ * Permission-checked access to the drug catalogue. Catalogue details are saved
+ * directly; anything that changes stock is posted through the inventory ledger.
+ * Records are checked against the drug schema before they are saved.
+ */
+export class DrugCatalogue {
+  private drugs: DrugRepository
+  private ledger: InventoryLedger
+
+  constructor(drugs: DrugRepository, ledger: InventoryLedger) {
+    this.drugs = drugs
+    this.ledger = ledger
+  }
+
+  async load(actor: Actor): Promise<Drug[]> {
+    const drugs = await loadDrugCatalogue(this.drugs, actor.userId)
+    return this.ledger.reconcile(drugs, actor)
+  }
+
+  async add(input: Drug, actor: Actor): Promise<Drug> {
+    requirePermission(actor, 'drug.create')
+    if (input.isControlled) requirePermission(actor, 'controlled.manage', 'add controlled substances')
+    if (input.supplierPrices?.length) requirePermission(actor, 'orders.manage', 'set supplier prices')
+    const drug = parseDrug(input)
+    if (drug.isControlled && drug.batches.some(batch => batch.quantity > 0)) {
+      throw new Error(`${drug.name} is a controlled drug: receive its stock against a purchase order so the register entry is witnessed`)
+    }
+
+    const now = new Date().toISOString()
+    let created = await this.drugs.create({
+      ...drug,
+      stockLevel: 0,
+      batches: [],
+      userId: actor.userId,
+      createdAt: now,
+      updatedAt: now
+    })
+
+    for (const batch of drug.batches.filter(batch => batch.quantity > 0)) {
+      try {
+        const result = await this.ledger.record(created, {
+          type: 'add',
+          quantity: batch.quantity,
+          reason: 'Initial stock on hand',
+          batchNumber: batch.batchNumber,
+          expiryDate: batch.expiryDate,
+          receivedDate: batch.receivedDate,
+          supplier: batch.supplier
+        }, actor)
+        created = result.drug
+      } catch (error) {
+        throw new PartialDrugSaveError(
+          `${drug.name} was added, but stock for batch ${batch.batchNumber} and any after it could not be posted (${failureDetail(error)}). Edit the drug to add it.`,
+          created
+        )
+      }
+    }
+
+    return created
+  }
+
+  /**
+   * Save catalogue details and batch metadata. Any change in batch quantities is
+   * posted to the ledger: new batches as receipts, edited or removed ones as adjustments.
+   */
+  async update(input: Drug, stockChangeReason: string | undefined, actor: Actor): Promise<Drug> {
+    const drug = parseDrug(input)
+    const current = await this.drugs.get(actor.userId, drug.id)
+    if (!current) throw new Error(`${drug.name} no longer exists`)
+
+    requirePermission(actor, 'drug.edit')
+    if (current.isControlled || drug.isControlled) {
+      requirePermission(actor, 'controlled.manage', 'edit controlled substances')
+    }
+    if (drug.unitPrice !== current.unitPrice) {
+      requirePermission(actor, 'drug.edit.price')
+    }
+    if (JSON.stringify(drug.supplierPrices ?? []) !== JSON.stringify(current.supplierPrices ?? [])) {
+      requirePermission(actor, 'orders.manage', 'change supplier prices')
+    }
+
+    const changes = diffBatchQuantities(current.batches, drug.batches)
+    if (changes.length > 0) {
+      requirePermission(actor, 'stock.adjust')
+      if (!stockChangeReason) throw new Error('A reason is required to change stock quantities')
+      if (current.isControlled || drug.isControlled) {
+        throw new Error(`${drug.name} is a controlled drug: record stock changes in the CD register with a witness`)
+      }
+    }
+
+    const holdChanged = drug.batches.some(batch => {
+      const before = current.batches.find(existing => existing.id === batch.id)
+      return (batch.hold ?? null) !== (before?.hold ?? null) || (batch.holdReason ?? null) !== (before?.holdReason ?? null)
+    })
+    if (holdChanged) {
+      requirePermission(actor, 'stock.adjust', 'change the status of stock')
+    }
+
+    // Recalls are only set and cleared through the recall book
+    const batches = current.batches.map(batch => {
+      const edited = drug.batches.find(candidate => candidate.id === batch.id)
+      return edited ? { ...edited, quantity: batch.quantity, recallId: batch.recallId } : batch
+    })
+
+    let updated = await this.drugs.update(actor.userId, drug.id, {
+      ...drug,
+      batches,
+      stockLevel: current.stockLevel,
+      updatedAt: new Date().toISOString()
+    })
+
+    for (const { batch, quantity } of changes) {
+      const isNewBatch = !current.batches.some(existing => existing.id === batch.id)
+      try {
+        const result = await this.ledger.record(updated, {
+          type: isNewBatch ? 'add' : 'adjust',
+          quantity,
+          reason: stockChangeReason ?? '',
+          batchNumber: batch.batchNumber,
+          expiryDate: batch.expiryDate,
+          receivedDate: batch.receivedDate,
+          supplier: batch.supplier
+        }, actor)
+        updated = result.drug
+      } catch (error) {
+        throw new PartialDrugSaveError(
+          `${drug.name} was saved, but the stock change for batch ${batch.batchNumber} and any after it could not be posted (${failureDetail(error)}). Edit the drug again to post it.`,
+          updated
+        )
+      }
+    }
+
+    // The ledger opens new batches as sellable; carry over any status set on the form
+    const heldNewBatches = drug.batches.filter(batch => batch.hold && !current.batches.some(existing => existing.id === batch.id))
+    if (heldNewBatches.length > 0) {
+      updated = await this.drugs.update(actor.userId, drug.id, {
+        batches: updated.batches.map(batch => {
+          const held = heldNewBatches.find(candidate => candidate.batchNumber === batch.batchNumber)
+          return held ? { ...batch, hold: held.hold, holdReason: held.holdReason } : batch
+        }),
+        updatedAt: new Date().toISOString()
+      })
+    }
+
+    return updated
+  }
+
+  /**
+   * Save the drugs from a spreadsheet import in a single write: every record is
+   * checked first, and nothing is saved if any of them fails. Existing drugs
+   * keep the stock and batches they hold now.
+   */
+  async importDrugs(input: Drug[], actor: Actor): Promise<Drug[]> {
+    const current = await this.drugs.list(actor.userId)
+    const now = new Date().toISOString()
+
+    const records = input.map(candidate => {
+      const drug = parseDrug(candidate)
+      const existing = current.find(other => other.id === drug.id)
+
+      requirePermission(actor, existing ? 'drug.edit' : 'drug.create', existing ? `update ${existing.name}` : `add ${drug.name}`)
+      if (drug.isControlled || existing?.isControlled) {
+        requirePermission(actor, 'controlled.manage', `import controlled substances such as ${drug.name}`)
+      }
+      if (existing && existing.unitPrice !== drug.unitPrice) {
+        requirePermission(actor, 'drug.edit.price', `change the price of ${drug.name}`)
+      }
+
+      const duplicate = drug.barcode ? findDuplicateBarcode(current, drug.barcode, drug.id) : undefined
+      if (duplicate) {
+        throw new Error(`Barcode ${drug.barcode} of ${drug.name} is now used by ${duplicate.name}: check the import again`)
+      }
+
+      return existing
+        ? { ...drug, stockLevel: existing.stockLevel, batches: existing.batches, createdAt: existing.createdAt, userId: actor.userId, updatedAt: now }
+        : { ...drug, stockLevel: 0, batches: [], userId: actor.userId, createdAt: now, updatedAt: now }
+    })
+
+    return this.drugs.saveMany(records)
+  }
+
+  /**
+   * Quarantine batches under a recall, or release them when recallId is undefined.
+   * Stock levels do not change: quarantined units stay on the books until returned.
+   */
+  async setQuarantine(drug: Drug, batchNumbers: string[], recallId: string | undefined, actor: Actor): Promise<Drug> {
+    requirePermission(actor, 'stock.adjust', 'quarantine recalled stock')
+    const current = await this.drugs.get(actor.userId, drug.id)
+    if (!current) throw new Error(`${drug.name} no longer exists`)
+
+    return this.drugs.update(actor.userId, current.id, {
+      batches: current.batches.map(batch => batchNumbers.includes(batch.batchNumber) ? { ...batch, recallId } : batch),
+      updatedAt: new Date().toISOString()
+    })
+  }
+
+  async recordMovement(drug: Drug, movement: StockMovement, actor: Actor): Promise<{ drug: Drug, transactions: InventoryTransaction[] }> {
+    return this.ledger.record(drug, movement, actor)
+  }
+
+  async history(drugId: string, actor: Actor): Promise<InventoryTransaction[]> {
+    return this.ledger.history(actor.userId, drugId)
+  }
+}
@@ -0,0 +1,321 @@
+import { Drug } from '../types/pharmacy'
+import { createId } from '../lib/utils'
+import { barcodeError, findDrugByBarcode, normalizeBarcode, toGtin14 } from './barcodeScanning'
+import { parseDrug, validateDrug } from './drugSchema'
+import { isBlankRow, SheetRows, toCsv } from './spreadsheet'
+
+/** Catalogue fields a price list can fill in. Stock is never imported: it comes in through the ledger. */
+export type ImportField =
+  | 'name'
+  | 'genericName'
+  | 'brandName'
+  | 'activeMolecule'
+  | 'dosage'
+  | 'dosageForm'
+  | 'manufacturer'
+  | 'barcode'
+  | 'category'
+  | 'atcCode'
+  | 'therapeuticClass'
+  | 'description'
+  | 'isControlled'
+  | 'requiresPrescription'
+  | 'unitPrice'
+  | 'packSize'
+  | 'leadTimeDays'
+  | 'minStockLevel'
+  | 'maxStockLevel'
+  | 'location'
+
+type FieldKind = 'text' | 'number' | 'count' | 'boolean'
+
+interface ImportFieldSpec {
+  field: ImportField
+  label: string
+  kind: FieldKind
+  /** Needed to add a drug; updates may leave it out */
+  required?: boolean
+  /** Header names recognised when mapping columns automatically, lower case */
+  aliases: string[]
+}
+
+export const IMPORT_FIELDS: ImportFieldSpec[] = [
+  { field: 'barcode', label: 'Barcode (GTIN)', kind: 'text', aliases: ['barcode', 'gtin', 'ean', 'ean13', 'upc', 'product code'] },
+  { field: 'name', label: 'Name', kind: 'text', required: true, aliases: ['name', 'drug', 'drug name', 'product', 'product name', 'description of goods'] },
+  { field: 'genericName', label: 'Generic Name', kind: 'text', aliases: ['generic', 'generic name', 'inn'] },
+  { field: 'brandName', label: 'Brand Name', kind: 'text', aliases: ['brand', 'brand name', 'trade name'] },
+  { field: 'activeMolecule', label: 'Active Ingredient', kind: 'text', required: true, aliases: ['active ingredient', 'active ingredients', 'molecule', 'active molecule', 'substance'] },
+  { field: 'dosage', label: 'Strength', kind: 'text', required: true, aliases: ['strength', 'dosage', 'dose'] },
+  { field: 'dosageForm', label: 'Dosage Form', kind: 'text', required: true, aliases: ['form', 'dosage form', 'formulation'] },
+  { field: 'manufacturer', label: 'Manufacturer', kind: 'text', required: true, aliases: ['manufacturer', 'mfr', 'maker', 'marketing authorisation holder'] },
+  { field: 'category', label: 'Category', kind: 'text', required: true, aliases: ['category', 'group', 'product group'] },
+  { field: 'atcCode', label: 'ATC Code', kind: 'text', aliases: ['atc', 'atc code'] },
+  { field: 'therapeuticClass', label: 'Therapeutic Class', kind: 'text', aliases: ['therapeutic class', 'class'] },
+  { field: 'description', label: 'Description', kind: 'text', aliases: ['description', 'notes'] },
+  { field: 'isControlled', label: 'Controlled', kind: 'boolean', aliases: ['controlled', 'cd', 'controlled drug', 'schedule'] },
+  { field: 'requiresPrescription', label: 'Prescription Only', kind: 'boolean', aliases: ['prescription', 'prescription only', 'pom', 'rx', 'rx only'] },
+  { field: 'unitPrice', label: 'Unit Price', kind: 'number', required: true, aliases: ['unit price', 'price', 'cost', 'unit cost'] },
+  { field: 'packSize', label: 'Pack Size', kind: 'count', aliases: ['pack size', 'pack', 'units per pack', 'pack qty'] },
+  { field: 'leadTimeDays', label: 'Lead Time (days)', kind: 'count', aliases: ['lead time', 'lead time days', 'lead time (days)'] },
+  { field: 'minStockLevel', label: 'Min Stock', kind: 'count', aliases: ['min', 'min stock', 'minimum', 'reorder level'] },
+  { field: 'maxStockLevel', label: 'Max Stock', kind: 'count', aliases: ['max', 'max stock', 'maximum'] },
+  { field: 'location', label: 'Shelf Location', kind: 'text', aliases: ['location', 'shelf', 'bin', 'bay'] }
+]
+
+const FIELD_LABELS = Object.fromEntries(IMPORT_FIELDS.map(spec => [spec.field, spec.label])) as Record<ImportField, string>
+
+/** Sheet column index for each mapped field */
+export type ColumnMapping = Partial<Record<ImportField, number>>
+
+export type ImportAction = 'create' | 'update' | 'unchanged' | 'error'
+
+export const IMPORT_ACTION_LABELS: Record<ImportAction, string> = {
+  create: 'New',
+  update: 'Update',
+  unchanged: 'No change',
+  error: 'Error'
+}
+
+export interface ImportChange {
+  field: ImportField
+  label: string
+  before: string
+  after: string
+}
+
+export interface ImportRow {
+  rowNumber: number // as numbered in the spreadsheet, header included
+  cells: string[]
+  action: ImportAction
+  drug?: Drug // the record to save, for new and updated rows
+  existing?: Drug
+  changes: ImportChange[]
+  errors: string[]
+}
+
+export interface ImportPlan {
+  headers: string[]
+  rows: ImportRow[]
+  counts: Record<ImportAction, number>
+}
+
+const normaliseHeader = (header: string) => header.trim().toLowerCase().replace(/[_\s]+/g, ' ')
+
+const headerRowIndex = (sheet: SheetRows) => sheet.findIndex(row => !isBlankRow(row))
+
+/** The sheet's column headers: the first row that is not blank */
+export function sheetHeaders(sheet: SheetRows): string[] {
+  const index = headerRowIndex(sheet)
+  return index >= 0 ? sheet[index] : []
+}
+
+/**
+ * Map columns whose header matches a field name or a common alias
+ */
+export function guessMapping(headers: string[]): ColumnMapping {
+  const mapping: ColumnMapping = {}
+  const used = new Set<number>()
+  IMPORT_FIELDS.forEach(spec => {
+    const index = headers.findIndex((header, column) =>
+      !used.has(column) && (spec.aliases.includes(normaliseHeader(header)) || normaliseHeader(header) === spec.label.toLowerCase()))
+    if (index >= 0) {
+      mapping[spec.field] = index
+      used.add(index)
+    }
+  })
+  return mapping
+}
+
+/**
+ * Fields a new drug needs that no column is mapped to
+ */
+export function unmappedRequiredFields(mapping: ColumnMapping): string[] {
+  return IMPORT_FIELDS.filter(spec => spec.required && mapping[spec.field] === undefined).map(spec => spec.label)
+}
+
+const TRUE_VALUES = ['yes', 'y', 'true', '1', 'x']
+const FALSE_VALUES = ['no', 'n', 'false', '0']
+
+/**
+ * Read a number written with a currency sign, thousands separators or, as in
+ * sheets saved in many European locales, a decimal comma ("1,20")
+ */
+function parseNumber(text: string): number {
+  const digits = text.replace(/[£$€\s]/g, '')
+  const decimalComma = /^-?[\d.]*\d,\d{1,2}$/.test(digits)
+  return Number(decimalComma ? digits.replace(/\./g, '').replace(',', '.') : digits.replace(/,/g, ''))
+}
+
+function readCell(spec: ImportFieldSpec, raw: string): { value?: string | number | boolean, error?: string } {
+  const text = raw.trim()
+  switch (spec.kind) {
+    case 'boolean': {
+      const lower = text.toLowerCase()
+      if (!lower) return {}
+      if (TRUE_VALUES.includes(lower)) return { value: true }
+      if (FALSE_VALUES.includes(lower)) return { value: false }
+      return { error: `${spec.label} must be yes or no, not "${text}"` }
+    }
+    case 'number':
+    case 'count': {
+      if (!text) return {}
+      const value = parseNumber(text)
+      if (!Number.isFinite(value)) return { error: `${spec.label} must be a number, not "${text}"` }
+      return { value }
+    }
+    default:
+      return text ? { value: text } : {}
+  }
+}
+
+/** Name, strength and form, for telling products apart when a row has no barcode */
+const productKey = (name: unknown, dosage: unknown, dosageForm: unknown) =>
+  [name, dosage, dosageForm].map(value => String(value ?? '').trim().toLowerCase().replace(/\s+/g, ' ')).join('|')
+
+/** Spreadsheets turn long numeric codes into 5.01234E+12, losing digits */
+const isMangledBarcode = (code: string) => /^\d+(\.\d+)?e\+\d+$/i.test(code)
+
+const displayValue = (value: unknown) => {
+  if (value === undefined || value === null || value === '') return ''
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No'
+  return String(value)
+}
+
+/**
+ * Work out what importing the sheet would do, without saving anything. The
+ * first non-blank row holds the headers. Rows are matched to the catalogue by
+ * barcode: a match is updated with the mapped cells that are filled in,
+ * anything else is added as a new drug. Rows without a barcode are refused when
+ * their name, strength and form are already on file, so importing the same
+ * list twice does not add those products again.
+ */
+export function planImport(sheet: SheetRows, mapping: ColumnMapping, drugs: Drug[]): ImportPlan {
+  const headerIndex = headerRowIndex(sheet)
+  const headers = sheetHeaders(sheet)
+  const seenBarcodes = new Map<string, number>()
+  const seenProducts = new Map<string, number>()
+  const rows: ImportRow[] = []
+
+  sheet.slice(headerIndex + 1).forEach((cells, offset) => {
+    if (isBlankRow(cells)) return
+    const rowNumber = headerIndex + offset + 2
+    const errors: string[] = []
+    const values: Partial<Record<ImportField, string | number | boolean>> = {}
+
+    IMPORT_FIELDS.forEach(spec => {
+      const column = mapping[spec.field]
+      if (column === undefined) return
+      const { value, error } = readCell(spec, cells[column] ?? '')
+      if (error) errors.push(error)
+      else if (value !== undefined) values[spec.field] = value
+    })
+
+    let existing: Drug | undefined
+    if (typeof values.barcode === 'string') {
+      const code = normalizeBarcode(values.barcode)
+      values.barcode = code
+      if (isMangledBarcode(code)) {
+        errors.push(`Barcode ${code} was converted to a number by the spreadsheet; format the column as text and export again`)
+      } else {
+        const problem = barcodeError(code)
+        if (problem) errors.push(`Barcode: ${problem}`)
+        const key = toGtin14(code) ?? code
+        const earlier = seenBarcodes.get(key)
+        if (earlier) errors.push(`Barcode ${code} is also on row ${earlier}`)
+        else seenBarcodes.set(key, rowNumber)
+        existing = findDrugByBarcode(drugs, code)
+      }
+    } else if (values.name !== undefined) {
+      // Without a barcode the row can only be added, so a product already on file would be added twice
+      const key = productKey(values.name, values.dosage, values.dosageForm)
+      const onFile = drugs.find(drug => productKey(drug.name, drug.dosage, drug.dosageForm) === key)
+      const earlier = seenProducts.get(key)
+      if (onFile) errors.push(`${onFile.name} is already in the catalogue: add its barcode to the sheet to update it`)
+      else if (earlier) errors.push(`${values.name} is also on row ${earlier} without a barcode`)
+      else seenProducts.set(key, rowNumber)
+    }
+
+    if (errors.length > 0) {
+      rows.push({ rowNumber, cells, action: 'error', existing, changes: [], errors })
+      return
+    }
+
+    const candidate = existing ? updatedDrug(existing, values) : newDrug(values)
+    const fieldErrors = validateDrug(candidate)
+    if (fieldErrors) {
+      rows.push({ rowNumber, cells, action: 'error', existing, changes: [], errors: Object.values(fieldErrors) })
+      return
+    }
+
+    const drug = parseDrug(candidate)
+    const changes = existing ? changedFields(existing, drug) : []
+    const action: ImportAction = !existing ? 'create' : changes.length > 0 ? 'update' : 'unchanged'
+    rows.push({ rowNumber, cells, action, drug, existing, changes, errors: [] })
+  })
+
+  const counts: Record<ImportAction, number> = { create: 0, update: 0, unchanged: 0, error: 0 }
+  rows.forEach(row => counts[row.action]++)
+  return { headers, rows, counts }
+}
+
+function newDrug(values: Partial<Record<ImportField, string | number | boolean>>): unknown {
+  const now = new Date().toISOString()
+  return {
+    id: createId('drug'),
+    genericName: values.name,
+    brandName: '',
+    isControlled: false,
+    requiresPrescription: false,
+    minStockLevel: 10,
+    maxStockLevel: 100,
+    ...values,
+    strength: values.dosage,
+    stockLevel: 0,
+    batches: [],
+    isCustom: true,
+    createdAt: now,
+    updatedAt: now,
+    userId: ''
+  }
+}
+
+/** Filled-in cells replace the drug's values; stock and batches are left alone */
+function updatedDrug(existing: Drug, values: Partial<Record<ImportField, string | number | boolean>>): unknown {
+  const ingredientsChanged = (values.activeMolecule !== undefined && values.activeMolecule !== existing.activeMolecule) ||
+    (values.dosage !== undefined && values.dosage !== existing.dosage)
+  return {
+    ...existing,
+    ...values,
+    // Per-ingredient strengths are worked out again from the new summary
+    ingredients: ingredientsChanged ? undefined : existing.ingredients,
+    strength: values.dosage ?? existing.strength,
+    updatedAt: new Date().toISOString()
+  }
+}
+
+function changedFields(existing: Drug, drug: Drug): ImportChange[] {
+  return IMPORT_FIELDS
+    .filter(spec => displayValue(existing[spec.field]) !== displayValue(drug[spec.field]))
+    .map(spec => ({
+      field: spec.field,
+      label: FIELD_LABELS[spec.field],
+      before: displayValue(existing[spec.field]),
+      after: displayValue(drug[spec.field])
+    }))
+}
+
+/**
+ * The rows that could not be imported, with the reasons and the original
+ * cells, so they can be corrected and imported again
+ */
+export function importErrorReportCsv(plan: ImportPlan): string {
+  const failed = plan.rows.filter(row => row.action === 'error')
+  return toCsv([
+    ['Row', 'Errors', ...plan.headers],
+    ...failed.map(row => [row.rowNumber, row.errors.join('; '), ...plan.headers.map((_, column) => row.cells[column] ?? '')])
+  ])
+}
+
+/** The drugs to save: new rows and rows that change an existing drug */
+export const drugsToImport = (plan: ImportPlan): Drug[] => plan.rows
+  .flatMap(row => row.drug && (row.action === 'create' || row.action === 'update') ? [row.drug] : [])
@@ -0,0 +1,27 @@
+import { Drug } from '../types/pharmacy'
+import { sampleDrugs } from '../data/sampleDrugs'
+import { createRepository, Repository } from './repository'
+
+export type DrugRepository = Repository<Drug>
+
+export function createDrugRepository(): DrugRepository {
+  return createRepository<Drug>('drugs')
+}
+
+/**
+ * Load a user's catalogue, seeding it with the sample database the first time
+ */
+export async function loadDrugCatalogue(repository: DrugRepository, userId: string): Promise<Drug[]> {
+  const drugs = await repository.list(userId)
+  if (drugs.length > 0) return drugs
+
+  const now = new Date().toISOString()
+  const seed = sampleDrugs.map(drug => ({
+    ...drug,
+    userId,
+    createdAt: now,
+    updatedAt: now
+  }))
+
+  return repository.createMany(seed)
+}
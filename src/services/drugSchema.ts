@@ -0,0 +1,289 @@
+import { z } from 'zod'
+import { Drug } from '../types/pharmacy'
+import { createId } from '../lib/utils'
+import { drugIngredients, summariseIngredients, validateIngredients } from './ingredients'
+import { diffBatchQuantities, sumBatchQuantities, validateBatches } from './stockBatches'
+import { isValidAtcCode, normaliseAtcCode } from './atc'
+import { barcodeError, findDuplicateBarcode } from './barcodeScanning'
+
+/** First error message for each invalid field, keyed by path, e.g. "name" or "batches.0.quantity" */
+export type DrugFieldErrors = Record<string, string>
+
+export class DrugValidationError extends Error {
+  fieldErrors: DrugFieldErrors
+
+  constructor(fieldErrors: DrugFieldErrors) {
+    super(Object.values(fieldErrors).join('\n'))
+    this.name = 'DrugValidationError'
+    this.fieldErrors = fieldErrors
+  }
+}
+
+const requiredText = (label: string) => z.string(`${label} is required`).trim().min(1, `${label} is required`)
+
+/** Blank optional text is stored as absent rather than as an empty string */
+const optionalText = z.string().trim().optional().transform(value => value || undefined)
+
+const tagList = z.array(z.string().trim()).optional().transform(tags => {
+  const cleaned = [...new Set((tags ?? []).filter(Boolean))]
+  return cleaned.length > 0 ? cleaned : undefined
+})
+
+const stockCount = (label: string) => z.number(`${label} must be a number`)
+  .int(`${label} must be a whole number`)
+  .nonnegative(`${label} cannot be negative`)
+
+const positiveCount = (label: string) => z.number(`${label} must be a number`)
+  .int(`${label} must be a whole number`)
+  .positive(`${label} must be at least 1`)
+
+const ingredientSchema = z.object({
+  name: z.string().trim(),
+  strength: z.string().trim()
+})
+
+const ingredientList = z.array(ingredientSchema).superRefine((ingredients, context) => {
+  const error = validateIngredients(ingredients)
+  if (error) context.addIssue({ code: 'custom', message: error })
+})
+
+const batchSchema = z.object({
+  id: requiredText('Batch id'),
+  batchNumber: z.string().trim(),
+  expiryDate: z.string().regex(/^(\d{4}-\d{2}-\d{2})?$/, 'Expiry date must be YYYY-MM-DD'),
+  quantity: stockCount('Batch quantity'),
+  receivedDate: z.string(),
+  supplier: optionalText,
+  recallId: optionalText,
+  hold: z.enum(['quarantined', 'damaged', 'reserved']).optional(),
+  holdReason: optionalText,
+  openingBalance: z.boolean().optional()
+})
+
+const supplierPriceSchema = z.object({
+  supplierId: requiredText('Supplier'),
+  packSize: positiveCount('Pack size'),
+  packPrice: z.number('Pack price must be a number').nonnegative('Pack price cannot be negative')
+})
+
+/** One price per supplier; an empty price list is stored as absent */
+const supplierPriceList = z.array(supplierPriceSchema)
+  .superRefine((prices, context) => {
+    const ids = prices.map(price => price.supplierId)
+    if (new Set(ids).size !== ids.length) {
+      context.addIssue({ code: 'custom', message: 'Each supplier can only have one price' })
+    }
+  })
+  .optional()
+  .transform(prices => prices?.length ? prices : undefined)
+
+const drugFields = z.object({
+  id: requiredText('Drug id'),
+  name: requiredText('Name'),
+  genericName: requiredText('Generic name'),
+  brandName: z.string().trim(),
+  activeMolecule: requiredText('Active ingredient'),
+  dosage: requiredText('Dosage'),
+  ingredients: ingredientList.optional(),
+  dosageForm: requiredText('Dosage form'),
+  strength: requiredText('Strength'),
+  manufacturer: requiredText('Manufacturer'),
+  barcode: optionalText,
+  category: requiredText('Category'),
+  atcCode: optionalText
+    .refine(code => !code || isValidAtcCode(code), 'ATC code must be a 7-character substance code, e.g. N02BE01')
+    .transform(code => code && normaliseAtcCode(code)),
+  therapeuticClass: optionalText,
+  description: optionalText,
+  sideEffects: optionalText,
+  allergens: tagList,
+  contraindications: tagList,
+  isControlled: z.boolean(),
+  requiresPrescription: z.boolean(),
+  stockLevel: stockCount('Stock level'),
+  batches: z.array(batchSchema).superRefine((batches, context) => {
+    const error = validateBatches(batches)
+    if (error) context.addIssue({ code: 'custom', message: error })
+  }),
+  minStockLevel: stockCount('Min stock level'),
+  maxStockLevel: stockCount('Max stock level'),
+  unitPrice: z.number('Unit price must be a number').nonnegative('Unit price cannot be negative'),
+  packSize: positiveCount('Pack size').optional(),
+  leadTimeDays: stockCount('Lead time').optional(),
+  location: optionalText,
+  supplierPrices: supplierPriceList,
+  isCustom: z.boolean(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+  userId: z.string()
+})
+
+function checkStockRange(drug: Pick<Drug, 'minStockLevel' | 'maxStockLevel'>, context: z.RefinementCtx) {
+  if (drug.maxStockLevel < drug.minStockLevel) {
+    context.addIssue({ code: 'custom', path: ['maxStockLevel'], message: 'Max stock level must not be below the min stock level' })
+  }
+}
+
+/**
+ * The drug record as stored, including the optional clinical fields. Used by
+ * the add and edit forms and by anything that brings drugs in from outside.
+ */
+export const drugSchema: z.ZodType<Drug> = drugFields.superRefine(checkStockRange)
+
+/** What the add and edit forms collect; ids, stock totals and timestamps are filled in on save */
+const drugFormFields = drugFields.pick({
+  name: true,
+  brandName: true,
+  dosageForm: true,
+  manufacturer: true,
+  barcode: true,
+  category: true,
+  atcCode: true,
+  therapeuticClass: true,
+  description: true,
+  sideEffects: true,
+  allergens: true,
+  contraindications: true,
+  isControlled: true,
+  requiresPrescription: true,
+  batches: true,
+  minStockLevel: true,
+  maxStockLevel: true,
+  packSize: true,
+  leadTimeDays: true,
+  location: true,
+  supplierPrices: true,
+  unitPrice: true
+}).extend({
+  genericName: z.string().trim(), // defaults to the drug name
+  ingredients: ingredientList,
+  stockChangeReason: z.string().trim()
+})
+
+export type DrugFormValues = z.input<typeof drugFormFields>
+export type DrugFormData = z.output<typeof drugFormFields>
+
+/**
+ * Form schema for adding a drug, or editing `original`. Barcodes must carry a
+ * valid check digit and not belong to another drug in `drugs`; changing batch
+ * quantities needs a reason.
+ */
+export function createDrugFormSchema(drugs: Drug[], original?: Drug) {
+  const barcode = optionalText.superRefine((code, context) => {
+    if (!code) return
+    const duplicate = findDuplicateBarcode(drugs, code, original?.id)
+    const message = barcodeError(code) ?? (duplicate ? `Barcode is already used by ${duplicate.name}` : null)
+    if (message) context.addIssue({ code: 'custom', message })
+  })
+
+  return drugFormFields.extend({ barcode }).superRefine((values, context) => {
+    checkStockRange(values, context)
+
+    if (original && diffBatchQuantities(original.batches, values.batches).length > 0 && !values.stockChangeReason) {
+      context.addIssue({ code: 'custom', path: ['stockChangeReason'], message: 'Give a reason for the stock adjustment' })
+    }
+  })
+}
+
+export function drugFormDefaults(drug?: Drug): DrugFormValues {
+  return {
+    name: drug?.name ?? '',
+    genericName: drug?.genericName ?? '',
+    brandName: drug?.brandName ?? '',
+    ingredients: drug ? drugIngredients(drug) : [{ name: '', strength: '' }],
+    dosageForm: drug?.dosageForm ?? 'Tablet',
+    manufacturer: drug?.manufacturer ?? '',
+    barcode: drug?.barcode ?? '',
+    category: drug?.category ?? '',
+    atcCode: drug?.atcCode ?? '',
+    therapeuticClass: drug?.therapeuticClass ?? '',
+    description: drug?.description ?? '',
+    sideEffects: drug?.sideEffects ?? '',
+    allergens: drug?.allergens ?? [],
+    contraindications: drug?.contraindications ?? [],
+    isControlled: drug?.isControlled ?? false,
+    requiresPrescription: drug?.requiresPrescription ?? false,
+    batches: drug?.batches ?? [],
+    minStockLevel: drug?.minStockLevel ?? 10,
+    maxStockLevel: drug?.maxStockLevel ?? 100,
+    unitPrice: drug?.unitPrice ?? NaN,
+    packSize: drug?.packSize,
+    leadTimeDays: drug?.leadTimeDays,
+    location: drug?.location ?? '',
+    supplierPrices: drug?.supplierPrices ?? [],
+    stockChangeReason: ''
+  }
+}
+
+/**
+ * Build the drug record from validated form data. New drugs keep only the
+ * batches with stock; the catalogue stamps the pharmacy account when saving.
+ */
+export function drugFromForm(data: DrugFormData, original?: Drug): Drug {
+  const summary = summariseIngredients(data.ingredients)
+  const batches = original ? data.batches : data.batches.filter(batch => batch.quantity > 0)
+  const now = new Date().toISOString()
+
+  return {
+    id: original?.id ?? createId('drug'),
+    name: data.name,
+    genericName: data.genericName || data.name,
+    brandName: data.brandName,
+    ...summary,
+    ingredients: data.ingredients,
+    dosageForm: data.dosageForm,
+    strength: summary.dosage,
+    manufacturer: data.manufacturer,
+    barcode: data.barcode,
+    category: data.category,
+    atcCode: data.atcCode,
+    therapeuticClass: data.therapeuticClass,
+    description: data.description,
+    sideEffects: data.sideEffects,
+    allergens: data.allergens,
+    contraindications: data.contraindications,
+    isControlled: data.isControlled,
+    requiresPrescription: data.requiresPrescription,
+    stockLevel: original?.stockLevel ?? sumBatchQuantities(batches),
+    batches,
+    minStockLevel: data.minStockLevel,
+    maxStockLevel: data.maxStockLevel,
+    unitPrice: data.unitPrice,
+    packSize: data.packSize,
+    leadTimeDays: data.leadTimeDays,
+    location: data.location,
+    supplierPrices: data.supplierPrices,
+    isCustom: original?.isCustom ?? true,
+    createdAt: original?.createdAt ?? now,
+    updatedAt: now,
+    userId: original?.userId ?? ''
+  }
+}
+
+function fieldErrorsFrom(error: z.ZodError): DrugFieldErrors {
+  const fieldErrors: DrugFieldErrors = {}
+  for (const issue of error.issues) {
+    const field = issue.path.map(String).join('.') || 'drug'
+    fieldErrors[field] = fieldErrors[field] ?? issue.message
+  }
+  return fieldErrors
+}
+
+/**
+ * Check a drug record, returning the errors for each invalid field or null when it is valid
+ */
+export function validateDrug(input: unknown): DrugFieldErrors | null {
+  const result = drugSchema.safeParse(input)
+  return result.success ? null : fieldErrorsFrom(result.error)
+}
+
+/**
+ * Validate and clean a drug record: text is trimmed, blank optional fields
+ * dropped and the ATC code normalised. Throws a DrugValidationError listing
+ * every invalid field.
+ */
+export function parseDrug(input: unknown): Drug {
+  const result = drugSchema.safeParse(input)
+  if (!result.success) throw new DrugValidationError(fieldErrorsFrom(result.error))
+  return result.data
+}
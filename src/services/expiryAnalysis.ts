@@ -0,0 +1,99 @@
+import { differenceInCalendarDays, parseISO } from 'date-fns'
+import { Drug, StockBatch } from '../types/pharmacy'
+
+export type ExpiryBucket = 'expired' | 'within30' | 'within90' | 'within180'
+
+export const EXPIRING_SOON_DAYS = 90
+
+export const EXPIRY_BUCKETS: Array<{ bucket: ExpiryBucket, label: string, maxDays: number }> = [
+  { bucket: 'expired', label: 'Expired', maxDays: -1 },
+  { bucket: 'within30', label: 'Within 30 days', maxDays: 29 },
+  { bucket: 'within90', label: '30–90 days', maxDays: 89 },
+  { bucket: 'within180', label: '90–180 days', maxDays: 179 }
+]
+
+export interface ExpiryEntry {
+  drug: Drug
+  batch: StockBatch
+  daysUntilExpiry: number
+  valueAtRisk: number
+}
+
+export interface ExpiryBucketSummary {
+  bucket: ExpiryBucket
+  label: string
+  entries: ExpiryEntry[]
+  units: number
+  valueAtRisk: number
+}
+
+/**
+ * Days until a batch expires (negative once expired), or null when unknown
+ */
+export function daysUntilExpiry(batch: StockBatch, asOf: Date = new Date()): number | null {
+  if (!batch.expiryDate) return null
+  return differenceInCalendarDays(parseISO(batch.expiryDate), asOf)
+}
+
+export function getExpiryBucket(days: number): ExpiryBucket | null {
+  const match = EXPIRY_BUCKETS.find(({ maxDays }) => days <= maxDays)
+  return match ? match.bucket : null
+}
+
+/**
+ * True when any batch still on the shelf expires within the given window (or already has)
+ */
+export function hasExpiringStock(drug: Drug, withinDays: number = EXPIRING_SOON_DAYS, asOf: Date = new Date()): boolean {
+  return (drug.batches ?? []).some(batch => {
+    const days = daysUntilExpiry(batch, asOf)
+    return batch.quantity > 0 && days !== null && days < withinDays
+  })
+}
+
+/**
+ * The earliest expiry date among batches with stock
+ */
+export function nextExpiry(drug: Drug, asOf: Date = new Date()): { batch: StockBatch, days: number } | null {
+  let earliest: { batch: StockBatch, days: number } | null = null
+  for (const batch of drug.batches ?? []) {
+    const days = daysUntilExpiry(batch, asOf)
+    if (batch.quantity <= 0 || days === null) continue
+    if (!earliest || days < earliest.days) earliest = { batch, days }
+  }
+  return earliest
+}
+
+/**
+ * Group every stocked batch into expiry buckets, valuing it at the drug's unit price
+ */
+export function buildExpiryReport(drugs: Drug[], asOf: Date = new Date()): ExpiryBucketSummary[] {
+  const summaries = EXPIRY_BUCKETS.map(({ bucket, label }) => ({
+    bucket,
+    label,
+    entries: [] as ExpiryEntry[],
+    units: 0,
+    valueAtRisk: 0
+  }))
+
+  drugs.forEach(drug => {
+    (drug.batches ?? []).forEach(batch => {
+      const days = daysUntilExpiry(batch, asOf)
+      if (batch.quantity <= 0 || days === null) return
+
+      const bucket = getExpiryBucket(days)
+      const summary = summaries.find(candidate => candidate.bucket === bucket)
+      if (!summary) return
+
+      const valueAtRisk = batch.quantity * drug.unitPrice
+      summary.entries.push({ drug, batch, daysUntilExpiry: days, valueAtRisk })
+      summary.units += batch.quantity
+      summary.valueAtRisk += valueAtRisk
+    })
+  })
+
+  summaries.forEach(summary => {
+    summary.entries.sort((a, b) => a.daysUntilExpiry - b.daysUntilExpiry)
+  })
+
+  return summaries
+}
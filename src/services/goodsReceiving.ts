@@ -0,0 +1,272 @@
+import { Drug, GoodsReceipt, GoodsReceiptLine, PurchaseOrder, PurchaseOrderLine, Witness } from '../types/pharmacy'
+import { createId } from '../lib/utils'
+import { createRepository, Repository } from './repository'
+import { DrugCatalogue } from './drugCatalogue'
+import { Actor, requirePermission } from './permissions'
+import { witnessError } from './controlledRegister'
+import { isAwaitingDelivery, PURCHASE_ORDER_STATUS_LABELS, remainingQuantity } from './purchaseOrders'
+
+export type DeliveryIssueKind = 'short' | 'over' | 'damaged'
+
+/** A difference between what was ordered and what arrived, flagged at check-in */
+export interface DeliveryIssue {
+  drugId: string
+  kind: DeliveryIssueKind
+  quantity: number
+  message: string
+}
+
+/** A delivery as checked in; controlled drugs on it need a witness */
+export type GoodsDelivery = Pick<GoodsReceipt, 'lines' | 'notes'> & { witness?: Witness }
+
+export class ReceivingError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ReceivingError'
+  }
+}
+
+/**
+ * Thrown when posting stops partway through a delivery. The lines received
+ * before the failure are in stock and booked on the order, which is attached.
+ */
+export class PartialReceiptError extends ReceivingError {
+  order: PurchaseOrder
+  drugs: Drug[]
+
+  constructor(message: string, order: PurchaseOrder, drugs: Drug[]) {
+    super(message)
+    this.name = 'PartialReceiptError'
+    this.order = order
+    this.drugs = drugs
+  }
+}
+
+export function createReceiptLine(line: PurchaseOrderLine, quantity = 0): GoodsReceiptLine {
+  return {
+    drugId: line.drugId,
+    drugName: line.drugName,
+    batchNumber: '',
+    expiryDate: '',
+    quantity,
+    damagedQuantity: 0
+  }
+}
+
+const sumFor = (lines: GoodsReceiptLine[], drugId: string, field: 'quantity' | 'damagedQuantity') =>
+  lines.filter(line => line.drugId === drugId).reduce((sum, line) => sum + (line[field] || 0), 0)
+
+/**
+ * Compare a delivery with what is still outstanding on the order. Short lines
+ * stay open on the order; damaged units are not put into stock.
+ */
+export function deliveryIssues(order: PurchaseOrder, lines: GoodsReceiptLine[]): DeliveryIssue[] {
+  const issues: DeliveryIssue[] = []
+
+  for (const orderLine of order.lines) {
+    const outstanding = remainingQuantity(orderLine)
+    const accepted = sumFor(lines, orderLine.drugId, 'quantity')
+    const damaged = sumFor(lines, orderLine.drugId, 'damagedQuantity')
+    const name = orderLine.drugName
+
+    if (accepted < outstanding) {
+      const short = outstanding - accepted
+      issues.push({ drugId: orderLine.drugId, kind: 'short', quantity: short, message: `${name}: ${short} units short` })
+    } else if (accepted > outstanding) {
+      const over = accepted - outstanding
+      issues.push({ drugId: orderLine.drugId, kind: 'over', quantity: over, message: `${name}: ${over} units over the order` })
+    }
+    if (damaged > 0) {
+      issues.push({ drugId: orderLine.drugId, kind: 'damaged', quantity: damaged, message: `${name}: ${damaged} units damaged` })
+    }
+  }
+
+  return issues
+}
+
+/**
+ * Check a delivery before it is posted. Returns a message describing the first problem found.
+ */
+export function validateReceipt(order: PurchaseOrder, lines: GoodsReceiptLine[], asOf: Date = new Date()): string | null {
+  const today = asOf.toISOString().split('T')[0]
+  if (!lines.some(line => line.quantity > 0 || line.damagedQuantity > 0)) {
+    return 'Enter the quantity received for at least one item'
+  }
+
+  for (const line of lines) {
+    if (!order.lines.some(orderLine => orderLine.drugId === line.drugId)) {
+      return `${line.drugName} is not on ${order.reference}`
+    }
+    if (!Number.isInteger(line.quantity) || line.quantity < 0) {
+      return `Received quantity for ${line.drugName} must be a whole number`
+    }
+    if (!Number.isInteger(line.damagedQuantity) || line.damagedQuantity < 0) {
+      return `Damaged quantity for ${line.drugName} must be a whole number`
+    }
+    if (line.quantity === 0) continue
+
+    if (!line.batchNumber.trim()) return `Enter the lot number for ${line.drugName}`
+    if (!line.expiryDate) return `Enter the expiry date for lot ${line.batchNumber} of ${line.drugName}`
+    if (line.expiryDate < today) {
+      return `Lot ${line.batchNumber} of ${line.drugName} has already expired: record it as damaged instead`
+    }
+  }
+
+  return null
+}
+
+/**
+ * Check the accepted lines against the drugs on file, so a problem with any of
+ * them stops the delivery before the first line goes into stock
+ */
+function stockProblem(lines: GoodsReceiptLine[], drugs: Drug[], witness: Witness | undefined, actor: Actor): string | null {
+  for (const line of lines.filter(line => line.quantity > 0)) {
+    const drug = drugs.find(candidate => candidate.id === line.drugId)
+    if (!drug) return `${line.drugName} is no longer in the inventory`
+
+    const witnessProblem = drug.isControlled ? witnessError(witness, actor) : null
+    if (witnessProblem) return `${drug.name} is a controlled drug. ${witnessProblem}.`
+
+    const onShelf = drug.batches.find(batch => batch.batchNumber === line.batchNumber)
+    if (onShelf?.expiryDate && onShelf.expiryDate !== line.expiryDate) {
+      return `Lot ${line.batchNumber} of ${drug.name} is on the shelf with expiry ${onShelf.expiryDate}, not ${line.expiryDate}: check the pack`
+    }
+    if (lines.some(other => other.drugId === line.drugId && other.batchNumber === line.batchNumber && other.expiryDate !== line.expiryDate)) {
+      return `Lot ${line.batchNumber} of ${drug.name} is entered with two different expiry dates`
+    }
+  }
+  return null
+}
+
+/**
+ * Order lines with this delivery's accepted units added to what was already received
+ */
+export function applyReceipt(order: PurchaseOrder, lines: GoodsReceiptLine[]): PurchaseOrderLine[] {
+  return order.lines.map(orderLine => ({
+    ...orderLine,
+    receivedQuantity: (orderLine.receivedQuantity ?? 0) + sumFor(lines, orderLine.drugId, 'quantity')
+  }))
+}
+
+/**
+ * Checks deliveries in against approved purchase orders. Accepted units are
+ * posted to the inventory ledger as 'add' movements; the order stays partially
+ * received until every line is in full.
+ */
+export class GoodsReceiving {
+  private catalogue: DrugCatalogue
+  private orders: Repository<PurchaseOrder>
+  private receipts: Repository<GoodsReceipt>
+
+  constructor(
+    catalogue: DrugCatalogue,
+    orders: Repository<PurchaseOrder> = createRepository('purchaseOrders'),
+    receipts: Repository<GoodsReceipt> = createRepository('goodsReceipts')
+  ) {
+    this.catalogue = catalogue
+    this.orders = orders
+    this.receipts = receipts
+  }
+
+  async receive(
+    orderId: string,
+    delivery: GoodsDelivery,
+    drugs: Drug[],
+    actor: Actor
+  ): Promise<{ order: PurchaseOrder, receipt: GoodsReceipt, drugs: Drug[] }> {
+    requirePermission(actor, 'stock.adjust', 'receive deliveries')
+
+    const order = await this.orders.get(actor.userId, orderId)
+    if (!order) throw new ReceivingError('Purchase order not found')
+    if (!isAwaitingDelivery(order)) {
+      throw new ReceivingError(`${order.reference} is ${PURCHASE_ORDER_STATUS_LABELS[order.status].toLowerCase()} and cannot be received`)
+    }
+
+    const lines = delivery.lines
+      .map(line => ({ ...line, batchNumber: line.batchNumber.trim() }))
+      .filter(line => line.quantity > 0 || line.damagedQuantity > 0)
+    const problem = validateReceipt(order, lines) ?? stockProblem(lines, drugs, delivery.witness, actor)
+    if (problem) throw new ReceivingError(problem)
+
+    const receivedDate = new Date().toISOString().split('T')[0]
+    const updatedDrugs = new Map<string, Drug>()
+    const transactionIds: string[] = []
+    const posted: GoodsReceiptLine[] = []
+
+    try {
+      for (const line of lines.filter(line => line.quantity > 0)) {
+        const drug = updatedDrugs.get(line.drugId) ?? drugs.find(candidate => candidate.id === line.drugId)
+        if (!drug) throw new ReceivingError(`${line.drugName} is no longer in the inventory`)
+
+        const result = await this.catalogue.recordMovement(drug, {
+          type: 'add',
+          quantity: line.quantity,
+          reason: `Received on ${order.reference}`,
+          batchNumber: line.batchNumber,
+          expiryDate: line.expiryDate,
+          receivedDate,
+          supplier: order.supplier,
+          witness: delivery.witness
+        }, actor)
+        updatedDrugs.set(drug.id, result.drug)
+        transactionIds.push(...result.transactions.map(transaction => transaction.id))
+        posted.push(line)
+      }
+    } catch (error) {
+      if (posted.length === 0) throw error
+      // Book what is already in stock so the order no longer asks for it and a retry cannot receive it twice
+      const { order: updatedOrder } = await this.book(order, posted, delivery.notes, transactionIds, actor)
+      const detail = error instanceof Error ? error.message : String(error)
+      throw new PartialReceiptError(
+        `Received ${posted.map(line => `${line.quantity} x ${line.drugName}`).join(', ')} on ${order.reference} before stopping: ${detail}`,
+        updatedOrder,
+        [...updatedDrugs.values()]
+      )
+    }
+
+    const { order: updatedOrder, receipt } = await this.book(order, lines, delivery.notes, transactionIds, actor)
+    return { order: updatedOrder, receipt, drugs: [...updatedDrugs.values()] }
+  }
+
+  /**
+   * Add the received lines to the order and keep a receipt of them
+   */
+  private async book(
+    order: PurchaseOrder,
+    lines: GoodsReceiptLine[],
+    notes: string | undefined,
+    transactionIds: string[],
+    actor: Actor
+  ): Promise<{ order: PurchaseOrder, receipt: GoodsReceipt }> {
+    const orderLines = applyReceipt(order, lines)
+    const now = new Date().toISOString()
+    const updatedOrder = await this.orders.update(actor.userId, order.id, {
+      lines: orderLines,
+      status: orderLines.every(line => remainingQuantity(line) === 0) ? 'received' : 'partially_received',
+      updatedAt: now
+    })
+
+    const receipt = await this.receipts.create({
+      id: createId('receipt'),
+      orderId: order.id,
+      orderReference: order.reference,
+      supplier: order.supplier,
+      lines,
+      discrepancies: deliveryIssues(order, lines).map(issue => issue.message),
+      notes: notes?.trim() || undefined,
+      transactionIds,
+      receivedBy: actor.name,
+      receivedAt: now,
+      userId: actor.userId
+    })
+
+    return { order: updatedOrder, receipt }
+  }
+
+  async history(orderId: string, actor: Actor): Promise<GoodsReceipt[]> {
+    const receipts = await this.receipts.list(actor.userId)
+    return receipts
+      .filter(receipt => receipt.orderId === orderId)
+      .sort((a, b) => b.receivedAt.localeCompare(a.receivedAt))
+  }
+}
@@ -0,0 +1,190 @@
+import { endOfMonth, format, isValid, parse } from 'date-fns'
+
+/**
+ * Data read from a GS1 element string, as printed in DataMatrix codes on medicine packs
+ */
+export interface Gs1Data {
+  gtin?: string
+  lot?: string
+  /** YYYY-MM-DD; a "00" day in the source means the last day of the month */
+  expiryDate?: string
+  serial?: string
+  /** Every application identifier found, keyed by AI */
+  elements: Record<string, string>
+}
+
+export class Gs1ParseError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'Gs1ParseError'
+  }
+}
+
+/** FNC1 in a raw element string: ends a variable-length field */
+export const GROUP_SEPARATOR = '\u001d'
+
+/**
+ * Data length per application identifier. Fixed-length AIs never need a
+ * separator; variable-length ones run to the next GS or the end of the code.
+ */
+const FIXED_LENGTH_AIS: Record<string, number> = {
+  '00': 18, '01': 14, '02': 14,
+  '11': 6, '12': 6, '13': 6, '15': 6, '16': 6, '17': 6,
+  '20': 2
+}
+
+const VARIABLE_LENGTH_AIS: Record<string, number> = {
+  '10': 20, '21': 20, '22': 20,
+  '240': 30, '241': 30, '250': 30, '30': 8, '37': 8,
+  '710': 20, '711': 20, '712': 20, '713': 20, '714': 20
+}
+
+const AI_NAMES: Record<string, string> = {
+  '01': 'GTIN',
+  '10': 'lot',
+  '17': 'expiry date',
+  '21': 'serial number'
+}
+
+/**
+ * GS1 mod-10 check digit for the digits preceding it
+ */
+export function gs1CheckDigit(digits: string): number {
+  const sum = digits
+    .split('')
+    .reverse()
+    .reduce((total, digit, index) => total + Number(digit) * (index % 2 === 0 ? 3 : 1), 0)
+  return (10 - (sum % 10)) % 10
+}
+
+/**
+ * Reject GTINs (8, 12, 13 or 14 digits) whose last digit does not match
+ */
+export function validateGtin(gtin: string): void {
+  if (!/^\d{8}$|^\d{12,14}$/.test(gtin)) {
+    throw new Gs1ParseError(`"${gtin}" is not a valid GTIN: expected 8, 12, 13 or 14 digits`)
+  }
+  const expected = gs1CheckDigit(gtin.slice(0, -1))
+  if (Number(gtin.slice(-1)) !== expected) {
+    throw new Gs1ParseError(`GTIN ${gtin} has an invalid check digit (expected ${expected}, got ${gtin.slice(-1)})`)
+  }
+}
+
+/**
+ * Whether a scanned code looks like a GS1 element string rather than a plain product barcode
+ */
+export function isGs1ElementString(code: string): boolean {
+  return /^\][dCQ]\d/.test(code) ||
+    code.startsWith(GROUP_SEPARATOR) ||
+    /^\(\d{2,4}\)/.test(code) ||
+    /^01\d{14}.+/.test(code)
+}
+
+function describeAi(ai: string): string {
+  return AI_NAMES[ai] ? `(${ai}) ${AI_NAMES[ai]}` : `(${ai})`
+}
+
+function parseExpiry(value: string): string {
+  if (!/^\d{6}$/.test(value)) {
+    throw new Gs1ParseError(`Expiry date "${value}" must be six digits (YYMMDD)`)
+  }
+
+  const monthStart = parse(`20${value.slice(0, 4)}01`, 'yyyyMMdd', new Date())
+  if (!isValid(monthStart)) throw new Gs1ParseError(`Expiry date "${value}" is not a real date`)
+  if (value.slice(4) === '00') return format(endOfMonth(monthStart), 'yyyy-MM-dd')
+
+  const date = parse(`20${value}`, 'yyyyMMdd', new Date())
+  if (!isValid(date)) throw new Gs1ParseError(`Expiry date "${value}" is not a real date`)
+  return format(date, 'yyyy-MM-dd')
+}
+
+function matchAi(code: string, position: number): string {
+  for (const length of [2, 3, 4]) {
+    const ai = code.slice(position, position + length)
+    if (ai in FIXED_LENGTH_AIS || ai in VARIABLE_LENGTH_AIS) return ai
+  }
+  throw new Gs1ParseError(`Unsupported application identifier at "${code.slice(position, position + 4)}"`)
+}
+
+/** Split the human-readable "(01)...(17)..." form into AI/value pairs */
+function parseBracketed(code: string): Array<[string, string]> {
+  const pairs: Array<[string, string]> = []
+  const pattern = /\((\d{2,4})\)([^(]*)/g
+  let match: RegExpExecArray | null
+  while ((match = pattern.exec(code)) !== null) {
+    pairs.push([match[1], match[2]])
+  }
+  return pairs
+}
+
+/** Walk a raw element string, using the AI table to find where each field ends */
+function parseRaw(code: string): Array<[string, string]> {
+  const pairs: Array<[string, string]> = []
+  let position = 0
+
+  while (position < code.length) {
+    if (code[position] === GROUP_SEPARATOR) {
+      position++
+      continue
+    }
+
+    const ai = matchAi(code, position)
+    position += ai.length
+
+    if (ai in FIXED_LENGTH_AIS) {
+      const length = FIXED_LENGTH_AIS[ai]
+      const value = code.slice(position, position + length)
+      if (value.length !== length) {
+        throw new Gs1ParseError(`${describeAi(ai)} is truncated: expected ${length} characters`)
+      }
+      pairs.push([ai, value])
+      position += length
+    } else {
+      const end = code.indexOf(GROUP_SEPARATOR, position)
+      const value = code.slice(position, end === -1 ? undefined : end)
+      pairs.push([ai, value])
+      position += value.length
+    }
+  }
+
+  return pairs
+}
+
+/**
+ * Parse a GS1 element string (raw with FNC1/GS separators, or bracketed)
+ * into GTIN, lot, expiry and serial. Throws Gs1ParseError on malformed data.
+ */
+export function parseGs1(raw: string): Gs1Data {
+  const code = raw.trim().replace(/^\][dCQ]\d/, '')
+  if (!code) throw new Gs1ParseError('The scanned code is empty')
+
+  const pairs = code.startsWith('(') ? parseBracketed(code) : parseRaw(code)
+  if (pairs.length === 0) throw new Gs1ParseError('No GS1 application identifiers found in the scanned code')
+
+  const elements: Record<string, string> = {}
+  for (const [ai, value] of pairs) {
+    const fixedLength = FIXED_LENGTH_AIS[ai]
+    const maxLength = VARIABLE_LENGTH_AIS[ai]
+    if (fixedLength === undefined && maxLength === undefined) {
+      throw new Gs1ParseError(`Unsupported application identifier (${ai})`)
+    }
+    if (!value) throw new Gs1ParseError(`${describeAi(ai)} has no data`)
+    if (fixedLength !== undefined && value.length !== fixedLength) {
+      throw new Gs1ParseError(`${describeAi(ai)} must be exactly ${fixedLength} characters`)
+    }
+    if (maxLength !== undefined && value.length > maxLength) {
+      throw new Gs1ParseError(`${describeAi(ai)} is too long: at most ${maxLength} characters allowed`)
+    }
+    elements[ai] = value
+  }
+
+  if (elements['01']) validateGtin(elements['01'])
+
+  return {
+    gtin: elements['01'],
+    lot: elements['10'],
+    expiryDate: elements['17'] ? parseExpiry(elements['17']) : undefined,
+    serial: elements['21'],
+    elements
+  }
+}
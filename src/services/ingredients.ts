@@ -0,0 +1,95 @@
+import { ActiveIngredient, Drug } from '../types/pharmacy'
+import { formatStrengthComponent, parseStrength } from './strength'
+
+const NAME_SEPARATOR = /\s*(?:\+|\/|&|,|\band\b|\bwith\b)\s*/i
+
+export function ingredientKey(name: string): string {
+  return name.trim().toLowerCase().replace(/\s+/g, ' ')
+}
+
+export function splitIngredientNames(activeMolecule: string): string[] {
+  return activeMolecule.split(NAME_SEPARATOR).map(name => name.trim()).filter(Boolean)
+}
+
+/**
+ * A drug's active ingredients. Drugs saved before ingredients were recorded
+ * are read from activeMolecule ("A + B") and dosage ("500mg/125mg").
+ */
+export function drugIngredients(drug: Pick<Drug, 'activeMolecule' | 'dosage' | 'ingredients'>): ActiveIngredient[] {
+  if (drug.ingredients && drug.ingredients.length > 0) return drug.ingredients
+
+  const names = splitIngredientNames(drug.activeMolecule)
+  if (names.length <= 1) return [{ name: drug.activeMolecule.trim(), strength: drug.dosage.trim() }]
+
+  const strength = parseStrength(drug.dosage)
+  return names.map((name, index) => ({
+    name,
+    strength: strength?.components.length === names.length ? formatStrengthComponent(strength.components[index]) : ''
+  }))
+}
+
+/**
+ * Ingredients in a stable order so two products can be compared component by component
+ */
+export function sortIngredients(ingredients: ActiveIngredient[]): ActiveIngredient[] {
+  return [...ingredients].sort((a, b) => ingredientKey(a.name).localeCompare(ingredientKey(b.name)))
+}
+
+export function ingredientSetKey(ingredients: ActiveIngredient[]): string {
+  return sortIngredients(ingredients).map(ingredient => ingredientKey(ingredient.name)).join(' + ')
+}
+
+/**
+ * All ingredient strengths as one string in sorted ingredient order, e.g. "500mg + 125mg"
+ */
+export function combinedStrength(ingredients: ActiveIngredient[]): string {
+  return sortIngredients(ingredients).map(ingredient => ingredient.strength).join(' + ')
+}
+
+export interface IngredientOverlap {
+  shared: string[]
+  /** In the target but not the candidate */
+  missing: string[]
+  /** In the candidate but not the target */
+  extra: string[]
+}
+
+export function compareIngredients(target: ActiveIngredient[], candidate: ActiveIngredient[]): IngredientOverlap {
+  const candidateKeys = new Set(candidate.map(ingredient => ingredientKey(ingredient.name)))
+  const targetKeys = new Set(target.map(ingredient => ingredientKey(ingredient.name)))
+
+  return {
+    shared: target.filter(ingredient => candidateKeys.has(ingredientKey(ingredient.name))).map(ingredient => ingredient.name),
+    missing: target.filter(ingredient => !candidateKeys.has(ingredientKey(ingredient.name))).map(ingredient => ingredient.name),
+    extra: candidate.filter(ingredient => !targetKeys.has(ingredientKey(ingredient.name))).map(ingredient => ingredient.name)
+  }
+}
+
+/**
+ * The activeMolecule and dosage summary fields for a list of ingredients
+ */
+export function summariseIngredients(ingredients: ActiveIngredient[]): Pick<Drug, 'activeMolecule' | 'dosage'> {
+  return {
+    activeMolecule: ingredients.map(ingredient => ingredient.name.trim()).join(' + '),
+    dosage: ingredients.map(ingredient => ingredient.strength.trim()).join('/')
+  }
+}
+
+/**
+ * Check an edited ingredient list. Returns a message describing the first problem found.
+ */
+export function validateIngredients(ingredients: ActiveIngredient[]): string | null {
+  if (ingredients.length === 0) return 'Add at least one active ingredient'
+
+  for (const ingredient of ingredients) {
+    if (!ingredient.name.trim() || !ingredient.strength.trim()) {
+      return 'Every active ingredient needs a name and a strength'
+    }
+  }
+
+  const keys = ingredients.map(ingredient => ingredientKey(ingredient.name))
+  const duplicate = keys.find((key, index) => keys.indexOf(key) !== index)
+  if (duplicate) return `${duplicate} is listed more than once`
+
+  return null
+}
@@ -0,0 +1,192 @@
+import { Drug, DrugInteraction, InteractionSeverity, SubstitutionSuggestion } from '../types/pharmacy'
+import { bundledInteractions } from '../data/interactionTable'
+import { createId } from '../lib/utils'
+import { createRepository, Repository } from './repository'
+import { Actor, requirePermission } from './permissions'
+import { drugIngredients, ingredientKey } from './ingredients'
+
+export const INTERACTION_SEVERITIES: InteractionSeverity[] = ['contraindicated', 'major', 'moderate', 'minor']
+
+/** Severities the pharmacist must confirm before supplying */
+export const ACKNOWLEDGED_SEVERITIES: InteractionSeverity[] = ['contraindicated', 'major', 'moderate']
+
+/** An interaction found between two items being supplied together */
+export interface InteractionAlert {
+  interaction: DrugInteraction
+  drug: Drug
+  otherDrug: Drug
+}
+
+export class InteractionTableError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'InteractionTableError'
+  }
+}
+
+const pairKey = (a: string, b: string) => [ingredientKey(a), ingredientKey(b)].sort().join('|')
+
+/**
+ * Whether an ingredient is the molecule named in the table, allowing for
+ * salts: "Metformin HCl" and "Codeine Phosphate" match "Metformin" and "Codeine"
+ */
+export function moleculeMatches(ingredientName: string, molecule: string): boolean {
+  const ingredient = ingredientKey(ingredientName)
+  const key = ingredientKey(molecule)
+  return ingredient === key || ingredient.startsWith(`${key} `)
+}
+
+/**
+ * Read an interaction table exported as JSON: an array of objects with
+ * moleculeA, moleculeB, severity, mechanism and advice
+ */
+export function parseInteractionTable(text: string, userId: string): DrugInteraction[] {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(text)
+  } catch {
+    throw new InteractionTableError('The interaction table is not valid JSON')
+  }
+  if (!Array.isArray(parsed)) throw new InteractionTableError('The interaction table must be a JSON array')
+
+  return parsed.map((entry, index) => {
+    const row = `Row ${index + 1}`
+    if (typeof entry !== 'object' || entry === null) throw new InteractionTableError(`${row} is not an object`)
+
+    const { moleculeA, moleculeB, severity, mechanism, advice } = entry as Record<string, unknown>
+    if (typeof moleculeA !== 'string' || !moleculeA.trim() || typeof moleculeB !== 'string' || !moleculeB.trim()) {
+      throw new InteractionTableError(`${row} needs moleculeA and moleculeB`)
+    }
+    if (ingredientKey(moleculeA) === ingredientKey(moleculeB)) {
+      throw new InteractionTableError(`${row} pairs ${moleculeA} with itself`)
+    }
+    if (typeof severity !== 'string' || !INTERACTION_SEVERITIES.includes(severity as InteractionSeverity)) {
+      throw new InteractionTableError(`${row} severity must be one of ${INTERACTION_SEVERITIES.join(', ')}`)
+    }
+
+    return {
+      id: createId('interaction'),
+      moleculeA: moleculeA.trim(),
+      moleculeB: moleculeB.trim(),
+      severity: severity as InteractionSeverity,
+      mechanism: typeof mechanism === 'string' ? mechanism.trim() : '',
+      advice: typeof advice === 'string' ? advice.trim() : '',
+      userId
+    }
+  })
+}
+
+/**
+ * The bundled table with the pharmacy's own entries layered on top:
+ * a custom entry replaces the bundled one for the same pair
+ */
+export function mergeInteractionTables(bundled: DrugInteraction[], custom: DrugInteraction[]): DrugInteraction[] {
+  const byPair = new Map<string, DrugInteraction>()
+  bundled.forEach(entry => byPair.set(pairKey(entry.moleculeA, entry.moleculeB), entry))
+  custom.forEach(entry => byPair.set(pairKey(entry.moleculeA, entry.moleculeB), entry))
+  return [...byPair.values()]
+}
+
+function interactionsBetween(drug: Drug, otherDrug: Drug, table: DrugInteraction[]): InteractionAlert[] {
+  const names = drugIngredients(drug).map(ingredient => ingredient.name)
+  const otherNames = drugIngredients(otherDrug).map(ingredient => ingredient.name)
+  const involves = (molecule: string, candidates: string[]) => candidates.some(name => moleculeMatches(name, molecule))
+
+  return table
+    .filter(entry =>
+      (involves(entry.moleculeA, names) && involves(entry.moleculeB, otherNames)) ||
+      (involves(entry.moleculeB, names) && involves(entry.moleculeA, otherNames))
+    )
+    .map(interaction => ({ interaction, drug, otherDrug }))
+}
+
+const bySeverity = (a: InteractionAlert, b: InteractionAlert) =>
+  INTERACTION_SEVERITIES.indexOf(a.interaction.severity) - INTERACTION_SEVERITIES.indexOf(b.interaction.severity)
+
+/**
+ * Every interaction between one drug and the other items supplied with it, most severe first
+ */
+export function findInteractionsWith(drug: Drug, others: Drug[], table: DrugInteraction[]): InteractionAlert[] {
+  return others
+    .filter(other => other.id !== drug.id)
+    .flatMap(other => interactionsBetween(drug, other, table))
+    .sort(bySeverity)
+}
+
+/**
+ * Every interaction between any two items in a basket, most severe first
+ */
+export function findBasketInteractions(drugs: Drug[], table: DrugInteraction[]): InteractionAlert[] {
+  return drugs
+    .flatMap((drug, index) => drugs.slice(index + 1).flatMap(other => interactionsBetween(drug, other, table)))
+    .sort(bySeverity)
+}
+
+export function describeInteraction(alert: InteractionAlert): string {
+  const { interaction, drug, otherDrug } = alert
+  const severity = interaction.severity.charAt(0).toUpperCase() + interaction.severity.slice(1)
+  return `${severity} interaction: ${drug.name} + ${otherDrug.name} (${interaction.moleculeA} / ${interaction.moleculeB}). ${interaction.advice}`.trim()
+}
+
+/**
+ * The interaction warnings the pharmacist must confirm before supplying
+ */
+export function interactionAcknowledgements(alerts: InteractionAlert[]): string[] {
+  return alerts
+    .filter(alert => ACKNOWLEDGED_SEVERITIES.includes(alert.interaction.severity))
+    .map(describeInteraction)
+}
+
+/**
+ * A substitute with its interactions against the rest of the prescription added
+ * to its warnings, so they are confirmed and logged like any other warning
+ */
+export function withInteractionWarnings(suggestion: SubstitutionSuggestion, alerts: InteractionAlert[]): SubstitutionSuggestion {
+  const warnings = interactionAcknowledgements(alerts)
+  if (warnings.length === 0) return suggestion
+  return { ...suggestion, warnings: [...(suggestion.warnings ?? []), ...warnings] }
+}
+
+/**
+ * The interaction table used for checks: the bundled table plus any table the
+ * pharmacy has loaded. Anyone can read it; loading a table needs rules.manage.
+ */
+export class InteractionTable {
+  private custom: Repository<DrugInteraction>
+
+  constructor(custom: Repository<DrugInteraction> = createRepository('interactions')) {
+    this.custom = custom
+  }
+
+  async list(actor: Actor): Promise<{ interactions: DrugInteraction[], customCount: number }> {
+    const custom = await this.custom.list(actor.userId)
+    return { interactions: mergeInteractionTables(bundledInteractions, custom), customCount: custom.length }
+  }
+
+  /**
+   * Replace the pharmacy's custom entries with the table in the given JSON text.
+   * The whole file is checked and the new entries saved before the old ones are
+   * removed, so a failed load never leaves screening without a table.
+   */
+  async load(text: string, actor: Actor): Promise<DrugInteraction[]> {
+    requirePermission(actor, 'rules.manage')
+
+    const entries = parseInteractionTable(text, actor.userId)
+    const existing = await this.custom.list(actor.userId)
+    const created = await this.custom.createMany(entries)
+    await this.remove(existing, actor)
+    return created
+  }
+
+  async clear(actor: Actor): Promise<void> {
+    requirePermission(actor, 'rules.manage')
+
+    await this.remove(await this.custom.list(actor.userId), actor)
+  }
+
+  private async remove(entries: DrugInteraction[], actor: Actor) {
+    for (const entry of entries) {
+      await this.custom.delete(actor.userId, entry.id)
+    }
+  }
+}
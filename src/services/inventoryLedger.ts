@@ -0,0 +1,354 @@
+import { ControlledRegisterEntry, Drug, InventoryTransaction, StockBatch, TransactionType, Witness } from '../types/pharmacy'
+import { createId } from '../lib/utils'
+import { DrugRepository } from './drugRepository'
+import { createRepository, Repository } from './repository'
+import { Actor, permissionsForMovement, requirePermission } from './permissions'
+import { ControlledDrugRegister, witnessError } from './controlledRegister'
+import {
+  allocateFefo,
+  BatchAllocation,
+  batchState,
+  OPENING_BALANCE_BATCH,
+  sellableQuantity,
+  sortByExpiry,
+  STOCK_STATE_LABELS,
+  sumBatchQuantities
+} from './stockBatches'
+
+export interface StockMovement {
+  type: TransactionType
+  quantity: number // units moved; only 'adjust' may be negative
+  reason: string
+  batchNumber?: string
+  expiryDate?: string
+  receivedDate?: string
+  supplier?: string
+  /** Required for controlled drugs, which are also written to the controlled-drugs register */
+  witness?: Witness
+  prescriber?: string
+  prescriptionRef?: string
+  patientRef?: string
+}
+
+export class LedgerError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'LedgerError'
+  }
+}
+
+const OUTBOUND_TYPES: TransactionType[] = ['remove', 'dispense', 'expire', 'recall', 'destroy']
+
+export const TRANSACTION_LABELS: Record<TransactionType, string> = {
+  add: 'Stock added',
+  remove: 'Stock removed',
+  adjust: 'Adjustment',
+  dispense: 'Dispensed',
+  expire: 'Expired',
+  recall: 'Recalled',
+  destroy: 'Destroyed'
+}
+
+/**
+ * Convert a movement quantity into the signed change it makes to stock
+ */
+export function signedQuantity(type: TransactionType, quantity: number): number {
+  if (type === 'adjust') return quantity
+  return OUTBOUND_TYPES.includes(type) ? -Math.abs(quantity) : Math.abs(quantity)
+}
+
+/**
+ * Stock on hand is the sum of every change ever recorded in the ledger
+ */
+export function deriveStockLevel(transactions: InventoryTransaction[]): number {
+  return transactions.reduce((sum, transaction) => sum + transaction.quantity, 0)
+}
+
+const sameBatches = (a: StockBatch[], b: StockBatch[] | undefined) => JSON.stringify(a) === JSON.stringify(b ?? [])
+
+const isUnflaggedOpeningBalance = (batch: StockBatch) =>
+  batch.batchNumber === OPENING_BALANCE_BATCH && !batch.expiryDate && !batch.openingBalance
+
+/**
+ * Append-only ledger of stock movements. Every change to Drug.stockLevel must go
+ * through here so the count can always be explained by its transactions.
+ * Movements of controlled drugs need a witness and are copied to the register.
+ */
+export class InventoryLedger {
+  private transactions: Repository<InventoryTransaction>
+  private drugs: DrugRepository
+  private register: ControlledDrugRegister
+
+  constructor(
+    drugs: DrugRepository,
+    transactions: Repository<InventoryTransaction> = createRepository('transactions'),
+    register: ControlledDrugRegister = new ControlledDrugRegister()
+  ) {
+    this.drugs = drugs
+    this.transactions = transactions
+    this.register = register
+  }
+
+  /**
+   * Transactions for a single drug, newest first
+   */
+  async history(userId: string, drugId: string): Promise<InventoryTransaction[]> {
+    const all = await this.transactions.list(userId)
+    return all
+      .filter(transaction => transaction.drugId === drugId)
+      .sort((a, b) => b.timestamp.localeCompare(a.timestamp))
+  }
+
+  /**
+   * Record a stock movement against the drug's batches and update its stock level.
+   * Outflows without a batch number are taken first-expiry-first-out, so one
+   * movement may produce several transactions (one per batch touched).
+   */
+  async record(drug: Drug, movement: StockMovement, actor: Actor): Promise<{ drug: Drug, transactions: InventoryTransaction[] }> {
+    const reason = movement.reason.trim()
+    if (!reason) {
+      throw new LedgerError('A reason is required for every stock change')
+    }
+
+    if (!Number.isInteger(movement.quantity) || movement.quantity === 0) {
+      throw new LedgerError('Quantity must be a non-zero whole number')
+    }
+
+    const current = await this.drugs.get(actor.userId, drug.id)
+    if (!current) {
+      throw new LedgerError(`${drug.name} is not in the inventory`)
+    }
+
+    permissionsForMovement(current, movement.type).forEach(permission => {
+      requirePermission(actor, permission, `${movement.type} stock of ${current.name}`)
+    })
+
+    if (current.isControlled) {
+      const problem = witnessError(movement.witness, actor)
+      if (problem) throw new LedgerError(`${current.name} is a controlled drug. ${problem}.`)
+    }
+
+    const batches = (current.batches ?? []).map(batch => ({ ...batch }))
+    const change = signedQuantity(movement.type, movement.quantity)
+    const allocations = change > 0
+      ? [this.allocateInflow(current, batches, movement, change)]
+      : this.allocateOutflow(current, batches, movement, -change)
+
+    const timestamp = new Date().toISOString()
+    let runningStock = current.stockLevel
+    const transactions: InventoryTransaction[] = allocations.map(({ batch, quantity }) => {
+      const previousStock = runningStock
+      runningStock += quantity
+      batch.quantity += quantity
+
+      return {
+        id: createId('txn'),
+        drugId: current.id,
+        type: movement.type,
+        quantity,
+        previousStock,
+        newStock: runningStock,
+        reason,
+        batchNumber: batch.batchNumber,
+        expiryDate: batch.expiryDate || undefined,
+        userId: actor.userId,
+        userRole: actor.userRole,
+        performedBy: actor.name,
+        timestamp
+      }
+    })
+
+    await this.transactions.createMany(transactions)
+
+    // The drug is written last, so stock only changes once its ledger rows and
+    // register entry are saved; if any write fails the earlier ones are undone
+    let entry: ControlledRegisterEntry | undefined
+    try {
+      if (current.isControlled) {
+        entry = await this.register.append(current, movement.type, transactions, {
+          reason,
+          witness: movement.witness,
+          supplier: movement.supplier,
+          prescriber: movement.prescriber,
+          prescriptionRef: movement.prescriptionRef,
+          patientRef: movement.patientRef
+        }, actor)
+      }
+
+      const remaining = batches.filter(batch => batch.quantity > 0)
+      const updated = await this.drugs.update(actor.userId, current.id, {
+        batches: remaining,
+        stockLevel: sumBatchQuantities(remaining),
+        updatedAt: timestamp
+      })
+
+      return { drug: updated, transactions: transactions.map(transaction => Object.freeze(transaction)) }
+    } catch (error) {
+      await this.rollBack(transactions, entry, actor)
+      throw error
+    }
+  }
+
+  /**
+   * Remove the rows of a movement that failed to post. They never took effect
+   * on stock, so the ledger still only records movements that happened; the
+   * register keeps its entry and gains one reversing it.
+   */
+  private async rollBack(transactions: InventoryTransaction[], entry: ControlledRegisterEntry | undefined, actor: Actor) {
+    await Promise.allSettled([
+      ...transactions.map(transaction => this.transactions.delete(actor.userId, transaction.id)),
+      ...(entry ? [this.register.reverse(entry, actor)] : [])
+    ])
+  }
+
+  /**
+   * Bring cached stock levels in line with the batches on the shelf. Drugs that
+   * predate the ledger get opening-balance transactions for their current
+   * batches; drugs whose ledger adds up to a different total are returned with
+   * the difference in ledgerVariance rather than a stock level that disagrees
+   * with their batches.
+   */
+  async reconcile(drugs: Drug[], actor: Actor): Promise<Drug[]> {
+    const transactions = await this.transactions.list(actor.userId)
+    const byDrug = new Map<string, InventoryTransaction[]>()
+    transactions.forEach(transaction => {
+      const list = byDrug.get(transaction.drugId) ?? []
+      list.push(transaction)
+      byDrug.set(transaction.drugId, list)
+    })
+
+    const now = new Date().toISOString()
+    const openingBalances: InventoryTransaction[] = []
+
+    const reconciled = drugs.map(drug => {
+      const batches = this.coverUnbatchedStock(drug, now)
+      const drugTransactions = byDrug.get(drug.id)
+
+      if (!drugTransactions) {
+        let runningStock = 0
+        batches.filter(batch => batch.quantity > 0).forEach(batch => {
+          openingBalances.push({
+            id: createId('txn'),
+            drugId: drug.id,
+            type: 'add',
+            quantity: batch.quantity,
+            previousStock: runningStock,
+            newStock: runningStock + batch.quantity,
+            reason: 'Opening balance',
+            batchNumber: batch.batchNumber,
+            expiryDate: batch.expiryDate || undefined,
+            userId: actor.userId,
+            userRole: actor.userRole,
+            performedBy: actor.name,
+            timestamp: now
+          })
+          runningStock += batch.quantity
+        })
+      }
+
+      const stockLevel = sumBatchQuantities(batches)
+      const ledgerVariance = drugTransactions ? deriveStockLevel(drugTransactions) - stockLevel : 0
+      return { drug, batches, stockLevel, ledgerVariance }
+    })
+
+    await this.transactions.createMany(openingBalances)
+
+    return Promise.all(reconciled.map(async ({ drug, batches, stockLevel, ledgerVariance }) => {
+      const saved = stockLevel === drug.stockLevel && sameBatches(batches, drug.batches)
+        ? drug
+        : await this.drugs.update(actor.userId, drug.id, { stockLevel, batches })
+      return ledgerVariance ? { ...saved, ledgerVariance } : saved
+    }))
+  }
+
+  private allocateInflow(drug: Drug, batches: StockBatch[], movement: StockMovement, quantity: number): BatchAllocation {
+    if (!movement.batchNumber) {
+      // Count corrections without a lot go to the longest-dated batch on the shelf
+      const latest = sortByExpiry(batches.filter(batch => !batch.openingBalance)).pop() ?? batches.find(batch => batch.openingBalance)
+      if (movement.type === 'adjust' && latest) return { batch: latest, quantity }
+      throw new LedgerError('A batch number is required when adding stock')
+    }
+
+    const existing = batches.find(batch => batch.batchNumber === movement.batchNumber)
+    if (existing) {
+      // The same lot cannot have two expiry dates: one of them was misread
+      if (movement.expiryDate && existing.expiryDate && movement.expiryDate !== existing.expiryDate) {
+        throw new LedgerError(
+          `Batch ${existing.batchNumber} of ${drug.name} is on the shelf with expiry ${existing.expiryDate}, not ${movement.expiryDate}: check the pack`
+        )
+      }
+      if (movement.expiryDate && !existing.expiryDate) existing.expiryDate = movement.expiryDate
+      return { batch: existing, quantity }
+    }
+
+    if (!movement.expiryDate) {
+      throw new LedgerError(`An expiry date is required for new batch ${movement.batchNumber}`)
+    }
+
+    const batch: StockBatch = {
+      id: createId('batch'),
+      batchNumber: movement.batchNumber,
+      expiryDate: movement.expiryDate,
+      quantity: 0,
+      receivedDate: movement.receivedDate ?? new Date().toISOString().split('T')[0],
+      supplier: movement.supplier
+    }
+    batches.push(batch)
+    return { batch, quantity }
+  }
+
+  private allocateOutflow(drug: Drug, batches: StockBatch[], movement: StockMovement, quantity: number): BatchAllocation[] {
+    const sellableOnly = movement.type === 'dispense'
+
+    if (movement.batchNumber) {
+      const batch = batches.find(existing => existing.batchNumber === movement.batchNumber)
+      if (!batch) {
+        throw new LedgerError(`Batch ${movement.batchNumber} of ${drug.name} is not in stock`)
+      }
+      const state = batchState(batch)
+      if (sellableOnly && state !== 'sellable') {
+        throw new LedgerError(`Batch ${batch.batchNumber} of ${drug.name} is ${STOCK_STATE_LABELS[state].toLowerCase()} and cannot be dispensed`)
+      }
+      if (batch.quantity < quantity) {
+        throw new LedgerError(`Only ${batch.quantity} units left in batch ${batch.batchNumber} of ${drug.name}`)
+      }
+      return [{ batch, quantity: -quantity }]
+    }
+
+    const allocations = allocateFefo(batches, quantity, { sellableOnly })
+    if (!allocations) {
+      const available = sellableOnly ? sellableQuantity(batches) : sumBatchQuantities(batches)
+      throw new LedgerError(`Only ${available} ${sellableOnly ? 'sellable ' : ''}units of ${drug.name} in stock`)
+    }
+    return allocations.map(allocation => ({ batch: allocation.batch, quantity: -allocation.quantity }))
+  }
+
+  /**
+   * Records saved before batches existed only have a stock count; park that
+   * count in an opening-balance batch so it can still be moved through the
+   * ledger. Returns the drug's own batch list when nothing needs saving.
+   */
+  private coverUnbatchedStock(drug: Drug, now: string): StockBatch[] {
+    const saved = drug.batches ?? []
+    // Opening balances saved before the batch was flagged
+    const batches = saved.some(isUnflaggedOpeningBalance)
+      ? saved.map(batch => isUnflaggedOpeningBalance(batch) ? { ...batch, openingBalance: true } : batch)
+      : saved
+    const unbatched = drug.stockLevel - sumBatchQuantities(batches)
+    if (unbatched <= 0) return batches
+
+    const opening = batches.find(batch => batch.openingBalance)
+    if (opening) {
+      return batches.map(batch => batch === opening ? { ...batch, quantity: batch.quantity + unbatched } : batch)
+    }
+
+    return [...batches, {
+      id: createId('batch'),
+      batchNumber: OPENING_BALANCE_BATCH,
+      expiryDate: '',
+      quantity: unbatched,
+      receivedDate: now.split('T')[0],
+      openingBalance: true
+    }]
+  }
+}
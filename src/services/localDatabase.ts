@@ -0,0 +1,40 @@
+const DB_NAME = 'pharmacy-inventory'
+const DB_VERSION = 14
+
+/**
+ * Object stores kept in the local database. Every store holds records owned by a
+ * user and is keyed by [userId, id] so several accounts can share one browser.
+ */
+export const STORE_NAMES = ['drugs', 'transactions', 'staff', 'rules', 'dispenses', 'substitutions', 'interactions', 'patients', 'purchaseOrders', 'goodsReceipts', 'suppliers', 'controlledRegister', 'stockTakes', 'recalls'] as const
+
+export type StoreName = typeof STORE_NAMES[number]
+
+let databasePromise: Promise<IDBDatabase> | null = null
+
+/**
+ * Open (and upgrade if needed) the local IndexedDB database
+ */
+export function openLocalDatabase(): Promise<IDBDatabase> {
+  if (databasePromise) return databasePromise
+
+  databasePromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+
+    request.onupgradeneeded = () => {
+      const db = request.result
+      STORE_NAMES.forEach(storeName => {
+        if (db.objectStoreNames.contains(storeName)) return
+        const store = db.createObjectStore(storeName, { keyPath: ['userId', 'id'] })
+        store.createIndex('userId', 'userId', { unique: false })
+      })
+    }
+
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => {
+      databasePromise = null
+      reject(request.error)
+    }
+  })
+
+  return databasePromise
+}
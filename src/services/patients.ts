@@ -0,0 +1,87 @@
+import { PatientProfile } from '../types/pharmacy'
+import { createId } from '../lib/utils'
+import { createRepository, Repository } from './repository'
+import { Actor, requirePermission } from './permissions'
+
+export type PatientDraft = Pick<PatientProfile, 'reference' | 'name' | 'dateOfBirth' | 'allergies' | 'conditions' | 'notes'>
+
+const cleanTags = (tags: string[]) => [...new Set(tags.map(tag => tag.trim()).filter(Boolean))]
+
+/**
+ * Check a patient profile before it is saved. Returns a message describing the first problem found.
+ */
+export function validatePatient(draft: PatientDraft, existing: PatientProfile[] = [], id?: string): string | null {
+  if (!draft.name.trim()) return 'Enter the patient name'
+  if (!draft.reference.trim()) return 'Enter the patient reference used on prescriptions'
+
+  const reference = draft.reference.trim().toLowerCase()
+  if (existing.some(patient => patient.id !== id && patient.reference.toLowerCase() === reference)) {
+    return `Another patient already has reference ${draft.reference.trim()}`
+  }
+  return null
+}
+
+export function findPatientByReference(patients: PatientProfile[], reference: string | undefined): PatientProfile | undefined {
+  const key = reference?.trim().toLowerCase()
+  return key ? patients.find(patient => patient.reference.toLowerCase() === key) : undefined
+}
+
+/**
+ * Patient profiles screened at the point of supply. Creating or changing a
+ * profile needs dispense.prescription, the same staff who record patient refs.
+ */
+export class PatientRegistry {
+  private patients: Repository<PatientProfile>
+
+  constructor(patients: Repository<PatientProfile> = createRepository('patients')) {
+    this.patients = patients
+  }
+
+  async list(actor: Actor): Promise<PatientProfile[]> {
+    const patients = await this.patients.list(actor.userId)
+    return patients.sort((a, b) => a.name.localeCompare(b.name))
+  }
+
+  async create(draft: PatientDraft, actor: Actor): Promise<PatientProfile> {
+    requirePermission(actor, 'dispense.prescription')
+
+    const problem = validatePatient(draft, await this.patients.list(actor.userId))
+    if (problem) throw new Error(problem)
+
+    const now = new Date().toISOString()
+    return this.patients.create({
+      id: createId('patient'),
+      reference: draft.reference.trim(),
+      name: draft.name.trim(),
+      dateOfBirth: draft.dateOfBirth || undefined,
+      allergies: cleanTags(draft.allergies),
+      conditions: cleanTags(draft.conditions),
+      notes: draft.notes?.trim() || undefined,
+      createdAt: now,
+      updatedAt: now,
+      userId: actor.userId
+    })
+  }
+
+  async update(id: string, draft: PatientDraft, actor: Actor): Promise<PatientProfile> {
+    requirePermission(actor, 'dispense.prescription')
+
+    const problem = validatePatient(draft, await this.patients.list(actor.userId), id)
+    if (problem) throw new Error(problem)
+
+    return this.patients.update(actor.userId, id, {
+      reference: draft.reference.trim(),
+      name: draft.name.trim(),
+      dateOfBirth: draft.dateOfBirth || undefined,
+      allergies: cleanTags(draft.allergies),
+      conditions: cleanTags(draft.conditions),
+      notes: draft.notes?.trim() || undefined,
+      updatedAt: new Date().toISOString()
+    })
+  }
+
+  async delete(id: string, actor: Actor): Promise<void> {
+    requirePermission(actor, 'dispense.prescription')
+    await this.patients.delete(actor.userId, id)
+  }
+}
@@ -0,0 +1,131 @@
+import { Drug, PharmacyUser, TransactionType, UserRole } from '../types/pharmacy'
+
+export type Permission =
+  | 'drug.create'
+  | 'drug.edit'
+  | 'drug.edit.price'
+  | 'stock.adjust'
+  | 'stock.count'
+  | 'dispense.otc'
+  | 'dispense.prescription'
+  | 'controlled.dispense'
+  | 'controlled.manage'
+  | 'rules.manage'
+  | 'orders.manage'
+  | 'orders.approve'
+  | 'users.manage'
+
+export const PERMISSION_LABELS: Record<Permission, string> = {
+  'drug.create': 'Add drugs to the catalogue',
+  'drug.edit': 'Edit drug details',
+  'drug.edit.price': 'Change prices',
+  'stock.adjust': 'Receive, adjust and write off stock',
+  'stock.count': 'Count stock for stock-takes',
+  'dispense.otc': 'Dispense over-the-counter items',
+  'dispense.prescription': 'Dispense prescription items',
+  'controlled.dispense': 'Dispense controlled substances',
+  'controlled.manage': 'Edit controlled substances and their stock',
+  'rules.manage': 'Manage substitution rules and interaction tables',
+  'orders.manage': 'Manage suppliers and draft purchase orders',
+  'orders.approve': 'Approve purchase orders',
+  'users.manage': 'Manage staff and roles'
+}
+
+export const ALL_PERMISSIONS = Object.keys(PERMISSION_LABELS) as Permission[]
+
+export const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  admin: ALL_PERMISSIONS,
+  pharmacist: ALL_PERMISSIONS.filter(permission => permission !== 'users.manage'),
+  assistant: ['dispense.otc', 'stock.count']
+}
+
+/**
+ * The person performing an action: their staff profile plus the pharmacy
+ * account (userId) that owns the data they are working on.
+ */
+export interface Actor {
+  userId: string
+  staffId: string
+  userRole: UserRole
+  name: string
+  permissions: string[]
+}
+
+export class PermissionError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'PermissionError'
+  }
+}
+
+/**
+ * A staff member's permissions: those of their role, with the grants and
+ * revocations made on their profile. Worked out from the role table each time,
+ * so permissions added to a role reach staff created before them.
+ */
+export function staffPermissions(member: PharmacyUser): Permission[] {
+  const granted = member.grantedPermissions ?? []
+  const revoked = member.revokedPermissions ?? []
+  return ALL_PERMISSIONS.filter(permission =>
+    (ROLE_PERMISSIONS[member.role].includes(permission) || granted.includes(permission)) && !revoked.includes(permission)
+  )
+}
+
+/**
+ * The grants and revocations that give someone in the role exactly these permissions
+ */
+export function permissionOverrides(role: UserRole, permissions: string[]): { grantedPermissions: string[], revokedPermissions: Permission[] } {
+  return {
+    grantedPermissions: permissions.filter(permission => !ROLE_PERMISSIONS[role].some(rolePermission => rolePermission === permission)),
+    revokedPermissions: ROLE_PERMISSIONS[role].filter(permission => !permissions.includes(permission))
+  }
+}
+
+export function actorFromStaff(member: PharmacyUser): Actor {
+  return {
+    userId: member.userId,
+    staffId: member.id,
+    userRole: member.role,
+    name: member.name,
+    permissions: member.isActive ? staffPermissions(member) : []
+  }
+}
+
+export function hasPermission(actor: Actor | null, permission: Permission): boolean {
+  return !!actor && actor.permissions.includes(permission)
+}
+
+export function requirePermission(actor: Actor | null, permission: Permission, action?: string) {
+  if (!hasPermission(actor, permission)) {
+    throw new PermissionError(
+      `${actor?.name ?? 'You'} (${actor?.userRole ?? 'signed out'}) cannot ${action ?? PERMISSION_LABELS[permission].toLowerCase()}`
+    )
+  }
+}
+
+/**
+ * Permissions needed to move stock of a drug in the given way
+ */
+export function permissionsForMovement(drug: Drug, type: TransactionType): Permission[] {
+  if (type === 'dispense') {
+    const permissions: Permission[] = [drug.requiresPrescription ? 'dispense.prescription' : 'dispense.otc']
+    if (drug.isControlled) permissions.push('controlled.dispense')
+    return permissions
+  }
+
+  return drug.isControlled ? ['stock.adjust', 'controlled.manage'] : ['stock.adjust']
+}
+
+/**
+ * Whether the actor may open the edit form for a drug at all
+ */
+export function canEditDrug(actor: Actor | null, drug: Drug): boolean {
+  return hasPermission(actor, 'drug.edit') && (!drug.isControlled || hasPermission(actor, 'controlled.manage'))
+}
+
+/**
+ * Whether the actor may hand out the drug, given its legal category
+ */
+export function canDispense(actor: Actor | null, drug: Drug): boolean {
+  return permissionsForMovement(drug, 'dispense').every(permission => hasPermission(actor, permission))
+}
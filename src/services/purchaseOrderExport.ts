@@ -0,0 +1,109 @@
+import { format } from 'date-fns'
+import { PurchaseOrder } from '../types/pharmacy'
+import { lineTotal, purchaseOrderTotal, PURCHASE_ORDER_STATUS_LABELS } from './purchaseOrders'
+
+const escapeHtml = (value: string) => value
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+
+const escapeCsv = (value: string | number) => {
+  const text = value.toString()
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+const money = (value: number) => value.toFixed(2)
+
+/**
+ * One row per order line, with the order reference and supplier repeated so
+ * several orders can be pasted into one sheet
+ */
+export function purchaseOrderCsv(order: PurchaseOrder): string {
+  const header = ['Reference', 'Supplier', 'Drug', 'Dosage', 'Form', 'Pack size', 'Packs', 'Units', 'Unit price', 'Line total']
+  const rows = order.lines.map(line => [
+    order.reference,
+    order.supplier,
+    line.drugName,
+    line.dosage,
+    line.dosageForm,
+    line.packSize,
+    line.quantity / line.packSize,
+    line.quantity,
+    money(line.unitPrice),
+    money(lineTotal(line))
+  ])
+  return [header, ...rows].map(row => row.map(escapeCsv).join(',')).join('\r\n')
+}
+
+export function downloadPurchaseOrderCsv(order: PurchaseOrder) {
+  const url = URL.createObjectURL(new Blob([purchaseOrderCsv(order)], { type: 'text/csv;charset=utf-8' }))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = `${order.reference}.csv`
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+/**
+ * The order as a standalone A4 HTML document
+ */
+export function renderPurchaseOrder(order: PurchaseOrder): string {
+  const rows = order.lines.map(line => `<tr>
+  <td>${escapeHtml(line.drugName)}<div class="small">${escapeHtml(line.dosage)} ${escapeHtml(line.dosageForm)}</div></td>
+  <td class="number">${line.quantity / line.packSize} x ${line.packSize}</td>
+  <td class="number">${line.quantity}</td>
+  <td class="number">${money(line.unitPrice)}</td>
+  <td class="number">${money(lineTotal(line))}</td>
+</tr>`).join('\n')
+
+  const approval = order.approvedAt
+    ? `Approved by ${escapeHtml(order.approvedBy ?? '')} on ${format(new Date(order.approvedAt), 'dd MMM yyyy')}`
+    : PURCHASE_ORDER_STATUS_LABELS[order.status]
+
+  return `<!doctype html>
+<html>
+<head>
+<title>${escapeHtml(order.reference)}</title>
+<style>
+  @page { size: A4; margin: 15mm; }
+  body { font-family: Arial, sans-serif; font-size: 10pt; }
+  h1 { font-size: 16pt; margin: 0 0 4mm; }
+  table { width: 100%; border-collapse: collapse; margin-top: 6mm; }
+  th, td { border-bottom: 1px solid #ccc; padding: 2mm; text-align: left; vertical-align: top; }
+  .number { text-align: right; }
+  .small { font-size: 8pt; color: #555; }
+  .total { font-weight: bold; }
+</style>
+</head>
+<body>
+<h1>Purchase Order ${escapeHtml(order.reference)}</h1>
+<div>Supplier: <strong>${escapeHtml(order.supplier)}</strong></div>
+<div>Raised by ${escapeHtml(order.createdBy)} on ${format(new Date(order.createdAt), 'dd MMM yyyy')}</div>
+<div>${approval}</div>
+${order.notes ? `<p>${escapeHtml(order.notes)}</p>` : ''}
+<table>
+<thead><tr><th>Item</th><th class="number">Packs</th><th class="number">Units</th><th class="number">Unit price</th><th class="number">Total</th></tr></thead>
+<tbody>
+${rows}
+<tr class="total"><td colspan="4" class="number">Order total</td><td class="number">${money(purchaseOrderTotal(order))}</td></tr>
+</tbody>
+</table>
+</body>
+</html>`
+}
+
+/**
+ * Open the order in a new window and hand it to the browser's print dialog,
+ * where it can be printed or saved as a PDF
+ */
+export function printPurchaseOrder(order: PurchaseOrder): boolean {
+  const orderWindow = window.open('', '_blank', 'width=800,height=900')
+  if (!orderWindow) return false
+
+  orderWindow.document.write(renderPurchaseOrder(order))
+  orderWindow.document.close()
+  orderWindow.focus()
+  orderWindow.print()
+  return true
+}
@@ -0,0 +1,209 @@
+import { format } from 'date-fns'
+import { Drug, InventoryTransaction, PurchaseOrder, PurchaseOrderLine, PurchaseOrderStatus, Supplier } from '../types/pharmacy'
+import { createId } from '../lib/utils'
+import { createRepository, Repository } from './repository'
+import { Actor, requirePermission } from './permissions'
+import { ReorderSuggestion, suggestReorders } from './reorder'
+
+export const PURCHASE_ORDER_STATUS_LABELS: Record<PurchaseOrderStatus, string> = {
+  draft: 'Draft',
+  approved: 'Approved',
+  partially_received: 'Partially received',
+  received: 'Received',
+  cancelled: 'Cancelled'
+}
+
+export class PurchaseOrderError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'PurchaseOrderError'
+  }
+}
+
+export function orderLineFromSuggestion(suggestion: ReorderSuggestion): PurchaseOrderLine {
+  return {
+    drugId: suggestion.drug.id,
+    drugName: suggestion.drug.name,
+    dosage: suggestion.drug.dosage,
+    dosageForm: suggestion.drug.dosageForm,
+    packSize: suggestion.packSize,
+    quantity: suggestion.quantity,
+    unitPrice: suggestion.unitPrice
+  }
+}
+
+/**
+ * Units of a line still to be delivered
+ */
+export function remainingQuantity(line: PurchaseOrderLine): number {
+  return Math.max(0, line.quantity - (line.receivedQuantity ?? 0))
+}
+
+/** Orders that have been sent to the supplier and are waiting for (more) stock */
+export function isAwaitingDelivery(order: PurchaseOrder): boolean {
+  return order.status === 'approved' || order.status === 'partially_received'
+}
+
+export function lineTotal(line: PurchaseOrderLine): number {
+  return line.quantity * line.unitPrice
+}
+
+export function purchaseOrderTotal(order: Pick<PurchaseOrder, 'lines'>): number {
+  return order.lines.reduce((sum, line) => sum + lineTotal(line), 0)
+}
+
+/**
+ * Warn when an order is below the supplier's minimum order value
+ */
+export function minimumOrderWarning(order: Pick<PurchaseOrder, 'lines'>, supplier: Supplier | undefined): string | null {
+  if (!supplier?.minimumOrderValue || purchaseOrderTotal(order) >= supplier.minimumOrderValue) return null
+  return `${supplier.name} has a minimum order value of $${supplier.minimumOrderValue.toFixed(2)}`
+}
+
+/**
+ * Check the lines of an order. Returns a message describing the first problem found.
+ */
+export function validateOrderLines(lines: PurchaseOrderLine[]): string | null {
+  if (lines.length === 0) return 'An order needs at least one line'
+
+  for (const line of lines) {
+    if (!Number.isInteger(line.quantity) || line.quantity <= 0) {
+      return `Enter a quantity for ${line.drugName}`
+    }
+    if (line.quantity % line.packSize !== 0) {
+      return `${line.drugName} is supplied in packs of ${line.packSize}`
+    }
+    if (!(line.unitPrice >= 0)) return `Enter a unit price for ${line.drugName}`
+  }
+  return null
+}
+
+/**
+ * Next order reference for the day, e.g. "PO-20260314-0003"
+ */
+export function nextOrderReference(orders: PurchaseOrder[], date: Date = new Date()): string {
+  const prefix = `PO-${format(date, 'yyyyMMdd')}-`
+  const count = orders.filter(order => order.reference.startsWith(prefix)).length
+  return `${prefix}${(count + 1).toString().padStart(4, '0')}`
+}
+
+/**
+ * Purchase orders for restocking. Drafts are raised from reorder suggestions
+ * (orders.manage), edited, then approved (orders.approve) before being sent.
+ */
+export class PurchaseOrderBook {
+  private orders: Repository<PurchaseOrder>
+  private transactions: Repository<InventoryTransaction>
+  private suppliers: Repository<Supplier>
+
+  constructor(
+    orders: Repository<PurchaseOrder> = createRepository('purchaseOrders'),
+    transactions: Repository<InventoryTransaction> = createRepository('transactions'),
+    suppliers: Repository<Supplier> = createRepository('suppliers')
+  ) {
+    this.orders = orders
+    this.transactions = transactions
+    this.suppliers = suppliers
+  }
+
+  async list(actor: Actor): Promise<PurchaseOrder[]> {
+    const orders = await this.orders.list(actor.userId)
+    return orders.sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+  }
+
+  async suggest(drugs: Drug[], actor: Actor): Promise<ReorderSuggestion[]> {
+    const [transactions, orders, suppliers] = await Promise.all([
+      this.transactions.list(actor.userId),
+      this.orders.list(actor.userId),
+      this.suppliers.list(actor.userId)
+    ])
+    return suggestReorders(drugs, transactions, orders, suppliers)
+  }
+
+  /**
+   * Raise one draft order per supplier from the chosen suggestions, priced from
+   * the supplier's price list
+   */
+  async draftFromSuggestions(suggestions: ReorderSuggestion[], actor: Actor): Promise<PurchaseOrder[]> {
+    requirePermission(actor, 'orders.manage')
+    if (suggestions.length === 0) throw new PurchaseOrderError('Choose at least one item to order')
+
+    const bySupplier = new Map<string, ReorderSuggestion[]>()
+    for (const suggestion of suggestions) {
+      bySupplier.set(suggestion.supplier, [...(bySupplier.get(suggestion.supplier) ?? []), suggestion])
+    }
+
+    const existing = await this.orders.list(actor.userId)
+    const created: PurchaseOrder[] = []
+    for (const [supplier, items] of bySupplier) {
+      const now = new Date().toISOString()
+      const order = await this.orders.create({
+        id: createId('po'),
+        reference: nextOrderReference([...existing, ...created]),
+        supplier,
+        supplierId: items[0].supplierId,
+        status: 'draft',
+        lines: items.map(orderLineFromSuggestion),
+        createdBy: actor.name,
+        createdAt: now,
+        updatedAt: now,
+        userId: actor.userId
+      })
+      created.push(order)
+    }
+    return created
+  }
+
+  async updateDraft(id: string, changes: Pick<PurchaseOrder, 'lines' | 'notes'>, actor: Actor): Promise<PurchaseOrder> {
+    requirePermission(actor, 'orders.manage')
+    const order = await this.requireStatus(actor.userId, id, 'draft', 'edited')
+
+    const problem = validateOrderLines(changes.lines)
+    if (problem) throw new PurchaseOrderError(problem)
+
+    return this.orders.update(actor.userId, order.id, {
+      lines: changes.lines,
+      notes: changes.notes?.trim() || undefined,
+      updatedAt: new Date().toISOString()
+    })
+  }
+
+  async approve(id: string, actor: Actor): Promise<PurchaseOrder> {
+    requirePermission(actor, 'orders.approve')
+    const order = await this.requireStatus(actor.userId, id, 'draft', 'approved')
+
+    const problem = validateOrderLines(order.lines)
+    if (problem) throw new PurchaseOrderError(problem)
+
+    const now = new Date().toISOString()
+    return this.orders.update(actor.userId, id, {
+      status: 'approved',
+      approvedBy: actor.name,
+      approvedAt: now,
+      updatedAt: now
+    })
+  }
+
+  async cancel(id: string, actor: Actor): Promise<PurchaseOrder> {
+    requirePermission(actor, 'orders.manage')
+    const order = await this.orders.get(actor.userId, id)
+    if (!order) throw new PurchaseOrderError('Purchase order not found')
+    if (order.status === 'cancelled' || order.status === 'received') {
+      throw new PurchaseOrderError(`${order.reference} is ${PURCHASE_ORDER_STATUS_LABELS[order.status].toLowerCase()} and cannot be cancelled`)
+    }
+
+    return this.orders.update(actor.userId, id, {
+      status: 'cancelled',
+      updatedAt: new Date().toISOString()
+    })
+  }
+
+  private async requireStatus(userId: string, id: string, status: PurchaseOrderStatus, action: string): Promise<PurchaseOrder> {
+    const order = await this.orders.get(userId, id)
+    if (!order) throw new PurchaseOrderError('Purchase order not found')
+    if (order.status !== status) {
+      throw new PurchaseOrderError(`${order.reference} is ${PURCHASE_ORDER_STATUS_LABELS[order.status].toLowerCase()} and cannot be ${action}`)
+    }
+    return order
+  }
+}
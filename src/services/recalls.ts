@@ -0,0 +1,285 @@
+import { DispenseRecord, Drug, RecallNotice, RecallSeverity, RecallStatus, StockBatch, Witness } from '../types/pharmacy'
+import { createId } from '../lib/utils'
+import { createRepository, Repository } from './repository'
+import { Actor, requirePermission } from './permissions'
+import { DrugCatalogue } from './drugCatalogue'
+
+export const RECALL_SEVERITY_LABELS: Record<RecallSeverity, string> = {
+  class_1: 'Class 1 - immediate action',
+  class_2: 'Class 2 - action within 48 hours',
+  class_3: 'Class 3 - action within 5 days',
+  class_4: 'Class 4 - caution in use'
+}
+
+export const RECALL_STATUS_LABELS: Record<RecallStatus, string> = {
+  open: 'Open',
+  closed: 'Closed',
+  cancelled: 'Cancelled'
+}
+
+export class RecallError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'RecallError'
+  }
+}
+
+export type RecallDraft = Pick<RecallNotice, 'reference' | 'product' | 'manufacturer' | 'batchNumbers' | 'severity' | 'description'>
+
+/** Recalled stock still on the shelf */
+export interface RecalledStock {
+  drug: Drug
+  batch: StockBatch
+}
+
+/** A supply of recalled stock to a patient */
+export interface RecallPatient {
+  dispenseId: string
+  patientId?: string
+  patientRef?: string
+  prescriptionRef?: string
+  drugName: string
+  batchNumber: string
+  quantity: number
+  pharmacist: string
+  dispensedAt: string
+}
+
+const normalise = (value: string) => value.trim().toLowerCase()
+
+/**
+ * Check a recall notice before it is saved. Returns a message describing the first problem found.
+ */
+export function validateRecall(draft: RecallDraft): string | null {
+  if (!draft.reference.trim()) return 'Enter the recall notice reference'
+  if (!draft.product.trim()) return 'Enter the recalled product or molecule'
+  if (draft.batchNumbers.filter(batch => batch.trim()).length === 0) return 'Enter at least one affected batch number'
+  return null
+}
+
+/**
+ * Whether a drug is the recalled product: the notice names it, its generic name
+ * or its active molecule, and the manufacturer matches when the notice gives one
+ */
+export function matchesRecall(drug: Pick<Drug, 'name' | 'genericName' | 'brandName' | 'activeMolecule' | 'manufacturer'>, recall: RecallDraft): boolean {
+  const product = normalise(recall.product)
+  const names = [drug.name, drug.genericName, drug.brandName, drug.activeMolecule].map(name => normalise(name ?? ''))
+  if (!names.some(name => name && (name.includes(product) || product.includes(name)))) return false
+  return !recall.manufacturer?.trim() || normalise(drug.manufacturer) === normalise(recall.manufacturer)
+}
+
+const recalledBatch = (recall: RecallDraft, batchNumber: string) =>
+  recall.batchNumbers.some(batch => normalise(batch) === normalise(batchNumber))
+
+/**
+ * Every batch in stock that the notice covers
+ */
+export function findRecalledStock(recall: RecallDraft, drugs: Drug[]): RecalledStock[] {
+  return drugs
+    .filter(drug => matchesRecall(drug, recall))
+    .flatMap(drug => drug.batches
+      .filter(batch => batch.quantity > 0 && recalledBatch(recall, batch.batchNumber))
+      .map(batch => ({ drug, batch })))
+}
+
+/**
+ * Supplies of recalled batches, newest first. Substituted and deleted drugs are
+ * matched on the name recorded with the dispense.
+ */
+export function affectedDispenses(recall: RecallDraft, drugs: Drug[], dispenses: DispenseRecord[]): RecallPatient[] {
+  return dispenses
+    .filter(record => {
+      const drug = drugs.find(candidate => candidate.id === record.drugId)
+      return drug
+        ? matchesRecall(drug, recall)
+        : matchesRecall({ name: record.drugName, genericName: '', brandName: '', activeMolecule: '', manufacturer: recall.manufacturer ?? '' }, recall)
+    })
+    .flatMap(record => record.batches
+      .filter(batch => recalledBatch(recall, batch.batchNumber))
+      .map(batch => ({
+        dispenseId: record.id,
+        patientId: record.patientId,
+        patientRef: record.patientRef,
+        prescriptionRef: record.prescriptionRef,
+        drugName: record.drugName,
+        batchNumber: batch.batchNumber,
+        quantity: batch.quantity,
+        pharmacist: record.pharmacist,
+        dispensedAt: record.dispensedAt
+      })))
+    .sort((a, b) => b.dispensedAt.localeCompare(a.dispensedAt))
+}
+
+async function requireOpen(recalls: Repository<RecallNotice>, userId: string, id: string, action: string): Promise<RecallNotice> {
+  const recall = await recalls.get(userId, id)
+  if (!recall) throw new RecallError('Recall notice not found')
+  if (recall.status !== 'open') {
+    throw new RecallError(`${recall.reference} is ${RECALL_STATUS_LABELS[recall.status].toLowerCase()} and cannot be ${action}`)
+  }
+  return recall
+}
+
+/**
+ * Recall notices and the patients supplied from the recalled batches
+ */
+export class RecallBook {
+  private recalls: Repository<RecallNotice>
+  private dispenses: Repository<DispenseRecord>
+
+  constructor(
+    recalls: Repository<RecallNotice> = createRepository('recalls'),
+    dispenses: Repository<DispenseRecord> = createRepository('dispenses')
+  ) {
+    this.recalls = recalls
+    this.dispenses = dispenses
+  }
+
+  async list(actor: Actor): Promise<RecallNotice[]> {
+    const recalls = await this.recalls.list(actor.userId)
+    return recalls.sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+  }
+
+  async patients(id: string, drugs: Drug[], actor: Actor): Promise<RecallPatient[]> {
+    const recall = await this.recalls.get(actor.userId, id)
+    if (!recall) throw new RecallError('Recall notice not found')
+    return affectedDispenses(recall, drugs, await this.dispenses.list(actor.userId))
+  }
+
+  /**
+   * Close a recall once all of its stock has gone back to the supplier
+   */
+  async close(id: string, drugs: Drug[], actor: Actor): Promise<RecallNotice> {
+    requirePermission(actor, 'stock.adjust', 'close recalls')
+    const recall = await requireOpen(this.recalls, actor.userId, id, 'closed')
+
+    const remaining = drugs.flatMap(drug => drug.batches.filter(batch => batch.recallId === recall.id && batch.quantity > 0))
+    if (remaining.length > 0) {
+      throw new RecallError(`Return the ${remaining.length} quarantined batch${remaining.length > 1 ? 'es' : ''} before closing ${recall.reference}`)
+    }
+
+    const now = new Date().toISOString()
+    return this.recalls.update(actor.userId, id, { status: 'closed', closedAt: now, updatedAt: now })
+  }
+}
+
+/**
+ * Applies recall notices to stock. Entering a notice quarantines the matching
+ * batches straight away; they stay on the books until returned to the supplier
+ * with a recall movement.
+ */
+export class RecallQuarantine {
+  private catalogue: DrugCatalogue
+  private recalls: Repository<RecallNotice>
+
+  constructor(catalogue: DrugCatalogue, recalls: Repository<RecallNotice> = createRepository('recalls')) {
+    this.catalogue = catalogue
+    this.recalls = recalls
+  }
+
+  async create(draft: RecallDraft, drugs: Drug[], actor: Actor): Promise<{ recall: RecallNotice, drugs: Drug[] }> {
+    requirePermission(actor, 'stock.adjust', 'enter recall notices')
+
+    const problem = validateRecall(draft)
+    if (problem) throw new RecallError(problem)
+
+    const now = new Date().toISOString()
+    const recall = await this.recalls.create({
+      id: createId('recall'),
+      reference: draft.reference.trim(),
+      product: draft.product.trim(),
+      manufacturer: draft.manufacturer?.trim() || undefined,
+      batchNumbers: [...new Set(draft.batchNumbers.map(batch => batch.trim()).filter(Boolean))],
+      severity: draft.severity,
+      description: draft.description?.trim() || undefined,
+      status: 'open',
+      returns: [],
+      createdBy: actor.name,
+      createdAt: now,
+      updatedAt: now,
+      userId: actor.userId
+    })
+
+    return { recall, drugs: await this.quarantine(recall, drugs, actor) }
+  }
+
+  /**
+   * Search the stock again, e.g. after a delivery, and quarantine anything new
+   */
+  async requarantine(id: string, drugs: Drug[], actor: Actor): Promise<Drug[]> {
+    const recall = await requireOpen(this.recalls, actor.userId, id, 'searched')
+    return this.quarantine(recall, drugs, actor)
+  }
+
+  /**
+   * Send a quarantined batch back to the supplier, posting a recall movement for
+   * every unit of it
+   */
+  async returnToSupplier(
+    id: string,
+    drug: Drug,
+    batchNumber: string,
+    witness: Witness | undefined,
+    actor: Actor
+  ): Promise<{ recall: RecallNotice, drug: Drug }> {
+    const recall = await requireOpen(this.recalls, actor.userId, id, 'returned')
+    const batch = drug.batches.find(candidate => candidate.batchNumber === batchNumber)
+    if (!batch || batch.quantity === 0) throw new RecallError(`Batch ${batchNumber} of ${drug.name} is not in stock`)
+    if (batch.recallId !== recall.id) throw new RecallError(`Batch ${batchNumber} of ${drug.name} is not quarantined under ${recall.reference}`)
+
+    const result = await this.catalogue.recordMovement(drug, {
+      type: 'recall',
+      quantity: batch.quantity,
+      reason: `Returned to supplier under recall ${recall.reference}`,
+      batchNumber,
+      supplier: batch.supplier,
+      witness
+    }, actor)
+
+    const updated = await this.recalls.update(actor.userId, id, {
+      returns: [...recall.returns, {
+        drugId: drug.id,
+        drugName: drug.name,
+        batchNumber,
+        quantity: batch.quantity,
+        transactionIds: result.transactions.map(transaction => transaction.id),
+        returnedBy: actor.name,
+        returnedAt: new Date().toISOString()
+      }],
+      updatedAt: new Date().toISOString()
+    })
+    return { recall: updated, drug: result.drug }
+  }
+
+  /**
+   * Withdraw a notice entered in error and release the stock it quarantined
+   */
+  async cancel(id: string, drugs: Drug[], actor: Actor): Promise<{ recall: RecallNotice, drugs: Drug[] }> {
+    requirePermission(actor, 'stock.adjust', 'cancel recalls')
+    const recall = await requireOpen(this.recalls, actor.userId, id, 'cancelled')
+    if (recall.returns.length > 0) throw new RecallError(`Stock has already been returned under ${recall.reference}; close it instead`)
+
+    const released: Drug[] = []
+    for (const drug of drugs) {
+      const held = drug.batches.filter(batch => batch.recallId === recall.id).map(batch => batch.batchNumber)
+      if (held.length > 0) released.push(await this.catalogue.setQuarantine(drug, held, undefined, actor))
+    }
+
+    const now = new Date().toISOString()
+    const cancelled = await this.recalls.update(actor.userId, id, { status: 'cancelled', closedAt: now, updatedAt: now })
+    return { recall: cancelled, drugs: released }
+  }
+
+  private async quarantine(recall: RecallNotice, drugs: Drug[], actor: Actor): Promise<Drug[]> {
+    const byDrug = new Map<Drug, string[]>()
+    for (const { drug, batch } of findRecalledStock(recall, drugs)) {
+      if (batch.recallId) continue
+      byDrug.set(drug, [...(byDrug.get(drug) ?? []), batch.batchNumber])
+    }
+
+    const updated: Drug[] = []
+    for (const [drug, batchNumbers] of byDrug) {
+      updated.push(await this.catalogue.setQuarantine(drug, batchNumbers, recall.id, actor))
+    }
+    return updated
+  }
+}
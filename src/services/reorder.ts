@@ -0,0 +1,160 @@
+import { Drug, InventoryTransaction, PurchaseOrder, Supplier, TransactionType } from '../types/pharmacy'
+import { dispensableQuantity } from './dispensing'
+import { isAwaitingDelivery, remainingQuantity } from './purchaseOrders'
+import { cheapestSupplierPrice, findSupplierByName, unitCost } from './suppliers'
+
+/** Days of stock history used to estimate how fast each drug is used */
+export const USAGE_WINDOW_DAYS = 30
+
+/** Assumed when a drug has no lead time recorded */
+export const DEFAULT_LEAD_TIME_DAYS = 7
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/** Movements that count as demand; write-offs and recalls are not */
+const USAGE_TYPES: TransactionType[] = ['dispense', 'remove']
+
+/** Where a drug is bought from, and on what terms */
+export interface SupplySource {
+  supplier: string
+  supplierId?: string // absent when the supplier is not in the directory
+  packSize: number
+  unitPrice: number
+  leadTimeDays: number
+}
+
+export interface ReorderSuggestion extends SupplySource {
+  drug: Drug
+  stockOnHand: number // unexpired units on the shelf
+  onOrder: number // units drafted or awaiting delivery on purchase orders
+  dailyUsage: number
+  reorderPoint: number
+  quantity: number // units to order, a whole number of packs
+}
+
+export const leadTimeDays = (drug: Drug, supplier?: Supplier) =>
+  drug.leadTimeDays ?? supplier?.leadTimeDays ?? DEFAULT_LEAD_TIME_DAYS
+
+/**
+ * Average units used per day over the window, from dispenses and removals
+ */
+export function averageDailyUsage(
+  drugId: string,
+  transactions: InventoryTransaction[],
+  asOf: Date = new Date(),
+  windowDays = USAGE_WINDOW_DAYS
+): number {
+  const since = new Date(asOf.getTime() - windowDays * DAY_MS).toISOString()
+  const used = transactions
+    .filter(transaction => transaction.drugId === drugId && USAGE_TYPES.includes(transaction.type) && transaction.timestamp >= since)
+    .reduce((sum, transaction) => sum + Math.abs(transaction.quantity), 0)
+  return used / windowDays
+}
+
+/**
+ * Stock level at which to reorder: the minimum plus what will be used while
+ * waiting for the delivery
+ */
+export function reorderPoint(drug: Drug, dailyUsage: number, leadTime = leadTimeDays(drug)): number {
+  return drug.minStockLevel + Math.ceil(dailyUsage * leadTime)
+}
+
+/**
+ * Units to order so stock is back up to maxStockLevel when the delivery
+ * arrives. Ordered in whole packs without going over the maximum, but always
+ * at least one pack.
+ */
+export function orderQuantity(
+  drug: Drug,
+  available: number,
+  dailyUsage: number,
+  packSize = drug.packSize ?? 1,
+  leadTime = leadTimeDays(drug)
+): number {
+  const expectedAtDelivery = Math.max(0, available - dailyUsage * leadTime)
+  const packs = Math.floor((drug.maxStockLevel - expectedAtDelivery) / packSize)
+  return Math.max(1, packs) * packSize
+}
+
+/**
+ * Who to order from: the supplier of the most recently received batch, else the manufacturer
+ */
+export function preferredSupplier(drug: Drug): string {
+  const latest = drug.batches
+    .filter(batch => batch.supplier?.trim())
+    .sort((a, b) => b.receivedDate.localeCompare(a.receivedDate))[0]
+  return latest?.supplier?.trim() || drug.manufacturer
+}
+
+/**
+ * The cheapest supplier on the drug's price list. Drugs without one are
+ * ordered from their preferred supplier at the catalogue pack size and price.
+ */
+export function supplySource(drug: Drug, suppliers: Supplier[] = []): SupplySource {
+  const cheapest = cheapestSupplierPrice(drug, suppliers)
+  if (cheapest) {
+    return {
+      supplier: cheapest.supplier.name,
+      supplierId: cheapest.supplier.id,
+      packSize: cheapest.price.packSize,
+      unitPrice: unitCost(cheapest.price),
+      leadTimeDays: leadTimeDays(drug, cheapest.supplier)
+    }
+  }
+
+  const name = preferredSupplier(drug)
+  const known = findSupplierByName(suppliers, name)
+  return {
+    supplier: known?.name ?? name,
+    supplierId: known?.id,
+    packSize: drug.packSize ?? 1,
+    unitPrice: drug.unitPrice,
+    leadTimeDays: leadTimeDays(drug, known)
+  }
+}
+
+/**
+ * Units of a drug drafted or still to be delivered on open orders
+ */
+export function unitsOnOrder(drugId: string, orders: PurchaseOrder[]): number {
+  return orders
+    .filter(order => order.status === 'draft' || isAwaitingDelivery(order))
+    .flatMap(order => order.lines)
+    .filter(line => line.drugId === drugId)
+    .reduce((sum, line) => sum + remainingQuantity(line), 0)
+}
+
+/**
+ * Drugs whose unexpired stock plus open orders has fallen to the reorder point,
+ * with the quantity to order from the cheapest supplier, sorted by supplier then name
+ */
+export function suggestReorders(
+  drugs: Drug[],
+  transactions: InventoryTransaction[],
+  orders: PurchaseOrder[],
+  suppliers: Supplier[] = [],
+  asOf: Date = new Date()
+): ReorderSuggestion[] {
+  const suggestions: ReorderSuggestion[] = []
+
+  for (const drug of drugs) {
+    const stockOnHand = dispensableQuantity(drug, asOf)
+    const onOrder = unitsOnOrder(drug.id, orders)
+    const dailyUsage = averageDailyUsage(drug.id, transactions, asOf)
+    const source = supplySource(drug, suppliers)
+    const point = reorderPoint(drug, dailyUsage, source.leadTimeDays)
+    if (stockOnHand + onOrder > point) continue
+
+    suggestions.push({
+      ...source,
+      drug,
+      stockOnHand,
+      onOrder,
+      dailyUsage,
+      reorderPoint: point,
+      quantity: orderQuantity(drug, stockOnHand + onOrder, dailyUsage, source.packSize, source.leadTimeDays)
+    })
+  }
+
+  return suggestions.sort((a, b) => a.supplier.localeCompare(b.supplier) || a.drug.name.localeCompare(b.drug.name))
+}
@@ -0,0 +1,186 @@
+import { blink } from '../blink/client'
+import { openLocalDatabase, StoreName } from './localDatabase'
+
+export interface OwnedRecord {
+  id: string
+  userId: string
+}
+
+/**
+ * Persistence contract for user-owned records. Every operation is scoped by
+ * userId so one account can never read or modify another account's data.
+ */
+export interface Repository<T extends OwnedRecord> {
+  list(userId: string): Promise<T[]>
+  get(userId: string, id: string): Promise<T | null>
+  create(record: T): Promise<T>
+  createMany(records: T[]): Promise<T[]>
+  /** Insert or replace several records at once; all are saved or none are */
+  saveMany(records: T[]): Promise<T[]>
+  update(userId: string, id: string, changes: Partial<T>): Promise<T>
+  delete(userId: string, id: string): Promise<void>
+}
+
+export class RepositoryError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'RepositoryError'
+  }
+}
+
+function requestToPromise<R>(request: IDBRequest<R>): Promise<R> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error)
+  })
+}
+
+/**
+ * Repository backed by the browser's IndexedDB
+ */
+export class IndexedDbRepository<T extends OwnedRecord> implements Repository<T> {
+  private storeName: StoreName
+
+  constructor(storeName: StoreName) {
+    this.storeName = storeName
+  }
+
+  async list(userId: string): Promise<T[]> {
+    const store = await this.getStore('readonly')
+    return requestToPromise<T[]>(store.index('userId').getAll(userId))
+  }
+
+  async get(userId: string, id: string): Promise<T | null> {
+    const store = await this.getStore('readonly')
+    const record = await requestToPromise<T | undefined>(store.get([userId, id]))
+    return record ?? null
+  }
+
+  async create(record: T): Promise<T> {
+    const [created] = await this.createMany([record])
+    return created
+  }
+
+  async createMany(records: T[]): Promise<T[]> {
+    const store = await this.getStore('readwrite')
+    records.forEach(record => store.add(record))
+    try {
+      await transactionDone(store.transaction)
+    } catch (error) {
+      const detail = error instanceof Error ? error.message : String(error)
+      throw new RepositoryError(`Could not save to ${this.storeName}: ${detail}`)
+    }
+    return records
+  }
+
+  async saveMany(records: T[]): Promise<T[]> {
+    const store = await this.getStore('readwrite')
+    records.forEach(record => store.put(record))
+    try {
+      await transactionDone(store.transaction)
+    } catch (error) {
+      const detail = error instanceof Error ? error.message : String(error)
+      throw new RepositoryError(`Could not save to ${this.storeName}: ${detail}`)
+    }
+    return records
+  }
+
+  async update(userId: string, id: string, changes: Partial<T>): Promise<T> {
+    const store = await this.getStore('readwrite')
+    const existing = await requestToPromise<T | undefined>(store.get([userId, id]))
+    if (!existing) {
+      throw new RepositoryError(`Record ${id} not found in ${this.storeName}`)
+    }
+
+    const updated: T = { ...existing, ...changes, id, userId }
+    store.put(updated)
+    await transactionDone(store.transaction)
+    return updated
+  }
+
+  async delete(userId: string, id: string): Promise<void> {
+    const store = await this.getStore('readwrite')
+    store.delete([userId, id])
+    await transactionDone(store.transaction)
+  }
+
+  private async getStore(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    const db = await openLocalDatabase()
+    return db.transaction(this.storeName, mode).objectStore(this.storeName)
+  }
+}
+
+/**
+ * Repository backed by the Blink project database
+ */
+export class BlinkRepository<T extends OwnedRecord> implements Repository<T> {
+  private tableName: string
+
+  constructor(tableName: string) {
+    this.tableName = tableName
+  }
+
+  async list(userId: string): Promise<T[]> {
+    return this.table.list({ where: { userId } })
+  }
+
+  async get(userId: string, id: string): Promise<T | null> {
+    const record = await this.table.get(id)
+    return record && record.userId === userId ? record : null
+  }
+
+  async create(record: T): Promise<T> {
+    return this.table.create(record)
+  }
+
+  async createMany(records: T[]): Promise<T[]> {
+    if (records.length === 0) return []
+    return this.table.createMany(records)
+  }
+
+  async saveMany(records: T[]): Promise<T[]> {
+    if (records.length === 0) return []
+    return this.table.upsertMany(records)
+  }
+
+  async update(userId: string, id: string, changes: Partial<T>): Promise<T> {
+    await this.requireOwned(userId, id)
+    return this.table.update(id, { ...changes, id, userId })
+  }
+
+  async delete(userId: string, id: string): Promise<void> {
+    await this.requireOwned(userId, id)
+    await this.table.delete(id)
+  }
+
+  private get table() {
+    return blink.db.table<T>(this.tableName)
+  }
+
+  private async requireOwned(userId: string, id: string): Promise<T> {
+    const record = await this.get(userId, id)
+    if (!record) {
+      throw new RepositoryError(`Record ${id} not found in ${this.tableName}`)
+    }
+    return record
+  }
+}
+
+/**
+ * Create a repository for the configured storage backend.
+ * Set VITE_STORAGE_BACKEND=blink to use the Blink database instead of IndexedDB.
+ */
+export function createRepository<T extends OwnedRecord>(storeName: StoreName): Repository<T> {
+  if (import.meta.env.VITE_STORAGE_BACKEND === 'blink') {
+    return new BlinkRepository<T>(storeName)
+  }
+  return new IndexedDbRepository<T>(storeName)
+}
@@ -0,0 +1,228 @@
+/** A sheet of cell text, one array per row */
+export type SheetRows = string[][]
+
+export class SpreadsheetError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'SpreadsheetError'
+  }
+}
+
+const DELIMITERS = [',', ';', '\t']
+
+/**
+ * Pick the delimiter used on the header line. Spreadsheets saved in locales
+ * with a decimal comma write semicolons instead of commas.
+ */
+function detectDelimiter(text: string): string {
+  const firstLine = text.split(/\r?\n/, 1)[0].replace(/"[^"]*"/g, '')
+  const counts = DELIMITERS.map(delimiter => firstLine.split(delimiter).length)
+  return DELIMITERS[counts.indexOf(Math.max(...counts))]
+}
+
+/**
+ * Parse delimited text. Quoted cells may contain delimiters, doubled quotes and line breaks.
+ */
+export function parseCsv(input: string): SheetRows {
+  const text = input.replace(/^\uFEFF/, '')
+  const delimiter = detectDelimiter(text)
+  const rows: SheetRows = []
+  let row: string[] = []
+  let cell = ''
+  let quoted = false
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        cell += char
+      }
+    } else if (char === '"' && cell === '') {
+      quoted = true
+    } else if (char === delimiter) {
+      row.push(cell)
+      cell = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++
+      row.push(cell)
+      rows.push(row)
+      row = []
+      cell = ''
+    } else {
+      cell += char
+    }
+  }
+
+  if (cell || row.length > 0) {
+    row.push(cell)
+    rows.push(row)
+  }
+  return trimTrailingBlankRows(rows)
+}
+
+export const isBlankRow = (row: string[]) => !row.some(cell => cell.trim())
+
+/** Drop blank rows from the end; blank rows in between are kept so row numbers match the sheet */
+function trimTrailingBlankRows(rows: SheetRows): SheetRows {
+  let end = rows.length
+  while (end > 0 && isBlankRow(rows[end - 1])) end--
+  return rows.slice(0, end)
+}
+
+const escapeCsv = (value: string | number) => {
+  const text = value.toString()
+  return /[",;\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+export function toCsv(rows: (string | number)[][]): string {
+  return rows.map(row => row.map(escapeCsv).join(',')).join('\r\n')
+}
+
+export function downloadCsv(csv: string, fileName: string) {
+  const url = URL.createObjectURL(new Blob([csv], { type: 'text/csv;charset=utf-8' }))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = fileName
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+/**
+ * The files in a zip archive, by path. Entries are inflated on demand with the
+ * browser's DecompressionStream.
+ */
+function readZipDirectory(buffer: ArrayBuffer): Map<string, () => Promise<string>> {
+  const view = new DataView(buffer)
+  let end = -1
+  for (let offset = buffer.byteLength - 22; offset >= Math.max(0, buffer.byteLength - 65557); offset--) {
+    if (view.getUint32(offset, true) === 0x06054b50) {
+      end = offset
+      break
+    }
+  }
+  if (end < 0) throw new SpreadsheetError('The file is not a valid .xlsx workbook')
+
+  const entries = new Map<string, () => Promise<string>>()
+  const count = view.getUint16(end + 10, true)
+  const decoder = new TextDecoder()
+  let offset = view.getUint32(end + 16, true)
+
+  for (let i = 0; i < count; i++) {
+    if (view.getUint32(offset, true) !== 0x02014b50) throw new SpreadsheetError('The workbook is damaged')
+    const method = view.getUint16(offset + 10, true)
+    const compressedSize = view.getUint32(offset + 20, true)
+    const nameLength = view.getUint16(offset + 28, true)
+    const extraLength = view.getUint16(offset + 30, true)
+    const commentLength = view.getUint16(offset + 32, true)
+    const localHeader = view.getUint32(offset + 42, true)
+    const name = decoder.decode(new Uint8Array(buffer, offset + 46, nameLength))
+
+    entries.set(name, async () => {
+      const dataStart = localHeader + 30 + view.getUint16(localHeader + 26, true) + view.getUint16(localHeader + 28, true)
+      const data = new Uint8Array(buffer, dataStart, compressedSize)
+      if (method === 0) return decoder.decode(data)
+      if (method !== 8) throw new SpreadsheetError(`The workbook uses an unsupported compression method (${method})`)
+      const inflated = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'))
+      return new Response(inflated).text()
+    })
+    offset += 46 + nameLength + extraLength + commentLength
+  }
+  return entries
+}
+
+const parseXml = (xml: string) => new DOMParser().parseFromString(xml, 'application/xml')
+
+const elements = (parent: Document | Element, name: string) => Array.from(parent.getElementsByTagNameNS('*', name))
+
+const children = (parent: Element, name: string) => Array.from(parent.children).filter(child => child.localName === name)
+
+/**
+ * Text of a shared or inline string: its own <t>, or the <t> of each rich-text
+ * run. Phonetic guides (<rPh>) also hold <t> elements and are left out.
+ */
+function stringText(item: Element): string {
+  return Array.from(item.children)
+    .flatMap(child => child.localName === 'r' ? children(child, 't') : child.localName === 't' ? [child] : [])
+    .map(text => text.textContent ?? '')
+    .join('')
+}
+
+/** Zero-based column index from a cell reference such as "AB12" */
+function columnIndex(reference: string): number {
+  const letters = reference.replace(/\d+$/, '').toUpperCase()
+  return [...letters].reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1
+}
+
+/**
+ * Read the first worksheet of an .xlsx workbook as cell text. Numbers are kept
+ * as the digits stored in the file, so long barcodes are not rounded.
+ */
+export async function readXlsx(buffer: ArrayBuffer): Promise<SheetRows> {
+  const files = readZipDirectory(buffer)
+  const read = async (path: string) => {
+    const file = files.get(path)
+    return file ? parseXml(await file()) : null
+  }
+
+  const workbook = await read('xl/workbook.xml')
+  const relations = await read('xl/_rels/workbook.xml.rels')
+  if (!workbook) throw new SpreadsheetError('The file is not a valid .xlsx workbook')
+
+  const firstSheet = elements(workbook, 'sheet')[0]
+  const relationId = firstSheet && Array.from(firstSheet.attributes).find(attribute => attribute.localName === 'id')?.value
+  const target = relations && elements(relations, 'Relationship')
+    .find(relation => relation.getAttribute('Id') === relationId)?.getAttribute('Target')
+  const sheetPath = target ? (target.startsWith('/') ? target.slice(1) : `xl/${target}`) : 'xl/worksheets/sheet1.xml'
+
+  const sheet = await read(sheetPath)
+  if (!sheet) throw new SpreadsheetError('The workbook has no worksheet')
+
+  const sharedStrings = await read('xl/sharedStrings.xml')
+  const strings = sharedStrings
+    ? elements(sharedStrings, 'si').map(stringText)
+    : []
+
+  const rows: SheetRows = []
+  elements(sheet, 'row').forEach((rowElement, position) => {
+    const rowNumber = Number(rowElement.getAttribute('r')) || position + 1
+    const row: string[] = []
+    elements(rowElement, 'c').forEach(cellElement => {
+      const reference = cellElement.getAttribute('r')
+      const index = reference ? columnIndex(reference) : row.length
+      const value = elements(cellElement, 'v')[0]?.textContent ?? ''
+
+      switch (cellElement.getAttribute('t')) {
+        case 's':
+          row[index] = strings[Number(value)] ?? ''
+          break
+        case 'inlineStr':
+          row[index] = children(cellElement, 'is').map(stringText).join('')
+          break
+        case 'b':
+          row[index] = value === '1' ? 'TRUE' : 'FALSE'
+          break
+        default:
+          row[index] = value
+      }
+    })
+    rows[rowNumber - 1] = Array.from(row, cell => cell ?? '')
+  })
+
+  return trimTrailingBlankRows(Array.from(rows, row => row ?? []))
+}
+
+/**
+ * Read an uploaded .csv or .xlsx file
+ */
+export async function readSpreadsheet(file: File): Promise<SheetRows> {
+  const extension = file.name.split('.').pop()?.toLowerCase()
+  if (extension === 'csv' || extension === 'txt') return parseCsv(await file.text())
+  if (extension === 'xlsx') return readXlsx(await file.arrayBuffer())
+  if (extension === 'xls') throw new SpreadsheetError('Older .xls workbooks cannot be read: save the sheet as .xlsx or .csv first')
+  throw new SpreadsheetError('Choose a .csv or .xlsx file')
+}
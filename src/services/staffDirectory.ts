@@ -0,0 +1,167 @@
+import { PharmacyUser, UserRole } from '../types/pharmacy'
+import { createId } from '../lib/utils'
+import { createRepository, Repository } from './repository'
+import { Actor, Permission, PermissionError, permissionOverrides, requirePermission } from './permissions'
+
+export interface AccountHolder {
+  id: string
+  email: string
+  displayName?: string
+}
+
+export interface NewStaffMember {
+  name: string
+  email: string
+  role: UserRole
+  pin?: string
+}
+
+export async function hashPin(pin: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(pin))
+  return Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('')
+}
+
+/** A profile without a PIN cannot be switched to: there is nothing to check */
+export async function verifyPin(member: PharmacyUser, pin: string): Promise<boolean> {
+  if (!member.pinHash) return false
+  return (await hashPin(pin)) === member.pinHash
+}
+
+/** Roles that can make changes others rely on, so their profiles always carry a PIN */
+export const ROLES_REQUIRING_PIN: UserRole[] = ['admin', 'pharmacist']
+
+export const requiresPin = (role: UserRole) => ROLES_REQUIRING_PIN.includes(role)
+
+/**
+ * The profile created for the account holder. It starts without a PIN, since
+ * signing in to the account is what opens it.
+ */
+export function accountOwner(staff: PharmacyUser[]): PharmacyUser | undefined {
+  return staff.find(member => member.id === member.userId)
+}
+
+/**
+ * Check that the session may be handed to a staff member. Returns a message
+ * describing the problem, or null when they only need to enter their PIN.
+ */
+export function switchError(staff: PharmacyUser[], member: PharmacyUser): string | null {
+  const owner = accountOwner(staff)
+  if (owner && !owner.pinHash && member.id !== owner.id) {
+    return `${owner.name} must set a PIN before other staff profiles can be used`
+  }
+  if (!member.isActive) return `${member.name} is no longer active`
+  if (!member.pinHash) return `${member.name} has no PIN yet: an admin must set one first`
+  return null
+}
+
+/** Permissions added to the roles after profiles stopped being saved with a full list */
+const PERMISSIONS_ADDED_TO_ROLES: Permission[] = ['orders.manage', 'orders.approve', 'stock.count']
+
+const hasLegacyPermissions = (member: PharmacyUser) => !!member.permissions && !member.grantedPermissions && !member.revokedPermissions
+
+/**
+ * Profiles saved by earlier versions hold a full permission list. Keep what
+ * differs from the role as grants and revocations; permissions the role gained
+ * since were never offered to the member, so they are not counted as revoked.
+ */
+function migratePermissions(member: PharmacyUser): PharmacyUser {
+  const { permissions = [], ...profile } = member
+  const { grantedPermissions, revokedPermissions } = permissionOverrides(member.role, permissions)
+  return {
+    ...profile,
+    grantedPermissions,
+    revokedPermissions: revokedPermissions.filter(permission => !PERMISSIONS_ADDED_TO_ROLES.includes(permission))
+  }
+}
+
+/**
+ * Staff profiles within a pharmacy account. The account holder is created as the
+ * first admin and sets a PIN before anyone else is added by an admin.
+ */
+export class StaffDirectory {
+  private staff: Repository<PharmacyUser>
+
+  constructor(staff: Repository<PharmacyUser> = createRepository('staff')) {
+    this.staff = staff
+  }
+
+  async load(account: AccountHolder): Promise<PharmacyUser[]> {
+    const members = await this.staff.list(account.id)
+    if (members.length > 0) {
+      const legacy = members.filter(hasLegacyPermissions)
+      if (legacy.length === 0) return members
+      const migrated = await this.staff.saveMany(legacy.map(migratePermissions))
+      return members.map(member => migrated.find(candidate => candidate.id === member.id) ?? member)
+    }
+
+    const owner = await this.staff.create({
+      id: account.id,
+      email: account.email,
+      name: account.displayName || account.email,
+      role: 'admin',
+      isActive: true,
+      createdAt: new Date().toISOString(),
+      userId: account.id
+    })
+    return [owner]
+  }
+
+  async add(member: NewStaffMember, actor: Actor): Promise<PharmacyUser> {
+    requirePermission(actor, 'users.manage', 'add staff members')
+
+    const owner = accountOwner(await this.staff.list(actor.userId))
+    if (owner && !owner.pinHash) {
+      throw new PermissionError(`${owner.name} must set a PIN before adding staff`)
+    }
+    if (!member.pin && requiresPin(member.role)) {
+      throw new PermissionError(`Staff with the ${member.role} role must have a PIN`)
+    }
+
+    return this.staff.create({
+      id: createId('staff'),
+      email: member.email.trim(),
+      name: member.name.trim(),
+      role: member.role,
+      pinHash: member.pin ? await hashPin(member.pin) : undefined,
+      isActive: true,
+      createdAt: new Date().toISOString(),
+      userId: actor.userId
+    })
+  }
+
+  async update(id: string, changes: Partial<Pick<PharmacyUser, 'name' | 'email' | 'role' | 'grantedPermissions' | 'revokedPermissions' | 'isActive'>>, actor: Actor): Promise<PharmacyUser> {
+    requirePermission(actor, 'users.manage', 'change staff members')
+
+    const members = await this.staff.list(actor.userId)
+    const member = members.find(candidate => candidate.id === id)
+    if (!member) throw new PermissionError('Staff member not found')
+
+    const next = { ...member, ...changes }
+    if (!next.pinHash && requiresPin(next.role)) {
+      throw new PermissionError(`Set a PIN for ${member.name} before giving them the ${next.role} role`)
+    }
+    const remainingAdmins = members.filter(candidate =>
+      candidate.id === id ? next.role === 'admin' && next.isActive : candidate.role === 'admin' && candidate.isActive
+    )
+    if (remainingAdmins.length === 0) {
+      throw new PermissionError('The pharmacy must keep at least one active admin')
+    }
+
+    return this.staff.update(actor.userId, id, changes)
+  }
+
+  async setPin(id: string, pin: string, actor: Actor): Promise<PharmacyUser> {
+    requirePermission(actor, 'users.manage', 'set staff PINs')
+
+    if (!pin) {
+      const member = (await this.staff.list(actor.userId)).find(candidate => candidate.id === id)
+      if (!member) throw new PermissionError('Staff member not found')
+      if (member.id === member.userId) throw new PermissionError(`The account owner's PIN cannot be removed`)
+      if (requiresPin(member.role)) throw new PermissionError(`Staff with the ${member.role} role must have a PIN`)
+    }
+
+    return this.staff.update(actor.userId, id, { pinHash: pin ? await hashPin(pin) : undefined })
+  }
+}
@@ -0,0 +1,152 @@
+import { BatchHold, StockBatch, StockState } from '../types/pharmacy'
+import { createId } from '../lib/utils'
+
+export interface BatchAllocation {
+  batch: StockBatch
+  quantity: number
+}
+
+/** Batch number of the opening-balance batch */
+export const OPENING_BALANCE_BATCH = 'UNBATCHED'
+
+export function createEmptyBatch(supplier?: string): StockBatch {
+  return {
+    id: createId('batch'),
+    batchNumber: '',
+    expiryDate: '',
+    quantity: 0,
+    receivedDate: new Date().toISOString().split('T')[0],
+    supplier
+  }
+}
+
+export function sumBatchQuantities(batches: StockBatch[]): number {
+  return batches.reduce((sum, batch) => sum + batch.quantity, 0)
+}
+
+export function isBatchExpired(batch: StockBatch, asOf: Date = new Date()): boolean {
+  if (!batch.expiryDate) return false
+  return batch.expiryDate < asOf.toISOString().split('T')[0]
+}
+
+export const STOCK_STATE_LABELS: Record<StockState, string> = {
+  sellable: 'Sellable',
+  quarantined: 'Quarantined',
+  damaged: 'Damaged',
+  expired: 'Expired',
+  recalled: 'Recalled',
+  reserved: 'Reserved'
+}
+
+export const BATCH_HOLDS: BatchHold[] = ['quarantined', 'damaged', 'reserved']
+
+/**
+ * The state a batch's units are in. A recall outranks a hold set by hand,
+ * which outranks the expiry date.
+ */
+export function batchState(batch: StockBatch, asOf: Date = new Date()): StockState {
+  if (batch.recallId) return 'recalled'
+  if (batch.hold) return batch.hold
+  if (isBatchExpired(batch, asOf)) return 'expired'
+  return 'sellable'
+}
+
+export const isSellable = (batch: StockBatch, asOf?: Date) => batchState(batch, asOf) === 'sellable'
+
+/** Units that can be dispensed or offered as a substitute */
+export function sellableQuantity(batches: StockBatch[], asOf?: Date): number {
+  return sumBatchQuantities(batches.filter(batch => isSellable(batch, asOf)))
+}
+
+/** Units on hand in each state other than sellable, for states that have any */
+export function unsellableQuantities(batches: StockBatch[], asOf?: Date): Partial<Record<StockState, number>> {
+  const quantities: Partial<Record<StockState, number>> = {}
+  batches.filter(batch => batch.quantity > 0).forEach(batch => {
+    const state = batchState(batch, asOf)
+    if (state !== 'sellable') quantities[state] = (quantities[state] ?? 0) + batch.quantity
+  })
+  return quantities
+}
+
+/**
+ * Order batches first-expiry-first-out. Batches without a known expiry go
+ * after dated ones, and the opening balance goes after those.
+ */
+export function sortByExpiry(batches: StockBatch[]): StockBatch[] {
+  return [...batches].sort((a, b) => {
+    if (!!a.openingBalance !== !!b.openingBalance) return a.openingBalance ? 1 : -1
+    if (!a.expiryDate) return b.expiryDate ? 1 : 0
+    if (!b.expiryDate) return -1
+    return a.expiryDate.localeCompare(b.expiryDate)
+  })
+}
+
+/**
+ * Pick the batches to take a quantity from, earliest expiry first.
+ * Returns null when the eligible batches cannot cover the quantity.
+ */
+export function allocateFefo(
+  batches: StockBatch[],
+  quantity: number,
+  options: { sellableOnly?: boolean, asOf?: Date } = {}
+): BatchAllocation[] | null {
+  const eligible = sortByExpiry(batches).filter(batch =>
+    batch.quantity > 0 && !(options.sellableOnly && !isSellable(batch, options.asOf))
+  )
+
+  const allocations: BatchAllocation[] = []
+  let remaining = quantity
+
+  for (const batch of eligible) {
+    if (remaining === 0) break
+    const taken = Math.min(batch.quantity, remaining)
+    allocations.push({ batch, quantity: taken })
+    remaining -= taken
+  }
+
+  return remaining === 0 ? allocations : null
+}
+
+/**
+ * Work out the per-batch quantity changes needed to turn one batch list into another.
+ * Batches are matched by id; new rows are receipts and removed rows are written down to zero.
+ */
+export function diffBatchQuantities(original: StockBatch[], desired: StockBatch[]): BatchAllocation[] {
+  const changes: BatchAllocation[] = []
+
+  desired.forEach(batch => {
+    const before = original.find(existing => existing.id === batch.id)
+    const delta = batch.quantity - (before?.quantity ?? 0)
+    if (delta !== 0) changes.push({ batch, quantity: delta })
+  })
+
+  original.forEach(batch => {
+    if (batch.quantity > 0 && !desired.some(existing => existing.id === batch.id)) {
+      changes.push({ batch, quantity: -batch.quantity })
+    }
+  })
+
+  return changes
+}
+
+/**
+ * Validation message for the batch list, or null when it can be saved
+ */
+export function validateBatches(batches: StockBatch[]): string | null {
+  const stocked = batches.filter(batch => batch.quantity > 0)
+  if (stocked.some(batch => !batch.batchNumber.trim() || (!batch.expiryDate && !batch.openingBalance))) {
+    return 'Every batch with stock needs a batch number and expiry date'
+  }
+
+  const numbers = stocked.map(batch => batch.batchNumber.trim())
+  if (new Set(numbers).size !== numbers.length) {
+    return 'Batch numbers must be unique'
+  }
+
+  const unexplained = batches.find(batch => batch.hold && !batch.holdReason?.trim())
+  if (unexplained?.hold) {
+    return `Say why batch ${unexplained.batchNumber || 'without a number'} is ${STOCK_STATE_LABELS[unexplained.hold].toLowerCase()}`
+  }
+
+  return null
+}
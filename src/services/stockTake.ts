@@ -0,0 +1,404 @@
+import { format } from 'date-fns'
+import { Drug, StockTake, StockTakeLine, StockTakeScope, StockTakeStatus, VarianceReason, Witness } from '../types/pharmacy'
+import { createId } from '../lib/utils'
+import { createRepository, Repository } from './repository'
+import { Actor, requirePermission } from './permissions'
+import { DrugCatalogue } from './drugCatalogue'
+import { witnessError } from './controlledRegister'
+import { sortByExpiry } from './stockBatches'
+
+export const STOCK_TAKE_STATUS_LABELS: Record<StockTakeStatus, string> = {
+  counting: 'Counting',
+  posted: 'Posted',
+  cancelled: 'Cancelled'
+}
+
+export const VARIANCE_REASON_LABELS: Record<VarianceReason, string> = {
+  count_error: 'Previous count error',
+  damaged: 'Damaged or broken',
+  expired: 'Expired, not written off',
+  theft: 'Theft or loss',
+  dispensing_error: 'Dispensing error',
+  receiving_error: 'Receiving error',
+  unexplained: 'Unexplained'
+}
+
+export class StockTakeError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'StockTakeError'
+  }
+}
+
+export function scopeLabel(scope: StockTakeScope): string {
+  const parts = [scope.category, scope.location && `shelf ${scope.location}`].filter(Boolean)
+  return parts.length > 0 ? parts.join(', ') : 'Full count'
+}
+
+export function inScope(drug: Drug, scope: StockTakeScope): boolean {
+  if (scope.category && drug.category !== scope.category) return false
+  if (scope.location && drug.location?.trim().toLowerCase() !== scope.location.trim().toLowerCase()) return false
+  return true
+}
+
+/**
+ * One line per batch of every drug in scope, in shelf order. Drugs with no
+ * stock get a blank line so anything found on the shelf can still be counted.
+ */
+export function generateCountSheet(drugs: Drug[], scope: StockTakeScope): StockTakeLine[] {
+  return drugs
+    .filter(drug => inScope(drug, scope))
+    .sort((a, b) => (a.location ?? '').localeCompare(b.location ?? '') || a.name.localeCompare(b.name))
+    .flatMap(drug => {
+      const batches = sortByExpiry(drug.batches.filter(batch => batch.quantity > 0))
+      const base = {
+        drugId: drug.id,
+        drugName: drug.name,
+        dosage: drug.dosage,
+        dosageForm: drug.dosageForm,
+        location: drug.location,
+        unitPrice: drug.unitPrice,
+        isControlled: drug.isControlled
+      }
+      if (batches.length === 0) {
+        return [{ ...base, key: createId('line'), batchNumber: '', expiryDate: '', expectedQuantity: 0 }]
+      }
+      return batches.map(batch => ({
+        ...base,
+        key: createId('line'),
+        batchNumber: batch.batchNumber,
+        expiryDate: batch.expiryDate,
+        expectedQuantity: batch.quantity
+      }))
+    })
+}
+
+/**
+ * Counted minus expected, or null while the line is uncounted
+ */
+export function lineVariance(line: StockTakeLine): number | null {
+  return line.countedQuantity === undefined ? null : line.countedQuantity - line.expectedQuantity
+}
+
+export function varianceValue(line: StockTakeLine): number {
+  return (lineVariance(line) ?? 0) * line.unitPrice
+}
+
+/** Lines whose lot and expiry are entered by the counter rather than taken from the system */
+export const isOpenLine = (line: StockTakeLine) => line.foundOnShelf || !line.batchNumber
+
+export interface StockTakeSummary {
+  lines: number
+  counted: number
+  withVariance: number
+  netUnits: number
+  gainValue: number
+  lossValue: number
+}
+
+export function summariseStockTake(lines: StockTakeLine[]): StockTakeSummary {
+  const counted = lines.filter(line => line.countedQuantity !== undefined)
+  const varied = counted.filter(line => lineVariance(line) !== 0)
+  return {
+    lines: lines.length,
+    counted: counted.length,
+    withVariance: varied.length,
+    netUnits: varied.reduce((sum, line) => sum + (lineVariance(line) ?? 0), 0),
+    gainValue: varied.reduce((sum, line) => sum + Math.max(0, varianceValue(line)), 0),
+    lossValue: varied.reduce((sum, line) => sum + Math.min(0, varianceValue(line)), 0)
+  }
+}
+
+/**
+ * Add a scanned pack to the count. GS1 pack codes go to the line for their lot,
+ * and a lot the system does not know about gets its own line. Returns the
+ * updated lines and the key of the line counted.
+ */
+export function countScannedPack(
+  lines: StockTakeLine[],
+  drug: Drug,
+  lot: string | undefined,
+  expiryDate: string | undefined,
+  units: number
+): { lines: StockTakeLine[], key: string } {
+  const forDrug = lines.filter(line => line.drugId === drug.id)
+  if (forDrug.length === 0) throw new StockTakeError(`${drug.name} is not on this count sheet`)
+
+  let target = lot
+    ? forDrug.find(line => line.batchNumber === lot) ?? forDrug.find(line => !line.batchNumber)
+    : forDrug.length === 1 ? forDrug[0] : undefined
+
+  if (!target && !lot) {
+    throw new StockTakeError(`${drug.name} has ${forDrug.length} lots on the sheet: enter the count against the right lot`)
+  }
+
+  if (!target) {
+    target = {
+      ...forDrug[0],
+      key: createId('line'),
+      batchNumber: lot ?? '',
+      expiryDate: expiryDate ?? '',
+      expectedQuantity: 0,
+      countedQuantity: 0,
+      foundOnShelf: true,
+      reasonCode: undefined,
+      approved: undefined
+    }
+    const index = lines.lastIndexOf(forDrug[forDrug.length - 1])
+    lines = [...lines.slice(0, index + 1), target, ...lines.slice(index + 1)]
+  }
+
+  const key = target.key
+  return {
+    key,
+    lines: lines.map(line => line.key !== key ? line : {
+      ...line,
+      countedQuantity: (line.countedQuantity ?? 0) + units,
+      batchNumber: line.batchNumber || lot || '',
+      expiryDate: line.expiryDate || expiryDate || ''
+    })
+  }
+}
+
+function currentQuantity(line: StockTakeLine, drugs: Drug[]): number {
+  const drug = drugs.find(candidate => candidate.id === line.drugId)
+  if (!line.batchNumber) return 0
+  return drug?.batches.find(batch => batch.batchNumber === line.batchNumber)?.quantity ?? 0
+}
+
+/**
+ * Lines whose stock has moved since the sheet was generated, e.g. by a
+ * dispense during the count. Their variance cannot be trusted until recounted.
+ */
+export function movedLines(lines: StockTakeLine[], drugs: Drug[]): StockTakeLine[] {
+  return lines.filter(line => !line.transactionIds && currentQuantity(line, drugs) !== line.expectedQuantity)
+}
+
+/** Variances accepted for posting and not yet posted */
+export const linesToPost = (lines: StockTakeLine[]) =>
+  lines.filter(line => line.approved && !line.transactionIds && (lineVariance(line) ?? 0) !== 0)
+
+/**
+ * Check the approved variances before any are posted. Returns a message
+ * describing the first problem found.
+ */
+export function validatePosting(stockTake: StockTake, drugs: Drug[], witness: Witness | undefined, actor: Actor): string | null {
+  const lines = linesToPost(stockTake.lines)
+  for (const line of lines) {
+    if (!drugs.some(drug => drug.id === line.drugId)) return `${line.drugName} is no longer in the inventory`
+    if (!line.reasonCode) return `Choose a reason for the variance on ${line.drugName}`
+    if (movedLines([line], drugs).length > 0) {
+      return `Stock of ${line.drugName}${line.batchNumber ? ` (lot ${line.batchNumber})` : ''} has moved since the sheet was generated: recount it`
+    }
+    if (isOpenLine(line) && (!line.batchNumber.trim() || !line.expiryDate)) {
+      return `Enter the lot and expiry for the ${line.drugName} found on the shelf`
+    }
+    if (stockTake.lines.some(other => other.key !== line.key && other.drugId === line.drugId && other.batchNumber === line.batchNumber)) {
+      return `Lot ${line.batchNumber} of ${line.drugName} is on the sheet twice: count it on one line`
+    }
+  }
+
+  if (lines.some(line => line.isControlled)) {
+    const problem = witnessError(witness, actor)
+    if (problem) return problem
+  }
+  return null
+}
+
+/**
+ * Next stock-take reference for the day, e.g. "ST-20260314-0001"
+ */
+export function nextStockTakeReference(stockTakes: StockTake[], date: Date = new Date()): string {
+  const prefix = `ST-${format(date, 'yyyyMMdd')}-`
+  const count = stockTakes.filter(stockTake => stockTake.reference.startsWith(prefix)).length
+  return `${prefix}${(count + 1).toString().padStart(4, '0')}`
+}
+
+/**
+ * Stock-take sessions. Counts are entered by anyone with stock.count; the
+ * session is kept as the report once its variances are posted.
+ */
+export class StockTakeBook {
+  private stockTakes: Repository<StockTake>
+
+  constructor(stockTakes: Repository<StockTake> = createRepository('stockTakes')) {
+    this.stockTakes = stockTakes
+  }
+
+  async list(actor: Actor): Promise<StockTake[]> {
+    const stockTakes = await this.stockTakes.list(actor.userId)
+    return stockTakes.sort((a, b) => b.startedAt.localeCompare(a.startedAt))
+  }
+
+  async start(scope: StockTakeScope, drugs: Drug[], actor: Actor): Promise<StockTake> {
+    requirePermission(actor, 'stock.count')
+
+    const cleanScope: StockTakeScope = {
+      category: scope.category?.trim() || undefined,
+      location: scope.location?.trim() || undefined
+    }
+    const lines = generateCountSheet(drugs, cleanScope)
+    if (lines.length === 0) throw new StockTakeError(`Nothing in the inventory matches ${scopeLabel(cleanScope).toLowerCase()}`)
+
+    const now = new Date().toISOString()
+    return this.stockTakes.create({
+      id: createId('stocktake'),
+      reference: nextStockTakeReference(await this.stockTakes.list(actor.userId)),
+      scope: cleanScope,
+      status: 'counting',
+      lines,
+      startedBy: actor.name,
+      startedAt: now,
+      updatedAt: now,
+      userId: actor.userId
+    })
+  }
+
+  /**
+   * Save the counts entered so far. Lines found on the shelf are added; the
+   * expected quantities of existing lines are never taken from the client.
+   */
+  async saveCounts(id: string, counts: StockTakeLine[], notes: string | undefined, actor: Actor): Promise<StockTake> {
+    requirePermission(actor, 'stock.count')
+    const stockTake = await this.requireCounting(actor.userId, id)
+
+    for (const line of counts) {
+      if (line.countedQuantity !== undefined && (!Number.isInteger(line.countedQuantity) || line.countedQuantity < 0)) {
+        throw new StockTakeError(`The count for ${line.drugName} must be a whole number of units`)
+      }
+    }
+
+    const lines = counts.flatMap(count => {
+      const existing = stockTake.lines.find(line => line.key === count.key)
+      if (existing?.transactionIds) return [existing]
+      if (!existing) return count.foundOnShelf ? [{ ...count, expectedQuantity: 0, transactionIds: undefined }] : []
+      return [{
+        ...existing,
+        countedQuantity: count.countedQuantity,
+        reasonCode: count.reasonCode,
+        approved: count.approved,
+        batchNumber: isOpenLine(existing) ? count.batchNumber.trim() : existing.batchNumber,
+        expiryDate: isOpenLine(existing) ? count.expiryDate : existing.expiryDate
+      }]
+    })
+
+    return this.stockTakes.update(actor.userId, id, {
+      lines,
+      notes: notes?.trim() || undefined,
+      updatedAt: new Date().toISOString()
+    })
+  }
+
+  /**
+   * Take fresh expected quantities for lines whose stock moved during the count
+   * and clear their counts so they are counted again
+   */
+  async recount(id: string, drugs: Drug[], actor: Actor): Promise<StockTake> {
+    requirePermission(actor, 'stock.count')
+    const stockTake = await this.requireCounting(actor.userId, id)
+
+    const moved = new Set(movedLines(stockTake.lines, drugs).map(line => line.key))
+    return this.stockTakes.update(actor.userId, id, {
+      lines: stockTake.lines.map(line => !moved.has(line.key) ? line : {
+        ...line,
+        expectedQuantity: currentQuantity(line, drugs),
+        countedQuantity: undefined,
+        approved: undefined
+      }),
+      updatedAt: new Date().toISOString()
+    })
+  }
+
+  async cancel(id: string, actor: Actor): Promise<StockTake> {
+    requirePermission(actor, 'stock.count')
+    const stockTake = await this.requireCounting(actor.userId, id)
+    if (stockTake.lines.some(line => line.transactionIds)) {
+      throw new StockTakeError(`Some variances on ${stockTake.reference} are already posted: post the rest or leave them unapproved`)
+    }
+
+    return this.stockTakes.update(actor.userId, id, {
+      status: 'cancelled',
+      updatedAt: new Date().toISOString()
+    })
+  }
+
+  private async requireCounting(userId: string, id: string): Promise<StockTake> {
+    const stockTake = await this.stockTakes.get(userId, id)
+    if (!stockTake) throw new StockTakeError('Stock-take not found')
+    if (stockTake.status !== 'counting') {
+      throw new StockTakeError(`${stockTake.reference} is ${STOCK_TAKE_STATUS_LABELS[stockTake.status].toLowerCase()} and cannot be changed`)
+    }
+    return stockTake
+  }
+}
+
+/**
+ * Posts the approved variances of a stock-take as stock adjustments and closes
+ * the session. Unapproved variances stay on the report without changing stock.
+ */
+export class StockReconciliation {
+  private catalogue: DrugCatalogue
+  private stockTakes: Repository<StockTake>
+
+  constructor(catalogue: DrugCatalogue, stockTakes: Repository<StockTake> = createRepository('stockTakes')) {
+    this.catalogue = catalogue
+    this.stockTakes = stockTakes
+  }
+
+  async post(
+    id: string,
+    drugs: Drug[],
+    witness: Witness | undefined,
+    actor: Actor
+  ): Promise<{ stockTake: StockTake, drugs: Drug[] }> {
+    requirePermission(actor, 'stock.adjust', 'post stock-take adjustments')
+
+    const stockTake = await this.stockTakes.get(actor.userId, id)
+    if (!stockTake) throw new StockTakeError('Stock-take not found')
+    if (stockTake.status !== 'counting') {
+      throw new StockTakeError(`${stockTake.reference} is ${STOCK_TAKE_STATUS_LABELS[stockTake.status].toLowerCase()} and cannot be posted`)
+    }
+
+    const problem = validatePosting(stockTake, drugs, witness, actor)
+    if (problem) throw new StockTakeError(problem)
+
+    const toPost = new Set(linesToPost(stockTake.lines).map(line => line.key))
+    const updatedDrugs = new Map<string, Drug>()
+    const lines = [...stockTake.lines]
+
+    try {
+      for (const [index, line] of lines.entries()) {
+        if (!toPost.has(line.key) || !line.reasonCode) continue
+        const drug = updatedDrugs.get(line.drugId) ?? drugs.find(candidate => candidate.id === line.drugId)
+        if (!drug) continue
+
+        const result = await this.catalogue.recordMovement(drug, {
+          type: 'adjust',
+          quantity: lineVariance(line) ?? 0,
+          reason: `Stock-take ${stockTake.reference}: ${VARIANCE_REASON_LABELS[line.reasonCode]}`,
+          batchNumber: line.batchNumber,
+          expiryDate: line.expiryDate || undefined,
+          witness: line.isControlled ? witness : undefined
+        }, actor)
+        updatedDrugs.set(drug.id, result.drug)
+        lines[index] = { ...line, transactionIds: result.transactions.map(transaction => transaction.id) }
+      }
+    } catch (error) {
+      // Keep what was posted so a retry only posts the remaining lines
+      await this.stockTakes.update(actor.userId, id, { lines, updatedAt: new Date().toISOString() })
+      throw error
+    }
+
+    const now = new Date().toISOString()
+    const posted = await this.stockTakes.update(actor.userId, id, {
+      lines,
+      status: 'posted',
+      postedBy: actor.name,
+      postedAt: now,
+      witnessedBy: lines.some(line => line.isControlled && line.transactionIds) ? witness?.name : undefined,
+      updatedAt: now
+    })
+
+    return { stockTake: posted, drugs: [...updatedDrugs.values()] }
+  }
+}
@@ -0,0 +1,286 @@
+/**
+ * Parsing and comparison of product strengths such as "500mg", "250mg/5ml",
+ * "875mg/125mg", "1000 IU", "1%", "20mmol/10ml" or "25mcg/h".
+ */
+
+export type StrengthKind = 'mass' | 'units' | 'molar' | 'percent'
+
+export type DenominatorKind = 'volume' | 'time' | 'dose'
+
+export interface StrengthDenominator {
+  amount: number
+  /** Canonical unit: ml for volume, h for time, dose for metered doses */
+  unit: 'ml' | 'h' | 'dose'
+  kind: DenominatorKind
+}
+
+/**
+ * One active ingredient's amount, in canonical units (mg, IU, mmol or %)
+ */
+export interface StrengthComponent {
+  amount: number
+  unit: 'mg' | 'IU' | 'mmol' | '%'
+  kind: StrengthKind
+  per?: StrengthDenominator
+}
+
+export interface Strength {
+  raw: string
+  components: StrengthComponent[]
+}
+
+/** How two strengths relate: a single scale factor on the same basis */
+export interface StrengthComparison {
+  /** target / candidate on the shared basis */
+  ratio: number
+  basis: 'amount' | 'concentration' | 'rate' | 'dose'
+}
+
+const NUMERATOR_UNITS: Record<string, { unit: StrengthComponent['unit'], kind: StrengthKind, factor: number }> = {
+  kg: { unit: 'mg', kind: 'mass', factor: 1e6 },
+  g: { unit: 'mg', kind: 'mass', factor: 1000 },
+  mg: { unit: 'mg', kind: 'mass', factor: 1 },
+  mcg: { unit: 'mg', kind: 'mass', factor: 0.001 },
+  ug: { unit: 'mg', kind: 'mass', factor: 0.001 },
+  'µg': { unit: 'mg', kind: 'mass', factor: 0.001 },
+  ng: { unit: 'mg', kind: 'mass', factor: 1e-6 },
+  iu: { unit: 'IU', kind: 'units', factor: 1 },
+  u: { unit: 'IU', kind: 'units', factor: 1 },
+  unit: { unit: 'IU', kind: 'units', factor: 1 },
+  units: { unit: 'IU', kind: 'units', factor: 1 },
+  mol: { unit: 'mmol', kind: 'molar', factor: 1000 },
+  mmol: { unit: 'mmol', kind: 'molar', factor: 1 },
+  micromol: { unit: 'mmol', kind: 'molar', factor: 0.001 },
+  '%': { unit: '%', kind: 'percent', factor: 1 }
+}
+
+const DENOMINATOR_UNITS: Record<string, { unit: StrengthDenominator['unit'], kind: DenominatorKind, factor: number }> = {
+  l: { unit: 'ml', kind: 'volume', factor: 1000 },
+  ml: { unit: 'ml', kind: 'volume', factor: 1 },
+  h: { unit: 'h', kind: 'time', factor: 1 },
+  hr: { unit: 'h', kind: 'time', factor: 1 },
+  hour: { unit: 'h', kind: 'time', factor: 1 },
+  hours: { unit: 'h', kind: 'time', factor: 1 },
+  day: { unit: 'h', kind: 'time', factor: 24 },
+  dose: { unit: 'dose', kind: 'dose', factor: 1 },
+  actuation: { unit: 'dose', kind: 'dose', factor: 1 },
+  puff: { unit: 'dose', kind: 'dose', factor: 1 },
+  spray: { unit: 'dose', kind: 'dose', factor: 1 }
+}
+
+const QUANTITY_PATTERN = /^(\d+(?:[.,]\d+)?)?\s*([a-zµ%]+)$/i
+
+/** Percentages are read as w/v: 1% = 1 g per 100 ml = 10 mg/ml */
+const PERCENT_AS_MG_PER_ML = 10
+
+function parseQuantity(text: string): { amount: number | null, unit: string } | null {
+  const match = text.trim().match(QUANTITY_PATTERN)
+  if (!match) return null
+  return {
+    amount: match[1] ? parseFloat(match[1].replace(',', '.')) : null,
+    unit: match[2].toLowerCase()
+  }
+}
+
+/**
+ * Parse a single ingredient part such as "250mg/5ml", "25mcg/h" or "875mg/125mg".
+ * A slash followed by another numerator unit starts a second ingredient.
+ */
+function parsePart(part: string): StrengthComponent[] | null {
+  const pieces = part.split('/')
+  const components: StrengthComponent[] = []
+
+  for (const piece of pieces) {
+    const quantity = parseQuantity(piece)
+    if (!quantity) return null
+
+    const denominator = DENOMINATOR_UNITS[quantity.unit]
+    const previous = components[components.length - 1]
+    if (denominator && previous && !previous.per) {
+      previous.per = {
+        amount: (quantity.amount ?? 1) * denominator.factor,
+        unit: denominator.unit,
+        kind: denominator.kind
+      }
+      continue
+    }
+
+    const numerator = NUMERATOR_UNITS[quantity.unit]
+    if (!numerator || quantity.amount === null) return null
+    components.push({
+      amount: quantity.amount * numerator.factor,
+      unit: numerator.unit,
+      kind: numerator.kind
+    })
+  }
+
+  return components.length > 0 ? components : null
+}
+
+/**
+ * Parse a strength string. Ingredients may be joined with "+" or "/";
+ * returns null when nothing recognisable is found.
+ */
+export function parseStrength(raw: string): Strength | null {
+  const parts = raw
+    .toLowerCase()
+    .replace(/\s+/g, '')
+    .replace(/micrograms?/g, 'mcg')
+    .replace(/milligrams?/g, 'mg')
+    .split(/[+&]/)
+    .filter(Boolean)
+
+  const components: StrengthComponent[] = []
+  for (const part of parts) {
+    const parsed = parsePart(part)
+    if (!parsed) return null
+    components.push(...parsed)
+  }
+
+  if (components.length === 0) return null
+
+  // "875mg/125mg/5ml": a trailing volume applies to every ingredient in the part
+  const shared = components[components.length - 1].per
+  if (shared && components.length > 1 && components.slice(0, -1).every(component => !component.per)) {
+    components.forEach(component => { component.per = shared })
+  }
+
+  return { raw, components }
+}
+
+/**
+ * The value used to compare a component with others: amount per ml for liquids
+ * and percentages, per hour for patches, per dose for inhalers, else the amount
+ */
+function normalisedAmount(component: StrengthComponent): { value: number, basis: StrengthComparison['basis'], unit: string } {
+  if (component.kind === 'percent') {
+    return { value: component.amount * PERCENT_AS_MG_PER_ML, basis: 'concentration', unit: 'mg' }
+  }
+  if (!component.per) return { value: component.amount, basis: 'amount', unit: component.unit }
+
+  const value = component.amount / component.per.amount
+  switch (component.per.kind) {
+    case 'volume': return { value, basis: 'concentration', unit: component.unit }
+    case 'time': return { value, basis: 'rate', unit: component.unit }
+    default: return { value, basis: 'dose', unit: component.unit }
+  }
+}
+
+/**
+ * Compare two strengths on a shared basis. Returns null when they cannot be
+ * compared (different units, different bases, or combinations whose
+ * ingredients are not in the same proportion).
+ */
+export function compareStrengths(target: Strength, candidate: Strength): StrengthComparison | null {
+  if (target.components.length !== candidate.components.length) return null
+
+  let comparison: StrengthComparison | null = null
+  for (let index = 0; index < target.components.length; index++) {
+    const a = normalisedAmount(target.components[index])
+    const b = normalisedAmount(candidate.components[index])
+    if (a.basis !== b.basis || a.unit !== b.unit || b.value === 0) return null
+
+    const ratio = a.value / b.value
+    if (comparison && Math.abs(comparison.ratio - ratio) / comparison.ratio > 0.01) return null
+    comparison = comparison ?? { ratio, basis: a.basis }
+  }
+
+  return comparison
+}
+
+/**
+ * Whether the products contain the same ingredients in the same proportion,
+ * whatever the absolute strength
+ */
+export function isProportional(target: Strength, candidate: Strength): boolean {
+  return compareStrengths(target, candidate) !== null
+}
+
+/**
+ * Similarity of two strengths from 0 (unrelated) to 1 (identical). Liquids are
+ * compared by concentration, so "250mg/5ml" and "50mg/ml" score 1.
+ */
+export function strengthSimilarity(target: Strength, candidate: Strength): number {
+  const comparison = compareStrengths(target, candidate)
+  if (!comparison) return 0
+  return Math.min(comparison.ratio, 1 / comparison.ratio)
+}
+
+const formatNumber = (value: number) => Number(value.toFixed(2)).toString()
+
+const formatAmount = (amount: number, unit: string) => {
+  if (unit === 'mg' && amount < 1) return `${formatNumber(amount * 1000)}mcg`
+  if (unit === 'mg' && amount >= 1000) return `${formatNumber(amount / 1000)}g`
+  return `${formatNumber(amount)}${unit}`
+}
+
+/**
+ * Whether two strength strings describe the same amount, e.g. "0.5g" and "500mg".
+ * Falls back to a text comparison when either cannot be parsed.
+ */
+export function isSameStrength(a: string, b: string): boolean {
+  const first = parseStrength(a)
+  const second = parseStrength(b)
+  if (!first || !second) return a.replace(/\s+/g, '').toLowerCase() === b.replace(/\s+/g, '').toLowerCase()
+
+  const comparison = compareStrengths(first, second)
+  return !!comparison && Math.abs(comparison.ratio - 1) < 0.001
+}
+
+/**
+ * Write one component back out, e.g. "125mg/5ml"
+ */
+export function formatStrengthComponent(component: StrengthComponent): string {
+  const amount = component.unit === '%' ? `${formatNumber(component.amount)}%` : formatAmount(component.amount, component.unit)
+  if (!component.per) return amount
+  const perAmount = component.per.amount === 1 ? '' : formatNumber(component.per.amount)
+  return `${amount}/${perAmount}${component.per.unit}`
+}
+
+/**
+ * Practical dosing advice for giving the candidate in place of the target,
+ * e.g. "Give 10ml of 125mg/5ml for every 5ml of 250mg/5ml". Returns undefined
+ * when the strengths are identical or cannot be related.
+ */
+export function describeDoseEquivalence(targetText: string, candidateText: string): string | undefined {
+  const target = parseStrength(targetText)
+  const candidate = parseStrength(candidateText)
+  if (!target || !candidate) return undefined
+
+  const comparison = compareStrengths(target, candidate)
+  if (comparison) {
+    if (Math.abs(comparison.ratio - 1) < 0.001) return undefined
+
+    if (comparison.basis === 'concentration') {
+      const referenceVolume = target.components[0].per?.amount ?? 1
+      return `Give ${formatNumber(referenceVolume * comparison.ratio)}ml of ${candidateText} for every ${formatNumber(referenceVolume)}ml of ${targetText}`
+    }
+    if (comparison.basis === 'rate') {
+      return `Use ${formatNumber(comparison.ratio)} x ${candidateText} to deliver the same rate as ${targetText}`
+    }
+    if (comparison.basis === 'dose') {
+      return `Give ${formatNumber(comparison.ratio)} doses of ${candidateText} for each dose of ${targetText}`
+    }
+    return `Give ${formatNumber(comparison.ratio)} x ${candidateText} for each ${targetText}`
+  }
+
+  // Solid dose replaced by a liquid (or vice versa) of a single ingredient
+  if (target.components.length === 1 && candidate.components.length === 1) {
+    const [targetComponent] = target.components
+    const [candidateComponent] = candidate.components
+    const targetNormalised = normalisedAmount(targetComponent)
+    const candidateNormalised = normalisedAmount(candidateComponent)
+    if (targetNormalised.unit !== candidateNormalised.unit) return undefined
+
+    if (targetNormalised.basis === 'amount' && candidateNormalised.basis === 'concentration') {
+      const volume = targetNormalised.value / candidateNormalised.value
+      return `Give ${formatNumber(volume)}ml of ${candidateText} to provide ${formatAmount(targetComponent.amount, targetComponent.unit)}`
+    }
+    if (targetNormalised.basis === 'concentration' && candidateNormalised.basis === 'amount') {
+      const volume = candidateNormalised.value / targetNormalised.value
+      return `Each ${candidateText} unit replaces ${formatNumber(volume)}ml of ${targetText}`
+    }
+  }
+
+  return undefined
+}
@@ -1,4 +1,16 @@
 import { Drug, SubstitutionSuggestion, SubstitutionRule } from '../types/pharmacy'
+import { describeDoseEquivalence, isProportional, isSameStrength, parseStrength, strengthSimilarity } from './strength'
+import { ATC_LEVEL_NAMES, describeAtcGroup, sharedAtcLevel } from './atc'
+import { combinedStrength, compareIngredients, drugIngredients, ingredientKey, ingredientSetKey, splitIngredientNames } from './ingredients'
+import { sellableQuantity } from './stockBatches'
+
+/**
+ * A drug's strength with ingredients in a stable order, so "A + B" and "B + A"
+ * combinations compare component by component
+ */
+const comparableStrength = (drug: Drug) => combinedStrength(drugIngredients(drug))
+
+const ingredientSetOf = (drug: Drug) => ingredientSetKey(drugIngredients(drug))
 
 export class SubstitutionEngine {
   private drugs: Drug[] = []
@@ -10,20 +22,24 @@ export class SubstitutionEngine {
   }
 
   /**
-   * Find substitute drugs based on active molecule and dosage
+   * Find substitute drugs based on active ingredients and their strengths.
+   * Exact and equivalent matches need the full ingredient set; products that
+   * share only some ingredients are returned as partial matches.
    */
   findSubstitutes(targetDrug: Drug, availableOnly: boolean = true): SubstitutionSuggestion[] {
     const suggestions: SubstitutionSuggestion[] = []
     
     // Filter available drugs if requested
     const searchPool = availableOnly 
-      ? this.drugs.filter(drug => drug.stockLevel > 0 && drug.id !== targetDrug.id)
+      ? this.drugs.filter(drug => sellableQuantity(drug.batches) > 0 && drug.id !== targetDrug.id)
       : this.drugs.filter(drug => drug.id !== targetDrug.id)
 
-    // 1. Exact matches (same active molecule, same dosage, same form)
-    const exactMatches = searchPool.filter(drug => 
-      drug.activeMolecule.toLowerCase() === targetDrug.activeMolecule.toLowerCase() &&
-      drug.dosage === targetDrug.dosage &&
+    const targetIngredients = ingredientSetOf(targetDrug)
+    const sameIngredients = searchPool.filter(drug => ingredientSetOf(drug) === targetIngredients)
+
+    // 1. Exact matches (same ingredients, same strengths, same form)
+    const exactMatches = sameIngredients.filter(drug =>
+      isSameStrength(comparableStrength(drug), comparableStrength(targetDrug)) &&
       drug.dosageForm.toLowerCase() === targetDrug.dosageForm.toLowerCase()
     )
 
@@ -36,11 +52,8 @@ export class SubstitutionEngine {
       })
     })
 
-    // 2. Equivalent matches (same active molecule, different dosage or form)
-    const equivalentMatches = searchPool.filter(drug => 
-      drug.activeMolecule.toLowerCase() === targetDrug.activeMolecule.toLowerCase() &&
-      !exactMatches.includes(drug)
-    )
+    // 2. Equivalent matches (same ingredients, different strength or form)
+    const equivalentMatches = sameIngredients.filter(drug => !exactMatches.includes(drug))
 
     equivalentMatches.forEach(drug => {
       const confidence = this.calculateEquivalentConfidence(targetDrug, drug)
@@ -57,20 +70,40 @@ export class SubstitutionEngine {
       })
     })
 
-    // 3. Similar matches (different active molecule but same therapeutic class)
-    const similarMatches = this.findSimilarByTherapeuticClass(targetDrug, searchPool)
+    // 3. Partial matches (some ingredients shared, some missing or extra)
+    const partialMatches = searchPool.filter(drug =>
+      !sameIngredients.includes(drug) &&
+      compareIngredients(drugIngredients(targetDrug), drugIngredients(drug)).shared.length > 0
+    )
+
+    partialMatches.forEach(drug => {
+      const overlap = compareIngredients(drugIngredients(targetDrug), drugIngredients(drug))
+      suggestions.push({
+        drug,
+        matchType: 'partial',
+        confidence: this.calculatePartialConfidence(targetDrug, drug),
+        reason: `Shares ${overlap.shared.join(', ')} but contains ${drug.activeMolecule}`,
+        warnings: this.getPartialMatchWarnings(targetDrug, drug)
+      })
+    })
+
+    // 4. Similar matches (no shared ingredients but same therapeutic class)
+    const similarMatches = this.findSimilarByTherapeuticClass(
+      targetDrug,
+      searchPool.filter(drug => !sameIngredients.includes(drug) && !partialMatches.includes(drug))
+    )
     
-    similarMatches.forEach(({ drug, similarity }) => {
+    similarMatches.forEach(({ drug, similarity, reason }) => {
       suggestions.push({
         drug,
         matchType: 'similar',
         confidence: similarity,
-        reason: `Similar therapeutic class (${drug.category})`,
+        reason,
         warnings: ['Different active molecule - consult pharmacist before substitution']
       })
     })
 
-    // 4. Apply custom substitution rules
+    // 5. Apply custom substitution rules
     const ruleBasedSuggestions = this.applySubstitutionRules(targetDrug, searchPool)
     suggestions.push(...ruleBasedSuggestions)
 
@@ -89,13 +122,12 @@ export class SubstitutionEngine {
       confidence += 10
     }
 
-    // Dosage similarity
-    const targetStrength = this.parseStrength(target.dosage)
-    const candidateStrength = this.parseStrength(candidate.dosage)
+    // Dosage similarity: liquids by concentration, combinations only when proportional
+    const targetStrength = parseStrength(comparableStrength(target))
+    const candidateStrength = parseStrength(comparableStrength(candidate))
     
     if (targetStrength && candidateStrength) {
-      const ratio = Math.min(targetStrength, candidateStrength) / Math.max(targetStrength, candidateStrength)
-      confidence += Math.floor(ratio * 10) // Up to 10 points for dosage similarity
+      confidence += Math.floor(strengthSimilarity(targetStrength, candidateStrength) * 10) // Up to 10 points for dosage similarity
     }
 
     // Brand vs generic consideration
@@ -112,20 +144,7 @@ export class SubstitutionEngine {
    * Calculate dosage adjustment instructions
    */
   private calculateDosageAdjustment(target: Drug, candidate: Drug): string | undefined {
-    const targetStrength = this.parseStrength(target.dosage)
-    const candidateStrength = this.parseStrength(candidate.dosage)
-
-    if (!targetStrength || !candidateStrength) return undefined
-
-    const ratio = targetStrength / candidateStrength
-
-    if (ratio === 1) return undefined
-
-    if (ratio > 1) {
-      return `Take ${ratio.toFixed(1)}x the usual dose (${candidate.dosage} → equivalent to ${target.dosage})`
-    } else {
-      return `Take ${(1/ratio).toFixed(1)}x less (${candidate.dosage} → equivalent to ${target.dosage})`
-    }
+    return describeDoseEquivalence(comparableStrength(target), comparableStrength(candidate))
   }
 
   /**
@@ -139,6 +158,16 @@ export class SubstitutionEngine {
       warnings.push(`Different dosage form: ${target.dosageForm} → ${candidate.dosageForm}`)
     }
 
+    // Strengths that cannot be related by a simple dose change
+    const targetStrength = parseStrength(comparableStrength(target))
+    const candidateStrength = parseStrength(comparableStrength(candidate))
+    if (targetStrength && candidateStrength &&
+        targetStrength.components.length > 1 && !isProportional(targetStrength, candidateStrength)) {
+      warnings.push(`Different ingredient ratio: ${target.dosage} → ${candidate.dosage} is not a dose-for-dose substitute`)
+    } else if (!targetStrength || !candidateStrength) {
+      warnings.push(`Strength could not be compared (${target.dosage} → ${candidate.dosage}) - check the dose manually`)
+    }
+
     // Controlled substance warning
     if (target.isControlled || candidate.isControlled) {
       warnings.push('Controlled substance - verify prescription requirements')
@@ -153,38 +182,86 @@ export class SubstitutionEngine {
   }
 
   /**
-   * Find similar drugs by therapeutic class
+   * Calculate confidence for partial matches from the share of ingredients in common.
+   * Capped below every equivalent match so a full-set product always ranks first.
+   */
+  private calculatePartialConfidence(target: Drug, candidate: Drug): number {
+    const overlap = compareIngredients(drugIngredients(target), drugIngredients(candidate))
+    const total = overlap.shared.length + overlap.missing.length + overlap.extra.length
+    return Math.min(30 + Math.round((overlap.shared.length / total) * 30), 60)
+  }
+
+  /**
+   * Warnings for a partial match: every ingredient gained or lost, and the
+   * strength of each shared ingredient that differs
+   */
+  private getPartialMatchWarnings(target: Drug, candidate: Drug): string[] {
+    const targetIngredients = drugIngredients(target)
+    const candidateIngredients = drugIngredients(candidate)
+    const overlap = compareIngredients(targetIngredients, candidateIngredients)
+    const warnings = ['Partial ingredient match - pharmacist must confirm this is clinically appropriate']
+
+    if (overlap.missing.length > 0) {
+      warnings.push(`Missing ingredient: ${overlap.missing.join(', ')} would not be supplied`)
+    }
+    if (overlap.extra.length > 0) {
+      warnings.push(`Additional ingredient: ${overlap.extra.join(', ')} - check allergies and interactions`)
+    }
+
+    overlap.shared.forEach(name => {
+      const key = ingredientKey(name)
+      const targetStrength = targetIngredients.find(ingredient => ingredientKey(ingredient.name) === key)?.strength ?? ''
+      const candidateStrength = candidateIngredients.find(ingredient => ingredientKey(ingredient.name) === key)?.strength ?? ''
+      if (!isSameStrength(targetStrength, candidateStrength)) {
+        warnings.push(`Different ${name} strength: ${targetStrength || 'unknown'} → ${candidateStrength || 'unknown'}`)
+      }
+    })
+
+    if (target.isControlled || candidate.isControlled) {
+      warnings.push('Controlled substance - verify prescription requirements')
+    }
+
+    return warnings
+  }
+
+  /**
+   * Find similar drugs by therapeutic class. Drugs with ATC codes must share at
+   * least the pharmacological subgroup (level 3); drugs without one fall back
+   * to matching on category.
    */
-  private findSimilarByTherapeuticClass(target: Drug, searchPool: Drug[]): Array<{drug: Drug, similarity: number}> {
+  private findSimilarByTherapeuticClass(target: Drug, searchPool: Drug[]): Array<{drug: Drug, similarity: number, reason: string}> {
     return searchPool
-      .filter(drug => 
-        drug.category.toLowerCase() === target.category.toLowerCase() &&
-        drug.activeMolecule.toLowerCase() !== target.activeMolecule.toLowerCase()
-      )
-      .map(drug => ({
-        drug,
-        similarity: this.calculateTherapeuticSimilarity(target, drug)
-      }))
+      .map(drug => ({ drug, ...this.calculateTherapeuticSimilarity(target, drug) }))
       .filter(item => item.similarity >= 30) // Minimum similarity threshold
   }
 
   /**
-   * Calculate therapeutic similarity
+   * Calculate therapeutic similarity: the deeper the shared ATC level, the higher the score
    */
-  private calculateTherapeuticSimilarity(target: Drug, candidate: Drug): number {
-    let similarity = 40 // Base similarity for same category
+  private calculateTherapeuticSimilarity(target: Drug, candidate: Drug): { similarity: number, reason: string } {
+    let similarity = 0
+    let reason = ''
 
-    // Same dosage form bonus
-    if (target.dosageForm.toLowerCase() === candidate.dosageForm.toLowerCase()) {
-      similarity += 20
+    if (target.atcCode && candidate.atcCode) {
+      const level = sharedAtcLevel(target.atcCode, candidate.atcCode)
+      if (level < 3) return { similarity: 0, reason: '' }
+
+      similarity = level === 5 ? 65 : level === 4 ? 55 : 40
+      reason = `Same ATC ${ATC_LEVEL_NAMES[level]} (${describeAtcGroup(target.atcCode, level)})`
+    } else {
+      // No ATC code to go on: the pharmacy's own category is the only signal
+      if (target.category.toLowerCase() !== candidate.category.toLowerCase()) return { similarity: 0, reason: '' }
+
+      similarity = 35
+      reason = `Same category (${candidate.category}) - add ATC codes to confirm the therapeutic class`
     }
 
-    // Similar naming patterns (generic names)
-    if (this.haveSimilarNames(target.genericName, candidate.genericName)) {
-      similarity += 15
+    // Same dosage form bonus
+    if (target.dosageForm.toLowerCase() === candidate.dosageForm.toLowerCase()) {
+      similarity += 10
     }
 
-    return Math.min(similarity, 75) // Cap at 75 for similar matches
+    return { similarity: Math.min(similarity, 75), reason } // Cap at 75 for similar matches
   }
 
   /**
@@ -195,8 +272,8 @@ export class SubstitutionEngine {
 
     const applicableRules = this.substitutionRules.filter(rule =>
       rule.isActive &&
-      rule.activeMolecule.toLowerCase() === target.activeMolecule.toLowerCase() &&
-      rule.dosage === target.dosage &&
+      ingredientSetKey(splitIngredientNames(rule.activeMolecule).map(name => ({ name, strength: '' }))) === ingredientSetOf(target) &&
+      isSameStrength(rule.dosage, target.dosage) &&
       rule.dosageForm.toLowerCase() === target.dosageForm.toLowerCase()
     )
 
@@ -221,50 +298,17 @@ export class SubstitutionEngine {
   }
 
   /**
-   * Parse strength from dosage string (e.g., "500mg" → 500)
-   */
-  private parseStrength(dosage: string): number | null {
-    const match = dosage.match(/(\d+(?:\.\d+)?)\s*(mg|g|ml|mcg|µg)/i)
-    if (!match) return null
-
-    let value = parseFloat(match[1])
-    const unit = match[2].toLowerCase()
-
-    // Convert to mg for standardization
-    switch (unit) {
-      case 'g': value *= 1000; break
-      case 'mcg':
-      case 'µg': value /= 1000; break
-      case 'ml': break // Assume 1ml = 1mg for liquids (approximation)
-      default: break // mg stays as is
-    }
-
-    return value
-  }
-
-  /**
-   * Check if two names are similar
-   */
-  private haveSimilarNames(name1: string, name2: string): boolean {
-    const clean1 = name1.toLowerCase().replace(/[^a-z]/g, '')
-    const clean2 = name2.toLowerCase().replace(/[^a-z]/g, '')
-    
-    // Simple similarity check - could be enhanced with Levenshtein distance
-    return clean1.includes(clean2.substring(0, 4)) || clean2.includes(clean1.substring(0, 4))
-  }
-
-  /**
-   * Remove duplicates and sort by confidence
+   * Remove duplicates, keeping the most confident suggestion for each drug, and sort by confidence
    */
   private deduplicateAndSort(suggestions: SubstitutionSuggestion[]): SubstitutionSuggestion[] {
     const seen = new Set<string>()
-    const unique = suggestions.filter(suggestion => {
-      if (seen.has(suggestion.drug.id)) return false
-      seen.add(suggestion.drug.id)
-      return true
-    })
-
-    return unique.sort((a, b) => b.confidence - a.confidence)
+    return [...suggestions]
+      .sort((a, b) => b.confidence - a.confidence)
+      .filter(suggestion => {
+        if (seen.has(suggestion.drug.id)) return false
+        seen.add(suggestion.drug.id)
+        return true
+      })
   }
 
   /**
@@ -0,0 +1,65 @@
+import { SubstitutionMatchType, SubstitutionRecord, SubstitutionSuggestion } from '../types/pharmacy'
+import { createRepository, Repository } from './repository'
+import { Actor } from './permissions'
+
+export interface SubstitutionLogFilters {
+  text: string
+  matchType: SubstitutionMatchType | ''
+  /** Inclusive YYYY-MM-DD bounds on the date recorded */
+  from: string
+  to: string
+}
+
+/**
+ * Everything the pharmacist must confirm before dispensing a substitute:
+ * the engine's warnings plus any dose adjustment
+ */
+export function requiredAcknowledgements(suggestion: SubstitutionSuggestion): string[] {
+  return [
+    ...(suggestion.warnings ?? []),
+    ...(suggestion.dosageAdjustment ? [`Dosage adjustment: ${suggestion.dosageAdjustment}`] : [])
+  ]
+}
+
+export function searchSubstitutions(records: SubstitutionRecord[], filters: SubstitutionLogFilters): SubstitutionRecord[] {
+  const text = filters.text.trim().toLowerCase()
+
+  return records.filter(record => {
+    const day = record.recordedAt.split('T')[0]
+    if (filters.from && day < filters.from) return false
+    if (filters.to && day > filters.to) return false
+    if (filters.matchType && record.matchType !== filters.matchType) return false
+    if (!text) return true
+
+    return [
+      record.originalDrugName,
+      record.substituteDrugName,
+      record.patientRef,
+      record.prescriptionRef,
+      record.pharmacist,
+      record.recordedBy,
+      record.reason
+    ].some(value => value?.toLowerCase().includes(text))
+  })
+}
+
+/**
+ * Append-only log of substitutions, kept as evidence of why a patient received
+ * a different product from the one prescribed
+ */
+export class SubstitutionLog {
+  private records: Repository<SubstitutionRecord>
+
+  constructor(records: Repository<SubstitutionRecord> = createRepository('substitutions')) {
+    this.records = records
+  }
+
+  async record(entry: SubstitutionRecord): Promise<SubstitutionRecord> {
+    return this.records.create(entry)
+  }
+
+  async list(actor: Actor): Promise<SubstitutionRecord[]> {
+    const records = await this.records.list(actor.userId)
+    return records.sort((a, b) => b.recordedAt.localeCompare(a.recordedAt))
+  }
+}
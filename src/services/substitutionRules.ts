@@ -0,0 +1,79 @@
+import { SubstitutionRule } from '../types/pharmacy'
+import { createId } from '../lib/utils'
+import { createRepository, Repository } from './repository'
+import { Actor, requirePermission } from './permissions'
+
+export type SubstitutionRuleDraft = Pick<
+  SubstitutionRule,
+  'activeMolecule' | 'dosage' | 'dosageForm' | 'equivalentDrugs' | 'substitutionRatio' | 'notes'
+>
+
+/**
+ * Check a rule before it is saved. Returns a message describing the first problem found.
+ */
+export function validateSubstitutionRule(rule: SubstitutionRuleDraft): string | null {
+  if (!rule.activeMolecule.trim() || !rule.dosage.trim() || !rule.dosageForm.trim()) {
+    return 'Active molecule, dosage and dosage form are required'
+  }
+  if (rule.equivalentDrugs.length === 0) {
+    return 'Choose at least one equivalent drug'
+  }
+  if (!Number.isFinite(rule.substitutionRatio) || rule.substitutionRatio <= 0) {
+    return 'Substitution ratio must be greater than zero'
+  }
+  return null
+}
+
+/**
+ * Pharmacy-approved substitution rules. Anyone can read them so every
+ * SubstitutionEngine sees the same rules; changing them needs rules.manage.
+ */
+export class SubstitutionRuleBook {
+  private rules: Repository<SubstitutionRule>
+
+  constructor(rules: Repository<SubstitutionRule> = createRepository('rules')) {
+    this.rules = rules
+  }
+
+  async list(actor: Actor): Promise<SubstitutionRule[]> {
+    return this.rules.list(actor.userId)
+  }
+
+  async create(draft: SubstitutionRuleDraft, actor: Actor): Promise<SubstitutionRule> {
+    requirePermission(actor, 'rules.manage')
+
+    const problem = validateSubstitutionRule(draft)
+    if (problem) throw new Error(problem)
+
+    const now = new Date().toISOString()
+    return this.rules.create({
+      ...draft,
+      id: createId('rule'),
+      activeMolecule: draft.activeMolecule.trim(),
+      dosage: draft.dosage.trim(),
+      dosageForm: draft.dosageForm.trim(),
+      notes: draft.notes?.trim() || undefined,
+      isActive: true,
+      createdAt: now,
+      updatedAt: now,
+      userId: actor.userId
+    })
+  }
+
+  async update(id: string, changes: Partial<SubstitutionRuleDraft & Pick<SubstitutionRule, 'isActive'>>, actor: Actor): Promise<SubstitutionRule> {
+    requirePermission(actor, 'rules.manage')
+
+    const current = await this.rules.get(actor.userId, id)
+    if (!current) throw new Error('Substitution rule not found')
+
+    const problem = validateSubstitutionRule({ ...current, ...changes })
+    if (problem) throw new Error(problem)
+
+    return this.rules.update(actor.userId, id, { ...changes, updatedAt: new Date().toISOString() })
+  }
+
+  async delete(id: string, actor: Actor): Promise<void> {
+    requirePermission(actor, 'rules.manage')
+    await this.rules.delete(actor.userId, id)
+  }
+}
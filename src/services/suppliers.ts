@@ -0,0 +1,120 @@
+import { Drug, Supplier, SupplierPrice } from '../types/pharmacy'
+import { createId } from '../lib/utils'
+import { createRepository, Repository } from './repository'
+import { Actor, requirePermission } from './permissions'
+
+export type SupplierDraft = Pick<Supplier,
+  'name' | 'contactName' | 'email' | 'phone' | 'accountNumber' | 'leadTimeDays' | 'minimumOrderValue' | 'notes'>
+
+/**
+ * Check a supplier before it is saved. Returns a message describing the first problem found.
+ */
+export function validateSupplier(draft: SupplierDraft, existing: Supplier[] = [], id?: string): string | null {
+  const name = draft.name.trim()
+  if (!name) return 'Enter the supplier name'
+  if (existing.some(supplier => supplier.id !== id && supplier.name.toLowerCase() === name.toLowerCase())) {
+    return `${name} is already in the supplier directory`
+  }
+
+  const email = draft.email?.trim()
+  if (email && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) return 'Enter a valid email address'
+
+  if (draft.leadTimeDays !== undefined && (!Number.isInteger(draft.leadTimeDays) || draft.leadTimeDays < 0)) {
+    return 'Lead time must be a whole number of days'
+  }
+  if (draft.minimumOrderValue !== undefined && !(draft.minimumOrderValue >= 0)) {
+    return 'Minimum order value cannot be negative'
+  }
+  return null
+}
+
+/** Cost of a single unit at this price */
+export const unitCost = (price: SupplierPrice) => price.packPrice / price.packSize
+
+export function findSupplierByName(suppliers: Supplier[], name: string | undefined): Supplier | undefined {
+  const key = name?.trim().toLowerCase()
+  return key ? suppliers.find(supplier => supplier.name.toLowerCase() === key) : undefined
+}
+
+/**
+ * The cheapest price per unit on a drug's price list, ignoring suppliers no
+ * longer in the directory
+ */
+export function cheapestSupplierPrice(drug: Drug, suppliers: Supplier[]): { supplier: Supplier, price: SupplierPrice } | undefined {
+  let cheapest: { supplier: Supplier, price: SupplierPrice } | undefined
+  for (const price of drug.supplierPrices ?? []) {
+    const supplier = suppliers.find(candidate => candidate.id === price.supplierId)
+    if (supplier && (!cheapest || unitCost(price) < unitCost(cheapest.price))) cheapest = { supplier, price }
+  }
+  return cheapest
+}
+
+/**
+ * Everyone a drug can be bought from: its price list plus the suppliers of its batches
+ */
+export function drugSupplierNames(drug: Drug, suppliers: Supplier[]): string[] {
+  const listed = (drug.supplierPrices ?? [])
+    .map(price => suppliers.find(supplier => supplier.id === price.supplierId)?.name)
+  const delivered = drug.batches.map(batch => batch.supplier?.trim())
+  return [...new Set([...listed, ...delivered].filter((name): name is string => !!name))]
+}
+
+const cleanDraft = (draft: SupplierDraft): SupplierDraft => ({
+  name: draft.name.trim(),
+  contactName: draft.contactName?.trim() || undefined,
+  email: draft.email?.trim() || undefined,
+  phone: draft.phone?.trim() || undefined,
+  accountNumber: draft.accountNumber?.trim() || undefined,
+  leadTimeDays: draft.leadTimeDays,
+  minimumOrderValue: draft.minimumOrderValue,
+  notes: draft.notes?.trim() || undefined
+})
+
+/**
+ * The suppliers the pharmacy orders from. Managed by staff with orders.manage.
+ */
+export class SupplierDirectory {
+  private suppliers: Repository<Supplier>
+
+  constructor(suppliers: Repository<Supplier> = createRepository('suppliers')) {
+    this.suppliers = suppliers
+  }
+
+  async list(actor: Actor): Promise<Supplier[]> {
+    const suppliers = await this.suppliers.list(actor.userId)
+    return suppliers.sort((a, b) => a.name.localeCompare(b.name))
+  }
+
+  async create(draft: SupplierDraft, actor: Actor): Promise<Supplier> {
+    requirePermission(actor, 'orders.manage')
+
+    const problem = validateSupplier(draft, await this.suppliers.list(actor.userId))
+    if (problem) throw new Error(problem)
+
+    const now = new Date().toISOString()
+    return this.suppliers.create({
+      id: createId('supplier'),
+      ...cleanDraft(draft),
+      createdAt: now,
+      updatedAt: now,
+      userId: actor.userId
+    })
+  }
+
+  async update(id: string, draft: SupplierDraft, actor: Actor): Promise<Supplier> {
+    requirePermission(actor, 'orders.manage')
+
+    const problem = validateSupplier(draft, await this.suppliers.list(actor.userId), id)
+    if (problem) throw new Error(problem)
+
+    return this.suppliers.update(actor.userId, id, {
+      ...cleanDraft(draft),
+      updatedAt: new Date().toISOString()
+    })
+  }
+
+  async delete(id: string, actor: Actor): Promise<void> {
+    requirePermission(actor, 'orders.manage')
+    await this.suppliers.delete(actor.userId, id)
+  }
+}
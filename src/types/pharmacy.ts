@@ -3,27 +3,72 @@ export interface Drug {
   name: string
   genericName: string
   brandName: string
-  activeMolecule: string
-  dosage: string
+  activeMolecule: string // display summary, e.g. "Amoxicillin + Clavulanic Acid"
+  dosage: string // display summary, e.g. "500mg/125mg"
+  ingredients?: ActiveIngredient[] // per-ingredient strengths; derived from activeMolecule/dosage when absent
   dosageForm: string // tablet, capsule, syrup, injection, etc.
   strength: string
   manufacturer: string
   barcode?: string
   category: string
+  atcCode?: string // WHO ATC code, e.g. "N02BE01"
+  therapeuticClass?: string // e.g. "Analgesic", "Antibiotic"
+  description?: string
+  allergens?: string[] // allergy tags for ingredient classes and excipients, e.g. "penicillin", "lactose", "gelatin"
+  contraindications?: string[] // conditions the drug should not be given with, e.g. "asthma", "peptic ulcer"
+  sideEffects?: string
   isControlled: boolean
   requiresPrescription: boolean
-  expiryDate?: string
-  batchNumber?: string
-  stockLevel: number
+  stockLevel: number // always the sum of batch quantities
+  batches: StockBatch[]
+  ledgerVariance?: number // set on load when the ledger's total differs from stockLevel; never saved
   minStockLevel: number
   maxStockLevel: number
   unitPrice: number
+  packSize?: number // units per pack when ordering from the supplier; 1 when absent
+  leadTimeDays?: number // days from placing an order to delivery; overrides the supplier's
+  location?: string // shelf or bay the stock is kept on, e.g. "B3"; used for stock-take count sheets
+  supplierPrices?: SupplierPrice[]
   isCustom: boolean // true if added by pharmacy, false if from pre-loaded database
   createdAt: string
   updatedAt: string
   userId: string
 }
 
+export interface ActiveIngredient {
+  name: string
+  strength: string // e.g. "500mg" or "125mg/5ml"
+}
+
+/** One node of the WHO Anatomical Therapeutic Chemical classification */
+export interface AtcEntry {
+  code: string
+  name: string
+}
+
+export interface StockBatch {
+  id: string
+  batchNumber: string
+  expiryDate: string // YYYY-MM-DD, empty when unknown
+  quantity: number
+  receivedDate: string
+  supplier?: string
+  recallId?: string // quarantined under this recall: kept on the books until returned, never dispensed or substituted
+  hold?: BatchHold // set aside by hand; absent for stock that is free to sell
+  holdReason?: string
+  openingBalance?: boolean // stock on hand from before batches were tracked; its lot and expiry are unknown
+}
+
+/**
+ * What a batch's units can be used for. Only sellable stock is dispensed or
+ * offered as a substitute; stock in every other state still counts towards
+ * stock levels and valuation.
+ */
+export type StockState = 'sellable' | 'quarantined' | 'damaged' | 'expired' | 'recalled' | 'reserved'
+
+/** States set on a batch by hand; expired follows from the expiry date and recalled from a recall notice */
+export type BatchHold = Extract<StockState, 'quarantined' | 'damaged' | 'reserved'>
+
 export interface SubstitutionRule {
   id: string
   activeMolecule: string
@@ -34,14 +79,17 @@ export interface SubstitutionRule {
   notes?: string
   isActive: boolean
   createdAt: string
+  updatedAt?: string
   userId: string
 }
 
+export type TransactionType = 'add' | 'remove' | 'adjust' | 'dispense' | 'expire' | 'recall' | 'destroy'
+
 export interface InventoryTransaction {
   id: string
   drugId: string
-  type: 'add' | 'remove' | 'adjust' | 'dispense' | 'expire' | 'recall'
-  quantity: number
+  type: TransactionType
+  quantity: number // signed change in stock: positive for receipts, negative for outflows
   previousStock: number
   newStock: number
   reason: string
@@ -49,18 +97,300 @@ export interface InventoryTransaction {
   expiryDate?: string
   userId: string
   userRole: string
+  performedBy: string // display name or email of the person who made the change
   timestamp: string
 }
 
+export interface DispensedBatch {
+  batchNumber: string
+  expiryDate: string
+  quantity: number
+}
+
+export interface DispenseRecord {
+  id: string
+  drugId: string
+  drugName: string
+  dosage: string
+  dosageForm: string
+  quantity: number
+  prescriptionRef?: string
+  patientRef?: string
+  prescriber?: string // recorded for controlled substances
+  pharmacist: string // pharmacist responsible for the supply
+  directions?: string
+  substitutedForDrugId?: string
+  acknowledgedInteractions?: string[] // interactions with other items on the prescription, confirmed before supply
+  patientId?: string // patient profile screened before supply
+  acknowledgedContraindications?: string[] // screening warnings for the patient's conditions, confirmed before supply
+  batches: DispensedBatch[]
+  transactionIds: string[]
+  dispensedBy: string // staff member who handed the medicine out
+  dispensedAt: string
+  userId: string
+}
+
+/** A second staff member who confirmed a controlled-drug entry with their PIN */
+export interface Witness {
+  staffId: string
+  name: string
+  signature: string // issued by signAsWitness once the PIN is checked; expires after a few minutes
+}
+
+export type ControlledEntryType = 'receipt' | 'dispense' | 'return' | 'destruction' | 'adjustment'
+
+/**
+ * One line of a drug's controlled-drugs register. Entries are append-only and
+ * chained by hash so later edits can be detected.
+ */
+export interface ControlledRegisterEntry {
+  id: string
+  drugId: string
+  drugName: string
+  strength: string // dosage and form, e.g. "10mg Tablet"
+  sequence: number // line number in this drug's register, from 1
+  type: ControlledEntryType
+  quantity: number // signed change in stock
+  balance: number // running balance after the entry
+  batchNumbers: string[]
+  supplier?: string
+  prescriber?: string
+  prescriptionRef?: string
+  patientRef?: string
+  reason: string
+  enteredBy: string
+  enteredByStaffId: string
+  witnessedBy: string
+  witnessStaffId: string
+  transactionIds: string[]
+  recordedAt: string
+  previousHash: string // hash of the drug's previous entry; empty for the first
+  hash: string
+  userId: string
+}
+
 export interface SubstitutionSuggestion {
   drug: Drug
-  matchType: 'exact' | 'equivalent' | 'similar'
+  matchType: 'exact' | 'equivalent' | 'partial' | 'similar'
   confidence: number // 0-100
   reason: string
   dosageAdjustment?: string
   warnings?: string[]
 }
 
+export type SubstitutionMatchType = SubstitutionSuggestion['matchType']
+
+/**
+ * Audit entry written whenever a substitute is dispensed in place of the requested drug
+ */
+export interface SubstitutionRecord {
+  id: string
+  originalDrugId: string
+  originalDrugName: string
+  originalStrength: string // dosage and form, e.g. "500mg Tablet"
+  substituteDrugId: string
+  substituteDrugName: string
+  substituteStrength: string
+  matchType: SubstitutionMatchType
+  confidence: number
+  reason: string
+  dosageAdjustment?: string
+  acknowledgedWarnings: string[] // every warning shown, confirmed by the pharmacist before dispensing
+  dispenseId: string
+  quantity: number
+  prescriptionRef?: string
+  patientRef?: string
+  pharmacist: string
+  recordedBy: string
+  recordedAt: string
+  userId: string
+}
+
+export type InteractionSeverity = 'minor' | 'moderate' | 'major' | 'contraindicated'
+
+/** A known interaction between two active ingredients */
+export interface DrugInteraction {
+  id: string
+  moleculeA: string
+  moleculeB: string
+  severity: InteractionSeverity
+  mechanism: string
+  advice: string
+  userId: string // 'system' for the bundled table, else the pharmacy account that loaded it
+}
+
+/** A patient's allergies and conditions, screened against every item dispensed to them */
+export interface PatientProfile {
+  id: string
+  reference: string // the patient ref recorded on dispenses, e.g. NHS number
+  name: string
+  dateOfBirth?: string // YYYY-MM-DD
+  allergies: string[] // molecules, drug classes or excipients, e.g. "penicillin", "lactose"
+  conditions: string[] // e.g. "asthma", "pregnancy", "renal impairment"
+  notes?: string
+  createdAt: string
+  updatedAt: string
+  userId: string
+}
+
+/** A wholesaler or manufacturer the pharmacy buys from */
+export interface Supplier {
+  id: string
+  name: string
+  contactName?: string
+  email?: string
+  phone?: string
+  accountNumber?: string // the pharmacy's account number with the supplier
+  leadTimeDays?: number
+  minimumOrderValue?: number
+  notes?: string
+  createdAt: string
+  updatedAt: string
+  userId: string
+}
+
+/** What one supplier charges for a drug */
+export interface SupplierPrice {
+  supplierId: string
+  packSize: number
+  packPrice: number
+}
+
+export type PurchaseOrderStatus = 'draft' | 'approved' | 'partially_received' | 'received' | 'cancelled'
+
+export interface PurchaseOrderLine {
+  drugId: string
+  drugName: string
+  dosage: string
+  dosageForm: string
+  packSize: number
+  quantity: number // units ordered, a whole number of packs
+  unitPrice: number
+  receivedQuantity?: number // units accepted into stock so far
+}
+
+/** An order to one supplier, drafted from reorder suggestions and approved before it is sent */
+export interface PurchaseOrder {
+  id: string
+  reference: string // e.g. "PO-20260314-0003"
+  supplier: string
+  supplierId?: string // absent when ordering from a supplier not in the directory
+  status: PurchaseOrderStatus
+  lines: PurchaseOrderLine[]
+  notes?: string
+  createdBy: string
+  createdAt: string
+  updatedAt: string
+  approvedBy?: string
+  approvedAt?: string
+  userId: string
+}
+
+export interface GoodsReceiptLine {
+  drugId: string
+  drugName: string
+  batchNumber: string
+  expiryDate: string
+  quantity: number // units accepted into stock
+  damagedQuantity: number // units delivered damaged and not put into stock
+}
+
+/** A delivery checked in against a purchase order */
+export interface GoodsReceipt {
+  id: string
+  orderId: string
+  orderReference: string
+  supplier: string
+  lines: GoodsReceiptLine[]
+  discrepancies: string[] // short, over and damaged deliveries flagged at check-in
+  notes?: string
+  transactionIds: string[]
+  receivedBy: string
+  receivedAt: string
+  userId: string
+}
+
+export type RecallSeverity = 'class_1' | 'class_2' | 'class_3' | 'class_4'
+
+export type RecallStatus = 'open' | 'closed' | 'cancelled'
+
+/** Recalled stock sent back to the supplier */
+export interface RecallReturn {
+  drugId: string
+  drugName: string
+  batchNumber: string
+  quantity: number
+  transactionIds: string[]
+  returnedBy: string
+  returnedAt: string
+}
+
+/** A manufacturer or regulator recall of specific batches of a product */
+export interface RecallNotice {
+  id: string
+  reference: string // the notice's own reference, e.g. "EL (26)A/12"
+  product: string // molecule or product name, matched against the catalogue
+  manufacturer?: string
+  batchNumbers: string[]
+  severity: RecallSeverity
+  description?: string
+  status: RecallStatus
+  returns: RecallReturn[]
+  createdBy: string
+  createdAt: string
+  updatedAt: string
+  closedAt?: string
+  userId: string
+}
+
+export type StockTakeStatus = 'counting' | 'posted' | 'cancelled'
+
+/** Why a counted quantity differs from the system */
+export type VarianceReason = 'count_error' | 'damaged' | 'expired' | 'theft' | 'dispensing_error' | 'receiving_error' | 'unexplained'
+
+/** Which part of the inventory a stock-take covers; everything when both are absent */
+export interface StockTakeScope {
+  category?: string
+  location?: string
+}
+
+/** One batch on a count sheet */
+export interface StockTakeLine {
+  key: string // unique within the sheet
+  drugId: string
+  drugName: string
+  dosage: string
+  dosageForm: string
+  location?: string
+  batchNumber: string // empty for items with no stock on the system
+  expiryDate: string
+  expectedQuantity: number // batch quantity when the sheet was generated
+  countedQuantity?: number // absent until counted
+  unitPrice: number
+  isControlled: boolean
+  foundOnShelf?: boolean // a lot counted that the system did not know about
+  reasonCode?: VarianceReason
+  approved?: boolean // variance accepted for posting
+  transactionIds?: string[] // set once the variance is posted
+}
+
+/** A periodic count of physical stock, reconciled against the system */
+export interface StockTake {
+  id: string
+  reference: string // e.g. "ST-20260314-0001"
+  scope: StockTakeScope
+  status: StockTakeStatus
+  lines: StockTakeLine[]
+  notes?: string
+  startedBy: string
+  startedAt: string
+  updatedAt: string
+  postedBy?: string
+  postedAt?: string
+  witnessedBy?: string // for adjustments to controlled drugs
+  userId: string
+}
+
 export type UserRole = 'admin' | 'pharmacist' | 'assistant'
 
 export interface PharmacyUser {
@@ -68,7 +398,11 @@ export interface PharmacyUser {
   email: string
   name: string
   role: UserRole
-  permissions: string[]
+  grantedPermissions?: string[] // given on top of the role's permissions
+  revokedPermissions?: string[] // taken away from the role's permissions
+  permissions?: string[] // full list saved by earlier versions; turned into grants and revocations on load
+  pinHash?: string // SHA-256 of the staff member's PIN, required to switch to them
   isActive: boolean
   createdAt: string
+  userId: string // pharmacy account the staff profile belongs to
 }
\ No newline at end of file
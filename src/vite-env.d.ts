@@ -1 +1,17 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_STORAGE_BACKEND?: 'indexeddb' | 'blink'
+}
+
+/** Shape Detection API barcode decoder (Chromium, Android WebView) */
+interface DetectedBarcode {
+  rawValue: string
+  format: string
+}
+
+declare class BarcodeDetector {
+  constructor(options?: { formats: string[] })
+  static getSupportedFormats(): Promise<string[]>
+  detect(source: CanvasImageSource): Promise<DetectedBarcode[]>
+}